@@ -0,0 +1,414 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import HoneypotField from "@/components/HoneypotField";
+import { ANSWER_LIMITS, HONEYPOT_FIELD } from "@/lib/spam";
+import type { Question } from "./questions";
+
+// ═══════════════════════════════════════════════════════════════════
+// ANSWER WRITER MODAL - iA Writer Inspired Focus Mode
+// ═══════════════════════════════════════════════════════════════════
+
+interface AnswerWriterModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  question: string;
+}
+
+export default function AnswerWriterModal({ isOpen, onClose, question }: AnswerWriterModalProps) {
+  const [answer, setAnswer] = useState("");
+  const [focusMode, setFocusMode] = useState(true);
+  const [cursorPosition, setCursorPosition] = useState(0);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [wordCount, setWordCount] = useState(0);
+  const [charCount, setCharCount] = useState(0);
+  const [readTime, setReadTime] = useState(0);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitStatus, setSubmitStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  const [submitError, setSubmitError] = useState("");
+  const [authorName, setAuthorName] = useState("");
+  const [honeypot, setHoneypot] = useState("");
+
+  useEffect(() => {
+    const words = answer.trim().split(/\s+/).filter(w => w.length > 0);
+    setWordCount(words.length);
+    setCharCount(answer.length);
+    setReadTime(Math.ceil(words.length / 200)); // 200 wpm reading speed
+  }, [answer]);
+
+  useEffect(() => {
+    if (isOpen && textareaRef.current) {
+      setTimeout(() => textareaRef.current?.focus(), 100);
+    }
+  }, [isOpen]);
+
+  // Escape key to close
+  useEffect(() => {
+    const handleEsc = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleEsc);
+    return () => window.removeEventListener('keydown', handleEsc);
+  }, [onClose]);
+
+  const handleTextChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setAnswer(e.target.value);
+    setCursorPosition(e.target.selectionStart);
+  };
+
+  const handleKeyUp = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    setCursorPosition(e.currentTarget.selectionStart);
+  };
+
+  const handleSelect = () => {
+    if (textareaRef.current) {
+      setCursorPosition(textareaRef.current.selectionStart);
+    }
+  };
+
+  // iA Writer style: focus on current sentence (dim everything else)
+  const renderFocusText = () => {
+    if (!focusMode || !answer) return null;
+    
+    // Split into sentences for better focus
+    const parts = answer.split(/(\s+)/);
+    let runningLength = 0;
+    
+    return parts.map((part, index) => {
+      const partStart = runningLength;
+      const partEnd = runningLength + part.length;
+      runningLength += part.length;
+      
+      // Calculate distance from cursor
+      const distanceFromCursor = Math.min(
+        Math.abs(cursorPosition - partStart),
+        Math.abs(cursorPosition - partEnd)
+      );
+      
+      // iA Writer style: focused area is 40 chars around cursor
+      const focusRange = 40;
+      let opacity = 0.2;
+      
+      if (distanceFromCursor <= focusRange) {
+        // Smooth gradient from full opacity to dim
+        opacity = 1 - (distanceFromCursor / focusRange) * 0.8;
+      }
+      
+      return (
+        <span 
+          key={index}
+          style={{ 
+            opacity,
+            transition: 'opacity 0.15s ease-out',
+          }}
+        >
+          {part}
+        </span>
+      );
+    });
+  };
+
+  const handleSave = async () => {
+    if (!answer.trim() || !authorName.trim()) return;
+    
+    setIsSubmitting(true);
+    setSubmitStatus('idle');
+    
+    try {
+      const colors = ['gold', 'sage', 'stone', 'amber', 'bronze'];
+      const randomColor = colors[Math.floor(Math.random() * colors.length)];
+      
+      const res = await fetch('/api/answers', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          question,
+          answer: answer.trim(),
+          author: authorName.trim(),
+          color: randomColor,
+          [HONEYPOT_FIELD]: honeypot,
+        }),
+      });
+      
+      if (res.ok) {
+        setSubmitStatus('success');
+        // Wait for user to see success message before closing
+        setTimeout(() => {
+          onClose();
+          setAnswer("");
+          setAuthorName("");
+          setSubmitStatus('idle');
+        }, 2500);
+      } else {
+        const data = await res.json().catch(() => null);
+        setSubmitError(data?.error || "");
+        setSubmitStatus('error');
+      }
+    } catch (error) {
+      console.error('Failed to submit answer:', error);
+      setSubmitError("");
+      setSubmitStatus('error');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        transition={{ duration: 0.3 }}
+        className="fixed inset-0 z-[100]"
+        style={{ backgroundColor: 'var(--bg-primary)' }}
+      >
+        {/* iA Writer style: Minimal top bar */}
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+          className="fixed top-0 left-0 right-0 z-10"
+        >
+          <div className="max-w-3xl mx-auto px-6 py-4 flex items-center justify-between">
+            {/* Close button - minimal */}
+            <button
+              onClick={onClose}
+              className="flex items-center gap-2 text-sm transition-opacity hover:opacity-100"
+              style={{ color: 'var(--text-muted)', opacity: 0.6 }}
+            >
+              <span>←</span>
+              <span className="hidden sm:inline">esc to close</span>
+            </button>
+            
+            {/* Focus mode indicator */}
+            <button
+              onClick={() => setFocusMode(!focusMode)}
+              className="flex items-center gap-2 px-3 py-1.5 rounded-full text-xs tracking-wider uppercase transition-all"
+              style={{ 
+                backgroundColor: focusMode ? 'var(--accent-gold-dim)' : 'transparent',
+                color: focusMode ? 'var(--accent-gold)' : 'var(--text-muted)',
+                border: focusMode ? '1px solid var(--accent-gold)' : '1px solid transparent',
+                opacity: focusMode ? 1 : 0.6,
+              }}
+            >
+              <motion.div
+                className="w-1.5 h-1.5 rounded-full"
+                style={{ backgroundColor: focusMode ? 'var(--accent-gold)' : 'var(--text-muted)' }}
+                animate={focusMode ? { scale: [1, 1.3, 1] } : {}}
+                transition={{ duration: 2, repeat: Infinity }}
+              />
+              <span>Focus</span>
+            </button>
+          </div>
+        </motion.div>
+
+        {/* Main writing area - centered like iA Writer */}
+        <div className="min-h-screen flex flex-col items-center justify-center px-6 py-24">
+          <div className="w-full max-w-2xl">
+            
+            {/* Question prompt - subtle, above */}
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.2 }}
+              className="mb-12 text-center"
+            >
+              <p 
+                className="text-xs tracking-[0.2em] uppercase mb-3"
+                style={{ color: 'var(--accent-gold)', opacity: 0.7 }}
+              >
+                contemplating
+              </p>
+              <h1 
+                className="text-xl sm:text-2xl font-light leading-relaxed"
+                style={{ color: 'var(--text-secondary)' }}
+              >
+                {question}
+              </h1>
+            </motion.div>
+
+            {/* Writing area */}
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              transition={{ delay: 0.3 }}
+              className="relative min-h-[50vh]"
+            >
+              {/* Focus mode overlay text - iA Writer style typography */}
+              {focusMode && answer && (
+                <div 
+                  className="absolute inset-0 pointer-events-none leading-[1.8] text-xl sm:text-2xl"
+                  style={{ 
+                    color: 'var(--text-primary)',
+                    fontFamily: 'var(--font-mono)',
+                    letterSpacing: '-0.01em',
+                  }}
+                >
+                  {renderFocusText()}
+                </div>
+              )}
+
+              {/* Actual textarea */}
+              <textarea
+                ref={textareaRef}
+                value={answer}
+                onChange={handleTextChange}
+                onKeyUp={handleKeyUp}
+                onSelect={handleSelect}
+                onClick={handleSelect}
+                placeholder="Begin writing..."
+                maxLength={ANSWER_LIMITS.answer.max}
+                className="w-full min-h-[50vh] bg-transparent border-none outline-none resize-none leading-[1.8] text-xl sm:text-2xl"
+                style={{ 
+                  color: focusMode && answer ? 'transparent' : 'var(--text-primary)',
+                  caretColor: 'var(--accent-gold)',
+                  fontFamily: 'var(--font-mono)',
+                  letterSpacing: '-0.01em',
+                }}
+              />
+            </motion.div>
+          </div>
+        </div>
+
+        {/* Bottom bar - iA Writer style stats */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.4 }}
+          className="fixed bottom-0 left-0 right-0"
+          style={{ backgroundColor: 'var(--bg-primary)' }}
+        >
+          {/* Success Message Overlay */}
+          <AnimatePresence>
+            {submitStatus === 'success' && (
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -20 }}
+                className="absolute inset-0 flex items-center justify-center"
+                style={{ backgroundColor: 'var(--bg-primary)' }}
+              >
+                <div className="text-center">
+                  <motion.div
+                    initial={{ scale: 0 }}
+                    animate={{ scale: 1 }}
+                    transition={{ type: 'spring', damping: 15 }}
+                    className="text-4xl mb-3"
+                  >
+                    ✓
+                  </motion.div>
+                  <p className="text-sm" style={{ color: 'var(--accent-gold)' }}>
+                    Your reflection has been submitted
+                  </p>
+                  <p className="text-xs mt-1" style={{ color: 'var(--text-muted)' }}>
+                    Pending approval before appearing on the Board of Collective
+                  </p>
+                </div>
+              </motion.div>
+            )}
+          </AnimatePresence>
+
+          {/* Error Message */}
+          <AnimatePresence>
+            {submitStatus === 'error' && (
+              <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                className="absolute top-0 left-0 right-0 text-center py-2 text-xs"
+                style={{ backgroundColor: 'rgba(239,68,68,0.1)', color: '#ef4444' }}
+              >
+                {submitError || "Failed to submit. Please try again."}
+              </motion.div>
+            )}
+          </AnimatePresence>
+
+          <div className="max-w-3xl mx-auto px-6 py-4 flex items-center justify-between">
+            {/* Stats - left side */}
+            <div className="flex items-center gap-6 text-xs" style={{ color: 'var(--text-muted)' }}>
+              <div className="flex items-center gap-1.5">
+                <span className="font-mono tabular-nums text-sm" style={{ color: 'var(--text-secondary)' }}>
+                  {wordCount}
+                </span>
+                <span className="opacity-60">words</span>
+              </div>
+              <div className="flex items-center gap-1.5">
+                <span className="font-mono tabular-nums text-sm" style={{ color: 'var(--text-secondary)' }}>
+                  {charCount}
+                </span>
+                <span className="opacity-60">chars</span>
+              </div>
+              {readTime > 0 && (
+                <div className="flex items-center gap-1.5">
+                  <span className="font-mono tabular-nums text-sm" style={{ color: 'var(--text-secondary)' }}>
+                    {readTime}
+                  </span>
+                  <span className="opacity-60">min read</span>
+                </div>
+              )}
+            </div>
+
+            {/* Author input & Save button - right side */}
+            <div className="flex items-center gap-3">
+              <HoneypotField value={honeypot} onChange={setHoneypot} />
+              <input
+                type="text"
+                value={authorName}
+                onChange={(e) => setAuthorName(e.target.value)}
+                maxLength={ANSWER_LIMITS.author.max}
+                placeholder="Your name"
+                className="px-3 py-1.5 rounded-lg text-sm bg-transparent outline-none"
+                style={{ 
+                  border: '1px solid var(--border-primary)',
+                  color: 'var(--text-secondary)',
+                  width: '140px',
+                }}
+              />
+              <motion.button
+                onClick={handleSave}
+                disabled={!answer.trim() || !authorName.trim() || isSubmitting}
+                className="flex items-center gap-2 px-5 py-2 rounded-full text-sm transition-all disabled:opacity-30"
+                style={{ 
+                  backgroundColor: answer.trim() && authorName.trim() ? 'var(--accent-gold)' : 'var(--bg-elevated)',
+                  color: answer.trim() && authorName.trim() ? 'var(--bg-primary)' : 'var(--text-muted)',
+                }}
+                whileHover={answer.trim() && authorName.trim() ? { scale: 1.02 } : {}}
+                whileTap={answer.trim() && authorName.trim() ? { scale: 0.98 } : {}}
+              >
+                {isSubmitting ? (
+                  <motion.span
+                    animate={{ rotate: 360 }}
+                    transition={{ duration: 1, repeat: Infinity, ease: 'linear' }}
+                  >
+                    ◐
+                  </motion.span>
+                ) : (
+                  <>
+                    <span>Share</span>
+                    <span>→</span>
+                  </>
+                )}
+              </motion.button>
+            </div>
+          </div>
+        </motion.div>
+
+        {/* Typing indicator line - iA Writer style */}
+        <motion.div
+          className="fixed left-1/2 -translate-x-1/2 w-px h-6"
+          style={{ 
+            backgroundColor: 'var(--accent-gold)',
+            bottom: '80px',
+            opacity: 0.3,
+          }}
+          animate={{ opacity: [0.3, 0.6, 0.3] }}
+          transition={{ duration: 2, repeat: Infinity }}
+        />
+      </motion.div>
+    </AnimatePresence>
+  );
+}
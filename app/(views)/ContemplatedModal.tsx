@@ -0,0 +1,193 @@
+"use client";
+
+import { useEffect } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { EXISTENTIAL_QUESTIONS, type Question } from "./questions";
+
+// ═══════════════════════════════════════════════════════════════════
+// CONTEMPLATED MODAL - All Questions List
+// ═══════════════════════════════════════════════════════════════════
+
+interface ContemplatedModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  questions: typeof EXISTENTIAL_QUESTIONS;
+  votes: Record<number, number>;
+  userVotes: number[];
+  onVote: (id: number) => void;
+  onSelectQuestion: (question: typeof EXISTENTIAL_QUESTIONS[0]) => void;
+}
+
+export default function ContemplatedModal({ 
+  isOpen, 
+  onClose, 
+  questions, 
+  votes, 
+  userVotes, 
+  onVote,
+  onSelectQuestion 
+}: ContemplatedModalProps) {
+  const sortedQuestions = [...questions].sort((a, b) => (votes[b.id] || 0) - (votes[a.id] || 0));
+  
+  // Escape key to close
+  useEffect(() => {
+    const handleEsc = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    if (isOpen) {
+      window.addEventListener('keydown', handleEsc);
+    }
+    return () => window.removeEventListener('keydown', handleEsc);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 z-[100] flex items-center justify-center p-4"
+        style={{ backgroundColor: 'rgba(0, 0, 0, 0.85)' }}
+        onClick={onClose}
+      >
+        <motion.div
+          initial={{ scale: 0.95, opacity: 0, y: 20 }}
+          animate={{ scale: 1, opacity: 1, y: 0 }}
+          exit={{ scale: 0.95, opacity: 0, y: 20 }}
+          transition={{ type: "spring", damping: 25 }}
+          className="w-full max-w-2xl max-h-[80vh] rounded-2xl overflow-hidden"
+          style={{ 
+            backgroundColor: 'var(--bg-primary)',
+            border: '1px solid var(--border-primary)',
+          }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div 
+            className="px-6 py-5 border-b flex items-center justify-between sticky top-0"
+            style={{ 
+              borderColor: 'var(--border-secondary)',
+              backgroundColor: 'var(--bg-primary)',
+            }}
+          >
+            <div>
+              <h2 className="text-lg font-light" style={{ color: 'var(--text-primary)' }}>
+                All Questions
+              </h2>
+              <p className="text-xs mt-1" style={{ color: 'var(--text-muted)' }}>
+                {questions.length} questions • Sorted by contemplations
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="w-8 h-8 rounded-full flex items-center justify-center transition-colors hover:opacity-80"
+              style={{ 
+                backgroundColor: 'var(--bg-elevated)',
+                color: 'var(--text-muted)',
+              }}
+            >
+              ✕
+            </button>
+          </div>
+
+          {/* Questions List */}
+          <div className="overflow-y-auto max-h-[calc(80vh-80px)]">
+            <div className="p-4 space-y-2">
+              {sortedQuestions.map((q, index) => (
+                <motion.div
+                  key={q.id}
+                  initial={{ opacity: 0, x: -10 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  transition={{ delay: index * 0.03 }}
+                  className="group"
+                >
+                  <div 
+                    className="flex items-start gap-4 p-4 rounded-xl transition-all cursor-pointer"
+                    style={{ 
+                      backgroundColor: 'var(--bg-elevated)',
+                      border: '1px solid transparent',
+                    }}
+                    onMouseEnter={(e) => {
+                      e.currentTarget.style.borderColor = 'var(--border-primary)';
+                    }}
+                    onMouseLeave={(e) => {
+                      e.currentTarget.style.borderColor = 'transparent';
+                    }}
+                    onClick={() => {
+                      onSelectQuestion(q);
+                      onClose();
+                    }}
+                  >
+                    {/* Rank number */}
+                    <div 
+                      className="flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center text-xs font-mono"
+                      style={{ 
+                        backgroundColor: index < 3 ? 'var(--accent-gold-dim)' : 'var(--bg-primary)',
+                        color: index < 3 ? 'var(--accent-gold)' : 'var(--text-muted)',
+                      }}
+                    >
+                      {index + 1}
+                    </div>
+
+                    {/* Question content */}
+                    <div className="flex-1 min-w-0">
+                      <p 
+                        className="text-sm leading-relaxed mb-2 group-hover:opacity-80 transition-opacity"
+                        style={{ color: 'var(--text-primary)' }}
+                      >
+                        {q.text}
+                      </p>
+                      
+                      {/* Meta info */}
+                      <div className="flex items-center gap-4">
+                        <span 
+                          className="text-xs font-mono tabular-nums"
+                          style={{ color: 'var(--text-muted)' }}
+                        >
+                          {votes[q.id] || 0} contemplations
+                        </span>
+                        
+                        {userVotes.includes(q.id) && (
+                          <span 
+                            className="text-[10px] tracking-wider uppercase px-2 py-0.5 rounded-full"
+                            style={{ 
+                              backgroundColor: 'var(--accent-gold-dim)',
+                              color: 'var(--accent-gold)',
+                            }}
+                          >
+                            voted
+                          </span>
+                        )}
+                      </div>
+                    </div>
+
+                    {/* Vote button */}
+                    <motion.button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onVote(q.id);
+                      }}
+                      disabled={userVotes.includes(q.id)}
+                      className="flex-shrink-0 w-10 h-10 rounded-lg flex items-center justify-center transition-all disabled:opacity-40"
+                      style={{ 
+                        backgroundColor: userVotes.includes(q.id) ? 'var(--accent-gold-dim)' : 'var(--bg-primary)',
+                        color: userVotes.includes(q.id) ? 'var(--accent-gold)' : 'var(--text-muted)',
+                        border: `1px solid ${userVotes.includes(q.id) ? 'var(--accent-gold)' : 'var(--border-primary)'}`,
+                      }}
+                      whileHover={!userVotes.includes(q.id) ? { scale: 1.05 } : {}}
+                      whileTap={!userVotes.includes(q.id) ? { scale: 0.95 } : {}}
+                    >
+                      ▲
+                    </motion.button>
+                  </div>
+                </motion.div>
+              ))}
+            </div>
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,767 @@
+"use client";
+
+import { useState, useEffect, useMemo, useCallback } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import Link from "next/link";
+import ZenModeOverlay from "./ZenModeOverlay";
+import AnswerWriterModal from "./AnswerWriterModal";
+import ContemplatedModal from "./ContemplatedModal";
+import { subscribeLiveEvents } from "@/lib/useLiveEvents";
+import { useIdeStore } from "@/lib/store";
+import { rotationPick, type DateKey } from "@/lib/schedule";
+import { useTimeAwareness, useLifeProgress, useCountdownToTomorrow, useLunarPhase, useMouseParallax } from "@/lib/hooks";
+import { EXISTENTIAL_QUESTIONS, localDateKey, useQuestions, type Question } from "./questions";
+
+// ═══════════════════════════════════════════════════════════════════
+// NOW VIEW - NON-CONVENTIONAL GENIUS LAYOUT
+// ═══════════════════════════════════════════════════════════════════
+
+// Daily intentions - Stoic practices
+const DAILY_INTENTIONS = [
+  "Today I practice the dichotomy of control.",
+  "Memento mori — remember you must die.",
+  "Amor fati — love whatever happens.",
+  "Focus on what depends on me alone.",
+  "The obstacle is the way forward.",
+  "Less but better. Depth over breadth.",
+  "Present over perfect.",
+  "Virtue is the only good.",
+  "This too shall pass.",
+  "Be the calm in the storm.",
+  "Judge not the day by the harvest, but by the seeds planted.",
+  "The best time to plant a tree was twenty years ago. The second best time is now.",
+  "Progress, not perfection.",
+  "What would the best version of myself do?",
+];
+
+export default function NowView() {
+  const { greeting } = useTimeAwareness();
+  const { year, week, mounted } = useLifeProgress();
+  const { emoji: lunarEmoji, name: lunarName } = useLunarPhase();
+  const { x: mouseX, y: mouseY } = useMouseParallax();
+
+  const [todayIntention, setTodayIntention] = useState(DAILY_INTENTIONS[0]);
+  const [hoursLeft, setHoursLeft] = useState(0);
+  const [isAnswerModalOpen, setIsAnswerModalOpen] = useState(false);
+  const [isContemplatedModalOpen, setIsContemplatedModalOpen] = useState(false);
+  const isZenMode = useIdeStore(state => state.zenMode);
+  const setIsZenMode = useIdeStore(state => state.setZenMode);
+  const [showMidnightTransition, setShowMidnightTransition] = useState(false);
+  
+  // CMS Contemplations state - converted to question format
+  const [cmsQuestions, setCmsQuestions] = useState<Question[]>([]);
+
+  // The server decides what today is (GET /api/today) and when it ends
+  const [today, setToday] = useState<{ date: DateKey; nextChangeAt: string; contemplationId: number | null } | null>(null);
+
+  // Today's intention: the scheduled one, else the built-in list's turn for the day
+  const loadToday = useCallback(async () => {
+    try {
+      const res = await fetch("/api/today");
+      if (!res.ok) throw new Error(`Today unavailable (${res.status})`);
+      const data = await res.json();
+      setToday({ date: data.date, nextChangeAt: data.nextChangeAt, contemplationId: data.contemplation?.id ?? null });
+      setTodayIntention(data.intention?.text ?? rotationPick(DAILY_INTENTIONS, data.date) ?? DAILY_INTENTIONS[0]);
+    } catch (error) {
+      console.error("Failed to fetch today:", error);
+      setToday(null);
+      setTodayIntention(rotationPick(DAILY_INTENTIONS, localDateKey()) ?? DAILY_INTENTIONS[0]);
+    }
+  }, []);
+
+  const loadContemplations = useCallback(async () => {
+    const res = await fetch("/api/contemplations");
+    if (!res.ok) return;
+    const data = await res.json();
+    if (data.length > 0) {
+      // Convert to same format as EXISTENTIAL_QUESTIONS
+      setCmsQuestions(data.map((c: { id: number; question: string; votes: number; voted: boolean }) => ({
+        id: c.id,
+        text: c.question,
+        votes: c.votes,
+        voted: c.voted,
+      })));
+    }
+  }, []);
+  
+  // Midnight callback - ask the server for the new day's question when countdown reaches 0
+  const handleMidnight = useCallback(() => {
+    setShowMidnightTransition(true);
+    
+    setTimeout(async () => {
+      try {
+        await Promise.all([loadToday(), loadContemplations()]);
+      } catch (error) {
+        console.error("Failed to fetch new contemplation:", error);
+      }
+      
+      // Hide transition after animation
+      setTimeout(() => {
+        setShowMidnightTransition(false);
+      }, 2000);
+    }, 500);
+  }, [loadToday, loadContemplations]);
+  
+  const countdown = useCountdownToTomorrow(handleMidnight, today?.nextChangeAt);
+  
+  // Use the hook with CMS questions
+  const { 
+    todayQuestion: hookTodayQuestion, 
+    sortedQuestions,
+    votes, 
+    userVotes, 
+    vote, 
+  } = useQuestions(cmsQuestions.length > 0 ? cmsQuestions : undefined, today?.date);
+
+  // Today's question is the server's pick; the hook's turn covers days with nothing scheduled
+  const todayQuestion = useMemo(() => {
+    const scheduled = today?.contemplationId ? cmsQuestions.find(q => q.id === today.contemplationId) : undefined;
+    return scheduled || hookTodayQuestion;
+  }, [today, cmsQuestions, hookTodayQuestion]);
+    
+  const [selectedQuestion, setSelectedQuestion] = useState(todayQuestion);
+  
+  // Articles state for writing preview
+  const [latestArticles, setLatestArticles] = useState<Array<{ slug: string; title: string; excerpt: string; readTime: string }>>([]);
+
+  // Fetch intentions and contemplations from API
+  useEffect(() => {
+    async function fetchData() {
+      try {
+        const [articlesRes] = await Promise.all([
+          fetch("/api/articles"),
+          loadToday(),
+          loadContemplations(),
+        ]);
+        
+        // Handle articles - get latest 2
+        if (articlesRes.ok) {
+          const data = await articlesRes.json();
+          setLatestArticles(data.slice(0, 2).map((a: { slug: string; title: string; excerpt: string; readTime: string }) => ({
+            slug: a.slug,
+            title: a.title,
+            excerpt: a.excerpt,
+            readTime: a.readTime,
+          })));
+        }
+      } catch (error) {
+        console.error("Failed to fetch data:", error);
+      }
+    }
+    
+    fetchData();
+    setHoursLeft(24 - new Date().getHours());
+    
+    // Refetch when the CMS pushes a change (polls only while the stream is down)
+    return subscribeLiveEvents(["intention.updated", "contemplation.featured", "article.published"], fetchData);
+  }, [loadToday, loadContemplations]);
+
+  // Zen Mode keyboard shortcut (Z)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Don't trigger if typing in input/textarea
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      
+      if (e.key === 'z' || e.key === 'Z') {
+        setIsZenMode(!isZenMode);
+      }
+      if (e.key === 'Escape' && isZenMode) {
+        setIsZenMode(false);
+      }
+    };
+    
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isZenMode, setIsZenMode]);
+
+  // Update selected question when todayQuestion changes
+  useEffect(() => {
+    if (todayQuestion) {
+      setSelectedQuestion(todayQuestion);
+    }
+  }, [todayQuestion]);
+
+  const handleSelectQuestion = (q: typeof todayQuestion) => {
+    setSelectedQuestion(q);
+    setIsAnswerModalOpen(true);
+  };
+
+  const daysLeft = mounted ? 365 - Math.floor(year * 3.65) : 0;
+  const weeksLeft = mounted ? 52 - week : 0;
+  const previousQuestions = sortedQuestions.filter(q => q.id !== todayQuestion.id).slice(0, 2);
+
+  return (
+    <div className="min-h-screen relative overflow-hidden">
+      {/* Midnight Transition Overlay */}
+      <AnimatePresence>
+        {showMidnightTransition && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.5 }}
+            className="fixed inset-0 z-[200] flex items-center justify-center"
+            style={{ backgroundColor: 'var(--bg-primary)' }}
+          >
+            <motion.div
+              initial={{ scale: 0.8, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 1.1, opacity: 0 }}
+              transition={{ duration: 0.6, ease: "easeOut" }}
+              className="text-center"
+            >
+              <motion.div
+                animate={{ rotate: 360 }}
+                transition={{ duration: 2, ease: "linear" }}
+                className="text-6xl mb-6"
+              >
+                ◐
+              </motion.div>
+              <motion.p
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.3 }}
+                className="text-xl font-light tracking-wider"
+                style={{ color: 'var(--accent-gold)' }}
+              >
+                A new day begins
+              </motion.p>
+              <motion.p
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.5 }}
+                className="text-sm mt-2"
+                style={{ color: 'var(--text-muted)' }}
+              >
+                New contemplation awaits...
+              </motion.p>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Ambient floating particles - subtle background */}
+      <div className="fixed inset-0 pointer-events-none">
+        {[...Array(8)].map((_, i) => (
+          <motion.div
+            key={i}
+            className="absolute w-1 h-1 rounded-full"
+            style={{ 
+              backgroundColor: 'var(--accent-gold)',
+              opacity: 0.1,
+              // Fixed positions based on index to prevent re-render jitter
+              left: `${(i * 13 + 5) % 100}%`,
+              top: `${(i * 17 + 10) % 100}%`,
+            }}
+            animate={{
+              y: [0, -30, 0],
+              opacity: [0.1, 0.2, 0.1],
+            }}
+            transition={{
+              duration: 6 + i * 0.5,
+              repeat: Infinity,
+              delay: i * 0.7,
+              ease: "easeInOut",
+            }}
+          />
+        ))}
+      </div>
+
+      {/* Main Container - Asymmetric Grid */}
+      <div className="relative min-h-screen grid grid-cols-12 gap-0">
+        
+        {/* LEFT COLUMN - Philosophical Sidebar (Hidden on mobile) */}
+        <div className="hidden lg:block lg:col-span-2 border-r" style={{ borderColor: 'var(--border-secondary)' }}>
+          <div className="sticky top-24 p-6 space-y-12">
+            
+            {/* Lunar Phase - Circular */}
+            <motion.div
+              initial={{ opacity: 0, scale: 0.9 }}
+              animate={{ opacity: 1, scale: 1 }}
+              transition={{ delay: 0.5 }}
+              className="text-center"
+            >
+              <motion.div
+                className="w-16 h-16 mx-auto mb-3 rounded-full flex items-center justify-center"
+                style={{ 
+                  backgroundColor: 'var(--bg-elevated)',
+                  border: '1px solid var(--border-primary)' 
+                }}
+                animate={{
+                  boxShadow: [
+                    '0 0 0 0 var(--accent-gold-dim)',
+                    '0 0 0 8px var(--accent-gold-dim)',
+                    '0 0 0 0 var(--accent-gold-dim)',
+                  ],
+                }}
+                transition={{ duration: 3, repeat: Infinity }}
+              >
+                <span className="text-2xl">{lunarEmoji}</span>
+              </motion.div>
+              <p className="text-[9px] tracking-[0.2em] uppercase" style={{ color: 'var(--text-muted)' }}>
+                {lunarName.split(" ")[0]}
+              </p>
+            </motion.div>
+
+            {/* Time Greeting - Vertical */}
+            <motion.div
+              initial={{ opacity: 0, x: -10 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: 0.7 }}
+              className="text-center"
+            >
+              <p 
+                className="text-[10px] tracking-[0.15em] leading-relaxed"
+                style={{ 
+                  color: 'var(--text-tertiary)',
+                  writingMode: 'vertical-rl',
+                  textOrientation: 'mixed',
+                  margin: '0 auto'
+                }}
+              >
+                {greeting}
+              </p>
+            </motion.div>
+
+            {/* Memento Mori Counter - Vertical */}
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              transition={{ delay: 0.9 }}
+              className="space-y-4 text-center"
+            >
+              <p className="text-[8px] tracking-[0.3em] uppercase" style={{ color: 'var(--accent-gold)', opacity: 0.5 }}>
+                memento<br/>mori
+              </p>
+              <div className="space-y-3">
+                <div>
+                  <p className="text-2xl font-extralight tabular-nums" style={{ color: 'var(--text-primary)' }}>{hoursLeft}</p>
+                  <p className="text-[8px] tracking-wider" style={{ color: 'var(--text-muted)' }}>hours</p>
+                </div>
+                <div>
+                  <p className="text-2xl font-extralight tabular-nums" style={{ color: 'var(--text-primary)' }}>{daysLeft}</p>
+                  <p className="text-[8px] tracking-wider" style={{ color: 'var(--text-muted)' }}>days</p>
+                </div>
+                <div>
+                  <p className="text-2xl font-extralight tabular-nums" style={{ color: 'var(--text-primary)' }}>{weeksLeft}</p>
+                  <p className="text-[8px] tracking-wider" style={{ color: 'var(--text-muted)' }}>weeks</p>
+                </div>
+              </div>
+            </motion.div>
+          </div>
+        </div>
+
+        {/* CENTER - Hero Question (Unconventional Scale) */}
+        <div className="col-span-12 lg:col-span-7 flex items-center justify-center px-6 sm:px-8 py-24 sm:py-32">
+          <div className="w-full max-w-3xl relative">
+            
+            {/* Today's marker - floating */}
+            <motion.div
+              initial={{ opacity: 0, y: -20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.2 }}
+              className="absolute -top-16 left-0 flex items-center gap-3"
+            >
+              <div
+                className="w-2 h-2 rounded-full"
+                style={{ backgroundColor: 'var(--accent-gold)' }}
+              />
+              <span className="text-[10px] tracking-[0.3em] uppercase" style={{ color: 'var(--accent-gold)', opacity: 0.7 }}>
+                today&apos;s question
+              </span>
+            </motion.div>
+
+            {/* The Question - HERO TYPOGRAPHY */}
+            <motion.h1
+              initial={{ opacity: 0, y: 30, filter: "blur(10px)" }}
+              animate={{ opacity: 1, y: 0, filter: "blur(0px)" }}
+              transition={{ duration: 1, delay: 0.3, ease: [0.22, 1, 0.36, 1] }}
+              className="relative"
+            >
+              <span 
+                className="block text-[2rem] sm:text-[2.5rem] lg:text-[3.5rem] font-extralight leading-[1.1] tracking-tight"
+                style={{ 
+                  color: 'var(--text-primary)',
+                  textShadow: '0 0 40px var(--accent-gold-dim)'
+                }}
+              >
+                {todayQuestion.text}
+              </span>
+              
+              {/* Decorative accent line */}
+              <motion.div
+                className="absolute -left-4 top-0 bottom-0 w-px"
+                style={{ background: 'linear-gradient(to bottom, transparent, var(--accent-gold), transparent)' }}
+                initial={{ scaleY: 0 }}
+                animate={{ scaleY: 1 }}
+                transition={{ delay: 0.8, duration: 0.8 }}
+              />
+            </motion.h1>
+
+            {/* Floating Action Buttons - Unconventional positioning */}
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              transition={{ delay: 1 }}
+              className="mt-12 sm:mt-16 flex flex-col sm:flex-row items-start sm:items-center gap-6"
+            >
+              {/* Vote Button - with live count */}
+              <motion.button
+                onClick={() => vote(todayQuestion.id)}
+                disabled={userVotes.includes(todayQuestion.id)}
+                className="group relative"
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+              >
+                <div 
+                  className="flex items-center gap-4 px-6 py-4 rounded-lg transition-all"
+                  style={{
+                    backgroundColor: userVotes.includes(todayQuestion.id) ? 'var(--accent-gold-dim)' : 'var(--bg-elevated)',
+                    border: `1px solid ${userVotes.includes(todayQuestion.id) ? 'var(--accent-gold)' : 'var(--border-primary)'}`,
+                  }}
+                >
+                  <span className="text-lg">
+                    ▲
+                  </span>
+                  <div className="text-left">
+                    <p className="text-2xl font-light tabular-nums" style={{ color: 'var(--text-primary)' }}>
+                      {votes[todayQuestion.id] || 0}
+                    </p>
+                    <p className="text-[10px] tracking-wider uppercase" style={{ color: 'var(--text-muted)' }}>
+                      {userVotes.includes(todayQuestion.id) ? 'voted' : 'vote'}
+                    </p>
+                  </div>
+                </div>
+              </motion.button>
+
+              {/* Answer Button */}
+              <motion.button
+                onClick={() => setIsAnswerModalOpen(true)}
+                className="group flex items-center gap-3 px-6 py-4 rounded-lg transition-all"
+                style={{
+                  backgroundColor: 'var(--bg-elevated)',
+                  border: '1px solid var(--border-primary)',
+                }}
+                whileHover={{ 
+                  scale: 1.02,
+                  borderColor: 'var(--accent-gold)',
+                }}
+                whileTap={{ scale: 0.98 }}
+              >
+                <span className="text-sm tracking-wider uppercase" style={{ color: 'var(--text-secondary)' }}>
+                  share your answer
+                </span>
+                <span style={{ color: 'var(--accent-gold)' }}>
+                  →
+                </span>
+              </motion.button>
+            </motion.div>
+
+            {/* Today's Intention - floating thought bubble */}
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 1.3 }}
+              className="mt-16 sm:mt-24 relative"
+            >
+              <div 
+                className="px-6 py-4 rounded-lg max-w-md"
+                style={{
+                  backgroundColor: 'var(--bg-elevated)',
+                  border: '1px solid var(--border-secondary)',
+                }}
+              >
+                <p className="text-sm italic leading-relaxed" style={{ color: 'var(--text-tertiary)' }}>
+                  &ldquo;{todayIntention}&rdquo;
+                </p>
+              </div>
+              {/* Connection line */}
+              <div 
+                className="absolute -top-8 left-8 w-px h-8"
+                style={{ 
+                  background: 'linear-gradient(to bottom, var(--border-secondary), transparent)',
+                  opacity: 0.5 
+                }}
+              />
+            </motion.div>
+          </div>
+        </div>
+
+        {/* RIGHT COLUMN - Secondary Info (Hidden on mobile) */}
+        <div className="hidden lg:block lg:col-span-3 border-l" style={{ borderColor: 'var(--border-secondary)' }}>
+          <div className="sticky top-24 p-6 space-y-8">
+            
+            {/* Countdown Timer - Digital */}
+            <motion.div
+              initial={{ opacity: 0, x: 10 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: 0.6 }}
+              className="text-center"
+            >
+              <p className="text-[9px] tracking-[0.2em] uppercase mb-3" style={{ color: 'var(--text-muted)' }}>
+                next contemplation
+              </p>
+              <div 
+                className="px-4 py-3 rounded font-mono text-xl tabular-nums relative overflow-hidden"
+                style={{ 
+                  backgroundColor: 'var(--bg-elevated)',
+                  border: '1px solid var(--border-primary)',
+                  color: 'var(--text-primary)' 
+                }}
+              >
+                {/* Progress bar showing time passed today */}
+                <motion.div
+                  className="absolute bottom-0 left-0 h-0.5"
+                  style={{ backgroundColor: 'var(--accent-gold)', opacity: 0.5 }}
+                  animate={{
+                    width: `${((24 - countdown.hours - 1) / 24) * 100}%`,
+                  }}
+                  transition={{ duration: 1 }}
+                />
+                {String(countdown.hours).padStart(2, '0')}:
+                {String(countdown.minutes).padStart(2, '0')}:
+                <motion.span
+                  animate={{ opacity: [1, 0.3, 1] }}
+                  transition={{ duration: 1, repeat: Infinity }}
+                >
+                  {String(countdown.seconds).padStart(2, '0')}
+                </motion.span>
+              </div>
+              <p className="text-[8px] mt-2 opacity-60" style={{ color: 'var(--text-muted)' }}>
+                Question rotates at midnight
+              </p>
+            </motion.div>
+
+            {/* Previously Contemplated */}
+            <motion.div
+              initial={{ opacity: 0, x: 10 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: 0.8 }}
+            >
+              <button 
+                onClick={() => setIsContemplatedModalOpen(true)}
+                className="flex items-center gap-2 mb-4 group"
+              >
+                <p className="text-[9px] tracking-[0.2em] uppercase group-hover:opacity-80 transition-opacity" style={{ color: 'var(--text-muted)' }}>
+                  contemplated
+                </p>
+                <span className="text-[10px]" style={{ color: 'var(--accent-gold)', opacity: 0.6 }}>
+                  →
+                </span>
+              </button>
+              <div className="space-y-4">
+                {previousQuestions.map((q, i) => (
+                  <motion.button
+                    key={q.id}
+                    onClick={() => handleSelectQuestion(q)}
+                    className="w-full text-left group"
+                    initial={{ opacity: 0, x: 10 }}
+                    animate={{ opacity: 1, x: 0 }}
+                    transition={{ delay: 1 + i * 0.1 }}
+                    whileHover={{ x: -4 }}
+                  >
+                    <div className="flex items-start gap-3">
+                      <span 
+                        className="text-[10px] tabular-nums mt-1 flex-shrink-0"
+                        style={{ 
+                          color: userVotes.includes(q.id) ? 'var(--accent-gold)' : 'var(--text-muted)' 
+                        }}
+                      >
+                        ▲{votes[q.id] || 0}
+                      </span>
+                      <p 
+                        className="text-sm leading-relaxed group-hover:opacity-100 transition-opacity"
+                        style={{ color: 'var(--text-tertiary)', opacity: 0.7 }}
+                      >
+                        {q.text}
+                      </p>
+                    </div>
+                  </motion.button>
+                ))}
+              </div>
+              
+              {/* View all button */}
+              <motion.button
+                onClick={() => setIsContemplatedModalOpen(true)}
+                className="mt-4 text-xs tracking-wider flex items-center gap-1 group"
+                style={{ color: 'var(--text-muted)' }}
+                whileHover={{ x: 2 }}
+              >
+                <span className="group-hover:underline">view all {sortedQuestions.length}</span>
+                <span style={{ color: 'var(--accent-gold)' }}>→</span>
+              </motion.button>
+            </motion.div>
+
+            {/* Latest Writings Preview */}
+            {latestArticles.length > 0 && (
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 1.3 }}
+                className="pt-8"
+                style={{ borderTop: '1px solid var(--border-secondary)' }}
+              >
+                <Link 
+                  href="/writing"
+                  className="flex items-center gap-2 mb-4 group"
+                >
+                  <span 
+                    className="text-[10px] tracking-[0.2em] uppercase"
+                    style={{ color: 'var(--text-muted)' }}
+                  >
+                    latest writings
+                  </span>
+                  <span 
+                    className="text-xs transition-transform group-hover:translate-x-1"
+                    style={{ color: 'var(--accent-gold)' }}
+                  >
+                    →
+                  </span>
+                </Link>
+                
+                <div className="space-y-4">
+                  {latestArticles.map((article, index) => (
+                    <Link 
+                      key={article.slug} 
+                      href={`/writing/${article.slug}`}
+                    >
+                      <motion.div
+                        initial={{ opacity: 0, x: -10 }}
+                        animate={{ opacity: 1, x: 0 }}
+                        transition={{ delay: 1.4 + index * 0.1 }}
+                        className="group cursor-pointer"
+                      >
+                        <h4 
+                          className="text-sm font-light leading-relaxed transition-colors group-hover:text-[var(--accent-gold)]"
+                          style={{ 
+                            color: 'var(--text-secondary)',
+                            fontFamily: "'EB Garamond', Georgia, serif"
+                          }}
+                        >
+                          {article.title}
+                        </h4>
+                        <p 
+                          className="text-[10px] mt-1 line-clamp-2"
+                          style={{ color: 'var(--text-muted)' }}
+                        >
+                          {article.excerpt}
+                        </p>
+                        <span 
+                          className="text-[9px] mt-1 inline-block"
+                          style={{ color: 'var(--text-muted)', opacity: 0.6 }}
+                        >
+                          {article.readTime}
+                        </span>
+                      </motion.div>
+                    </Link>
+                  ))}
+                </div>
+              </motion.div>
+            )}
+
+            {/* Signature */}
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              transition={{ delay: 1.5 }}
+              className="pt-8"
+              style={{ borderTop: '1px solid var(--border-secondary)' }}
+            >
+              <p className="text-[9px] tracking-wider" style={{ color: 'var(--text-muted)' }}>
+                Juan Maulana
+              </p>
+              <p className="text-[8px] tracking-wide mt-1" style={{ color: 'var(--text-muted)', opacity: 0.5 }}>
+                Contemplating daily
+              </p>
+            </motion.div>
+          </div>
+        </div>
+      </div>
+
+      {/* Desktop: Footer with shortcut hint */}
+      <motion.div 
+        className="hidden lg:block fixed bottom-6 left-1/2 -translate-x-1/2"
+        initial={{ opacity: 0, y: 10 }}
+        animate={{ opacity: isZenMode ? 0 : 1, y: isZenMode ? 10 : 0 }}
+        transition={{ delay: 1.5 }}
+      >
+        <button
+          onClick={() => setIsZenMode(true)}
+          className="flex items-center gap-3 px-4 py-2 rounded-full transition-all hover:scale-105"
+          style={{ 
+            backgroundColor: 'var(--bg-elevated)',
+            border: '1px solid var(--border-secondary)',
+          }}
+        >
+          <span className="text-[10px] tracking-wider" style={{ color: 'var(--text-muted)' }}>
+            press
+          </span>
+          <span 
+            className="px-2 py-0.5 rounded text-[10px] font-mono"
+            style={{ 
+              backgroundColor: 'var(--bg-primary)',
+              color: 'var(--text-secondary)',
+              border: '1px solid var(--border-primary)',
+            }}
+          >
+            Z
+          </span>
+          <span className="text-[10px] tracking-wider" style={{ color: 'var(--text-muted)' }}>
+            for zen mode
+          </span>
+        </button>
+      </motion.div>
+
+      {/* Mobile: Compact footer with essentials */}
+      <div className="lg:hidden fixed bottom-0 left-0 right-0 p-4" style={{ backgroundColor: 'var(--bg-primary)', borderTop: '1px solid var(--border-secondary)' }}>
+        <div className="flex items-center justify-between text-[10px]" style={{ color: 'var(--text-muted)' }}>
+          <div className="flex items-center gap-2">
+            <span>{lunarEmoji}</span>
+            <span className="tracking-wider">{hoursLeft}h left</span>
+          </div>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => setIsZenMode(true)}
+              className="px-2 py-1 rounded"
+              style={{ backgroundColor: 'var(--bg-elevated)' }}
+            >
+              zen
+            </button>
+            <div className="font-mono tabular-nums">
+              {String(countdown.hours).padStart(2, '0')}:{String(countdown.minutes).padStart(2, '0')}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Zen Mode Overlay - Genius Edition */}
+      <AnimatePresence>
+        {isZenMode && (
+          <ZenModeOverlay 
+            question={todayQuestion.text}
+            countdown={countdown}
+            onClose={() => setIsZenMode(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Answer Writer Modal with Focus Mode */}
+      <AnswerWriterModal 
+        isOpen={isAnswerModalOpen}
+        onClose={() => setIsAnswerModalOpen(false)}
+        question={selectedQuestion.text}
+      />
+
+      {/* Contemplated Modal - All Questions */}
+      <ContemplatedModal
+        isOpen={isContemplatedModalOpen}
+        onClose={() => setIsContemplatedModalOpen(false)}
+        questions={sortedQuestions}
+        votes={votes}
+        userVotes={userVotes}
+        onVote={vote}
+        onSelectQuestion={handleSelectQuestion}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+"use client";
+
+import { motion } from "framer-motion";
+import type { ViewId } from "@/lib/views";
+
+// ═══════════════════════════════════════════════════════════════════
+// VIEW LOADING - Shown by each view's loading.tsx while its route loads
+// ═══════════════════════════════════════════════════════════════════
+
+export default function ViewLoading({ view }: { view: ViewId }) {
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center gap-4 px-6">
+      <motion.div
+        animate={{ rotate: 360 }}
+        transition={{ duration: 2, repeat: Infinity, ease: "linear" }}
+        className="text-2xl"
+        style={{ color: "var(--accent-gold)" }}
+      >
+        ◐
+      </motion.div>
+      <p className="font-mono text-xs" style={{ color: "var(--text-muted)" }}>
+        <span className="text-function">import</span> <span className="text-variable">{view}</span>
+        <span className="text-comment">{" // loading…"}</span>
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+"use client";
+
+import { useState, useEffect, useCallback, type ReactNode } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { usePathname } from "next/navigation";
+import Nav from "@/components/Nav";
+import LoadingScreen from "@/components/LoadingScreen";
+import NarrativeConsole from "@/components/NarrativeConsole";
+import RefactorToggle from "@/components/RefactorToggle";
+import { useScrollDepth, useSound, useTheme } from "@/lib/hooks";
+import { useIdeStore } from "@/lib/store";
+import { viewForPath, type ViewId } from "@/lib/views";
+import ThemeTransition from "./ThemeTransition";
+
+// ═══════════════════════════════════════════════════════════════════
+// VIEW SHELL - What stays put while the views change underneath:
+// the opening screen, Nav, sound and theme controls, and the console
+// ═══════════════════════════════════════════════════════════════════
+
+// Views with a source behind them for the Refactor Toggle
+const SOURCE_VIEWS: ViewId[] = ['writing', 'work', 'about'];
+
+export default function ViewShell({ children }: { children: ReactNode }) {
+  const [isLoading, setIsLoading] = useState(true);
+  const view = viewForPath(usePathname());
+  const { theme, setTheme } = useTheme();
+  const { enabled: soundEnabled, toggle: toggleSound, play } = useSound();
+  const log = useIdeStore(state => state.log);
+  const setZenMode = useIdeStore(state => state.setZenMode);
+
+  useEffect(() => {
+    if (view) log("opened", view);
+    // Zen Mode lives on the Now view; leaving it closes the overlay
+    if (view !== "now") setZenMode(false);
+  }, [view, log, setZenMode]);
+
+  // Theme transition state
+  const [isTransitioning, setIsTransitioning] = useState(false);
+  const [transitionDirection, setTransitionDirection] = useState<'sunrise' | 'sunset'>('sunrise');
+  const [pendingTheme, setPendingTheme] = useState<'dark' | 'light' | null>(null);
+
+  useEffect(() => {
+    if (typeof document !== 'undefined') {
+      document.documentElement.classList.remove('light', 'dark');
+      document.documentElement.classList.add(theme === 'light' ? 'light' : 'dark');
+    }
+  }, [theme]);
+
+  // Handle theme change with transition
+  const handleThemeChange = useCallback(() => {
+    const newTheme = theme === 'dark' ? 'light' : 'dark';
+    const direction = newTheme === 'light' ? 'sunrise' : 'sunset';
+
+    setPendingTheme(newTheme);
+    setTransitionDirection(direction);
+    setIsTransitioning(true);
+    play('ambient');
+  }, [theme, play]);
+
+  const handleTransitionComplete = useCallback(() => {
+    if (pendingTheme) {
+      setTheme(pendingTheme);
+      setPendingTheme(null);
+    }
+    setIsTransitioning(false);
+  }, [pendingTheme, setTheme]);
+
+  return (
+    <>
+      <AnimatePresence>
+        {isLoading && <LoadingScreen onComplete={() => setIsLoading(false)} />}
+      </AnimatePresence>
+
+      {/* Theme Transition Overlay */}
+      <AnimatePresence>
+        {isTransitioning && (
+          <ThemeTransition
+            isTransitioning={isTransitioning}
+            direction={transitionDirection}
+            onComplete={handleTransitionComplete}
+          />
+        )}
+      </AnimatePresence>
+
+      <main
+        className="min-h-screen antialiased selection:bg-blue-500/20 transition-colors duration-500"
+        style={{
+          backgroundColor: 'var(--bg-primary)',
+          color: 'var(--text-primary)'
+        }}
+        suppressHydrationWarning
+      >
+        {/* Scroll indicator */}
+        <motion.div
+          className="fixed top-0 left-0 right-0 h-px origin-left z-50"
+          style={{
+            backgroundColor: 'var(--accent-gold)',
+            opacity: 0.5,
+            scaleX: useScrollDepth()
+          }}
+        />
+
+        {/* Nav */}
+        <Nav />
+
+        {/* Controls */}
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 2 }}
+          className="fixed top-20 right-4 sm:right-6 z-50 flex flex-col gap-2"
+        >
+          <button
+            onClick={() => { toggleSound(); play('click'); }}
+            className="w-8 h-8 rounded-full flex items-center justify-center text-xs transition-colors"
+            style={{
+              backgroundColor: 'var(--bg-elevated)',
+              color: 'var(--text-muted)',
+              border: '1px solid var(--border-primary)'
+            }}
+            title={soundEnabled ? 'Mute' : 'Unmute'}
+          >
+            {soundEnabled ? '🔊' : '🔇'}
+          </button>
+          <motion.button
+            onClick={handleThemeChange}
+            disabled={isTransitioning}
+            className="w-8 h-8 rounded-full flex items-center justify-center text-xs transition-colors disabled:opacity-50"
+            style={{
+              backgroundColor: 'var(--bg-elevated)',
+              color: 'var(--text-muted)',
+              border: '1px solid var(--border-primary)'
+            }}
+            title="Toggle theme"
+            whileHover={{ scale: 1.1, rotate: theme === 'dark' ? 15 : -15 }}
+            whileTap={{ scale: 0.9 }}
+          >
+            <motion.span
+              key={theme}
+              initial={{ rotate: -180, opacity: 0 }}
+              animate={{ rotate: 0, opacity: 1 }}
+              exit={{ rotate: 180, opacity: 0 }}
+              transition={{ duration: 0.3 }}
+            >
+              {theme === 'dark' ? '☀️' : '🌙'}
+            </motion.span>
+          </motion.button>
+          {view && SOURCE_VIEWS.includes(view) && (
+            <RefactorToggle
+              compact
+              className="w-8 h-8 rounded-full flex items-center justify-center"
+              style={{
+                backgroundColor: 'var(--bg-elevated)',
+                border: '1px solid var(--border-primary)'
+              }}
+            />
+          )}
+        </motion.div>
+
+        {/* The Voices view is a conversation log of its own */}
+        {view !== "voices" && <NarrativeConsole />}
+
+        {/* The current view; template.tsx animates each one in */}
+        {children}
+      </main>
+    </>
+  );
+}
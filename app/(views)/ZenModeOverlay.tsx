@@ -0,0 +1,372 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import type { Question } from "./questions";
+
+// ═══════════════════════════════════════════════════════════════════
+// ZEN MODE OVERLAY - Genius Meditation Experience
+// ═══════════════════════════════════════════════════════════════════
+
+interface ZenModeProps {
+  question: string;
+  countdown: { hours: number; minutes: number; seconds: number };
+  onClose: () => void;
+}
+
+export default function ZenModeOverlay({ question, countdown, onClose }: ZenModeProps) {
+  const [breathPhase, setBreathPhase] = useState<'inhale' | 'hold1' | 'exhale' | 'hold2'>('inhale');
+  const [breathCount, setBreathCount] = useState(0);
+  const [phaseTime, setPhaseTime] = useState(4);
+  const [revealedWords, setRevealedWords] = useState(0);
+  const [mousePos, setMousePos] = useState({ x: 0.5, y: 0.5 });
+  const [isFullyRevealed, setIsFullyRevealed] = useState(false);
+  
+  const words = question.split(' ');
+
+  // Mouse parallax
+  useEffect(() => {
+    const handleMouse = (e: MouseEvent) => {
+      setMousePos({
+        x: e.clientX / window.innerWidth,
+        y: e.clientY / window.innerHeight,
+      });
+    };
+    window.addEventListener('mousemove', handleMouse);
+    return () => window.removeEventListener('mousemove', handleMouse);
+  }, []);
+
+  // Box breathing cycle (4-4-4-4)
+  useEffect(() => {
+    const phases: Array<'inhale' | 'hold1' | 'exhale' | 'hold2'> = ['inhale', 'hold1', 'exhale', 'hold2'];
+    let currentIndex = 0;
+    let timeLeft = 4;
+
+    const timer = setInterval(() => {
+      timeLeft--;
+      setPhaseTime(timeLeft);
+      
+      if (timeLeft <= 0) {
+        currentIndex = (currentIndex + 1) % 4;
+        setBreathPhase(phases[currentIndex]);
+        timeLeft = 4;
+        setPhaseTime(4);
+        
+        if (currentIndex === 0) {
+          setBreathCount(prev => prev + 1);
+        }
+      }
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, []);
+
+  // Progressive word reveal - one word per breath cycle
+  useEffect(() => {
+    if (breathCount > 0 && revealedWords < words.length) {
+      setRevealedWords(breathCount);
+    }
+    if (breathCount >= words.length) {
+      setIsFullyRevealed(true);
+    }
+  }, [breathCount, words.length, revealedWords]);
+
+  // Keyboard to close or reveal/reset
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' || e.key === 'z' || e.key === 'Z') {
+        onClose();
+      }
+      if (e.key === 'g' || e.key === 'G') {
+        if (isFullyRevealed) {
+          // Reset back to zen mode - start breathing again
+          setRevealedWords(0);
+          setIsFullyRevealed(false);
+          setBreathCount(0);
+          setBreathPhase('inhale');
+          setPhaseTime(4);
+        } else {
+          // Instantly reveal all words
+          setRevealedWords(words.length);
+          setIsFullyRevealed(true);
+        }
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose, words.length, isFullyRevealed]);
+
+  const getBreathInstruction = () => {
+    switch (breathPhase) {
+      case 'inhale': return 'breathe in';
+      case 'hold1': return 'hold';
+      case 'exhale': return 'breathe out';
+      case 'hold2': return 'hold';
+    }
+  };
+
+  const getBreathScale = () => {
+    switch (breathPhase) {
+      case 'inhale': return 1 + (4 - phaseTime) * 0.1;
+      case 'hold1': return 1.4;
+      case 'exhale': return 1.4 - (4 - phaseTime) * 0.1;
+      case 'hold2': return 1;
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.8 }}
+      className="fixed inset-0 z-[90] overflow-hidden bg-[#0a0a0a] dark:bg-[#0a0a0a]"
+      style={{ backgroundColor: 'var(--bg-primary)' }}
+    >
+      {/* Ambient particle field - reacts to mouse */}
+      <div className="absolute inset-0 overflow-hidden pointer-events-none">
+        {[...Array(30)].map((_, i) => {
+          const baseX = (i % 6) * 20;
+          const baseY = Math.floor(i / 6) * 20;
+          return (
+            <motion.div
+              key={i}
+              className="absolute w-px h-px rounded-full"
+              style={{
+                backgroundColor: 'var(--accent-gold)',
+                left: `${baseX + 10}%`,
+                top: `${baseY + 10}%`,
+              }}
+              animate={{
+                x: (mousePos.x - 0.5) * (30 + i * 2),
+                y: (mousePos.y - 0.5) * (30 + i * 2),
+                opacity: [0.1, 0.4, 0.1],
+                scale: [1, 1.5, 1],
+              }}
+              transition={{
+                x: { duration: 0.3, ease: "easeOut" },
+                y: { duration: 0.3, ease: "easeOut" },
+                opacity: { duration: 3 + i * 0.2, repeat: Infinity },
+                scale: { duration: 3 + i * 0.2, repeat: Infinity },
+              }}
+            />
+          );
+        })}
+      </div>
+
+      {/* Gradient orbs - ambient light */}
+      <motion.div
+        className="absolute w-[600px] h-[600px] rounded-full blur-[150px] pointer-events-none"
+        style={{
+          background: 'radial-gradient(circle, rgba(201, 162, 39, 0.08) 0%, transparent 70%)',
+          left: '50%',
+          top: '50%',
+          x: '-50%',
+          y: '-50%',
+        }}
+        animate={{
+          scale: getBreathScale(),
+        }}
+        transition={{ duration: 4, ease: "easeInOut" }}
+      />
+
+      {/* Exit hint - minimal */}
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 0.6 }}
+        transition={{ delay: 2 }}
+        className="fixed top-6 right-6 z-10"
+      >
+        <div className="flex items-center gap-4 text-[10px] tracking-wider" style={{ color: 'var(--text-muted)' }}>
+          <span className="opacity-50">press</span>
+          <span className="px-2 py-1 rounded" style={{ backgroundColor: 'var(--bg-tertiary)' }}>G</span>
+          <span className="opacity-50">{isFullyRevealed ? 'zen' : 'reveal'}</span>
+          <span className="mx-2 opacity-30">|</span>
+          <span className="px-2 py-1 rounded" style={{ backgroundColor: 'var(--bg-tertiary)' }}>ESC</span>
+          <span className="opacity-50">exit</span>
+        </div>
+      </motion.div>
+
+      {/* Main content */}
+      <div className="relative h-full flex flex-col items-center justify-center px-8">
+        
+        {/* Breathing guide circle */}
+        <AnimatePresence>
+          {!isFullyRevealed && (
+            <motion.div
+              initial={{ opacity: 0, scale: 0.8 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.8 }}
+              className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 pointer-events-none"
+            >
+              {/* Outer breathing ring */}
+              <motion.div
+                className="w-[300px] h-[300px] sm:w-[400px] sm:h-[400px] rounded-full"
+                style={{
+                  border: '1px solid var(--accent-gold)',
+                  opacity: 0.3,
+                }}
+                animate={{
+                  scale: getBreathScale(),
+                }}
+                transition={{ duration: 1, ease: "easeInOut" }}
+              />
+              
+              {/* Inner ring */}
+              <motion.div
+                className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[100px] h-[100px] rounded-full"
+                style={{
+                  border: '1px solid var(--accent-gold)',
+                  opacity: 0.5,
+                }}
+                animate={{
+                  scale: getBreathScale() * 0.8,
+                }}
+                transition={{ duration: 1, ease: "easeInOut" }}
+              />
+
+              {/* Center dot */}
+              <motion.div
+                className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-2 h-2 rounded-full"
+                style={{ backgroundColor: 'var(--accent-gold)' }}
+                animate={{
+                  scale: [1, 1.5, 1],
+                  opacity: [0.5, 1, 0.5],
+                }}
+                transition={{ duration: 4, repeat: Infinity }}
+              />
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        {/* Question - progressive reveal */}
+        <motion.div
+          className="relative z-10 max-w-4xl text-center"
+          style={{
+            transform: `translateX(${(mousePos.x - 0.5) * 20}px) translateY(${(mousePos.y - 0.5) * 20}px)`,
+            transition: 'transform 0.5s ease-out',
+          }}
+        >
+          <p className="text-3xl sm:text-5xl lg:text-6xl font-extralight leading-[1.3] tracking-tight">
+            {words.map((word, index) => (
+              <motion.span
+                key={index}
+                initial={{ opacity: 0, y: 20, filter: 'blur(10px)' }}
+                animate={{
+                  opacity: index < revealedWords || isFullyRevealed ? 1 : 0.1,
+                  y: index < revealedWords || isFullyRevealed ? 0 : 10,
+                  filter: index < revealedWords || isFullyRevealed ? 'blur(0px)' : 'blur(4px)',
+                }}
+                transition={{ 
+                  duration: 0.8,
+                  ease: [0.22, 1, 0.36, 1],
+                }}
+                style={{ 
+                  color: index < revealedWords || isFullyRevealed 
+                    ? 'var(--text-primary)' 
+                    : 'var(--text-muted)',
+                  display: 'inline-block',
+                  marginRight: '0.3em',
+                }}
+              >
+                {word}
+              </motion.span>
+            ))}
+          </p>
+        </motion.div>
+
+        {/* Breath instruction - only show while not fully revealed */}
+        <AnimatePresence>
+          {!isFullyRevealed && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: 20 }}
+              className="absolute bottom-32 sm:bottom-40 text-center"
+            >
+              <motion.p
+                key={breathPhase}
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -10 }}
+                className="text-lg sm:text-xl font-light tracking-[0.2em] uppercase"
+                style={{ color: 'var(--accent-gold)', opacity: 0.7 }}
+              >
+                {getBreathInstruction()}
+              </motion.p>
+              
+              {/* Phase timer dots */}
+              <div className="flex items-center justify-center gap-2 mt-4">
+                {[1, 2, 3, 4].map((dot) => (
+                  <motion.div
+                    key={dot}
+                    className="w-1.5 h-1.5 rounded-full"
+                    style={{ 
+                      backgroundColor: dot <= (4 - phaseTime + 1) 
+                        ? 'var(--accent-gold)' 
+                        : 'var(--bg-tertiary)',
+                    }}
+                    animate={{
+                      scale: dot === (4 - phaseTime + 1) ? [1, 1.5, 1] : 1,
+                    }}
+                    transition={{ duration: 0.3 }}
+                  />
+                ))}
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </div>
+
+      {/* Bottom bar - minimal stats */}
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        transition={{ delay: 1 }}
+        className="fixed bottom-6 left-0 right-0 flex items-center justify-center gap-8 text-[10px] tracking-wider"
+        style={{ color: 'var(--text-muted)' }}
+      >
+        <div className="flex items-center gap-2">
+          <span className="opacity-50">breaths</span>
+          <span className="font-mono tabular-nums" style={{ color: 'var(--accent-gold)' }}>
+            {breathCount}
+          </span>
+        </div>
+        
+        <div className="w-px h-3 opacity-20" style={{ backgroundColor: 'var(--text-muted)' }} />
+        
+        <div className="flex items-center gap-2">
+          <span className="opacity-50">words</span>
+          <span className="font-mono tabular-nums">
+            {Math.min(revealedWords, words.length)}/{words.length}
+          </span>
+        </div>
+        
+        <div className="w-px h-3 opacity-20" style={{ backgroundColor: 'var(--text-muted)' }} />
+        
+        <div className="font-mono tabular-nums opacity-50">
+          {String(countdown.hours).padStart(2, '0')}:
+          {String(countdown.minutes).padStart(2, '0')}:
+          {String(countdown.seconds).padStart(2, '0')}
+        </div>
+        
+        <div className="w-px h-3 opacity-20" style={{ backgroundColor: 'var(--text-muted)' }} />
+        
+        <div className="flex items-center gap-2">
+          <span className="px-1.5 py-0.5 rounded text-[9px]" style={{ backgroundColor: 'var(--bg-tertiary)' }}>G</span>
+          <span className="opacity-50">{isFullyRevealed ? 'zen' : 'reveal'}</span>
+        </div>
+      </motion.div>
+
+      {/* Progress indicator - words revealed */}
+      <motion.div
+        className="fixed bottom-0 left-0 h-px"
+        style={{ backgroundColor: 'var(--accent-gold)' }}
+        animate={{
+          width: `${(Math.min(revealedWords, words.length) / words.length) * 100}%`,
+        }}
+        transition={{ duration: 0.5 }}
+      />
+    </motion.div>
+  );
+}
@@ -0,0 +1,233 @@
+"use client";
+
+import { useRef } from "react";
+import { motion, useTransform } from "framer-motion";
+import Inspector from "@/components/Inspector";
+import SyntaxHighlight from "@/components/SyntaxHighlight";
+import VariableHover from "@/components/VariableHover";
+import { useIdeStore } from "@/lib/store";
+import { useMouseParallax, useScrollDepth } from "@/lib/hooks";
+
+// ═══════════════════════════════════════════════════════════════════
+// ABOUT VIEW - Bio & Philosophy
+// ═══════════════════════════════════════════════════════════════════
+
+const PRINCIPLES = [
+  { title: "Dichotomy of Control", desc: "Focus energy only on what depends on us" },
+  { title: "Memento Mori", desc: "Remember mortality to appreciate life" },
+  { title: "Amor Fati", desc: "Love whatever happens as necessary" },
+  { title: "Virtue Ethics", desc: "Character is the only true good" },
+  { title: "Present Moment", desc: "The past and future don't exist" },
+  { title: "Negative Visualization", desc: "Imagine loss to cultivate gratitude" },
+];
+
+const CONTACT_LINKS = [
+  { label: "Email", href: "mailto:juan@example.com" },
+  { label: "GitHub", href: "https://github.com" },
+  { label: "Twitter", href: "https://twitter.com" },
+  { label: "LinkedIn", href: "https://linkedin.com" },
+];
+
+// What the Refactor Toggle shows in place of the page
+const ABOUT_SOURCE = {
+  name: "Juan Rizky Maulana",
+  role: ["developer", "writer", "student of Stoic philosophy"],
+  practice: "Stoicism",
+  principles: PRINCIPLES,
+  links: CONTACT_LINKS,
+};
+
+export default function AboutView() {
+  const scrollProgress = useScrollDepth();
+  const { x: mouseX, y: mouseY } = useMouseParallax();
+  const viewMode = useIdeStore(state => state.viewMode);
+  const contentRef = useRef<HTMLDivElement>(null);
+
+  return (
+    <div className="min-h-screen px-4 sm:px-6 py-24 sm:py-32">
+      <Inspector container={contentRef} visibleFrom="2xl" />
+
+      <div ref={contentRef} className="max-w-4xl mx-auto">
+        {viewMode === 'source' ? (
+          <SyntaxHighlight source={JSON.stringify(ABOUT_SOURCE, null, 2)} language="json" />
+        ) : (
+          <>
+            {/* Hero Introduction */}
+            <motion.div
+              initial={{ opacity: 0, y: 30 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.8 }}
+              className="mb-24"
+              data-section="introduction"
+              data-section-title="Introduction"
+            >
+              <motion.h1 
+                className="text-5xl sm:text-7xl font-extralight mb-8 tracking-tight"
+                style={{ 
+                  color: 'var(--text-primary)',
+                  transform: `translateX(${mouseX * 10}px) translateY(${mouseY * 10}px)`,
+                  transition: 'transform 0.3s ease-out'
+                }}
+              >
+                Juan Rizky<br />Maulana
+              </motion.h1>
+          
+              <p className="text-xl sm:text-2xl font-light leading-relaxed mb-6" style={{ color: 'var(--text-secondary)' }}>
+                Developer, writer, and student of Stoic philosophy.
+              </p>
+          
+              <p className="text-lg leading-relaxed" style={{ color: 'var(--text-tertiary)' }}>
+                I build tools for contemplation and create spaces for philosophical inquiry. 
+                My work explores the intersection of ancient wisdom and modern technology.
+              </p>
+            </motion.div>
+
+            {/* Philosophy Section */}
+            <motion.section
+              initial={{ opacity: 0, y: 30 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.8, delay: 0.2 }}
+              className="mb-24 p-8 sm:p-12 rounded-xl"
+              style={{ 
+                backgroundColor: 'var(--bg-elevated)',
+                border: '1px solid var(--border-primary)',
+              }}
+              data-section="philosophy"
+              data-section-title="Philosophy"
+            >
+              <h2 className="text-2xl font-light mb-6" style={{ color: 'var(--accent-gold)' }}>
+                Philosophy
+              </h2>
+          
+              <div className="space-y-6 text-base leading-relaxed" style={{ color: 'var(--text-secondary)' }}>
+                <p>
+                  I practice <span style={{ color: 'var(--accent-gold)' }}><VariableHover term="Stoicism" /></span> &mdash; not as an academic exercise, 
+                  but as a living philosophy. The Stoics taught that virtue is the only true good, that we should focus 
+                  on what&apos;s within our control, and that obstacles can become opportunities.
+                </p>
+            
+                <p>
+                  <span className="italic">&ldquo;The impediment to action advances action. What stands in the way becomes the way.&rdquo;</span> 
+                  <br />&mdash; Marcus Aurelius
+                </p>
+            
+                <p>
+                  This site is an experiment in digital Stoicism — a place to practice <span className="font-medium"><VariableHover term="Memento Mori">memento mori</VariableHover></span>, 
+                  contemplate existential questions, and build tools that help us live more deliberately.
+                </p>
+              </div>
+            </motion.section>
+
+            {/* Principles */}
+            <motion.section
+              initial={{ opacity: 0, y: 30 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.8, delay: 0.4 }}
+              className="mb-24"
+              data-section="principles"
+              data-section-title="Guiding Principles"
+            >
+              <h2 className="text-2xl font-light mb-8" style={{ color: 'var(--text-primary)' }}>
+                Guiding Principles
+              </h2>
+          
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {PRINCIPLES.map((principle, index) => (
+                  <motion.div
+                    key={principle.title}
+                    initial={{ opacity: 0, x: -20 }}
+                    animate={{ opacity: 1, x: 0 }}
+                    transition={{ delay: 0.5 + index * 0.1 }}
+                    className="p-6 rounded-lg"
+                    style={{ 
+                      backgroundColor: 'var(--bg-elevated)',
+                      border: '1px solid var(--border-primary)',
+                    }}
+                  >
+                    <h3 className="text-lg font-light mb-2" style={{ color: 'var(--text-primary)' }}>
+                      <VariableHover term={principle.title}>{principle.title}</VariableHover>
+                    </h3>
+                    <p className="text-sm" style={{ color: 'var(--text-tertiary)' }}>
+                      {principle.desc}
+                    </p>
+                  </motion.div>
+                ))}
+              </div>
+            </motion.section>
+
+            {/* Contact */}
+            <motion.section
+              initial={{ opacity: 0, y: 30 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.8, delay: 0.8 }}
+              className="text-center"
+              data-section="contact"
+              data-section-title="Get in Touch"
+            >
+              <h2 className="text-2xl font-light mb-6" style={{ color: 'var(--text-primary)' }}>
+                Get in Touch
+              </h2>
+          
+              <p className="text-base mb-8" style={{ color: 'var(--text-secondary)' }}>
+                Open to conversations about philosophy, technology, and the examined life.
+              </p>
+          
+              <div className="flex flex-wrap items-center justify-center gap-6">
+                {CONTACT_LINKS.map(link => (
+                  <motion.a
+                    key={link.label}
+                    href={link.href}
+                    className="px-6 py-3 rounded-lg text-sm tracking-wider uppercase transition-all"
+                    style={{ 
+                      backgroundColor: 'var(--bg-elevated)',
+                      color: 'var(--text-secondary)',
+                      border: '1px solid var(--border-primary)',
+                    }}
+                    whileHover={{ 
+                      scale: 1.05,
+                      borderColor: 'var(--accent-gold)',
+                    }}
+                    whileTap={{ scale: 0.95 }}
+                  >
+                    {link.label}
+                  </motion.a>
+                ))}
+              </div>
+            </motion.section>
+          </>
+        )}
+
+        {/* Scroll Indicator */}
+        <motion.div
+          className="fixed bottom-8 right-8 w-16 h-16 rounded-full flex items-center justify-center"
+          style={{ 
+            backgroundColor: 'var(--bg-elevated)',
+            border: '1px solid var(--border-primary)',
+          }}
+        >
+          <svg className="w-8 h-8 -rotate-90">
+            <circle
+              cx="16"
+              cy="16"
+              r="14"
+              stroke="var(--border-secondary)"
+              strokeWidth="2"
+              fill="none"
+            />
+            <motion.circle
+              cx="16"
+              cy="16"
+              r="14"
+              stroke="var(--accent-gold)"
+              strokeWidth="2"
+              fill="none"
+              strokeDasharray="87.96"
+              strokeDashoffset={87.96}
+              style={{ strokeDashoffset: useTransform(scrollProgress, [0, 1], [87.96, 0]) }}
+            />
+          </svg>
+        </motion.div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,5 @@
+import ViewLoading from "../ViewLoading";
+
+export default function AboutLoading() {
+  return <ViewLoading view="about" />;
+}
@@ -0,0 +1,17 @@
+import type { Metadata } from "next";
+import { SITE_NAME } from "@/lib/site";
+import AboutView from "./AboutView";
+
+// ═══════════════════════════════════════════════════════════════════
+// ABOUT - The /about view
+// ═══════════════════════════════════════════════════════════════════
+
+export const metadata: Metadata = {
+  title: `About | ${SITE_NAME}`,
+  description: "Who writes here, and the principles behind the work",
+  alternates: { canonical: "/about" },
+};
+
+export default function AboutPage() {
+  return <AboutView />;
+}
@@ -0,0 +1,760 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import Link from "next/link";
+import HoneypotField from "@/components/HoneypotField";
+import { subscribeLiveEvents } from "@/lib/useLiveEvents";
+import { ANSWER_LIMITS, HONEYPOT_FIELD } from "@/lib/spam";
+import { noteBox, packBoard, readingOrder } from "@/lib/board";
+import { REACTIONS, byResonance, type ReactionCounts, type ReactionKind } from "@/lib/reactions";
+import { useMouseParallax } from "@/lib/hooks";
+import type { Question } from "../questions";
+
+// ═══════════════════════════════════════════════════════════════════
+// COLLECTIVE VIEW - Board of Collective Wisdom
+// Now fetches from API and allows users to submit answers
+// ═══════════════════════════════════════════════════════════════════
+
+interface Contemplation {
+  id: number;
+  question: string;
+  featured: boolean;
+  answers?: StickyNoteData[];
+}
+
+interface StickyNoteData {
+  id: number;
+  question: string;
+  answer: string;
+  author: string;
+  color: string;
+  rotation: number;
+  positionX: number;
+  positionY: number;
+  pinned: boolean;
+  contemplationId?: number | null;
+  approved?: boolean;
+  reactions?: ReactionCounts;
+  reacted?: ReactionKind[];
+}
+
+// Color mapping for sticky notes
+const stickyColors: Record<string, string> = {
+  gold: "#fef3c7",
+  sage: "#d1fae5",
+  stone: "#e7e5e4",
+  amber: "#fed7aa",
+  bronze: "#fde68a",
+};
+
+// A sticky note as it hangs on the board. `fill` sizes it to its board slot
+function StickyNoteCard({ note, fill = false }: { note: StickyNoteData; fill?: boolean }) {
+  return (
+    <>
+      {/* Pin */}
+      <div 
+        className="absolute -top-2 left-1/2 -translate-x-1/2 w-4 h-4 rounded-full z-10 shadow-lg"
+        style={{ 
+          background: 'linear-gradient(135deg, #dc2626 0%, #991b1b 100%)',
+          boxShadow: '0 2px 4px rgba(0,0,0,0.3), inset 0 1px 1px rgba(255,255,255,0.3)',
+        }}
+      />
+      
+      {/* Note */}
+      <div 
+        className={`p-6 pt-8 flex flex-col transition-shadow ${fill ? "h-full overflow-hidden" : "min-h-[200px]"}`}
+        style={{
+          backgroundColor: stickyColors[note.color] || note.color || stickyColors.gold,
+          boxShadow: '2px 4px 12px rgba(0,0,0,0.15)',
+        }}
+      >
+        {/* Question Tag */}
+        <p 
+          className="text-[10px] uppercase tracking-wider mb-3 font-medium line-clamp-1"
+          style={{ color: 'rgba(0,0,0,0.4)' }}
+        >
+          {note.question.slice(0, 35)}...
+        </p>
+
+        {/* Answer */}
+        <p 
+          className={`flex-1 text-sm leading-relaxed mb-4 italic ${fill ? "line-clamp-4" : ""}`}
+          style={{ 
+            color: 'rgba(0,0,0,0.75)',
+            fontFamily: "'Georgia', serif",
+          }}
+        >
+          &ldquo;{note.answer}&rdquo;
+        </p>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between pt-3 border-t" style={{ borderColor: 'rgba(0,0,0,0.1)' }}>
+          <span 
+            className="text-xs truncate"
+            style={{ color: 'rgba(0,0,0,0.5)' }}
+          >
+            — {note.author}
+          </span>
+          {!!note.reactions?.resonates && (
+            <span className="text-xs shrink-0 tabular-nums" style={{ color: 'rgba(0,0,0,0.45)' }} title="Resonates">
+              ✦ {note.reactions.resonates}
+            </span>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
+
+export default function CollectiveView() {
+  const [contemplations, setContemplations] = useState<Contemplation[]>([]);
+  const [answers, setAnswers] = useState<StickyNoteData[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedNote, setSelectedNote] = useState<StickyNoteData | null>(null);
+  const [filter, setFilter] = useState<string | null>(null);
+  const [showAnswerForm, setShowAnswerForm] = useState(false);
+  const [selectedQuestion, setSelectedQuestion] = useState<Contemplation | null>(null);
+  const [answerText, setAnswerText] = useState("");
+  const [authorName, setAuthorName] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState("");
+  const [honeypot, setHoneypot] = useState("");
+  const [sort, setSort] = useState<"board" | "resonant">("board");
+  const { x: mouseX } = useMouseParallax();
+
+  // Fetch contemplations and answers
+  useEffect(() => {
+    async function fetchData() {
+      try {
+        const [contRes, ansRes] = await Promise.all([
+          fetch("/api/contemplations"),
+          fetch("/api/answers"),
+        ]);
+        
+        if (contRes.ok) {
+          const data = await contRes.json();
+          setContemplations(data);
+          // Set featured as default selected question
+          const featured = data.find((c: Contemplation) => c.featured);
+          if (featured) setSelectedQuestion(featured);
+        }
+        
+        if (ansRes.ok) {
+          const data = await ansRes.json();
+          setAnswers(data);
+        }
+      } catch (error) {
+        console.error("Failed to fetch collective data:", error);
+      } finally {
+        setLoading(false);
+      }
+    }
+    fetchData();
+    
+    // Refetch when the CMS pushes a change (polls only while the stream is down)
+    return subscribeLiveEvents(["answer.approved", "contemplation.featured"], fetchData);
+  }, []);
+
+  // Submit answer
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!answerText.trim() || !authorName.trim()) return;
+    
+    setSubmitting(true);
+    setSubmitError("");
+    try {
+      const res = await fetch("/api/answers", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          answer: answerText.trim(),
+          author: authorName.trim(),
+          contemplationId: selectedQuestion?.id,
+          question: selectedQuestion?.question,
+          [HONEYPOT_FIELD]: honeypot,
+        }),
+      });
+      
+      if (res.ok) {
+        const newAnswer = await res.json();
+        // Honeypot hits get a reply without a note
+        if (newAnswer.id) setAnswers([newAnswer, ...answers]);
+        setAnswerText("");
+        setShowAnswerForm(false);
+      } else {
+        const data = await res.json().catch(() => null);
+        setSubmitError(data?.error || "Failed to submit. Please try again.");
+      }
+    } catch (error) {
+      console.error("Failed to submit answer:", error);
+      setSubmitError("Failed to submit. Please try again.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Toggle a reaction optimistically; the server's counts win once it replies
+  const react = async (note: StickyNoteData, kind: ReactionKind) => {
+    const had = note.reacted?.includes(kind) ?? false;
+    const apply = (update: Pick<StickyNoteData, "reactions" | "reacted">) => {
+      setAnswers(prev => prev.map(a => (a.id === note.id ? { ...a, ...update } : a)));
+      setSelectedNote(prev => (prev?.id === note.id ? { ...prev, ...update } : prev));
+    };
+    const counts = note.reactions ?? { resonates: 0, challenged: 0, comforted: 0 };
+    apply({
+      reactions: { ...counts, [kind]: Math.max(0, counts[kind] + (had ? -1 : 1)) },
+      reacted: had ? (note.reacted ?? []).filter(k => k !== kind) : [...(note.reacted ?? []), kind],
+    });
+
+    try {
+      const res = await fetch(`/api/answers/${note.id}/reactions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ kind, active: !had }),
+      });
+      if (!res.ok) throw new Error(`Reaction failed with ${res.status}`);
+      apply(await res.json());
+    } catch (error) {
+      console.error("Failed to react:", error);
+      apply({ reactions: note.reactions, reacted: note.reacted });
+    }
+  };
+
+  const questions = [...new Set(answers.map(a => a.question))];
+  const filteredAnswers = useMemo(
+    () => (filter ? answers.filter(a => a.question === filter) : answers),
+    [answers, filter]
+  );
+  const boardLayout = useMemo(() => packBoard(filteredAnswers), [filteredAnswers]);
+  const listedAnswers = useMemo(
+    () => (sort === "resonant" ? [...filteredAnswers].sort(byResonance) : readingOrder(filteredAnswers, boardLayout)),
+    [filteredAnswers, boardLayout, sort]
+  );
+
+  const featuredContemplation = contemplations.find(c => c.featured);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <motion.div
+          animate={{ rotate: 360 }}
+          transition={{ duration: 2, repeat: Infinity, ease: "linear" }}
+          className="text-2xl"
+          style={{ color: "var(--accent-gold)" }}
+        >
+          ◐
+        </motion.div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen px-4 sm:px-6 py-24 sm:py-32">
+      {/* Contemplation Hero */}
+      {featuredContemplation && (
+        <motion.div
+          initial={{ opacity: 0, y: 30 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.8 }}
+          className="max-w-4xl mx-auto mb-20 text-center"
+        >
+          <p className="text-xs uppercase tracking-[0.3em] mb-6" style={{ color: 'var(--accent-gold)' }}>
+            Today&apos;s Contemplation
+          </p>
+          <h2 
+            className="text-3xl sm:text-4xl md:text-5xl font-extralight leading-tight mb-8 italic"
+            style={{ 
+              color: 'var(--text-primary)',
+              fontFamily: "'Georgia', serif",
+            }}
+          >
+            &ldquo;{featuredContemplation.question}&rdquo;
+          </h2>
+          <motion.button
+            onClick={() => {
+              setSelectedQuestion(featuredContemplation);
+              setShowAnswerForm(true);
+            }}
+            className="px-8 py-3 rounded-full text-sm font-medium transition-all"
+            style={{
+              backgroundColor: 'var(--accent-gold)',
+              color: 'var(--bg-primary)',
+            }}
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+          >
+            Share Your Reflection
+          </motion.button>
+        </motion.div>
+      )}
+
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: 30 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.8, delay: 0.2 }}
+        className="max-w-6xl mx-auto mb-12 text-center"
+      >
+        <h1 
+          className="text-4xl sm:text-5xl font-extralight mb-4 tracking-tight"
+          style={{ 
+            color: 'var(--text-primary)',
+            transform: `translateX(${mouseX * 10}px)`,
+            transition: 'transform 0.3s ease-out'
+          }}
+        >
+          Board of Collective
+        </h1>
+        <p className="text-lg font-light mb-8" style={{ color: 'var(--text-tertiary)' }}>
+          Anonymous wisdom from fellow seekers
+        </p>
+
+        {/* Question Filters */}
+        <div className="flex flex-wrap items-center justify-center gap-2 mb-8">
+          <motion.button
+            onClick={() => setFilter(null)}
+            className="px-4 py-2 rounded-full text-xs transition-all"
+            style={{
+              backgroundColor: !filter ? 'var(--accent-gold)' : 'var(--bg-elevated)',
+              color: !filter ? 'var(--bg-primary)' : 'var(--text-secondary)',
+              border: '1px solid var(--border-primary)',
+            }}
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+          >
+            All
+          </motion.button>
+          {questions.slice(0, 6).map((q, i) => (
+            <motion.button
+              key={i}
+              onClick={() => setFilter(q)}
+              className="px-4 py-2 rounded-full text-xs transition-all max-w-[200px] truncate"
+              style={{
+                backgroundColor: filter === q ? 'var(--accent-gold)' : 'var(--bg-elevated)',
+                color: filter === q ? 'var(--bg-primary)' : 'var(--text-secondary)',
+                border: '1px solid var(--border-primary)',
+              }}
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+            >
+              {q.slice(0, 30)}...
+            </motion.button>
+          ))}
+        </div>
+
+        {/* Sort: the board as arranged, or a ranking by resonance */}
+        <div className="flex items-center justify-center gap-4 text-xs">
+          {([["board", "As pinned"], ["resonant", "Most resonant"]] as const).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setSort(value)}
+              className="pb-1 transition-colors"
+              style={{
+                color: sort === value ? 'var(--accent-gold)' : 'var(--text-muted)',
+                borderBottom: `1px solid ${sort === value ? 'var(--accent-gold)' : 'transparent'}`,
+              }}
+            >
+              {label}
+            </button>
+          ))}
+          <span style={{ color: 'var(--border-primary)' }}>|</span>
+          <Link href="/collective/archive" className="pb-1 transition-opacity hover:opacity-70" style={{ color: 'var(--text-muted)' }}>
+            Past contemplations →
+          </Link>
+        </div>
+      </motion.div>
+
+      {/* All Contemplation Questions */}
+      {contemplations.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 0.4 }}
+          className="max-w-4xl mx-auto mb-16"
+        >
+          <h3 className="text-xs uppercase tracking-widest mb-6 text-center" style={{ color: 'var(--text-muted)' }}>
+            Questions for Reflection
+          </h3>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {contemplations.map((c) => (
+              <motion.div
+                key={c.id}
+                className="p-4 rounded-lg cursor-pointer transition-all"
+                style={{
+                  backgroundColor: 'var(--bg-elevated)',
+                  border: c.featured ? '1px solid var(--accent-gold)' : '1px solid var(--border-primary)',
+                }}
+                whileHover={{ scale: 1.02, borderColor: 'var(--accent-gold)' }}
+                onClick={() => {
+                  setSelectedQuestion(c);
+                  setShowAnswerForm(true);
+                }}
+              >
+                <p className="text-sm font-light italic" style={{ color: 'var(--text-secondary)' }}>
+                  &ldquo;{c.question}&rdquo;
+                </p>
+                {c.featured && (
+                  <span className="inline-block mt-2 text-xs px-2 py-0.5 rounded" style={{ backgroundColor: 'rgba(201,162,39,0.2)', color: 'var(--accent-gold)' }}>
+                    Featured
+                  </span>
+                )}
+              </motion.div>
+            ))}
+          </div>
+        </motion.div>
+      )}
+
+      {/* Cork Board */}
+      <div className="max-w-7xl mx-auto relative">
+        {/* Board Background */}
+        <div 
+          className="absolute inset-0 -m-8 rounded-xl opacity-30"
+          style={{
+            background: 'repeating-linear-gradient(45deg, var(--bg-tertiary) 0, var(--bg-tertiary) 2px, transparent 2px, transparent 8px)',
+          }}
+        />
+
+        {/* Sticky Notes: the packed board on wide screens, a list in board order below */}
+        <div
+          className={`relative hidden ${sort === "board" ? "lg:block" : ""}`}
+          style={{ aspectRatio: `100 / ${boardLayout.height}` }}
+        >
+          {filteredAnswers.map((note, index) => {
+            const position = boardLayout.positions.get(note.id);
+            if (!position) return null;
+            return (
+              <motion.div
+                key={note.id}
+                initial={{ opacity: 0, scale: 0.8, rotate: note.rotation }}
+                animate={{ opacity: 1, scale: 1, rotate: note.rotation }}
+                transition={{ 
+                  delay: Math.min(index, 20) * 0.05,
+                  type: "spring",
+                  stiffness: 200,
+                }}
+                whileHover={{ 
+                  scale: 1.05, 
+                  rotate: 0,
+                  zIndex: 10,
+                  boxShadow: '0 20px 40px rgba(0,0,0,0.2)',
+                }}
+                onClick={() => setSelectedNote(note)}
+                className="absolute cursor-pointer group"
+                style={noteBox(position, boardLayout.height)}
+              >
+                <StickyNoteCard note={note} fill />
+              </motion.div>
+            );
+          })}
+        </div>
+
+        <div className={`relative grid grid-cols-1 sm:grid-cols-2 gap-6 ${sort === "board" ? "lg:hidden" : "lg:grid-cols-3 xl:grid-cols-4"}`}>
+          {listedAnswers.map((note, index) => (
+            <motion.div
+              key={note.id}
+              initial={{ opacity: 0, scale: 0.8, rotate: note.rotation }}
+              animate={{ opacity: 1, scale: 1, rotate: note.rotation }}
+              transition={{ 
+                delay: Math.min(index, 20) * 0.05,
+                type: "spring",
+                stiffness: 200,
+              }}
+              whileHover={{ 
+                scale: 1.05, 
+                rotate: 0,
+                zIndex: 10,
+                boxShadow: '0 20px 40px rgba(0,0,0,0.2)',
+              }}
+              onClick={() => setSelectedNote(note)}
+              className="relative cursor-pointer group"
+            >
+              <StickyNoteCard note={note} />
+            </motion.div>
+          ))}
+        </div>
+
+        {/* Empty State */}
+        {filteredAnswers.length === 0 && (
+          <div className="text-center py-20">
+            <p className="text-lg font-light mb-4" style={{ color: 'var(--text-muted)' }}>
+              No reflections yet. Be the first to share.
+            </p>
+            <motion.button
+              onClick={() => setShowAnswerForm(true)}
+              className="px-6 py-3 rounded-full text-sm"
+              style={{
+                backgroundColor: 'var(--accent-gold)',
+                color: 'var(--bg-primary)',
+              }}
+              whileHover={{ scale: 1.05 }}
+            >
+              Share Your Wisdom
+            </motion.button>
+          </div>
+        )}
+      </div>
+
+      {/* Expanded Note Modal */}
+      <AnimatePresence>
+        {selectedNote && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 flex items-center justify-center p-6"
+            onClick={() => setSelectedNote(null)}
+          >
+            {/* Backdrop */}
+            <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" />
+            
+            {/* Note */}
+            <motion.div
+              initial={{ scale: 0.8, rotate: selectedNote.rotation }}
+              animate={{ scale: 1, rotate: 0 }}
+              exit={{ scale: 0.8, rotate: selectedNote.rotation }}
+              onClick={(e) => e.stopPropagation()}
+              className="relative max-w-lg w-full z-10"
+            >
+              {/* Pin */}
+              <div 
+                className="absolute -top-3 left-1/2 -translate-x-1/2 w-6 h-6 rounded-full z-10"
+                style={{ 
+                  background: 'linear-gradient(135deg, #dc2626 0%, #991b1b 100%)',
+                  boxShadow: '0 2px 4px rgba(0,0,0,0.3), inset 0 1px 1px rgba(255,255,255,0.3)',
+                }}
+              />
+              
+              <div 
+                className="p-8 pt-10"
+                style={{
+                  backgroundColor: stickyColors[selectedNote.color] || selectedNote.color || stickyColors.gold,
+                  boxShadow: '4px 8px 24px rgba(0,0,0,0.25)',
+                }}
+              >
+                {/* Question */}
+                <p 
+                  className="text-sm uppercase tracking-wider mb-4 font-medium"
+                  style={{ color: 'rgba(0,0,0,0.5)' }}
+                >
+                  {selectedNote.question}
+                </p>
+
+                {/* Answer */}
+                <p 
+                  className="text-xl leading-relaxed mb-6 italic"
+                  style={{ 
+                    color: 'rgba(0,0,0,0.85)',
+                    fontFamily: "'Georgia', serif",
+                  }}
+                >
+                  &ldquo;{selectedNote.answer}&rdquo;
+                </p>
+
+                {/* Footer */}
+                <div className="flex items-center justify-between pt-4 border-t" style={{ borderColor: 'rgba(0,0,0,0.15)' }}>
+                  <span 
+                    className="text-sm"
+                    style={{ color: 'rgba(0,0,0,0.6)' }}
+                  >
+                    — {selectedNote.author}
+                  </span>
+                  {selectedNote.contemplationId && selectedNote.approved !== false && (
+                    <Link
+                      href={`/collective/${selectedNote.contemplationId}/answers/${selectedNote.id}`}
+                      className="text-xs transition-opacity hover:opacity-70"
+                      style={{ color: 'rgba(0,0,0,0.45)' }}
+                    >
+                      Permalink ¶
+                    </Link>
+                  )}
+                </div>
+
+                {/* Reactions */}
+                <div className="flex flex-wrap gap-2 mt-4">
+                  {REACTIONS.map(({ kind, label, symbol }) => {
+                    const active = selectedNote.reacted?.includes(kind) ?? false;
+                    return (
+                      <motion.button
+                        key={kind}
+                        onClick={() => react(selectedNote, kind)}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs transition-colors"
+                        style={{
+                          backgroundColor: active ? 'rgba(0,0,0,0.75)' : 'rgba(0,0,0,0.06)',
+                          color: active ? '#fef3c7' : 'rgba(0,0,0,0.6)',
+                        }}
+                        whileTap={{ scale: 0.95 }}
+                        aria-pressed={active}
+                      >
+                        <span>{symbol}</span>
+                        {label}
+                        <span className="tabular-nums" style={{ opacity: 0.7 }}>
+                          {selectedNote.reactions?.[kind] ?? 0}
+                        </span>
+                      </motion.button>
+                    );
+                  })}
+                </div>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Answer Form Modal */}
+      <AnimatePresence>
+        {showAnswerForm && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 flex items-center justify-center p-6"
+            onClick={() => setShowAnswerForm(false)}
+          >
+            <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" />
+            
+            <motion.div
+              initial={{ scale: 0.9, y: 20 }}
+              animate={{ scale: 1, y: 0 }}
+              exit={{ scale: 0.9, y: 20 }}
+              onClick={(e) => e.stopPropagation()}
+              className="relative max-w-xl w-full z-10 rounded-xl p-8"
+              style={{ backgroundColor: 'var(--bg-elevated)', border: '1px solid var(--border-primary)' }}
+            >
+              <button
+                onClick={() => setShowAnswerForm(false)}
+                className="absolute top-4 right-4 text-xl opacity-50 hover:opacity-100"
+                style={{ color: 'var(--text-secondary)' }}
+              >
+                ×
+              </button>
+
+              <h3 className="text-2xl font-light mb-2" style={{ color: 'var(--text-primary)' }}>
+                Share Your Reflection
+              </h3>
+              
+              {/* Question selector */}
+              <div className="mb-6">
+                <label className="block text-xs uppercase tracking-wider mb-2" style={{ color: 'var(--text-muted)' }}>
+                  Question
+                </label>
+                <select
+                  value={selectedQuestion?.id || ""}
+                  onChange={(e) => {
+                    const q = contemplations.find(c => c.id === Number(e.target.value));
+                    setSelectedQuestion(q || null);
+                  }}
+                  className="w-full px-4 py-3 rounded-lg text-sm"
+                  style={{
+                    backgroundColor: 'var(--bg-primary)',
+                    border: '1px solid var(--border-primary)',
+                    color: 'var(--text-primary)',
+                  }}
+                >
+                  <option value="">Select a question...</option>
+                  {contemplations.map(c => (
+                    <option key={c.id} value={c.id}>{c.question}</option>
+                  ))}
+                </select>
+              </div>
+
+              {selectedQuestion && (
+                <p className="text-lg font-light italic mb-6" style={{ color: 'var(--text-secondary)' }}>
+                  &ldquo;{selectedQuestion.question}&rdquo;
+                </p>
+              )}
+
+              <form onSubmit={handleSubmit}>
+                <div className="mb-4">
+                  <label className="block text-xs uppercase tracking-wider mb-2" style={{ color: 'var(--text-muted)' }}>
+                    Your Answer
+                  </label>
+                  <textarea
+                    value={answerText}
+                    onChange={(e) => setAnswerText(e.target.value)}
+                    placeholder="Share your wisdom..."
+                    maxLength={ANSWER_LIMITS.answer.max}
+                    rows={4}
+                    className="w-full px-4 py-3 rounded-lg text-sm resize-none"
+                    style={{
+                      backgroundColor: 'var(--bg-primary)',
+                      border: '1px solid var(--border-primary)',
+                      color: 'var(--text-primary)',
+                    }}
+                  />
+                </div>
+
+                <div className="mb-6">
+                  <label className="block text-xs uppercase tracking-wider mb-2" style={{ color: 'var(--text-muted)' }}>
+                    Your Name (or Anonymous)
+                  </label>
+                  <input
+                    type="text"
+                    value={authorName}
+                    onChange={(e) => setAuthorName(e.target.value)}
+                    placeholder="A Fellow Seeker"
+                    maxLength={ANSWER_LIMITS.author.max}
+                    className="w-full px-4 py-3 rounded-lg text-sm"
+                    style={{
+                      backgroundColor: 'var(--bg-primary)',
+                      border: '1px solid var(--border-primary)',
+                      color: 'var(--text-primary)',
+                    }}
+                  />
+                </div>
+
+                <HoneypotField value={honeypot} onChange={setHoneypot} />
+
+                {submitError && (
+                  <p className="text-xs mb-4" style={{ color: '#ef4444' }}>
+                    {submitError}
+                  </p>
+                )}
+
+                <motion.button
+                  type="submit"
+                  disabled={submitting || !answerText.trim() || !authorName.trim()}
+                  className="w-full py-3 rounded-lg text-sm font-medium transition-all disabled:opacity-50"
+                  style={{
+                    backgroundColor: 'var(--accent-gold)',
+                    color: 'var(--bg-primary)',
+                  }}
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                >
+                  {submitting ? "Sharing..." : "Share Reflection"}
+                </motion.button>
+              </form>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Stats */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.5 }}
+        className="max-w-4xl mx-auto mt-16 flex items-center justify-center gap-12 text-center"
+      >
+        <div>
+          <p className="text-3xl font-light" style={{ color: 'var(--accent-gold)' }}>
+            {answers.length}
+          </p>
+          <p className="text-xs uppercase tracking-wider" style={{ color: 'var(--text-muted)' }}>
+            Reflections
+          </p>
+        </div>
+        <div className="w-px h-8" style={{ backgroundColor: 'var(--border-primary)' }} />
+        <div>
+          <p className="text-3xl font-light" style={{ color: 'var(--accent-gold)' }}>
+            {contemplations.length}
+          </p>
+          <p className="text-xs uppercase tracking-wider" style={{ color: 'var(--text-muted)' }}>
+            Questions
+          </p>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,5 @@
+import ViewLoading from "../ViewLoading";
+
+export default function CollectiveLoading() {
+  return <ViewLoading view="collective" />;
+}
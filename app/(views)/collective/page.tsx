@@ -0,0 +1,17 @@
+import type { Metadata } from "next";
+import { SITE_NAME } from "@/lib/site";
+import CollectiveView from "./CollectiveView";
+
+// ═══════════════════════════════════════════════════════════════════
+// COLLECTIVE - The /collective view
+// ═══════════════════════════════════════════════════════════════════
+
+export const metadata: Metadata = {
+  title: `Collective | ${SITE_NAME}`,
+  description: "The Board of Collective: answers to the daily contemplation",
+  alternates: { canonical: "/collective" },
+};
+
+export default function CollectivePage() {
+  return <CollectiveView />;
+}
@@ -0,0 +1,10 @@
+// ═══════════════════════════════════════════════════════════════════
+// FALLBACK QUOTES - Shown by Writing and Work until the CMS has quotes
+// ═══════════════════════════════════════════════════════════════════
+
+export const STOIC_QUOTES_FALLBACK = [
+  { text: "You have power over your mind - not outside events.", author: "Marcus Aurelius", source: "Meditations VI.32" },
+  { text: "The impediment to action advances action. What stands in the way becomes the way.", author: "Marcus Aurelius", source: "Meditations V.20" },
+  { text: "Waste no more time arguing what a good man should be. Be one.", author: "Marcus Aurelius", source: "Meditations X.16" },
+  { text: "He who fears death will never do anything worthy of a living man.", author: "Seneca", source: "Letters 82" },
+];
@@ -0,0 +1,13 @@
+import type { ReactNode } from "react";
+import ViewShell from "./ViewShell";
+
+// ═══════════════════════════════════════════════════════════════════
+// VIEWS LAYOUT - Now, Writing, Work, Collective, About and Voices share
+// one shell, so Nav and the theme survive moving between them.
+// Detail pages (/writing/<slug>, /collective/archive, ...) live outside
+// the group and keep their own chrome.
+// ═══════════════════════════════════════════════════════════════════
+
+export default function ViewsLayout({ children }: { children: ReactNode }) {
+  return <ViewShell>{children}</ViewShell>;
+}
@@ -0,0 +1,5 @@
+import ViewLoading from "./ViewLoading";
+
+export default function NowLoading() {
+  return <ViewLoading view="now" />;
+}
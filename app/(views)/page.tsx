@@ -0,0 +1,14 @@
+import type { Metadata } from "next";
+import NowView from "./NowView";
+
+// ═══════════════════════════════════════════════════════════════════
+// NOW - The home page: today's contemplation, intention and writing
+// ═══════════════════════════════════════════════════════════════════
+
+export const metadata: Metadata = {
+  alternates: { canonical: "/" },
+};
+
+export default function NowPage() {
+  return <NowView />;
+}
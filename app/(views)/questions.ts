@@ -0,0 +1,97 @@
+import { useState, useEffect } from "react";
+import { dateKeyInZone, dayNumber, type DateKey } from "@/lib/schedule";
+
+// ═══════════════════════════════════════════════════════════════════
+// EXISTENTIAL QUESTIONS SYSTEM
+// ═══════════════════════════════════════════════════════════════════
+
+export const EXISTENTIAL_QUESTIONS = [
+  { id: 1, text: "What would you do if you knew you couldn't fail?" },
+  { id: 2, text: "What is within your control right now?" },
+  { id: 3, text: "What virtue did you practice today?" },
+  { id: 4, text: "What would you tell your younger self?" },
+  { id: 5, text: "What obstacle is becoming your way?" },
+  { id: 6, text: "When did you last feel truly alive?" },
+  { id: 7, text: "What are you grateful for today?" },
+  { id: 8, text: "What would the best version of yourself do?" },
+  { id: 9, text: "Who has shaped who you are?" },
+  { id: 10, text: "What truth are you avoiding?" },
+  { id: 11, text: "What is enough for you?" },
+  { id: 12, text: "What would make today meaningful?" },
+  { id: 13, text: "What judgment are you making that causes suffering?" },
+  { id: 14, text: "Where do you find peace?" },
+  { id: 15, text: "What fear is holding you back?" },
+  { id: 16, text: "What legacy do you want to leave?" },
+  { id: 17, text: "What brings you joy without effort?" },
+  { id: 18, text: "What is your relationship with time?" },
+  { id: 19, text: "If today were your last, what would matter?" },
+  { id: 20, text: "What are you holding onto that no longer serves you?" },
+];
+
+export interface Question {
+  id: number;
+  text: string;
+  votes?: number;
+  voted?: boolean;
+}
+
+// Calendar day in the visitor's own timezone, for when the server can't be asked
+export function localDateKey(): DateKey {
+  return dateKeyInZone(new Date(), Intl.DateTimeFormat().resolvedOptions().timeZone);
+}
+
+// Hook for questions system with CMS support; votes are counted server-side.
+// `date` is the server's today, which picks the fallback question's turn.
+export function useQuestions(cmsQuestions?: Question[], date?: DateKey | null) {
+  const [votes, setVotes] = useState<Record<number, number>>({});
+  const [userVotes, setUserVotes] = useState<number[]>([]);
+  const [todayQuestionIndex, setTodayQuestionIndex] = useState(0);
+
+  // Use CMS questions if provided, otherwise fallback
+  const isCms = !!cmsQuestions && cmsQuestions.length > 0;
+  const questions: Question[] = isCms ? cmsQuestions : EXISTENTIAL_QUESTIONS;
+
+  // Seed counts from /api/contemplations; fallback questions start at zero
+  useEffect(() => {
+    setVotes(Object.fromEntries(questions.map(q => [q.id, q.votes ?? 0])));
+    setUserVotes(questions.filter(q => q.voted).map(q => q.id));
+    setTodayQuestionIndex(dayNumber(date ?? localDateKey()) % questions.length);
+  }, [questions, date]);
+
+  const todayQuestion = questions[todayQuestionIndex] || questions[0];
+
+  const vote = async (questionId: number) => {
+    if (userVotes.includes(questionId)) return;
+
+    // Optimistic; rolled back if the server refuses
+    setVotes(prev => ({ ...prev, [questionId]: (prev[questionId] || 0) + 1 }));
+    setUserVotes(prev => [...prev, questionId]);
+
+    // Built-in fallback questions have no rows to vote on
+    if (!isCms) return;
+
+    try {
+      const res = await fetch(`/api/contemplations/${questionId}/vote`, { method: "POST" });
+      if (!res.ok) throw new Error(`Vote rejected (${res.status})`);
+      const data = await res.json();
+      setVotes(prev => ({ ...prev, [questionId]: data.votes }));
+    } catch (error) {
+      console.error("Failed to vote:", error);
+      setVotes(prev => ({ ...prev, [questionId]: Math.max((prev[questionId] || 0) - 1, 0) }));
+      setUserVotes(prev => prev.filter(id => id !== questionId));
+    }
+  };
+
+  const sortedQuestions = [...questions].sort(
+    (a, b) => (votes[b.id] || 0) - (votes[a.id] || 0)
+  );
+
+  return {
+    todayQuestion,
+    allQuestions: questions,
+    sortedQuestions,
+    votes,
+    userVotes,
+    vote,
+  };
+}
@@ -0,0 +1,24 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { motion } from "framer-motion";
+
+// ═══════════════════════════════════════════════════════════════════
+// VIEW TRANSITION - A template remounts on every navigation, so each
+// view fades in out of a blur as it arrives
+// ═══════════════════════════════════════════════════════════════════
+
+export default function ViewTemplate({ children }: { children: ReactNode }) {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20, filter: "blur(10px)" }}
+      animate={{ opacity: 1, y: 0, filter: "blur(0px)" }}
+      transition={{
+        duration: 0.5,
+        ease: [0.22, 1, 0.36, 1]
+      }}
+    >
+      {children}
+    </motion.div>
+  );
+}
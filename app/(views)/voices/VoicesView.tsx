@@ -0,0 +1,309 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { motion } from "framer-motion";
+import Link from "next/link";
+import { ORACLE_GREETING, ORACLE_MESSAGE_MAX, citeQuote, readOracleEvents, type OracleCitations, type OracleMessage } from "@/lib/oracle";
+
+// ═══════════════════════════════════════════════════════════════════
+// VOICES VIEW - Stoic Oracle Chat (Fixed Layout)
+// ═══════════════════════════════════════════════════════════════════
+
+// Where an oracle reply came from: the quote's author and source, questions and articles to follow
+function OracleCitationLinks({ citations }: { citations: OracleCitations }) {
+  const { quote, articles, contemplation } = citations;
+  if (!quote && articles.length === 0 && !contemplation) return null;
+
+  return (
+    <div className="mt-3 pt-2 space-y-1 border-t text-xs" style={{ borderColor: 'var(--border-secondary)' }}>
+      {quote && (
+        <p style={{ color: 'var(--text-muted)' }}>— {citeQuote(quote)}</p>
+      )}
+      {contemplation && (
+        <Link href={`/collective/${contemplation.id}`} className="block hover:opacity-70 transition-opacity" style={{ color: 'var(--accent-gold)' }}>
+          ✦ {contemplation.question}
+        </Link>
+      )}
+      {articles.map(article => (
+        <Link key={article.slug} href={`/writing/${article.slug}`} className="block hover:opacity-70 transition-opacity" style={{ color: 'var(--accent-gold)' }}>
+          → {article.title}
+        </Link>
+      ))}
+    </div>
+  );
+}
+
+// Messages sent but not yet answered carry negative ids until the server returns
+// the stored ones; the greeting is never stored
+const GREETING: OracleMessage = { id: 0, role: "oracle", text: ORACLE_GREETING, citations: null, createdAt: "" };
+
+export default function VoicesView() {
+  const [messages, setMessages] = useState<OracleMessage[]>([]);
+  const [input, setInput] = useState("");
+  const [isTyping, setIsTyping] = useState(false);
+  // The reply as it streams in, before the stored message replaces it
+  const [streamed, setStreamed] = useState<string | null>(null);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+
+  const scrollToBottom = () => {
+    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+  };
+
+  useEffect(() => {
+    scrollToBottom();
+  }, [messages, streamed]);
+
+  // Pick up the conversation where this visitor left it
+  useEffect(() => {
+    fetch("/api/oracle")
+      .then(res => (res.ok ? res.json() : []))
+      .then((history: OracleMessage[]) => setMessages(history))
+      .catch(error => console.error("Failed to fetch conversation:", error));
+  }, []);
+
+  const handleSend = async () => {
+    const text = input.trim();
+    if (!text || isTyping) return;
+
+    const pending: OracleMessage = { id: -Date.now(), role: "visitor", text, citations: null, createdAt: new Date().toISOString() };
+    setMessages(prev => [...prev, pending]);
+    setInput("");
+    setIsTyping(true);
+
+    try {
+      const res = await fetch("/api/oracle", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ message: text }),
+      });
+      if (!res.ok || !res.body) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "The oracle is silent.");
+      }
+
+      let answered = false;
+      for await (const event of readOracleEvents(res.body)) {
+        if (event.type === "message") {
+          setMessages(prev => prev.map(m => (m.id === pending.id ? event.message : m)));
+        } else if (event.type === "token") {
+          setStreamed(prev => (prev ?? "") + event.text);
+        } else if (event.type === "reset") {
+          setStreamed(null);
+        } else {
+          answered = true;
+          setStreamed(null);
+          setMessages(prev => [...prev, event.message]);
+        }
+      }
+      if (!answered) throw new Error("The oracle fell silent mid-thought. Ask again.");
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : "The oracle is silent.";
+      setStreamed(null);
+      setMessages(prev => [
+        ...prev,
+        { id: pending.id - 1, role: "oracle", text: reason, citations: null, createdAt: new Date().toISOString() },
+      ]);
+    } finally {
+      setIsTyping(false);
+    }
+  };
+
+  const handleForget = async () => {
+    if (!confirm("Forget this conversation?")) return;
+    try {
+      await fetch("/api/oracle", { method: "DELETE" });
+      setMessages([]);
+    } catch (error) {
+      console.error("Failed to clear conversation:", error);
+    }
+  };
+
+  const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  return (
+    <div className="h-screen flex flex-col pt-16">
+      {/* Header - Fixed */}
+      <div 
+        className="flex-shrink-0 px-6 py-6 border-b"
+        style={{ borderColor: 'var(--border-secondary)' }}
+      >
+        <div className="max-w-3xl mx-auto flex items-center gap-4">
+          <div 
+            className="w-12 h-12 rounded-full flex items-center justify-center text-xl"
+            style={{ backgroundColor: 'var(--accent-gold-dim)' }}
+          >
+            🏛️
+          </div>
+          <div className="flex-1">
+            <h1 className="text-xl font-light" style={{ color: 'var(--text-primary)' }}>
+              The Stoic Oracle
+            </h1>
+            <p className="text-xs" style={{ color: 'var(--text-muted)' }}>
+              Wisdom from the ancients
+            </p>
+          </div>
+          {messages.length > 0 && (
+            <button
+              onClick={handleForget}
+              className="text-xs hover:opacity-70 transition-opacity"
+              style={{ color: 'var(--text-muted)' }}
+            >
+              Begin anew
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Messages - Scrollable */}
+      <div className="flex-1 overflow-y-auto px-6 py-8">
+        <div className="max-w-3xl mx-auto space-y-4">
+          {[GREETING, ...messages].map((message, index) => (
+            <motion.div
+              key={message.id}
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: Math.min(index, 10) * 0.05 }}
+              className={`flex ${message.role === 'visitor' ? 'justify-end' : 'justify-start'}`}
+            >
+              <div 
+                className={`max-w-[85%] sm:max-w-[70%] px-4 py-3 ${
+                  message.role === 'visitor' 
+                    ? 'rounded-2xl rounded-br-sm' 
+                    : 'rounded-2xl rounded-bl-sm'
+                }`}
+                style={{ 
+                  backgroundColor: message.role === 'visitor' 
+                    ? 'var(--accent-gold)' 
+                    : 'var(--bg-elevated)',
+                  color: message.role === 'visitor' 
+                    ? 'var(--bg-primary)' 
+                    : 'var(--text-secondary)',
+                }}
+              >
+                <p className="text-sm leading-relaxed whitespace-pre-line">
+                  {message.text}
+                </p>
+                {message.citations && <OracleCitationLinks citations={message.citations} />}
+                {message.createdAt && (
+                  <p 
+                    className="text-[10px] mt-1 text-right"
+                    style={{ 
+                      opacity: 0.6,
+                      color: message.role === 'visitor' ? 'var(--bg-primary)' : 'var(--text-muted)'
+                    }}
+                  >
+                    {new Date(message.createdAt).toLocaleTimeString('en-US', { 
+                      hour: '2-digit', 
+                      minute: '2-digit' 
+                    })}
+                  </p>
+                )}
+              </div>
+            </motion.div>
+          ))}
+          
+          {streamed && (
+            <div className="flex justify-start">
+              <div
+                className="max-w-[85%] sm:max-w-[70%] px-4 py-3 rounded-2xl rounded-bl-sm"
+                style={{ backgroundColor: 'var(--bg-elevated)', color: 'var(--text-secondary)' }}
+              >
+                <p className="text-sm leading-relaxed whitespace-pre-line">
+                  {streamed}
+                  <motion.span
+                    animate={{ opacity: [1, 0] }}
+                    transition={{ duration: 0.6, repeat: Infinity, repeatType: "reverse" }}
+                    style={{ color: 'var(--accent-gold)' }}
+                  >
+                    ▍
+                  </motion.span>
+                </p>
+              </div>
+            </div>
+          )}
+
+          {isTyping && !streamed && (
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              className="flex justify-start"
+            >
+              <div 
+                className="px-4 py-3 rounded-2xl rounded-bl-sm"
+                style={{ backgroundColor: 'var(--bg-elevated)' }}
+              >
+                <div className="flex gap-1.5">
+                  {[0, 1, 2].map(i => (
+                    <motion.div
+                      key={i}
+                      className="w-2 h-2 rounded-full"
+                      style={{ backgroundColor: 'var(--accent-gold)' }}
+                      animate={{ 
+                        y: [0, -6, 0],
+                        opacity: [0.4, 1, 0.4] 
+                      }}
+                      transition={{ 
+                        duration: 0.8, 
+                        repeat: Infinity, 
+                        delay: i * 0.15 
+                      }}
+                    />
+                  ))}
+                </div>
+              </div>
+            </motion.div>
+          )}
+          
+          <div ref={messagesEndRef} />
+        </div>
+      </div>
+
+      {/* Input - Fixed Bottom */}
+      <div 
+        className="flex-shrink-0 px-6 py-4 border-t"
+        style={{ 
+          backgroundColor: 'var(--bg-primary)',
+          borderColor: 'var(--border-secondary)' 
+        }}
+      >
+        <div className="max-w-3xl mx-auto flex gap-3">
+          <input
+            type="text"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyPress={handleKeyPress}
+            placeholder="Seek wisdom..."
+            maxLength={ORACLE_MESSAGE_MAX}
+            className="flex-1 px-4 py-3 rounded-full text-sm transition-all focus:outline-none"
+            style={{ 
+              backgroundColor: 'var(--bg-elevated)',
+              color: 'var(--text-primary)',
+              border: '1px solid var(--border-primary)',
+            }}
+            disabled={isTyping}
+          />
+          <motion.button
+            onClick={handleSend}
+            disabled={!input.trim() || isTyping}
+            className="w-12 h-12 rounded-full flex items-center justify-center transition-all disabled:opacity-30"
+            style={{ 
+              backgroundColor: 'var(--accent-gold)',
+              color: 'var(--bg-primary)',
+            }}
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
+            </svg>
+          </motion.button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+import type { Metadata } from "next";
+import { SITE_NAME } from "@/lib/site";
+import VoicesView from "./VoicesView";
+
+// ═══════════════════════════════════════════════════════════════════
+// VOICES - The /voices view
+// ═══════════════════════════════════════════════════════════════════
+
+export const metadata: Metadata = {
+  title: `Voices | ${SITE_NAME}`,
+  description: "Ask the Stoic oracle and hear the voices of the Stoa answer",
+  alternates: { canonical: "/voices" },
+};
+
+export default function VoicesPage() {
+  return <VoicesView />;
+}
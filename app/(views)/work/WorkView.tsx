@@ -0,0 +1,374 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { motion } from "framer-motion";
+import Link from "next/link";
+import SyntaxHighlight from "@/components/SyntaxHighlight";
+import { subscribeLiveEvents } from "@/lib/useLiveEvents";
+import { useIdeStore } from "@/lib/store";
+import { STOIC_QUOTES_FALLBACK } from "../fallbackQuotes";
+
+// ═══════════════════════════════════════════════════════════════════
+// WORK VIEW - Projects & Contributions (now fetches from API)
+// ═══════════════════════════════════════════════════════════════════
+
+interface Project {
+  id: number;
+  slug: string;
+  title: string;
+  description: string;
+  tech: string[];
+  year: string;
+  status: string;
+  featured?: boolean;
+}
+
+export default function WorkView() {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const viewMode = useIdeStore(state => state.viewMode);
+  const [quotes, setQuotes] = useState(STOIC_QUOTES_FALLBACK);
+  const [loading, setLoading] = useState(true);
+  const [typewriterText, setTypewriterText] = useState("");
+  const [currentQuoteIndex, setCurrentQuoteIndex] = useState(0);
+
+  // Get random quote index based on current hour (changes every hour)
+  // Use a different seed offset for Work section so it shows different quote than Writing
+  const getHourlyRandomIndex = useCallback((quotesLength: number) => {
+    if (quotesLength === 0) return 0;
+    const now = new Date();
+    // Create a seed from year, month, day, and hour + offset for different section
+    const seed = now.getFullYear() * 1000000 + 
+                 (now.getMonth() + 1) * 10000 + 
+                 now.getDate() * 100 + 
+                 now.getHours() + 42; // offset to show different quote than Writing
+    // Simple hash to get pseudo-random but consistent index for the hour
+    return seed % quotesLength;
+  }, []);
+
+  useEffect(() => {
+    async function fetchData() {
+      try {
+        const [projectsRes, quotesRes] = await Promise.all([
+          fetch("/api/projects"),
+          fetch("/api/quotes"),
+        ]);
+        
+        if (projectsRes.ok) {
+          const data = await projectsRes.json();
+          setProjects(data);
+        }
+        
+        if (quotesRes.ok) {
+          const quotesData = await quotesRes.json();
+          if (quotesData.length > 0) {
+            setQuotes(quotesData);
+            setCurrentQuoteIndex(getHourlyRandomIndex(quotesData.length));
+          }
+        }
+      } catch (error) {
+        console.error("Failed to fetch data:", error);
+      } finally {
+        setLoading(false);
+      }
+    }
+    fetchData();
+    
+    // Refetch when the CMS pushes a change (polls only while the stream is down)
+    return subscribeLiveEvents(["project.published"], fetchData);
+  }, [getHourlyRandomIndex]);
+
+  // Update quote every hour
+  useEffect(() => {
+    if (quotes.length === 0) return;
+    
+    const now = new Date();
+    const msUntilNextHour = (60 - now.getMinutes()) * 60 * 1000 - now.getSeconds() * 1000;
+    
+    const timeout = setTimeout(() => {
+      setCurrentQuoteIndex(getHourlyRandomIndex(quotes.length));
+      
+      const interval = setInterval(() => {
+        setCurrentQuoteIndex(getHourlyRandomIndex(quotes.length));
+      }, 60 * 60 * 1000);
+      
+      return () => clearInterval(interval);
+    }, msUntilNextHour);
+    
+    return () => clearTimeout(timeout);
+  }, [quotes.length, getHourlyRandomIndex]);
+
+  const currentQuote = quotes[currentQuoteIndex];
+  const fullText = currentQuote?.text || "";
+
+  useEffect(() => {
+    if (!fullText) return;
+    let i = 0;
+    const timer = setInterval(() => {
+      if (i <= fullText.length) {
+        setTypewriterText(fullText.slice(0, i));
+        i++;
+      } else {
+        clearInterval(timer);
+      }
+    }, 50);
+    
+    return () => clearInterval(timer);
+  }, [fullText]);
+
+  // Generate contribution data (52 weeks)
+  const generateContributions = () => {
+    const weeks = 52;
+    const data: number[][] = [];
+    for (let week = 0; week < weeks; week++) {
+      const days: number[] = [];
+      for (let day = 0; day < 7; day++) {
+        days.push(Math.floor(Math.random() * 5));
+      }
+      data.push(days);
+    }
+    return data;
+  };
+
+  const [contributions] = useState(generateContributions());
+  
+  const getContributionColor = (level: number) => {
+    const colors = [
+      'var(--bg-elevated)',
+      'rgba(201, 162, 39, 0.2)',
+      'rgba(201, 162, 39, 0.4)',
+      'rgba(201, 162, 39, 0.6)',
+      'rgba(201, 162, 39, 0.8)',
+    ];
+    return colors[level] || colors[0];
+  };
+
+  const featured = projects.find(p => p.featured);
+  const others = projects.filter(p => !p.featured);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <motion.div
+          animate={{ rotate: 360 }}
+          transition={{ duration: 2, repeat: Infinity, ease: "linear" }}
+          className="text-2xl"
+          style={{ color: "var(--accent-gold)" }}
+        >
+          ◐
+        </motion.div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen px-4 sm:px-6 py-24 sm:py-32">
+      <div className="max-w-6xl mx-auto">
+        
+        {/* Typewriter Quote */}
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 0.2 }}
+          className="mb-16 sm:mb-24"
+        >
+          <div className="max-w-3xl">
+            <p className="text-xl sm:text-2xl font-light leading-relaxed mb-4 font-mono" style={{ color: 'var(--text-secondary)' }}>
+              {typewriterText}
+              <motion.span
+                animate={{ opacity: [1, 0] }}
+                transition={{ duration: 0.8, repeat: Infinity }}
+                className="inline-block w-px h-6 ml-1"
+                style={{ backgroundColor: 'var(--accent-gold)' }}
+              />
+            </p>
+            <p className="text-sm" style={{ color: 'var(--text-muted)' }}>
+              — {currentQuote?.author}{currentQuote?.source && <>, <span className="italic">{currentQuote.source}</span></>}
+            </p>
+          </div>
+        </motion.div>
+
+        {/* Stats Bar */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.4 }}
+          className="flex items-center gap-8 mb-12 pb-6"
+          style={{ borderBottom: '1px solid var(--border-secondary)' }}
+        >
+          <div>
+            <p className="text-3xl font-light" style={{ color: 'var(--text-primary)' }}>{projects.length}</p>
+            <p className="text-xs tracking-wider uppercase" style={{ color: 'var(--text-muted)' }}>projects</p>
+          </div>
+          <div>
+            <p className="text-3xl font-light" style={{ color: 'var(--text-primary)' }}>
+              {projects.filter(p => p.status === 'Active').length}
+            </p>
+            <p className="text-xs tracking-wider uppercase" style={{ color: 'var(--text-muted)' }}>active</p>
+          </div>
+          <div>
+            <p className="text-3xl font-light" style={{ color: 'var(--text-primary)' }}>∞</p>
+            <p className="text-xs tracking-wider uppercase" style={{ color: 'var(--text-muted)' }}>commits</p>
+          </div>
+        </motion.div>
+
+        {viewMode === 'source' ? (
+          <div className="mb-16">
+            <SyntaxHighlight source={JSON.stringify(projects, null, 2)} language="json" />
+          </div>
+        ) : (
+          <>
+            {/* Featured Project */}
+            {featured && (
+              <motion.article
+                initial={{ opacity: 0, y: 30 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.5 }}
+                className="mb-16 sm:mb-24 group"
+              >
+                <Link href={`/work/${featured.slug}`}>
+                  <div 
+                    className="p-8 sm:p-12 rounded-xl transition-all duration-300 hover:scale-[1.01] cursor-pointer"
+                    style={{ 
+                      backgroundColor: 'var(--bg-elevated)',
+                      border: '1px solid var(--border-primary)',
+                    }}
+                  >
+                    <div className="flex items-center gap-2 mb-4">
+                      <span className="text-xs tracking-widest uppercase" style={{ color: 'var(--accent-gold)' }}>
+                        featured
+                      </span>
+                      <div className="flex-1 h-px" style={{ backgroundColor: 'var(--border-secondary)' }} />
+                    </div>
+                
+                    <h2 className="text-3xl sm:text-4xl font-light mb-4 group-hover:opacity-70 transition-opacity" style={{ color: 'var(--text-primary)' }}>
+                      {featured.title}
+                    </h2>
+                
+                    <p className="text-lg leading-relaxed mb-6" style={{ color: 'var(--text-secondary)' }}>
+                      {featured.description}
+                    </p>
+                
+                    <div className="flex flex-wrap items-center gap-4 text-sm" style={{ color: 'var(--text-muted)' }}>
+                      <span>{featured.year}</span>
+                      <span>•</span>
+                      <span className="px-2 py-1 rounded text-xs" style={{ backgroundColor: 'var(--accent-gold-dim)', color: 'var(--accent-gold)' }}>
+                        {featured.status}
+                      </span>
+                      <span>•</span>
+                      <div className="flex gap-2">
+                        {featured.tech.map(tech => (
+                          <span key={tech} className="px-2 py-1 rounded text-xs" style={{ backgroundColor: 'var(--bg-primary)' }}>
+                            {tech}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                </Link>
+              </motion.article>
+            )}
+
+            {/* Other Projects Grid */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-16">
+              {others.map((project, index) => (
+                <motion.article
+                  key={project.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: 0.6 + index * 0.1 }}
+                  className="group"
+                >
+                  <Link href={`/work/${project.slug}`}>
+                    <div 
+                      className="p-6 rounded-lg h-full transition-all duration-300 hover:scale-[1.02] cursor-pointer"
+                      style={{ 
+                        backgroundColor: 'var(--bg-elevated)',
+                        border: '1px solid var(--border-primary)',
+                      }}
+                    >
+                      <div className="flex items-start justify-between mb-3">
+                        <h3 className="text-xl font-light group-hover:opacity-70 transition-opacity" style={{ color: 'var(--text-primary)' }}>
+                          {project.title}
+                        </h3>
+                        <span className="text-xs" style={{ color: 'var(--text-muted)' }}>{project.year}</span>
+                      </div>
+                  
+                      <p className="text-sm leading-relaxed mb-4" style={{ color: 'var(--text-tertiary)' }}>
+                        {project.description}
+                      </p>
+                  
+                      <div className="flex flex-wrap gap-2">
+                        {project.tech.map(tech => (
+                          <span 
+                            key={tech} 
+                            className="px-2 py-1 rounded text-xs"
+                            style={{ backgroundColor: 'var(--bg-primary)', color: 'var(--text-muted)' }}
+                          >
+                            {tech}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  </Link>
+                </motion.article>
+              ))}
+            </div>
+          </>
+        )}
+
+        {/* GitHub-style Contribution Heatmap */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 1 }}
+          className="p-6 sm:p-8 rounded-xl"
+          style={{ 
+            backgroundColor: 'var(--bg-elevated)',
+            border: '1px solid var(--border-primary)',
+          }}
+        >
+          <div className="flex items-center justify-between mb-6">
+            <h3 className="text-lg font-light" style={{ color: 'var(--text-primary)' }}>
+              Contribution Activity
+            </h3>
+            <p className="text-xs" style={{ color: 'var(--text-muted)' }}>
+              Last 52 weeks
+            </p>
+          </div>
+          
+          <div className="overflow-x-auto">
+            <div className="inline-flex gap-1">
+              {contributions.map((week, weekIndex) => (
+                <div key={weekIndex} className="flex flex-col gap-1">
+                  {week.map((level, dayIndex) => (
+                    <motion.div
+                      key={`${weekIndex}-${dayIndex}`}
+                      className="w-3 h-3 rounded-sm"
+                      style={{ backgroundColor: getContributionColor(level) }}
+                      initial={{ scale: 0, opacity: 0 }}
+                      animate={{ scale: 1, opacity: 1 }}
+                      transition={{ delay: weekIndex * 0.01 + dayIndex * 0.005 }}
+                      whileHover={{ scale: 1.5 }}
+                    />
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+          
+          <div className="flex items-center justify-end gap-2 mt-4 text-xs" style={{ color: 'var(--text-muted)' }}>
+            <span>Less</span>
+            {[0, 1, 2, 3, 4].map(level => (
+              <div
+                key={level}
+                className="w-3 h-3 rounded-sm"
+                style={{ backgroundColor: getContributionColor(level) }}
+              />
+            ))}
+            <span>More</span>
+          </div>
+        </motion.div>
+      </div>
+    </div>
+  );
+}
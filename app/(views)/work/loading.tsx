@@ -0,0 +1,5 @@
+import ViewLoading from "../ViewLoading";
+
+export default function WorkLoading() {
+  return <ViewLoading view="work" />;
+}
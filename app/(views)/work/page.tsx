@@ -0,0 +1,17 @@
+import type { Metadata } from "next";
+import { SITE_NAME } from "@/lib/site";
+import WorkView from "./WorkView";
+
+// ═══════════════════════════════════════════════════════════════════
+// WORK - The /work view
+// ═══════════════════════════════════════════════════════════════════
+
+export const metadata: Metadata = {
+  title: `Work | ${SITE_NAME}`,
+  description: "Projects and contributions, built with intention",
+  alternates: { canonical: "/work" },
+};
+
+export default function WorkPage() {
+  return <WorkView />;
+}
@@ -0,0 +1,283 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { motion } from "framer-motion";
+import Link from "next/link";
+import SyntaxHighlight from "@/components/SyntaxHighlight";
+import { subscribeLiveEvents } from "@/lib/useLiveEvents";
+import { useIdeStore } from "@/lib/store";
+import { STOIC_QUOTES_FALLBACK } from "../fallbackQuotes";
+
+// ═══════════════════════════════════════════════════════════════════
+// WRITING VIEW - Articles & Thoughts (now fetches from API)
+// ═══════════════════════════════════════════════════════════════════
+
+interface Article {
+  id: number;
+  slug: string;
+  title: string;
+  excerpt: string;
+  date: string;
+  readTime: string;
+  tags: string[];
+  featured?: boolean;
+}
+export default function WritingView() {
+  const [articles, setArticles] = useState<Article[]>([]);
+  const viewMode = useIdeStore(state => state.viewMode);
+  const [quotes, setQuotes] = useState(STOIC_QUOTES_FALLBACK);
+  const [loading, setLoading] = useState(true);
+  const [typewriterText, setTypewriterText] = useState("");
+  const [currentQuoteIndex, setCurrentQuoteIndex] = useState(0);
+
+  // Get random quote index based on current hour (changes every hour)
+  const getHourlyRandomIndex = useCallback((quotesLength: number) => {
+    if (quotesLength === 0) return 0;
+    const now = new Date();
+    // Create a seed from year, month, day, and hour
+    const seed = now.getFullYear() * 1000000 + 
+                 (now.getMonth() + 1) * 10000 + 
+                 now.getDate() * 100 + 
+                 now.getHours();
+    // Simple hash to get pseudo-random but consistent index for the hour
+    return seed % quotesLength;
+  }, []);
+
+  useEffect(() => {
+    async function fetchData() {
+      try {
+        const [articlesRes, quotesRes] = await Promise.all([
+          fetch("/api/articles"),
+          fetch("/api/quotes"),
+        ]);
+        
+        if (articlesRes.ok) {
+          const data = await articlesRes.json();
+          setArticles(data);
+        }
+        
+        if (quotesRes.ok) {
+          const quotesData = await quotesRes.json();
+          if (quotesData.length > 0) {
+            setQuotes(quotesData);
+            // Set initial random index based on hour
+            setCurrentQuoteIndex(getHourlyRandomIndex(quotesData.length));
+          }
+        }
+      } catch (error) {
+        console.error("Failed to fetch data:", error);
+      } finally {
+        setLoading(false);
+      }
+    }
+    fetchData();
+    
+    // Refetch when the CMS pushes a change (polls only while the stream is down)
+    return subscribeLiveEvents(["article.published"], fetchData);
+  }, [getHourlyRandomIndex]);
+
+  // Update quote every hour
+  useEffect(() => {
+    if (quotes.length === 0) return;
+    
+    // Calculate time until next hour
+    const now = new Date();
+    const msUntilNextHour = (60 - now.getMinutes()) * 60 * 1000 - now.getSeconds() * 1000;
+    
+    // Set timeout for next hour change
+    const timeout = setTimeout(() => {
+      setCurrentQuoteIndex(getHourlyRandomIndex(quotes.length));
+      
+      // Then set interval for every hour after that
+      const interval = setInterval(() => {
+        setCurrentQuoteIndex(getHourlyRandomIndex(quotes.length));
+      }, 60 * 60 * 1000); // Every hour
+      
+      return () => clearInterval(interval);
+    }, msUntilNextHour);
+    
+    return () => clearTimeout(timeout);
+  }, [quotes.length, getHourlyRandomIndex]);
+  
+  const currentQuote = quotes[currentQuoteIndex];
+  const fullText = currentQuote?.text || "";
+
+  useEffect(() => {
+    if (!fullText) return;
+    let i = 0;
+    const timer = setInterval(() => {
+      if (i <= fullText.length) {
+        setTypewriterText(fullText.slice(0, i));
+        i++;
+      } else {
+        clearInterval(timer);
+      }
+    }, 50);
+    
+    return () => clearInterval(timer);
+  }, [fullText]);
+
+  const featured = articles.find(a => a.featured);
+  const others = articles.filter(a => !a.featured);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <motion.div
+          animate={{ rotate: 360 }}
+          transition={{ duration: 2, repeat: Infinity, ease: "linear" }}
+          className="text-2xl"
+          style={{ color: "var(--accent-gold)" }}
+        >
+          ◐
+        </motion.div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen px-4 sm:px-6 py-24 sm:py-32">
+      <div className="max-w-6xl mx-auto">
+        
+        {/* Typewriter Quote */}
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 0.2 }}
+          className="mb-16 sm:mb-24"
+        >
+          <div className="max-w-3xl">
+            <p className="text-xl sm:text-2xl font-light leading-relaxed mb-4 font-mono" style={{ color: 'var(--text-secondary)' }}>
+              {typewriterText}
+              <motion.span
+                animate={{ opacity: [1, 0] }}
+                transition={{ duration: 0.8, repeat: Infinity }}
+                className="inline-block w-px h-6 ml-1"
+                style={{ backgroundColor: 'var(--accent-gold)' }}
+              />
+            </p>
+            <p className="text-sm" style={{ color: 'var(--text-muted)' }}>
+              — {currentQuote?.author}, <span className="italic">{currentQuote?.source}</span>
+            </p>
+          </div>
+        </motion.div>
+
+        {/* Stats Bar */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.4 }}
+          className="flex items-center gap-8 mb-12 pb-6"
+          style={{ borderBottom: '1px solid var(--border-secondary)' }}
+        >
+          <div>
+            <p className="text-3xl font-light" style={{ color: 'var(--text-primary)' }}>{articles.length}</p>
+            <p className="text-xs tracking-wider uppercase" style={{ color: 'var(--text-muted)' }}>essays</p>
+          </div>
+          <div>
+            <p className="text-3xl font-light" style={{ color: 'var(--text-primary)' }}>
+              {articles.reduce((acc, a) => acc + parseInt(a.readTime), 0)}
+            </p>
+            <p className="text-xs tracking-wider uppercase" style={{ color: 'var(--text-muted)' }}>min read</p>
+          </div>
+          <div>
+            <p className="text-3xl font-light" style={{ color: 'var(--text-primary)' }}>∞</p>
+            <p className="text-xs tracking-wider uppercase" style={{ color: 'var(--text-muted)' }}>thoughts</p>
+          </div>
+        </motion.div>
+
+        {viewMode === 'source' ? (
+          <SyntaxHighlight source={JSON.stringify(articles, null, 2)} language="json" />
+        ) : (
+          <>
+            {/* Featured Article */}
+            {featured && (
+              <motion.article
+                initial={{ opacity: 0, y: 30 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.5 }}
+                className="mb-16 sm:mb-24 group"
+              >
+                <Link href={`/writing/${featured.slug}`}>
+                  <div 
+                    className="p-8 sm:p-12 rounded-xl transition-all duration-300 cursor-pointer hover:scale-[1.01]"
+                    style={{ 
+                      backgroundColor: 'var(--bg-elevated)',
+                      border: '1px solid var(--border-primary)',
+                    }}
+                  >
+                    <div className="flex items-center gap-2 mb-4">
+                      <span className="text-xs tracking-widest uppercase" style={{ color: 'var(--accent-gold)' }}>
+                        featured
+                      </span>
+                      <div className="flex-1 h-px" style={{ backgroundColor: 'var(--border-secondary)' }} />
+                    </div>
+                
+                    <h2 className="text-3xl sm:text-4xl font-light mb-4 group-hover:opacity-70 transition-opacity" style={{ color: 'var(--text-primary)' }}>
+                      {featured.title}
+                    </h2>
+                
+                    <p className="text-lg leading-relaxed mb-6" style={{ color: 'var(--text-secondary)' }}>
+                      {featured.excerpt}
+                    </p>
+                
+                    <div className="flex flex-wrap items-center gap-4 text-sm" style={{ color: 'var(--text-muted)' }}>
+                      <span>{featured.date}</span>
+                      <span>•</span>
+                      <span>{featured.readTime} read</span>
+                      <span>•</span>
+                      <div className="flex gap-2">
+                        {featured.tags.map(tag => (
+                          <span key={tag} className="px-2 py-1 rounded text-xs" style={{ backgroundColor: 'var(--bg-primary)' }}>
+                            {tag}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                </Link>
+              </motion.article>
+            )}
+
+            {/* Other Articles Grid */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {others.map((article, index) => (
+                <motion.article
+                  key={article.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: 0.6 + index * 0.1 }}
+                  className="group"
+                >
+                  <Link href={`/writing/${article.slug}`}>
+                    <div 
+                      className="p-6 rounded-lg h-full transition-all duration-300 hover:scale-[1.02] cursor-pointer"
+                      style={{ 
+                        backgroundColor: 'var(--bg-elevated)',
+                        border: '1px solid var(--border-primary)',
+                      }}
+                    >
+                      <h3 className="text-xl font-light mb-3 group-hover:opacity-70 transition-opacity" style={{ color: 'var(--text-primary)' }}>
+                        {article.title}
+                      </h3>
+                  
+                      <p className="text-sm leading-relaxed mb-4" style={{ color: 'var(--text-tertiary)' }}>
+                        {article.excerpt}
+                      </p>
+                  
+                      <div className="flex flex-wrap items-center gap-3 text-xs" style={{ color: 'var(--text-muted)' }}>
+                        <span>{article.date}</span>
+                        <span>•</span>
+                        <span>{article.readTime}</span>
+                      </div>
+                    </div>
+                  </Link>
+                </motion.article>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,5 @@
+import ViewLoading from "../ViewLoading";
+
+export default function WritingLoading() {
+  return <ViewLoading view="writing" />;
+}
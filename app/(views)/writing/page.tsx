@@ -0,0 +1,17 @@
+import type { Metadata } from "next";
+import { SITE_NAME } from "@/lib/site";
+import WritingView from "./WritingView";
+
+// ═══════════════════════════════════════════════════════════════════
+// WRITING - The /writing view
+// ═══════════════════════════════════════════════════════════════════
+
+export const metadata: Metadata = {
+  title: `Writing | ${SITE_NAME}`,
+  description: "Essays on Stoic practice, code and the examined life",
+  alternates: { canonical: "/writing" },
+};
+
+export default function WritingPage() {
+  return <WritingView />;
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import Link from "next/link";
 
@@ -13,8 +13,33 @@ interface Answer {
   approved: boolean;
   createdAt: string;
   contemplation?: { question: string } | null;
+  moderatedBy?: { name: string } | null;
+  spamScore: number;
+  spamReasons: string | null;
+  flagged: boolean;
+  rejectedAt: string | null;
+  rejectionReason: string | null;
+  restoreBy: string | null;
 }
 
+interface BannedWord {
+  id: number;
+  word: string;
+}
+
+interface LogEntry {
+  id: number;
+  action: ModerationAction;
+  noteId: number;
+  excerpt: string;
+  reason: string | null;
+  moderatorName: string;
+  createdAt: string;
+}
+
+type ModerationAction = "approve" | "unapprove" | "reject" | "restore" | "delete";
+type Tab = "pending" | "approved" | "rejected" | "log" | "filters";
+
 // Color mapping for preview
 const stickyColors: Record<string, string> = {
   gold: "#fef3c7",
@@ -24,104 +49,247 @@ const stickyColors: Record<string, string> = {
   bronze: "#fde68a",
 };
 
+const REJECTION_REASONS = ["Spam", "Off-topic", "Abusive", "Personal information"];
+
+const ACTION_LABELS: Record<ModerationAction, { label: string; color: string }> = {
+  approve: { label: "approved", color: "#22c55e" },
+  unapprove: { label: "unapproved", color: "rgba(255,255,255,0.6)" },
+  reject: { label: "rejected", color: "#ef4444" },
+  restore: { label: "restored", color: "#c9a227" },
+  delete: { label: "deleted", color: "#ef4444" },
+};
+
+const TAB_STYLES: Record<Tab, { rgb: string; color: string }> = {
+  pending: { rgb: "239,68,68", color: "#ef4444" },
+  approved: { rgb: "34,197,94", color: "#22c55e" },
+  rejected: { rgb: "148,163,184", color: "#94a3b8" },
+  log: { rgb: "255,255,255", color: "rgba(255,255,255,0.9)" },
+  filters: { rgb: "201,162,39", color: "#c9a227" },
+};
+
+const LIST_TABS: Tab[] = ["pending", "approved", "rejected"];
+
 export default function AnswersModeration() {
   const [pendingAnswers, setPendingAnswers] = useState<Answer[]>([]);
   const [approvedAnswers, setApprovedAnswers] = useState<Answer[]>([]);
+  const [rejectedAnswers, setRejectedAnswers] = useState<Answer[]>([]);
+  const [logEntries, setLogEntries] = useState<LogEntry[]>([]);
   const [loading, setLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<"pending" | "approved">("pending");
+  const [activeTab, setActiveTab] = useState<Tab>("pending");
   const [selectedAnswer, setSelectedAnswer] = useState<Answer | null>(null);
+  const [bannedWords, setBannedWords] = useState<BannedWord[]>([]);
+  const [newWord, setNewWord] = useState("");
 
-  useEffect(() => {
-    fetchAnswers();
-  }, []);
+  // Triage: a keyboard cursor plus a multi-selection for bulk actions
+  const [cursor, setCursor] = useState(0);
+  const [selection, setSelection] = useState<Set<number>>(new Set());
+  const [rejecting, setRejecting] = useState<number[] | null>(null);
+  const [rejectReason, setRejectReason] = useState("");
+  const [working, setWorking] = useState(false);
+  const cardRefs = useRef<Record<number, HTMLDivElement | null>>({});
 
-  const fetchAnswers = async () => {
+  const fetchAnswers = useCallback(async () => {
     try {
-      const [pendingRes, approvedRes] = await Promise.all([
+      const [pendingRes, approvedRes, rejectedRes, logRes, wordsRes] = await Promise.all([
         fetch("/api/answers?pending=true"),
         fetch("/api/answers"), // approved only (default)
+        fetch("/api/answers?rejected=true"),
+        fetch("/api/answers/log"),
+        fetch("/api/banned-words"),
       ]);
-      
+
       if (pendingRes.ok) {
         const data = await pendingRes.json();
         setPendingAnswers(data);
       }
-      
+
       if (approvedRes.ok) {
         const data = await approvedRes.json();
         setApprovedAnswers(data);
       }
+
+      if (rejectedRes.ok) {
+        setRejectedAnswers(await rejectedRes.json());
+      }
+
+      if (logRes.ok) {
+        setLogEntries(await logRes.json());
+      }
+
+      if (wordsRes.ok) {
+        setBannedWords(await wordsRes.json());
+      }
     } catch (error) {
       console.error("Failed to fetch answers:", error);
     } finally {
       setLoading(false);
     }
-  };
+  }, []);
 
-  const approveAnswer = async (id: number) => {
+  useEffect(() => {
+    fetchAnswers();
+  }, [fetchAnswers]);
+
+  const currentAnswers = useMemo(() =>
+    activeTab === "pending" ? pendingAnswers
+    : activeTab === "approved" ? approvedAnswers
+    : activeTab === "rejected" ? rejectedAnswers
+    : [],
+  [activeTab, pendingAnswers, approvedAnswers, rejectedAnswers]);
+  const flaggedCount = pendingAnswers.filter(a => a.flagged).length;
+
+  // Reset triage state when switching tabs
+  useEffect(() => {
+    setCursor(0);
+    setSelection(new Set());
+  }, [activeTab]);
+
+  // Keep the cursor inside the list as it shrinks
+  useEffect(() => {
+    if (cursor >= currentAnswers.length && currentAnswers.length > 0) {
+      setCursor(currentAnswers.length - 1);
+    }
+  }, [cursor, currentAnswers.length]);
+
+  const moderate = useCallback(async (ids: number[], action: ModerationAction, reason?: string) => {
+    if (ids.length === 0) return;
+    if (action === "delete" && !confirm(`Permanently delete ${ids.length === 1 ? "this answer" : `${ids.length} answers`}?`)) return;
+
+    setWorking(true);
     try {
-      const res = await fetch(`/api/answers/${id}`, {
-        method: "PUT",
+      const res = await fetch("/api/answers/bulk", {
+        method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ approved: true }),
+        body: JSON.stringify({ ids, action, reason }),
       });
-      
+
       if (res.ok) {
-        const updated = await res.json();
-        // Move from pending to approved
-        setPendingAnswers(pendingAnswers.filter(a => a.id !== id));
-        setApprovedAnswers([updated, ...approvedAnswers]);
+        setSelection(new Set());
         setSelectedAnswer(null);
+        await fetchAnswers();
       }
     } catch (error) {
-      console.error("Failed to approve answer:", error);
+      console.error(`Failed to ${action} answers:`, error);
+    } finally {
+      setWorking(false);
     }
+  }, [fetchAnswers]);
+
+  // Act on the selection, or on the answer under the cursor when nothing is selected
+  const targetIds = useCallback((): number[] => {
+    if (selection.size > 0) return [...selection];
+    const answer = currentAnswers[cursor];
+    return answer ? [answer.id] : [];
+  }, [selection, currentAnswers, cursor]);
+
+  const openReject = (ids: number[]) => {
+    if (ids.length === 0) return;
+    setRejectReason("");
+    setRejecting(ids);
   };
 
-  const rejectAnswer = async (id: number) => {
-    if (!confirm("Reject and delete this answer?")) return;
-    
-    try {
-      const res = await fetch(`/api/answers/${id}`, { method: "DELETE" });
-      if (res.ok) {
-        setPendingAnswers(pendingAnswers.filter(a => a.id !== id));
-        setSelectedAnswer(null);
-      }
-    } catch (error) {
-      console.error("Failed to reject answer:", error);
-    }
+  const confirmReject = async () => {
+    if (!rejecting) return;
+    const ids = rejecting;
+    setRejecting(null);
+    await moderate(ids, "reject", rejectReason);
   };
 
-  const unapproveAnswer = async (id: number) => {
+  const toggleSelected = (id: number) => {
+    setSelection(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  // Keyboard triage: j/k move, x selects, a approves, r rejects, u restores, enter opens
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (e.metaKey || e.ctrlKey || e.altKey) return;
+      if (rejecting || selectedAnswer || working) return;
+      if (!LIST_TABS.includes(activeTab)) return;
+
+      const current = currentAnswers[cursor];
+      switch (e.key) {
+        case "j":
+        case "ArrowDown":
+          e.preventDefault();
+          setCursor(prev => Math.min(prev + 1, currentAnswers.length - 1));
+          break;
+        case "k":
+        case "ArrowUp":
+          e.preventDefault();
+          setCursor(prev => Math.max(prev - 1, 0));
+          break;
+        case "x":
+          if (current) toggleSelected(current.id);
+          break;
+        case "a":
+          if (activeTab !== "approved") moderate(targetIds(), "approve");
+          break;
+        case "r":
+          if (activeTab !== "rejected") openReject(targetIds());
+          break;
+        case "u":
+          if (activeTab === "rejected") moderate(targetIds(), "restore");
+          break;
+        case "Enter":
+          if (current) setSelectedAnswer(current);
+          break;
+        case "Escape":
+          setSelection(new Set());
+          break;
+      }
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [activeTab, currentAnswers, cursor, rejecting, selectedAnswer, working, moderate, targetIds]);
+
+  // Keep the cursor card in view
+  useEffect(() => {
+    const answer = currentAnswers[cursor];
+    if (answer) cardRefs.current[answer.id]?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }, [cursor, currentAnswers]);
+
+  const addBannedWord = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newWord.trim()) return;
+
     try {
-      const res = await fetch(`/api/answers/${id}`, {
-        method: "PUT",
+      const res = await fetch("/api/banned-words", {
+        method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ approved: false }),
+        body: JSON.stringify({ word: newWord }),
       });
-      
       if (res.ok) {
-        const updated = await res.json();
-        // Move from approved to pending
-        setApprovedAnswers(approvedAnswers.filter(a => a.id !== id));
-        setPendingAnswers([updated, ...pendingAnswers]);
+        const added: BannedWord = await res.json();
+        setBannedWords([...bannedWords.filter(w => w.id !== added.id), added].sort((a, b) => a.word.localeCompare(b.word)));
+        setNewWord("");
       }
     } catch (error) {
-      console.error("Failed to unapprove answer:", error);
+      console.error("Failed to add banned word:", error);
     }
   };
 
-  const deleteAnswer = async (id: number) => {
-    if (!confirm("Permanently delete this answer?")) return;
-    
+  const removeBannedWord = async (id: number) => {
     try {
-      const res = await fetch(`/api/answers/${id}`, { method: "DELETE" });
+      const res = await fetch(`/api/banned-words/${id}`, { method: "DELETE" });
       if (res.ok) {
-        setApprovedAnswers(approvedAnswers.filter(a => a.id !== id));
-        setPendingAnswers(pendingAnswers.filter(a => a.id !== id));
+        setBannedWords(bannedWords.filter(w => w.id !== id));
       }
     } catch (error) {
-      console.error("Failed to delete answer:", error);
+      console.error("Failed to remove banned word:", error);
+    }
+  };
+
+  const spamReasons = (answer: Answer): string[] => {
+    try {
+      return answer.spamReasons ? JSON.parse(answer.spamReasons) : [];
+    } catch {
+      return [];
     }
   };
 
@@ -143,7 +311,17 @@ export default function AnswersModeration() {
     );
   }
 
-  const currentAnswers = activeTab === "pending" ? pendingAnswers : approvedAnswers;
+  const tabs: Array<{ id: Tab; label: string }> = [
+    { id: "pending", label: `Pending Review (${pendingAnswers.length})` },
+    { id: "approved", label: `Approved (${approvedAnswers.length})` },
+    { id: "rejected", label: `Rejected (${rejectedAnswers.length})` },
+    { id: "log", label: "Log" },
+    { id: "filters", label: `Banned Words (${bannedWords.length})` },
+  ];
+
+  const selectionIds = [...selection];
+  const statusLabel = (answer: Answer) =>
+    answer.rejectedAt ? "Rejected" : answer.approved ? "Approved" : "Pending";
 
   return (
     <div className="min-h-screen" style={{ backgroundColor: "#0a0a0a" }}>
@@ -160,7 +338,7 @@ export default function AnswersModeration() {
           </div>
           <div className="flex items-center gap-4">
             {pendingAnswers.length > 0 && (
-              <span className="px-3 py-1 rounded-full text-xs font-medium" 
+              <span className="px-3 py-1 rounded-full text-xs font-medium"
                 style={{ backgroundColor: "rgba(239,68,68,0.2)", color: "#ef4444" }}>
                 {pendingAnswers.length} pending
               </span>
@@ -171,68 +349,244 @@ export default function AnswersModeration() {
 
       <main className="max-w-6xl mx-auto px-6 py-8">
         {/* Tabs */}
-        <div className="flex gap-4 mb-8">
-          <button
-            onClick={() => setActiveTab("pending")}
-            className="px-4 py-2 rounded-lg text-sm transition-all"
-            style={{
-              backgroundColor: activeTab === "pending" ? "rgba(239,68,68,0.2)" : "rgba(255,255,255,0.05)",
-              color: activeTab === "pending" ? "#ef4444" : "rgba(255,255,255,0.6)",
-              border: `1px solid ${activeTab === "pending" ? "rgba(239,68,68,0.3)" : "rgba(255,255,255,0.1)"}`,
-            }}
-          >
-            Pending Review ({pendingAnswers.length})
-          </button>
-          <button
-            onClick={() => setActiveTab("approved")}
-            className="px-4 py-2 rounded-lg text-sm transition-all"
-            style={{
-              backgroundColor: activeTab === "approved" ? "rgba(34,197,94,0.2)" : "rgba(255,255,255,0.05)",
-              color: activeTab === "approved" ? "#22c55e" : "rgba(255,255,255,0.6)",
-              border: `1px solid ${activeTab === "approved" ? "rgba(34,197,94,0.3)" : "rgba(255,255,255,0.1)"}`,
-            }}
-          >
-            Approved ({approvedAnswers.length})
-          </button>
+        <div className="flex flex-wrap gap-4 mb-8">
+          {tabs.map(tab => {
+            const { rgb, color } = TAB_STYLES[tab.id];
+            const active = activeTab === tab.id;
+            return (
+              <button
+                key={tab.id}
+                onClick={() => setActiveTab(tab.id)}
+                className="px-4 py-2 rounded-lg text-sm transition-all"
+                style={{
+                  backgroundColor: active ? `rgba(${rgb},0.2)` : "rgba(255,255,255,0.05)",
+                  color: active ? color : "rgba(255,255,255,0.6)",
+                  border: `1px solid ${active ? `rgba(${rgb},0.3)` : "rgba(255,255,255,0.1)"}`,
+                }}
+              >
+                {tab.label}
+              </button>
+            );
+          })}
         </div>
 
+        {/* Banned words */}
+        {activeTab === "filters" && (
+          <div className="max-w-2xl">
+            <p className="text-sm mb-6" style={{ color: "rgba(255,255,255,0.5)" }}>
+              Answers containing these words score as likely spam. Enough hits and the answer is rejected automatically; otherwise it waits in the queue flagged.
+            </p>
+            <form onSubmit={addBannedWord} className="flex gap-3 mb-6">
+              <input
+                type="text"
+                value={newWord}
+                onChange={(e) => setNewWord(e.target.value)}
+                placeholder="Add a word or phrase..."
+                maxLength={60}
+                className="flex-1 px-4 py-2 rounded-lg text-sm outline-none"
+                style={{ backgroundColor: "rgba(255,255,255,0.05)", border: "1px solid rgba(255,255,255,0.1)", color: "rgba(255,255,255,0.9)" }}
+              />
+              <button
+                type="submit"
+                disabled={!newWord.trim()}
+                className="px-4 py-2 rounded-lg text-sm transition-opacity disabled:opacity-40"
+                style={{ backgroundColor: "#c9a227", color: "#0a0a0a" }}
+              >
+                Add
+              </button>
+            </form>
+            <div className="flex flex-wrap gap-2">
+              {bannedWords.map((word) => (
+                <span
+                  key={word.id}
+                  className="flex items-center gap-2 px-3 py-1 rounded-full text-sm"
+                  style={{ backgroundColor: "rgba(255,255,255,0.05)", color: "rgba(255,255,255,0.8)" }}
+                >
+                  {word.word}
+                  <button
+                    onClick={() => removeBannedWord(word.id)}
+                    className="text-xs hover:opacity-70"
+                    style={{ color: "rgba(255,255,255,0.4)" }}
+                    aria-label={`Remove ${word.word}`}
+                  >
+                    ✕
+                  </button>
+                </span>
+              ))}
+              {bannedWords.length === 0 && (
+                <p className="text-sm" style={{ color: "rgba(255,255,255,0.3)" }}>No banned words yet.</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Moderation log */}
+        {activeTab === "log" && (
+          <div className="rounded-lg overflow-hidden" style={{ border: "1px solid rgba(255,255,255,0.1)" }}>
+            {logEntries.map((entry) => (
+              <div
+                key={entry.id}
+                className="flex items-start gap-4 px-4 py-3 text-sm border-b last:border-b-0"
+                style={{ borderColor: "rgba(255,255,255,0.05)" }}
+              >
+                <span className="w-32 shrink-0 text-xs pt-0.5" style={{ color: "rgba(255,255,255,0.4)" }}>
+                  {formatDate(entry.createdAt)}
+                </span>
+                <span className="w-40 shrink-0" style={{ color: "rgba(255,255,255,0.8)" }}>
+                  {entry.moderatorName}{" "}
+                  <span style={{ color: ACTION_LABELS[entry.action]?.color }}>{ACTION_LABELS[entry.action]?.label ?? entry.action}</span>
+                </span>
+                <span className="flex-1 min-w-0" style={{ color: "rgba(255,255,255,0.5)" }}>
+                  <span className="italic line-clamp-1">&ldquo;{entry.excerpt}&rdquo;</span>
+                  {entry.reason && (
+                    <span className="block text-xs mt-1" style={{ color: "rgba(255,255,255,0.35)" }}>
+                      Reason: {entry.reason}
+                    </span>
+                  )}
+                </span>
+              </div>
+            ))}
+            {logEntries.length === 0 && (
+              <p className="px-4 py-12 text-center text-sm" style={{ color: "rgba(255,255,255,0.3)" }}>
+                Nothing moderated yet.
+              </p>
+            )}
+          </div>
+        )}
+
         {/* Info */}
         {activeTab === "pending" && pendingAnswers.length > 0 && (
           <div className="mb-6 p-4 rounded-lg" style={{ backgroundColor: "rgba(239,68,68,0.1)", border: "1px solid rgba(239,68,68,0.2)" }}>
             <p className="text-sm" style={{ color: "rgba(255,255,255,0.7)" }}>
               <span style={{ color: "#ef4444" }}>⚠</span> Review these answers before they appear on the Board of Collective.
+              {flaggedCount > 0 && ` ${flaggedCount} flagged as likely spam.`}
+            </p>
+          </div>
+        )}
+        {activeTab === "rejected" && rejectedAnswers.length > 0 && (
+          <div className="mb-6 p-4 rounded-lg" style={{ backgroundColor: "rgba(148,163,184,0.1)", border: "1px solid rgba(148,163,184,0.2)" }}>
+            <p className="text-sm" style={{ color: "rgba(255,255,255,0.7)" }}>
+              Rejected answers can be restored to the queue for 30 days, then they are deleted for good.
             </p>
           </div>
         )}
 
+        {/* Bulk bar and keyboard hints */}
+        {LIST_TABS.includes(activeTab) && currentAnswers.length > 0 && (
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4 text-xs" style={{ color: "rgba(255,255,255,0.4)" }}>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => setSelection(selection.size === currentAnswers.length ? new Set() : new Set(currentAnswers.map(a => a.id)))}
+                className="px-3 py-1.5 rounded-lg transition-opacity hover:opacity-80"
+                style={{ backgroundColor: "rgba(255,255,255,0.05)", color: "rgba(255,255,255,0.7)" }}
+              >
+                {selection.size === currentAnswers.length ? "Select none" : "Select all"}
+              </button>
+              {selection.size > 0 && (
+                <>
+                  <span style={{ color: "rgba(255,255,255,0.7)" }}>{selection.size} selected</span>
+                  {activeTab !== "approved" && (
+                    <button
+                      onClick={() => moderate(selectionIds, "approve")}
+                      disabled={working}
+                      className="px-3 py-1.5 rounded-lg font-medium disabled:opacity-50"
+                      style={{ backgroundColor: "#22c55e", color: "#fff" }}
+                    >
+                      ✓ Approve
+                    </button>
+                  )}
+                  {activeTab !== "rejected" && (
+                    <button
+                      onClick={() => openReject(selectionIds)}
+                      disabled={working}
+                      className="px-3 py-1.5 rounded-lg font-medium disabled:opacity-50"
+                      style={{ backgroundColor: "#ef4444", color: "#fff" }}
+                    >
+                      ✕ Reject
+                    </button>
+                  )}
+                  {activeTab === "rejected" && (
+                    <button
+                      onClick={() => moderate(selectionIds, "restore")}
+                      disabled={working}
+                      className="px-3 py-1.5 rounded-lg font-medium disabled:opacity-50"
+                      style={{ backgroundColor: "#c9a227", color: "#0a0a0a" }}
+                    >
+                      ↺ Restore
+                    </button>
+                  )}
+                  <button
+                    onClick={() => moderate(selectionIds, "delete")}
+                    disabled={working}
+                    className="px-3 py-1.5 rounded-lg disabled:opacity-50"
+                    style={{ backgroundColor: "rgba(239,68,68,0.15)", color: "#ef4444" }}
+                  >
+                    Delete
+                  </button>
+                </>
+              )}
+            </div>
+            <span className="hidden md:inline">
+              j/k move · x select · {activeTab !== "approved" && "a approve · "}{activeTab !== "rejected" ? "r reject" : "u restore"} · ↵ open
+            </span>
+          </div>
+        )}
+
         {/* Answers Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
           <AnimatePresence mode="popLayout">
-            {currentAnswers.map((answer) => (
+            {currentAnswers.map((answer, index) => (
               <motion.div
                 key={answer.id}
+                ref={(el) => { cardRefs.current[answer.id] = el; }}
                 layout
                 initial={{ opacity: 0, scale: 0.9 }}
-                animate={{ opacity: 1, scale: 1 }}
+                animate={{ opacity: answer.rejectedAt ? 0.75 : 1, scale: 1 }}
                 exit={{ opacity: 0, scale: 0.9 }}
                 className="relative rounded-lg overflow-hidden cursor-pointer group"
-                style={{ backgroundColor: stickyColors[answer.color] || stickyColors.gold }}
-                onClick={() => setSelectedAnswer(answer)}
+                style={{
+                  backgroundColor: stickyColors[answer.color] || stickyColors.gold,
+                  boxShadow: index === cursor ? "0 0 0 2px #c9a227" : selection.has(answer.id) ? "0 0 0 2px rgba(201,162,39,0.5)" : "none",
+                }}
+                onClick={() => { setCursor(index); setSelectedAnswer(answer); }}
               >
+                {/* Selection */}
+                <label
+                  className="absolute top-2 left-2 z-20 flex items-center justify-center w-5 h-5 rounded"
+                  style={{ backgroundColor: "rgba(0,0,0,0.15)" }}
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selection.has(answer.id)}
+                    onChange={() => toggleSelected(answer.id)}
+                    aria-label="Select answer"
+                  />
+                </label>
+
                 {/* Status Badge */}
-                <div className="absolute top-2 right-2 z-10">
-                  <span 
+                <div className="absolute top-2 right-2 z-10 flex gap-1">
+                  {answer.flagged && (
+                    <span
+                      className="px-2 py-0.5 rounded text-[10px] font-medium"
+                      style={{ backgroundColor: "rgba(0,0,0,0.7)", color: "#fbbf24" }}
+                      title={spamReasons(answer).join(", ")}
+                    >
+                      ⚑ Spam? {answer.spamScore}
+                    </span>
+                  )}
+                  <span
                     className="px-2 py-0.5 rounded text-[10px] font-medium"
                     style={{
-                      backgroundColor: answer.approved ? "rgba(34,197,94,0.3)" : "rgba(239,68,68,0.3)",
-                      color: answer.approved ? "#166534" : "#991b1b",
+                      backgroundColor: answer.approved ? "rgba(34,197,94,0.3)" : answer.rejectedAt ? "rgba(0,0,0,0.15)" : "rgba(239,68,68,0.3)",
+                      color: answer.approved ? "#166534" : answer.rejectedAt ? "rgba(0,0,0,0.6)" : "#991b1b",
                     }}
                   >
-                    {answer.approved ? "Approved" : "Pending"}
+                    {statusLabel(answer)}
                   </span>
                 </div>
 
-                <div className="p-5">
+                <div className="p-5 pt-9">
                   {/* Question */}
                   <p className="text-[10px] uppercase tracking-wider mb-2 font-medium line-clamp-1"
                     style={{ color: "rgba(0,0,0,0.4)" }}>
@@ -245,6 +599,13 @@ export default function AnswersModeration() {
                     &ldquo;{answer.answer}&rdquo;
                   </p>
 
+                  {answer.rejectedAt && (
+                    <p className="text-[11px] mb-3" style={{ color: "rgba(0,0,0,0.55)" }}>
+                      {answer.rejectionReason ? `Reason: ${answer.rejectionReason}` : "No reason given"}
+                      {answer.restoreBy && ` · restorable until ${formatDate(answer.restoreBy)}`}
+                    </p>
+                  )}
+
                   {/* Footer */}
                   <div className="flex items-center justify-between pt-2 border-t" style={{ borderColor: "rgba(0,0,0,0.1)" }}>
                     <span className="text-xs" style={{ color: "rgba(0,0,0,0.5)" }}>
@@ -260,14 +621,14 @@ export default function AnswersModeration() {
                 {activeTab === "pending" && (
                   <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-3">
                     <button
-                      onClick={(e) => { e.stopPropagation(); approveAnswer(answer.id); }}
+                      onClick={(e) => { e.stopPropagation(); moderate([answer.id], "approve"); }}
                       className="px-4 py-2 rounded-lg text-sm font-medium transition-colors"
                       style={{ backgroundColor: "#22c55e", color: "#fff" }}
                     >
                       ✓ Approve
                     </button>
                     <button
-                      onClick={(e) => { e.stopPropagation(); rejectAnswer(answer.id); }}
+                      onClick={(e) => { e.stopPropagation(); openReject([answer.id]); }}
                       className="px-4 py-2 rounded-lg text-sm font-medium transition-colors"
                       style={{ backgroundColor: "#ef4444", color: "#fff" }}
                     >
@@ -275,26 +636,121 @@ export default function AnswersModeration() {
                     </button>
                   </div>
                 )}
+                {activeTab === "rejected" && (
+                  <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-3">
+                    <button
+                      onClick={(e) => { e.stopPropagation(); moderate([answer.id], "restore"); }}
+                      className="px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+                      style={{ backgroundColor: "#c9a227", color: "#0a0a0a" }}
+                    >
+                      ↺ Restore
+                    </button>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); moderate([answer.id], "delete"); }}
+                      className="px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+                      style={{ backgroundColor: "#ef4444", color: "#fff" }}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                )}
               </motion.div>
             ))}
           </AnimatePresence>
         </div>
 
         {/* Empty State */}
-        {currentAnswers.length === 0 && (
+        {LIST_TABS.includes(activeTab) && currentAnswers.length === 0 && (
           <div className="text-center py-20">
             <p className="text-4xl mb-4">
               {activeTab === "pending" ? "✓" : "📭"}
             </p>
             <p className="text-lg font-light" style={{ color: "rgba(255,255,255,0.5)" }}>
-              {activeTab === "pending" 
-                ? "No pending answers to review" 
-                : "No approved answers yet"}
+              {activeTab === "pending"
+                ? "No pending answers to review"
+                : activeTab === "approved"
+                  ? "No approved answers yet"
+                  : "Nothing rejected in the last 30 days"}
             </p>
           </div>
         )}
       </main>
 
+      {/* Reject Dialog */}
+      <AnimatePresence>
+        {rejecting && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-[60] flex items-center justify-center p-6"
+            onClick={() => setRejecting(null)}
+          >
+            <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" />
+            <motion.form
+              initial={{ scale: 0.95, y: 10 }}
+              animate={{ scale: 1, y: 0 }}
+              exit={{ scale: 0.95, y: 10 }}
+              onClick={(e) => e.stopPropagation()}
+              onSubmit={(e) => { e.preventDefault(); confirmReject(); }}
+              onKeyDown={(e) => { if (e.key === "Escape") setRejecting(null); }}
+              className="relative z-10 w-full max-w-md rounded-xl p-6"
+              style={{ backgroundColor: "#141414", border: "1px solid rgba(255,255,255,0.1)" }}
+            >
+              <h2 className="text-base font-light mb-1" style={{ color: "rgba(255,255,255,0.9)" }}>
+                Reject {rejecting.length === 1 ? "answer" : `${rejecting.length} answers`}
+              </h2>
+              <p className="text-xs mb-4" style={{ color: "rgba(255,255,255,0.4)" }}>
+                Restorable for 30 days from the Rejected tab.
+              </p>
+              <div className="flex flex-wrap gap-2 mb-3">
+                {REJECTION_REASONS.map(reason => (
+                  <button
+                    key={reason}
+                    type="button"
+                    onClick={() => setRejectReason(reason)}
+                    className="px-3 py-1 rounded-full text-xs transition-all"
+                    style={{
+                      backgroundColor: rejectReason === reason ? "rgba(239,68,68,0.2)" : "rgba(255,255,255,0.05)",
+                      color: rejectReason === reason ? "#ef4444" : "rgba(255,255,255,0.6)",
+                    }}
+                  >
+                    {reason}
+                  </button>
+                ))}
+              </div>
+              <input
+                type="text"
+                autoFocus
+                value={rejectReason}
+                onChange={(e) => setRejectReason(e.target.value)}
+                placeholder="Reason (optional)"
+                maxLength={200}
+                className="w-full px-4 py-2 rounded-lg text-sm outline-none mb-5"
+                style={{ backgroundColor: "rgba(255,255,255,0.05)", border: "1px solid rgba(255,255,255,0.1)", color: "rgba(255,255,255,0.9)" }}
+              />
+              <div className="flex gap-3">
+                <button
+                  type="button"
+                  onClick={() => setRejecting(null)}
+                  className="flex-1 py-2 rounded-lg text-sm"
+                  style={{ backgroundColor: "rgba(255,255,255,0.05)", color: "rgba(255,255,255,0.6)" }}
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 py-2 rounded-lg text-sm font-medium"
+                  style={{ backgroundColor: "#ef4444", color: "#fff" }}
+                >
+                  ✕ Reject
+                </button>
+              </div>
+            </motion.form>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* Detail Modal */}
       <AnimatePresence>
         {selectedAnswer && (
@@ -306,7 +762,7 @@ export default function AnswersModeration() {
             onClick={() => setSelectedAnswer(null)}
           >
             <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" />
-            
+
             <motion.div
               initial={{ scale: 0.9, y: 20 }}
               animate={{ scale: 1, y: 0 }}
@@ -338,36 +794,73 @@ export default function AnswersModeration() {
                   </span>
                 </div>
 
+                {selectedAnswer.spamScore > 0 && (
+                  <p className="text-xs -mt-3 mb-6" style={{ color: selectedAnswer.flagged ? "#991b1b" : "rgba(0,0,0,0.45)" }}>
+                    Spam score {selectedAnswer.spamScore}: {spamReasons(selectedAnswer).join(", ")}
+                  </p>
+                )}
+
+                {selectedAnswer.moderatedBy && (
+                  <p className="text-xs -mt-3 mb-6" style={{ color: "rgba(0,0,0,0.45)" }}>
+                    {statusLabel(selectedAnswer)} by {selectedAnswer.moderatedBy.name}
+                    {selectedAnswer.rejectionReason && ` — ${selectedAnswer.rejectionReason}`}
+                  </p>
+                )}
+
                 {/* Actions */}
                 <div className="flex gap-3">
-                  {!selectedAnswer.approved ? (
+                  {selectedAnswer.rejectedAt ? (
+                    <>
+                      <button
+                        onClick={() => moderate([selectedAnswer.id], "restore")}
+                        className="flex-1 py-3 rounded-lg text-sm font-medium transition-colors"
+                        style={{ backgroundColor: "#c9a227", color: "#0a0a0a" }}
+                      >
+                        ↺ Restore to Queue
+                      </button>
+                      <button
+                        onClick={() => moderate([selectedAnswer.id], "delete")}
+                        className="flex-1 py-3 rounded-lg text-sm font-medium transition-colors"
+                        style={{ backgroundColor: "#ef4444", color: "#fff" }}
+                      >
+                        Delete
+                      </button>
+                    </>
+                  ) : !selectedAnswer.approved ? (
                     <>
                       <button
-                        onClick={() => approveAnswer(selectedAnswer.id)}
+                        onClick={() => moderate([selectedAnswer.id], "approve")}
                         className="flex-1 py-3 rounded-lg text-sm font-medium transition-colors"
                         style={{ backgroundColor: "#22c55e", color: "#fff" }}
                       >
                         ✓ Approve & Publish
                       </button>
                       <button
-                        onClick={() => rejectAnswer(selectedAnswer.id)}
+                        onClick={() => { const id = selectedAnswer.id; setSelectedAnswer(null); openReject([id]); }}
                         className="flex-1 py-3 rounded-lg text-sm font-medium transition-colors"
                         style={{ backgroundColor: "#ef4444", color: "#fff" }}
                       >
-                        ✕ Reject & Delete
+                        ✕ Reject
                       </button>
                     </>
                   ) : (
                     <>
                       <button
-                        onClick={() => unapproveAnswer(selectedAnswer.id)}
+                        onClick={() => moderate([selectedAnswer.id], "unapprove")}
                         className="flex-1 py-3 rounded-lg text-sm font-medium transition-colors"
                         style={{ backgroundColor: "rgba(0,0,0,0.2)", color: "rgba(0,0,0,0.7)" }}
                       >
                         Unapprove
                       </button>
                       <button
-                        onClick={() => deleteAnswer(selectedAnswer.id)}
+                        onClick={() => { const id = selectedAnswer.id; setSelectedAnswer(null); openReject([id]); }}
+                        className="flex-1 py-3 rounded-lg text-sm font-medium transition-colors"
+                        style={{ backgroundColor: "rgba(239,68,68,0.8)", color: "#fff" }}
+                      >
+                        ✕ Reject
+                      </button>
+                      <button
+                        onClick={() => moderate([selectedAnswer.id], "delete")}
                         className="flex-1 py-3 rounded-lg text-sm font-medium transition-colors"
                         style={{ backgroundColor: "#ef4444", color: "#fff" }}
                       >
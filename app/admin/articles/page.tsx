@@ -3,6 +3,14 @@
 import { useState, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { useSearchParams } from "next/navigation";
+import { PublishStatus } from "@/lib/publishing";
+import {
+  PublishBadge,
+  PublishFields,
+  PublishFilter,
+  PreviewLinkButton,
+  countByStatus,
+} from "@/components/PublishControls";
 
 // ═══════════════════════════════════════════════════════════════════
 // TYPES
@@ -29,6 +37,9 @@ interface Article {
     source: string;
   };
   content: ContentBlock[];
+  publishStatus: PublishStatus;
+  publishAt: string | null;
+  editedBy?: { name: string } | null;
 }
 
 // ═══════════════════════════════════════════════════════════════════
@@ -52,7 +63,9 @@ const EMPTY_ARTICLE: Article = {
   readTime: "5 min",
   tags: [],
   featured: false,
-  content: []
+  content: [],
+  publishStatus: "draft",
+  publishAt: null
 };
 
 export default function ArticlesManager() {
@@ -65,6 +78,7 @@ export default function ArticlesManager() {
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<number | null>(null);
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<PublishStatus | "all">("all");
 
   useEffect(() => {
     setMounted(true);
@@ -92,7 +106,7 @@ export default function ArticlesManager() {
   const loadArticles = async () => {
     setLoading(true);
     try {
-      const res = await fetch("/api/articles");
+      const res = await fetch("/api/articles?all=true");
       if (res.ok) {
         const data = await res.json();
         setArticles(data);
@@ -195,6 +209,10 @@ export default function ArticlesManager() {
     });
   };
 
+  const visibleArticles = statusFilter === "all"
+    ? articles
+    : articles.filter(a => a.publishStatus === statusFilter);
+
   if (!mounted) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -406,6 +424,12 @@ export default function ArticlesManager() {
                 </div>
               </div>
 
+              {/* Visibility */}
+              <PublishFields
+                value={selectedArticle}
+                onChange={(publishing) => setSelectedArticle({ ...selectedArticle, ...publishing })}
+              />
+
               {/* Tags */}
               <div>
                 <label 
@@ -594,9 +618,15 @@ export default function ArticlesManager() {
               </div>
             </div>
 
+            <PublishFilter
+              value={statusFilter}
+              onChange={setStatusFilter}
+              counts={countByStatus(articles)}
+            />
+
             {/* Articles List */}
             <div className="space-y-3">
-              {articles.map((article, index) => (
+              {visibleArticles.map((article, index) => (
                 <motion.div
                   key={article.id}
                   initial={{ opacity: 0, y: 10 }}
@@ -628,6 +658,7 @@ export default function ArticlesManager() {
                             featured
                           </span>
                         )}
+                        <PublishBadge publishStatus={article.publishStatus} publishAt={article.publishAt} />
                       </div>
                       <p 
                         className="text-sm mb-2"
@@ -641,6 +672,12 @@ export default function ArticlesManager() {
                         <span>{article.readTime}</span>
                         <span>·</span>
                         <span className="font-mono">/{article.slug}</span>
+                        {article.editedBy && (
+                          <>
+                            <span>·</span>
+                            <span>edited by {article.editedBy.name}</span>
+                          </>
+                        )}
                       </div>
                     </div>
                     <div className="flex gap-2 ml-4">
@@ -669,6 +706,9 @@ export default function ArticlesManager() {
                       >
                         ✦ Focus
                       </button>
+                      {article.publishStatus !== "published" && (
+                        <PreviewLinkButton endpoint={`/api/articles/${article.id}/preview`} />
+                      )}
                       <button
                         onClick={() => setShowDeleteConfirm(article.id)}
                         className="px-3 py-1 rounded-lg text-xs transition-opacity hover:opacity-70"
@@ -3,13 +3,24 @@
 import { useState, useEffect, useRef, useCallback } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { useSearchParams, useRouter } from "next/navigation";
-import { markdownToHtml, markdownStyles } from "@/lib/markdown";
+import CodeCopy from "@/components/CodeCopy";
+import GlossaryCards from "@/components/GlossaryCards";
+import { markdownToHtml, markdownStyles, stripAnnotations } from "@/lib/markdown";
+import { diffLines } from "@/lib/diff";
+import { PUBLISH_STATUSES, PublishStatus, toDateTimeLocal } from "@/lib/publishing";
+import { useGlossary } from "@/lib/store";
 
 // ═══════════════════════════════════════════════════════════════════
 // iA WRITER STYLE MARKDOWN EDITOR
 // "The first draft is just you telling yourself the story." - Terry Pratchett
 // ═══════════════════════════════════════════════════════════════════
 
+interface Epigraph {
+  text: string;
+  author: string;
+  source: string;
+}
+
 interface Article {
   id: number;
   slug: string;
@@ -20,6 +31,42 @@ interface Article {
   tags: string[];
   featured: boolean;
   content: string;
+  epigraph: Epigraph | null;
+  publishStatus: PublishStatus;
+  publishAt: string | null;
+}
+
+interface RevisionSummary {
+  id: number;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  editedBy: { name: string } | null;
+}
+
+interface Revision extends RevisionSummary {
+  tags: string[];
+  epigraph: Epigraph | null;
+  content: string | Array<{ type: string; text: string }>;
+}
+
+// Legacy ContentBlock arrays are converted to markdown for editing
+function toMarkdown(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) {
+    return content.map((block: { type: string; text: string }) => {
+      if (block.type === "heading") return `## ${block.text}`;
+      if (block.type === "quote") return `> ${block.text}`;
+      return block.text;
+    }).join("\n\n");
+  }
+  return "";
+}
+
+function formatEpigraph(epigraph: Epigraph | null): string {
+  if (!epigraph?.text) return "";
+  const attribution = [epigraph.author, epigraph.source].filter(Boolean).join(", ");
+  return attribution ? `"${epigraph.text}" — ${attribution}` : `"${epigraph.text}"`;
 }
 
 function generateSlug(title: string): string {
@@ -38,7 +85,7 @@ function calculateReadTime(text: string): string {
 // Auto-generate excerpt from content (first paragraph, max 150 chars)
 function generateExcerpt(content: string): string {
   // Remove markdown syntax
-  const plainText = content
+  const plainText = stripAnnotations(content)
     .replace(/^#+\s+/gm, "") // headers
     .replace(/\*\*([^*]+)\*\*/g, "$1") // bold
     .replace(/\*([^*]+)\*/g, "$1") // italic
@@ -56,6 +103,14 @@ function generateExcerpt(content: string): string {
   return firstParagraph.slice(0, 147).trim() + "...";
 }
 
+// Semantic annotations: toolbar buttons and ⌘⇧1–4
+const ANNOTATIONS = [
+  { label: "var", title: "Variable: a subject", before: "{var:", after: "}", className: "text-variable" },
+  { label: "fn", title: "Function: an action", before: "{fn:", after: "}", className: "text-function" },
+  { label: "str", title: "String: dialogue", before: "{str:\"", after: "\"}", className: "text-string" },
+  { label: "//", title: "Comment: an aside", before: "{// ", after: "}", className: "text-comment" },
+];
+
 // Auto-extract tags from content using keyword detection
 function extractTags(content: string, title: string): string[] {
   const text = (title + " " + content).toLowerCase();
@@ -108,7 +163,10 @@ export default function MarkdownWriter() {
     readTime: "1 min",
     tags: [],
     featured: false,
-    content: ""
+    content: "",
+    epigraph: null,
+    publishStatus: "draft",
+    publishAt: null
   });
   
   const [mounted, setMounted] = useState(false);
@@ -118,11 +176,14 @@ export default function MarkdownWriter() {
   const [typewriterMode, setTypewriterMode] = useState(true);
   const [showPreview, setShowPreview] = useState(false);
   const [showMeta, setShowMeta] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const [wordCount, setWordCount] = useState(0);
   const [charCount, setCharCount] = useState(0);
   const [currentLine, setCurrentLine] = useState(1);
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
   const [cursorPosition, setCursorPosition] = useState({ line: 1, col: 1 });
+  // The preview links glossary terms the way the published page will
+  const glossary = useGlossary();
   
   const editorRef = useRef<HTMLTextAreaElement>(null);
   const autoSaveTimerRef = useRef<NodeJS.Timeout | null>(null);
@@ -154,7 +215,7 @@ export default function MarkdownWriter() {
     setCharCount(chars);
   }, [article.content]);
 
-  const saveArticle = useCallback(async (redirect: boolean = true) => {
+  const saveArticle = useCallback(async (redirect: boolean = true, publishing?: Pick<Article, "publishStatus">, autosave = false) => {
     setSaving(true);
     
     // Save content as raw markdown string (not ContentBlocks)
@@ -173,11 +234,13 @@ export default function MarkdownWriter() {
       content: rawMarkdownContent,
       excerpt: autoExcerpt,
       tags: autoTags,
+      ...publishing,
     };
 
     try {
       const isNew = article.id === 0;
-      const url = isNew ? "/api/articles" : `/api/articles/${article.id}`;
+      // Autosaves leave the public pages cached until an explicit save
+      const url = `${isNew ? "/api/articles" : `/api/articles/${article.id}`}${autosave ? "?autosave=true" : ""}`;
       const method = isNew ? "POST" : "PUT";
       
       const res = await fetch(url, {
@@ -188,9 +251,7 @@ export default function MarkdownWriter() {
       
       if (res.ok) {
         const savedArticle = await res.json();
-        if (isNew) {
-          setArticle(prev => ({ ...prev, id: savedArticle.id }));
-        }
+        setArticle(prev => ({ ...prev, id: savedArticle.id, publishStatus: savedArticle.publishStatus }));
         setLastSaved(new Date());
         setSaved(true);
         setTimeout(() => setSaved(false), 2000);
@@ -208,7 +269,7 @@ export default function MarkdownWriter() {
 
   const handleAutoSave = useCallback(async () => {
     if (!article.title.trim()) return;
-    await saveArticle(false);
+    await saveArticle(false, undefined, true);
   }, [article.title, saveArticle]);
 
   useEffect(() => {
@@ -248,17 +309,7 @@ export default function MarkdownWriter() {
       const res = await fetch(`/api/articles/${id}`);
       if (res.ok) {
         const data = await res.json();
-        let markdownContent = "";
-        if (typeof data.content === "string") {
-          markdownContent = data.content;
-        } else if (Array.isArray(data.content)) {
-          markdownContent = data.content.map((block: { type: string; text: string }) => {
-            if (block.type === "heading") return `## ${block.text}`;
-            if (block.type === "quote") return `> ${block.text}`;
-            return block.text;
-          }).join("\n\n");
-        }
-        setArticle({ ...data, content: markdownContent });
+        setArticle({ ...data, content: toMarkdown(data.content) });
       }
     } catch (error) {
       console.error("Failed to load article:", error);
@@ -300,6 +351,13 @@ export default function MarkdownWriter() {
       e.preventDefault();
       setShowPreview(!showPreview);
     }
+
+    // Digit codes, since Shift turns the keys into symbols
+    const annotation = (e.metaKey || e.ctrlKey) && e.shiftKey && ANNOTATIONS[Number(e.code.replace("Digit", "")) - 1];
+    if (annotation) {
+      e.preventDefault();
+      insertMarkdown(annotation.before, annotation.after);
+    }
     
     if (e.key === "Tab") {
       e.preventDefault();
@@ -340,6 +398,9 @@ export default function MarkdownWriter() {
     }, 0);
   };
 
+  // A future publish date turns "publish" into "schedule"
+  const isFuture = !!article.publishAt && new Date(article.publishAt) > new Date();
+
   if (!mounted) {
     return (
       <div className="min-h-screen flex items-center justify-center" style={{ backgroundColor: "var(--bg-primary)" }}>
@@ -427,13 +488,17 @@ export default function MarkdownWriter() {
                 style={{ color: showPreview ? "var(--accent-gold)" : "var(--text-muted)" }}>preview</button>
             </div>
 
-            <button onClick={() => setShowMeta(!showMeta)}
+            <button onClick={() => { setShowHistory(!showHistory); setShowMeta(false); }}
+              className="px-2 py-1 rounded text-xs font-mono transition-all"
+              style={{ backgroundColor: showHistory ? "var(--accent-gold)" : "var(--bg-tertiary)", color: showHistory ? "var(--bg-primary)" : "var(--text-muted)" }}>history</button>
+
+            <button onClick={() => { setShowMeta(!showMeta); setShowHistory(false); }}
               className="px-2 py-1 rounded text-xs font-mono transition-all"
               style={{ backgroundColor: showMeta ? "var(--accent-gold)" : "var(--bg-tertiary)", color: showMeta ? "var(--bg-primary)" : "var(--text-muted)" }}>meta</button>
 
-            <button onClick={() => saveArticle(true)}
+            <button onClick={() => saveArticle(true, { publishStatus: isFuture ? "scheduled" : "published" })}
               className="px-3 py-1.5 rounded text-xs font-mono font-medium transition-all hover:brightness-110"
-              style={{ backgroundColor: "var(--accent-gold)", color: "var(--bg-primary)" }}>publish</button>
+              style={{ backgroundColor: "var(--accent-gold)", color: "var(--bg-primary)" }}>{isFuture ? "schedule" : "publish"}</button>
           </div>
         </div>
       </motion.header>
@@ -456,6 +521,12 @@ export default function MarkdownWriter() {
               <button onClick={() => insertMarkdown("`", "`")} className="px-2 py-1 rounded text-xs font-mono hover:bg-[var(--bg-tertiary)]" style={{ color: "var(--text-secondary)" }}>{"</>"}</button>
               <button onClick={() => insertMarkdown("[", "](url)")} className="px-2 py-1 rounded text-xs font-mono hover:bg-[var(--bg-tertiary)]" style={{ color: "var(--text-secondary)" }}>🔗</button>
               <button onClick={() => insertMarkdown("\n---\n")} className="px-2 py-1 rounded text-xs font-mono hover:bg-[var(--bg-tertiary)]" style={{ color: "var(--text-secondary)" }}>―</button>
+              <div className="w-px h-4" style={{ backgroundColor: "var(--border-primary)" }} />
+              {ANNOTATIONS.map((annotation, i) => (
+                <button key={annotation.label} onClick={() => insertMarkdown(annotation.before, annotation.after)}
+                  title={`${annotation.title} (⌘⇧${i + 1})`}
+                  className={`px-2 py-1 rounded text-xs font-mono hover:bg-[var(--bg-tertiary)] ${annotation.className}`}>{annotation.label}</button>
+              ))}
             </div>
           </motion.div>
         )}
@@ -497,6 +568,8 @@ Regular paragraph text. Use **bold** or *italic*.
 
 Use \`code\` for inline code.
 
+{var:Marcus} chose to {fn:endure}. {str:"Courage."} {// an aside}
+
 ---
 
 [Link text](https://example.com)`}
@@ -519,12 +592,14 @@ Use \`code\` for inline code.
             <motion.div initial={{ opacity: 0, width: 0 }} animate={{ opacity: 1, width: "50%" }} exit={{ opacity: 0, width: 0 }}
               className="border-l overflow-y-auto" style={{ borderColor: "var(--border-secondary)", backgroundColor: "var(--bg-secondary)", height: "100vh", position: "sticky", top: 0 }}>
               <style dangerouslySetInnerHTML={{ __html: markdownStyles }} />
+              <CodeCopy />
+              <GlossaryCards />
               <div className="max-w-xl mx-auto px-8 py-16">
                 <h1 className="text-3xl font-light mb-8" style={{ color: "var(--text-primary)", fontFamily: "'EB Garamond', Georgia, serif" }}>
                   {article.title || "Untitled"}
                 </h1>
                 <div className="prose-markdown"
-                  dangerouslySetInnerHTML={{ __html: markdownToHtml(article.content) }} />
+                  dangerouslySetInnerHTML={{ __html: markdownToHtml(article.content, { glossary }) }} />
               </div>
             </motion.div>
           )}
@@ -563,6 +638,26 @@ Use \`code\` for inline code.
                   style={{ backgroundColor: "var(--bg-tertiary)", border: "1px solid var(--border-primary)", color: "var(--text-primary)" }} />
               </div>
 
+              <div>
+                <label className="block text-xs font-mono mb-1.5" style={{ color: "var(--text-muted)" }}>status</label>
+                <select value={article.publishStatus} onChange={(e) => setArticle({ ...article, publishStatus: e.target.value as PublishStatus })}
+                  className="w-full px-3 py-2 rounded text-sm font-mono"
+                  style={{ backgroundColor: "var(--bg-tertiary)", border: "1px solid var(--border-primary)", color: "var(--text-primary)" }}>
+                  {PUBLISH_STATUSES.map(status => <option key={status} value={status}>{status}</option>)}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-xs font-mono mb-1.5" style={{ color: "var(--text-muted)" }}>publish at</label>
+                <input type="datetime-local" value={toDateTimeLocal(article.publishAt)}
+                  onChange={(e) => setArticle({ ...article, publishAt: e.target.value ? new Date(e.target.value).toISOString() : null })}
+                  className="w-full px-3 py-2 rounded text-sm font-mono"
+                  style={{ backgroundColor: "var(--bg-tertiary)", border: "1px solid var(--border-primary)", color: "var(--text-primary)" }} />
+                <p className="text-xs mt-1 font-mono" style={{ color: "var(--text-muted)" }}>
+                  {isFuture ? "publish schedules it for this time" : "leave empty to publish now"}
+                </p>
+              </div>
+
               <div>
                 <label className="block text-xs font-mono mb-1.5" style={{ color: "var(--text-muted)" }}>date</label>
                 <input type="date" value={article.date} onChange={(e) => setArticle({ ...article, date: e.target.value })}
@@ -638,6 +733,19 @@ Use \`code\` for inline code.
         )}
       </AnimatePresence>
 
+      {/* Revision History Panel */}
+      <AnimatePresence>
+        {showHistory && (
+          <RevisionHistory
+            articleId={article.id}
+            current={article}
+            lastSaved={lastSaved}
+            onClose={() => setShowHistory(false)}
+            onRestore={(restored) => setArticle({ ...restored, content: toMarkdown(restored.content) })}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Bottom Status Bar */}
       <motion.footer initial={{ opacity: 0 }} animate={{ opacity: 1 }} transition={{ delay: 0.3 }}
         className={`fixed bottom-0 left-0 right-0 py-2 transition-all duration-500 ${focusMode ? "opacity-0 hover:opacity-100" : "opacity-100"}`}
@@ -657,3 +765,173 @@ Use \`code\` for inline code.
     </div>
   );
 }
+
+// ═══════════════════════════════════════════════════════════════════
+// REVISION HISTORY - List, diff against the current draft, restore
+// ═══════════════════════════════════════════════════════════════════
+
+function RevisionHistory({
+  articleId,
+  current,
+  lastSaved,
+  onClose,
+  onRestore,
+}: {
+  articleId: number;
+  current: Article;
+  lastSaved: Date | null;
+  onClose: () => void;
+  // The whole article as the restore left it, so no stale field is autosaved back
+  onRestore: (article: Omit<Article, "content"> & { content: unknown }) => void;
+}) {
+  const [revisions, setRevisions] = useState<RevisionSummary[]>([]);
+  const [selected, setSelected] = useState<Revision | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+
+  const loadRevisions = useCallback(async () => {
+    if (!articleId) return;
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/articles/${articleId}/revisions`);
+      if (res.ok) setRevisions(await res.json());
+    } catch (error) {
+      console.error("Failed to load revisions:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [articleId]);
+
+  // Refresh whenever a save lands so collapsed autosaves show their latest time
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions, lastSaved]);
+
+  const selectRevision = async (id: number) => {
+    try {
+      const res = await fetch(`/api/articles/${articleId}/revisions/${id}`);
+      if (res.ok) setSelected(await res.json());
+    } catch (error) {
+      console.error("Failed to load revision:", error);
+    }
+  };
+
+  const restoreRevision = async () => {
+    if (!selected) return;
+    if (!confirm("Restore this revision? The current draft will be kept in history.")) return;
+
+    setRestoring(true);
+    try {
+      const res = await fetch(`/api/articles/${articleId}/revisions/${selected.id}`, { method: "POST" });
+      if (res.ok) {
+        onRestore(await res.json());
+        setSelected(null);
+        await loadRevisions();
+      }
+    } catch (error) {
+      console.error("Failed to restore revision:", error);
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const formatTime = (dateStr: string) =>
+    new Date(dateStr).toLocaleString("en-US", { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+
+  const diff = selected ? diffLines(toMarkdown(selected.content), current.content) : [];
+  const changedLines = diff.filter(line => line.type !== "same").length;
+  // The snapshot fields outside the body; any difference makes the revision restorable
+  const changedFields = selected ? [
+    { label: "title", from: selected.title, to: current.title },
+    { label: "tags", from: selected.tags.join(", "), to: current.tags.join(", ") },
+    { label: "epigraph", from: formatEpigraph(selected.epigraph), to: formatEpigraph(current.epigraph) },
+  ].filter(field => field.from !== field.to) : [];
+  const identical = changedLines === 0 && changedFields.length === 0;
+  const summary = [
+    ...changedFields.map(field => field.label),
+    ...(changedLines > 0 ? [`${changedLines} lines`] : []),
+  ].join(", ");
+
+  return (
+    <motion.aside initial={{ x: "100%" }} animate={{ x: 0 }} exit={{ x: "100%" }}
+      transition={{ type: "spring", damping: 25, stiffness: 200 }}
+      className="fixed top-0 right-0 bottom-0 w-[28rem] z-50 flex flex-col"
+      style={{ backgroundColor: "var(--bg-elevated)", borderLeft: "1px solid var(--border-primary)" }}>
+      <div className="p-5 pt-16 flex items-center justify-between">
+        <h3 className="text-xs font-mono uppercase tracking-wider" style={{ color: "var(--text-muted)" }}>
+          {selected ? "Compare Revision" : "Revision History"}
+        </h3>
+        <button onClick={selected ? () => setSelected(null) : onClose} className="text-xs hover:opacity-70" style={{ color: "var(--text-muted)" }}>
+          {selected ? "← list" : "×"}
+        </button>
+      </div>
+
+      {!articleId ? (
+        <p className="px-5 text-xs font-mono" style={{ color: "var(--text-muted)" }}>
+          Save the article to start its history.
+        </p>
+      ) : selected ? (
+        <div className="flex-1 flex flex-col min-h-0 px-5 pb-5 gap-3">
+          <div className="flex items-center justify-between text-xs font-mono" style={{ color: "var(--text-muted)" }}>
+            <span>{formatTime(selected.updatedAt)}{selected.editedBy ? ` · ${selected.editedBy.name}` : ""}</span>
+            <span>{identical ? "identical" : `${summary} differ`}</span>
+          </div>
+          <div className="flex gap-3 text-xs font-mono" style={{ color: "var(--text-muted)" }}>
+            <span style={{ color: "#ef4444" }}>− revision only</span>
+            <span style={{ color: "#22c55e" }}>+ current draft only</span>
+          </div>
+          {changedFields.map(field => (
+            <div key={field.label} className="rounded p-3 text-xs font-mono leading-5"
+              style={{ backgroundColor: "var(--bg-tertiary)", border: "1px solid var(--border-primary)" }}>
+              <p className="uppercase tracking-wider mb-1" style={{ color: "var(--text-muted)" }}>{field.label}</p>
+              <div className="whitespace-pre-wrap break-words px-1" style={{ backgroundColor: "rgba(239,68,68,0.12)", color: "var(--text-primary)" }}>
+                − {field.from || "(none)"}
+              </div>
+              <div className="whitespace-pre-wrap break-words px-1" style={{ backgroundColor: "rgba(34,197,94,0.12)", color: "var(--text-primary)" }}>
+                + {field.to || "(none)"}
+              </div>
+            </div>
+          ))}
+          <div className="flex-1 overflow-y-auto editor-container rounded p-3 text-xs font-mono leading-5"
+            style={{ backgroundColor: "var(--bg-tertiary)", border: "1px solid var(--border-primary)" }}>
+            {diff.map((line, i) => (
+              <div key={i} className="whitespace-pre-wrap break-words px-1"
+                style={{
+                  backgroundColor: line.type === "add" ? "rgba(34,197,94,0.12)" : line.type === "remove" ? "rgba(239,68,68,0.12)" : "transparent",
+                  color: line.type === "same" ? "var(--text-muted)" : "var(--text-primary)",
+                }}>
+                {line.type === "add" ? "+ " : line.type === "remove" ? "− " : "  "}{line.text || " "}
+              </div>
+            ))}
+          </div>
+          <button onClick={restoreRevision} disabled={restoring || identical}
+            className="px-3 py-2 rounded text-xs font-mono font-medium transition-all hover:brightness-110 disabled:opacity-50"
+            style={{ backgroundColor: "var(--accent-gold)", color: "var(--bg-primary)" }}>
+            {restoring ? "restoring..." : "restore this revision"}
+          </button>
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto px-5 pb-5 space-y-2">
+          {loading && revisions.length === 0 && (
+            <p className="text-xs font-mono" style={{ color: "var(--text-muted)" }}>Loading...</p>
+          )}
+          {!loading && revisions.length === 0 && (
+            <p className="text-xs font-mono" style={{ color: "var(--text-muted)" }}>No revisions yet.</p>
+          )}
+          {revisions.map((revision, index) => (
+            <button key={revision.id} onClick={() => selectRevision(revision.id)}
+              className="w-full text-left p-3 rounded transition-all hover:opacity-80"
+              style={{ backgroundColor: "var(--bg-tertiary)", border: "1px solid var(--border-primary)" }}>
+              <p className="text-sm truncate" style={{ color: "var(--text-primary)" }}>{revision.title || "Untitled"}</p>
+              <p className="text-xs font-mono mt-1" style={{ color: "var(--text-muted)" }}>
+                {formatTime(revision.updatedAt)}
+                {revision.editedBy ? ` · ${revision.editedBy.name}` : ""}
+                {index === 0 ? " · latest" : ""}
+              </p>
+            </button>
+          ))}
+        </div>
+      )}
+    </motion.aside>
+  );
+}
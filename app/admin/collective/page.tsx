@@ -1,7 +1,17 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { motion, AnimatePresence } from "framer-motion";
+import {
+  NOTE_GAP,
+  NOTE_HEIGHT,
+  SNAP,
+  clampPosition,
+  noteBox,
+  packBoard,
+  snapToGrid,
+  type BoardPosition,
+} from "@/lib/board";
 
 // ═══════════════════════════════════════════════════════════════════
 // TYPES
@@ -15,6 +25,8 @@ interface StickyNote {
   color: "gold" | "sage" | "marble" | "bronze";
   position: { x: number; y: number };
   rotation: number;
+  pinned: boolean;
+  approved: boolean;
   createdAt: string;
 }
 
@@ -31,6 +43,8 @@ const EMPTY_NOTE: StickyNote = {
   color: "gold",
   position: { x: 20, y: 20 },
   rotation: 0,
+  pinned: false,
+  approved: true,
   createdAt: new Date().toISOString().split("T")[0]
 };
 
@@ -56,6 +70,7 @@ export default function CollectiveManager() {
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<number | null>(null);
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
+  const [viewMode, setViewMode] = useState<"list" | "board">("list");
 
   useEffect(() => {
     setMounted(true);
@@ -295,56 +310,8 @@ export default function CollectiveManager() {
                   </div>
                 </div>
 
-                {/* Position & Rotation */}
+                {/* Rotation */}
                 <div className="grid grid-cols-3 gap-4">
-                  <div>
-                    <label 
-                      className="block text-xs uppercase tracking-wider mb-2"
-                      style={{ color: "var(--text-muted)" }}
-                    >
-                      Position X (%)
-                    </label>
-                    <input
-                      type="number"
-                      min="5"
-                      max="70"
-                      value={selectedNote.position.x}
-                      onChange={(e) => setSelectedNote({ 
-                        ...selectedNote, 
-                        position: { ...selectedNote.position, x: parseInt(e.target.value) || 20 }
-                      })}
-                      className="w-full px-4 py-2 rounded-lg text-sm focus:outline-none focus:ring-2"
-                      style={{ 
-                        backgroundColor: "var(--bg-primary)",
-                        border: "1px solid var(--border-secondary)",
-                        color: "var(--text-secondary)"
-                      }}
-                    />
-                  </div>
-                  <div>
-                    <label 
-                      className="block text-xs uppercase tracking-wider mb-2"
-                      style={{ color: "var(--text-muted)" }}
-                    >
-                      Position Y (%)
-                    </label>
-                    <input
-                      type="number"
-                      min="5"
-                      max="70"
-                      value={selectedNote.position.y}
-                      onChange={(e) => setSelectedNote({ 
-                        ...selectedNote, 
-                        position: { ...selectedNote.position, y: parseInt(e.target.value) || 20 }
-                      })}
-                      className="w-full px-4 py-2 rounded-lg text-sm focus:outline-none focus:ring-2"
-                      style={{ 
-                        backgroundColor: "var(--bg-primary)",
-                        border: "1px solid var(--border-secondary)",
-                        color: "var(--text-secondary)"
-                      }}
-                    />
-                  </div>
                   <div>
                     <label 
                       className="block text-xs uppercase tracking-wider mb-2"
@@ -369,6 +336,9 @@ export default function CollectiveManager() {
                       }}
                     />
                   </div>
+                  <p className="col-span-2 self-end text-xs pb-2" style={{ color: "var(--text-muted)" }}>
+                    Place the note by dragging it on the Board.
+                  </p>
                 </div>
               </div>
 
@@ -391,11 +361,11 @@ export default function CollectiveManager() {
                 <div
                   className="absolute p-4 rounded-lg shadow-lg max-w-[200px]"
                   style={{
-                    left: `${selectedNote.position.x}%`,
-                    top: `${selectedNote.position.y + 10}%`,
+                    left: "50%",
+                    top: "50%",
                     backgroundColor: COLOR_STYLES[selectedNote.color].bg,
                     border: `1px solid ${COLOR_STYLES[selectedNote.color].text}`,
-                    transform: `rotate(${selectedNote.rotation}deg)`
+                    transform: `translate(-50%, -50%) rotate(${selectedNote.rotation}deg)`
                   }}
                 >
                   <p 
@@ -431,22 +401,35 @@ export default function CollectiveManager() {
           >
             {/* Header */}
             <div className="flex items-center justify-between">
-              <p 
-                className="text-sm"
-                style={{ color: "var(--text-muted)" }}
-              >
-                {notes.length} note{notes.length !== 1 ? "s" : ""} from the collective
-              </p>
+              <div className="flex items-center gap-4">
+                <p 
+                  className="text-sm"
+                  style={{ color: "var(--text-muted)" }}
+                >
+                  {notes.length} note{notes.length !== 1 ? "s" : ""} from the collective
+                </p>
+                <div className="flex rounded-lg overflow-hidden" style={{ border: "1px solid var(--border-primary)" }}>
+                  {(["list", "board"] as const).map((mode) => (
+                    <button
+                      key={mode}
+                      onClick={() => setViewMode(mode)}
+                      className="px-3 py-1 text-xs capitalize transition-colors"
+                      style={{
+                        backgroundColor: viewMode === mode ? "var(--accent-gold)" : "var(--bg-elevated)",
+                        color: viewMode === mode ? "var(--bg-primary)" : "var(--text-secondary)",
+                      }}
+                    >
+                      {mode}
+                    </button>
+                  ))}
+                </div>
+              </div>
               <motion.button
                 whileHover={{ scale: 1.02 }}
                 whileTap={{ scale: 0.98 }}
                 onClick={() => {
                   setSelectedNote({ 
                     ...EMPTY_NOTE,
-                    position: { 
-                      x: Math.floor(Math.random() * 50) + 10,
-                      y: Math.floor(Math.random() * 50) + 10
-                    },
                     rotation: Math.floor(Math.random() * 10) - 5
                   });
                   setIsEditing(true);
@@ -461,114 +444,125 @@ export default function CollectiveManager() {
               </motion.button>
             </div>
 
+            {viewMode === "board" && (
+              <BoardEditor
+                notes={notes.filter((note) => note.approved)}
+                onChange={(updated) => setNotes((prev) => prev.map((note) => (note.id === updated.id ? updated : note)))}
+                onError={loadNotes}
+              />
+            )}
+
             {/* Notes Grid */}
-            <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {notes.map((note, index) => (
-                <motion.div
-                  key={note.id}
-                  initial={{ opacity: 0, y: 10 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  transition={{ delay: index * 0.05 }}
-                  className="p-5 rounded-xl transition-all duration-200 hover:scale-[1.02]"
-                  style={{ 
-                    backgroundColor: getColorStyle(note.color).bg,
-                    border: `1px solid ${getColorStyle(note.color).text}`
-                  }}
-                >
-                  <p 
-                    className="text-xs font-medium mb-2"
-                    style={{ color: getColorStyle(note.color).text }}
-                  >
-                    {note.question}
-                  </p>
-                  <p 
-                    className="text-sm leading-relaxed mb-3"
-                    style={{ color: "var(--text-primary)" }}
+            {viewMode === "list" && (
+              <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {notes.map((note, index) => (
+                  <motion.div
+                    key={note.id}
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: index * 0.05 }}
+                    className="p-5 rounded-xl transition-all duration-200 hover:scale-[1.02]"
+                    style={{ 
+                      backgroundColor: getColorStyle(note.color).bg,
+                      border: `1px solid ${getColorStyle(note.color).text}`
+                    }}
                   >
-                    {note.answer}
-                  </p>
-                  <div className="flex items-center justify-between">
                     <p 
-                      className="text-xs"
-                      style={{ color: "var(--text-muted)" }}
+                      className="text-xs font-medium mb-2"
+                      style={{ color: getColorStyle(note.color).text }}
                     >
-                      — {note.author}
+                      {note.question}
                     </p>
                     <p 
-                      className="text-xs"
-                      style={{ color: "var(--text-muted)" }}
+                      className="text-sm leading-relaxed mb-3"
+                      style={{ color: "var(--text-primary)" }}
                     >
-                      {note.createdAt}
+                      {note.answer}
                     </p>
-                  </div>
+                    <div className="flex items-center justify-between">
+                      <p 
+                        className="text-xs"
+                        style={{ color: "var(--text-muted)" }}
+                      >
+                        — {note.author}
+                      </p>
+                      <p 
+                        className="text-xs"
+                        style={{ color: "var(--text-muted)" }}
+                      >
+                        {note.createdAt}
+                      </p>
+                    </div>
                   
-                  {/* Actions */}
-                  <div 
-                    className="mt-4 pt-4 flex gap-2"
-                    style={{ borderTop: `1px solid ${getColorStyle(note.color).text}40` }}
-                  >
-                    <button
-                      onClick={() => {
-                        setSelectedNote(note);
-                        setIsEditing(true);
-                      }}
-                      className="px-3 py-1 rounded-lg text-xs transition-opacity hover:opacity-70"
-                      style={{ 
-                        backgroundColor: "var(--bg-primary)",
-                        border: "1px solid var(--border-secondary)",
-                        color: "var(--text-secondary)"
-                      }}
-                    >
-                      Edit
-                    </button>
-                    <button
-                      onClick={() => setShowDeleteConfirm(note.id)}
-                      className="px-3 py-1 rounded-lg text-xs transition-opacity hover:opacity-70"
-                      style={{ 
-                        backgroundColor: "var(--bg-primary)",
-                        border: "1px solid var(--border-secondary)",
-                        color: "#ef4444"
-                      }}
+                    {/* Actions */}
+                    <div 
+                      className="mt-4 pt-4 flex gap-2"
+                      style={{ borderTop: `1px solid ${getColorStyle(note.color).text}40` }}
                     >
-                      Delete
-                    </button>
-                  </div>
-
-                  {/* Delete Confirmation */}
-                  <AnimatePresence>
-                    {showDeleteConfirm === note.id && (
-                      <motion.div
-                        initial={{ opacity: 0, height: 0 }}
-                        animate={{ opacity: 1, height: "auto" }}
-                        exit={{ opacity: 0, height: 0 }}
-                        className="mt-4 pt-4 flex items-center justify-between"
-                        style={{ borderTop: `1px solid ${getColorStyle(note.color).text}40` }}
+                      <button
+                        onClick={() => {
+                          setSelectedNote(note);
+                          setIsEditing(true);
+                        }}
+                        className="px-3 py-1 rounded-lg text-xs transition-opacity hover:opacity-70"
+                        style={{ 
+                          backgroundColor: "var(--bg-primary)",
+                          border: "1px solid var(--border-secondary)",
+                          color: "var(--text-secondary)"
+                        }}
                       >
-                        <p className="text-xs" style={{ color: "#ef4444" }}>
-                          Delete?
-                        </p>
-                        <div className="flex gap-2">
-                          <button
-                            onClick={() => setShowDeleteConfirm(null)}
-                            className="px-2 py-1 rounded text-xs"
-                            style={{ color: "var(--text-muted)" }}
-                          >
-                            Cancel
-                          </button>
-                          <button
-                            onClick={() => handleDelete(note.id)}
-                            className="px-2 py-1 rounded text-xs"
-                            style={{ backgroundColor: "#ef4444", color: "white" }}
-                          >
-                            Delete
-                          </button>
-                        </div>
-                      </motion.div>
-                    )}
-                  </AnimatePresence>
-                </motion.div>
-              ))}
-            </div>
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => setShowDeleteConfirm(note.id)}
+                        className="px-3 py-1 rounded-lg text-xs transition-opacity hover:opacity-70"
+                        style={{ 
+                          backgroundColor: "var(--bg-primary)",
+                          border: "1px solid var(--border-secondary)",
+                          color: "#ef4444"
+                        }}
+                      >
+                        Delete
+                      </button>
+                    </div>
+
+                    {/* Delete Confirmation */}
+                    <AnimatePresence>
+                      {showDeleteConfirm === note.id && (
+                        <motion.div
+                          initial={{ opacity: 0, height: 0 }}
+                          animate={{ opacity: 1, height: "auto" }}
+                          exit={{ opacity: 0, height: 0 }}
+                          className="mt-4 pt-4 flex items-center justify-between"
+                          style={{ borderTop: `1px solid ${getColorStyle(note.color).text}40` }}
+                        >
+                          <p className="text-xs" style={{ color: "#ef4444" }}>
+                            Delete? Restorable for 30 days under Answers.
+                          </p>
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() => setShowDeleteConfirm(null)}
+                              className="px-2 py-1 rounded text-xs"
+                              style={{ color: "var(--text-muted)" }}
+                            >
+                              Cancel
+                            </button>
+                            <button
+                              onClick={() => handleDelete(note.id)}
+                              className="px-2 py-1 rounded text-xs"
+                              style={{ backgroundColor: "#ef4444", color: "white" }}
+                            >
+                              Delete
+                            </button>
+                          </div>
+                        </motion.div>
+                      )}
+                    </AnimatePresence>
+                  </motion.div>
+                ))}
+              </div>
+
+            )}
 
             {notes.length === 0 && (
               <div 
@@ -586,3 +580,227 @@ export default function CollectiveManager() {
     </div>
   );
 }
+
+// ═══════════════════════════════════════════════════════════════════
+// BOARD EDITOR - Drag notes into place; dropped notes are pinned there,
+// the rest are packed around them exactly as on the public board
+// ═══════════════════════════════════════════════════════════════════
+
+interface DragState {
+  id: number;
+  pointerX: number;
+  pointerY: number;
+  origin: BoardPosition;
+  offset: BoardPosition;
+}
+
+// Pointer travel (px) below which a press counts as a click, not a drag
+const DRAG_THRESHOLD = 3;
+
+function BoardEditor({
+  notes,
+  onChange,
+  onError,
+}: {
+  notes: StickyNote[];
+  onChange: (note: StickyNote) => void;
+  onError: () => void;
+}) {
+  const boardRef = useRef<HTMLDivElement>(null);
+  const [snap, setSnap] = useState(true);
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  const layout = useMemo(
+    () => packBoard(notes.map((note) => ({
+      id: note.id,
+      positionX: note.position.x,
+      positionY: note.position.y,
+      pinned: note.pinned,
+    }))),
+    [notes]
+  );
+  // Leave a note's worth of room below the last row to drag into
+  const height = layout.height + NOTE_HEIGHT + NOTE_GAP;
+  const pinnedCount = notes.filter((note) => note.pinned).length;
+
+  const savePlacement = async (note: StickyNote, position: BoardPosition, pinned: boolean) => {
+    const updated = { ...note, position, pinned };
+    onChange(updated);
+    try {
+      const res = await fetch(`/api/notes/${note.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ position, pinned }),
+      });
+      if (!res.ok) onError();
+    } catch (error) {
+      console.error("Failed to save note placement:", error);
+      onError();
+    }
+  };
+
+  const dropPosition = (state: DragState): BoardPosition => {
+    const x = state.origin.x + state.offset.x;
+    const y = state.origin.y + state.offset.y;
+    return clampPosition(snap ? { x: snapToGrid(x), y: snapToGrid(y) } : { x, y });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent, note: StickyNote) => {
+    const origin = layout.positions.get(note.id);
+    if (!origin || e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ id: note.id, pointerX: e.clientX, pointerY: e.clientY, origin, offset: { x: 0, y: 0 } });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag || !boardRef.current) return;
+    // Board units are percentages of the board's width on both axes
+    const unit = 100 / boardRef.current.offsetWidth;
+    setDrag({
+      ...drag,
+      offset: { x: (e.clientX - drag.pointerX) * unit, y: (e.clientY - drag.pointerY) * unit },
+    });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const state = drag;
+    setDrag(null);
+
+    const moved = Math.hypot(e.clientX - state.pointerX, e.clientY - state.pointerY);
+    const note = notes.find((n) => n.id === state.id);
+    if (!note || moved < DRAG_THRESHOLD) return;
+    savePlacement(note, dropPosition(state), true);
+  };
+
+  const togglePin = (note: StickyNote) => {
+    const position = layout.positions.get(note.id) ?? note.position;
+    // Pinning freezes the packed spot; unpinning hands the note back to packing
+    savePlacement(note, position, !note.pinned);
+  };
+
+  const unpinAll = () => {
+    notes.filter((note) => note.pinned).forEach((note) => savePlacement(note, note.position, false));
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Toolbar */}
+      <div className="flex items-center justify-between text-xs" style={{ color: "var(--text-muted)" }}>
+        <p>
+          Drag a note to pin it. Unpinned notes are packed around pinned ones. Only approved notes hang on the public board.
+        </p>
+        <div className="flex items-center gap-3 shrink-0">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input type="checkbox" checked={snap} onChange={(e) => setSnap(e.target.checked)} />
+            Snap to grid
+          </label>
+          <button
+            onClick={unpinAll}
+            disabled={pinnedCount === 0}
+            className="px-3 py-1 rounded-lg transition-opacity hover:opacity-70 disabled:opacity-40"
+            style={{
+              backgroundColor: "var(--bg-elevated)",
+              border: "1px solid var(--border-primary)",
+              color: "var(--text-secondary)"
+            }}
+          >
+            Unpin all ({pinnedCount})
+          </button>
+        </div>
+      </div>
+
+      {/* Board */}
+      <div
+        ref={boardRef}
+        className="relative rounded-xl select-none"
+        style={{
+          aspectRatio: `100 / ${height}`,
+          backgroundColor: "var(--bg-primary)",
+          border: "1px solid var(--border-secondary)",
+          backgroundImage: snap
+            ? "linear-gradient(var(--border-primary) 1px, transparent 1px), linear-gradient(90deg, var(--border-primary) 1px, transparent 1px)"
+            : undefined,
+          backgroundSize: `${SNAP * 5}% ${((SNAP * 5) / height) * 100}%`,
+        }}
+      >
+        {/* Drop target while dragging */}
+        {drag && (
+          <div
+            className="absolute rounded-lg pointer-events-none"
+            style={{
+              ...noteBox(dropPosition(drag), height),
+              border: "2px dashed var(--accent-gold)",
+            }}
+          />
+        )}
+
+        {notes.map((note) => {
+          const position = layout.positions.get(note.id);
+          if (!position) return null;
+          const dragging = drag?.id === note.id;
+          const shown = dragging ? { x: position.x + drag.offset.x, y: position.y + drag.offset.y } : position;
+
+          return (
+            <div
+              key={note.id}
+              onPointerDown={(e) => handlePointerDown(e, note)}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={() => setDrag(null)}
+              className="absolute p-3 rounded-lg overflow-hidden touch-none"
+              style={{
+                ...noteBox(shown, height),
+                backgroundColor: getColorStyle(note.color).bg,
+                border: `1px solid ${getColorStyle(note.color).text}`,
+                transform: `rotate(${dragging ? 0 : note.rotation}deg)`,
+                cursor: dragging ? "grabbing" : "grab",
+                zIndex: dragging ? 20 : note.pinned ? 2 : 1,
+                boxShadow: dragging ? "0 12px 30px rgba(0,0,0,0.35)" : "none",
+                transition: dragging ? "none" : "left 0.2s, top 0.2s",
+              }}
+            >
+              <button
+                onPointerDown={(e) => e.stopPropagation()}
+                onClick={() => togglePin(note)}
+                className="absolute top-1 right-1 w-6 h-6 rounded-full text-xs transition-opacity"
+                style={{
+                  opacity: note.pinned ? 1 : 0.35,
+                  backgroundColor: note.pinned ? "var(--accent-gold)" : "transparent",
+                }}
+                title={note.pinned ? "Pinned: click to let the board place it" : "Pin where it is"}
+                aria-label={note.pinned ? "Unpin note" : "Pin note"}
+              >
+                📌
+              </button>
+              <p 
+                className="text-[10px] font-medium mb-1 pr-6 line-clamp-1"
+                style={{ color: getColorStyle(note.color).text }}
+              >
+                {note.question}
+              </p>
+              <p 
+                className="text-xs leading-relaxed line-clamp-4"
+                style={{ color: "var(--text-primary)" }}
+              >
+                {note.answer}
+              </p>
+              <p 
+                className="absolute bottom-2 left-3 text-[10px]"
+                style={{ color: "var(--text-muted)" }}
+              >
+                — {note.author}
+              </p>
+            </div>
+          );
+        })}
+
+        {notes.length === 0 && (
+          <p className="absolute inset-0 flex items-center justify-center text-sm" style={{ color: "var(--text-muted)" }}>
+            No approved notes on the board yet
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
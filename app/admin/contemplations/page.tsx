@@ -3,14 +3,17 @@
 import { useState, useEffect } from "react";
 import { motion, AnimatePresence, Reorder } from "framer-motion";
 import Link from "next/link";
+import ScheduleCalendar from "@/components/ScheduleCalendar";
 
 interface Contemplation {
   id: number;
   question: string;
   active: boolean;
   featured: boolean;
+  inRotation: boolean;
   order: number;
-  answers?: { id: number }[];
+  answerCount?: number;
+  votes?: number;
 }
 
 export default function ContemplationsAdmin() {
@@ -19,6 +22,7 @@ export default function ContemplationsAdmin() {
   const [newQuestion, setNewQuestion] = useState("");
   const [editingId, setEditingId] = useState<number | null>(null);
   const [editText, setEditText] = useState("");
+  const [viewMode, setViewMode] = useState<"list" | "calendar">("list");
 
   useEffect(() => {
     fetchContemplations();
@@ -100,16 +104,10 @@ export default function ContemplationsAdmin() {
     });
   };
 
+  // Starring pins the question to today; the server unstars whichever it replaces
   const toggleFeatured = async (contemplation: Contemplation) => {
-    // If setting as featured, unfeatured all others first
-    if (!contemplation.featured) {
-      for (const c of contemplations) {
-        if (c.featured) {
-          await updateContemplation(c.id, { featured: false });
-        }
-      }
-    }
     await updateContemplation(contemplation.id, { featured: !contemplation.featured });
+    fetchContemplations();
   };
 
   const startEdit = (contemplation: Contemplation) => {
@@ -145,9 +143,26 @@ export default function ContemplationsAdmin() {
               Contemplations
             </h1>
           </div>
-          <span className="text-xs font-mono" style={{ color: "rgba(255,255,255,0.3)" }}>
-            {contemplations.length} questions
-          </span>
+          <div className="flex items-center gap-4">
+            <div className="flex rounded overflow-hidden" style={{ border: "1px solid rgba(255,255,255,0.1)" }}>
+              {(["list", "calendar"] as const).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => setViewMode(mode)}
+                  className="px-3 py-1 text-xs capitalize transition-colors"
+                  style={{
+                    backgroundColor: viewMode === mode ? "rgba(201,162,39,0.2)" : "transparent",
+                    color: viewMode === mode ? "#c9a227" : "rgba(255,255,255,0.5)",
+                  }}
+                >
+                  {mode}
+                </button>
+              ))}
+            </div>
+            <span className="text-xs font-mono" style={{ color: "rgba(255,255,255,0.3)" }}>
+              {contemplations.length} questions
+            </span>
+          </div>
         </div>
       </header>
 
@@ -156,162 +171,189 @@ export default function ContemplationsAdmin() {
         <div className="mb-8 p-4 rounded-lg" style={{ backgroundColor: "rgba(201,162,39,0.1)", border: "1px solid rgba(201,162,39,0.2)" }}>
           <p className="text-sm" style={{ color: "rgba(255,255,255,0.7)" }}>
             <span style={{ color: "#c9a227" }}>✦</span> Contemplation questions appear on the site for visitors to reflect and answer. 
-            Answers become part of the Board of Collective. Set one as <strong>featured</strong> for the hero.
+            Answers become part of the Board of Collective. Each day&apos;s hero question is the one pinned to that day
+            in the <strong>calendar</strong>, otherwise the next in the rotation (↻), in list order. ★ pins a question to today.
           </p>
         </div>
 
-        {/* Add New */}
-        <div className="mb-8 flex gap-3">
-          <input
-            type="text"
-            value={newQuestion}
-            onChange={(e) => setNewQuestion(e.target.value)}
-            onKeyDown={(e) => e.key === "Enter" && addContemplation()}
-            placeholder="Add a new contemplation question..."
-            className="flex-1 px-4 py-3 rounded-lg text-sm"
-            style={{ 
-              backgroundColor: "rgba(255,255,255,0.05)", 
-              border: "1px solid rgba(255,255,255,0.1)",
-              color: "rgba(255,255,255,0.9)"
-            }}
+        {viewMode === "calendar" ? (
+          <ScheduleCalendar
+            endpoint="/api/contemplations/schedule"
+            idField="contemplationId"
+            items={contemplations}
+            label={(c) => c.question}
+            onTodayChange={fetchContemplations}
           />
-          <button
-            onClick={addContemplation}
-            className="px-6 py-3 rounded-lg text-sm font-medium transition-all hover:brightness-110"
-            style={{ backgroundColor: "#c9a227", color: "#0a0a0a" }}
-          >
-            Add
-          </button>
-        </div>
-
-        {/* Contemplations List */}
-        <Reorder.Group axis="y" values={contemplations} onReorder={handleReorder} className="space-y-2">
-          <AnimatePresence>
-            {contemplations.map((contemplation) => (
-              <Reorder.Item
-                key={contemplation.id}
-                value={contemplation}
-                initial={{ opacity: 0, y: 10 }}
-                animate={{ opacity: 1, y: 0 }}
-                exit={{ opacity: 0, x: -20 }}
-                className="p-4 rounded-lg cursor-grab active:cursor-grabbing"
+        ) : (
+          <>
+            {/* Add New */}
+            <div className="mb-8 flex gap-3">
+              <input
+                type="text"
+                value={newQuestion}
+                onChange={(e) => setNewQuestion(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && addContemplation()}
+                placeholder="Add a new contemplation question..."
+                className="flex-1 px-4 py-3 rounded-lg text-sm"
                 style={{ 
-                  backgroundColor: contemplation.featured ? "rgba(201,162,39,0.1)" : "rgba(255,255,255,0.03)", 
-                  border: contemplation.featured ? "1px solid rgba(201,162,39,0.3)" : "1px solid rgba(255,255,255,0.08)"
+                  backgroundColor: "rgba(255,255,255,0.05)", 
+                  border: "1px solid rgba(255,255,255,0.1)",
+                  color: "rgba(255,255,255,0.9)"
                 }}
+              />
+              <button
+                onClick={addContemplation}
+                className="px-6 py-3 rounded-lg text-sm font-medium transition-all hover:brightness-110"
+                style={{ backgroundColor: "#c9a227", color: "#0a0a0a" }}
               >
-                <div className="flex items-start gap-4">
-                  {/* Drag Handle */}
-                  <div className="text-lg mt-1" style={{ color: "rgba(255,255,255,0.2)" }}>⋮⋮</div>
-                  
-                  {/* Toggle Active */}
-                  <button
-                    onClick={() => updateContemplation(contemplation.id, { active: !contemplation.active })}
-                    className="w-5 h-5 mt-1 rounded flex items-center justify-center transition-colors flex-shrink-0"
+                Add
+              </button>
+            </div>
+
+            {/* Contemplations List */}
+            <Reorder.Group axis="y" values={contemplations} onReorder={handleReorder} className="space-y-2">
+              <AnimatePresence>
+                {contemplations.map((contemplation) => (
+                  <Reorder.Item
+                    key={contemplation.id}
+                    value={contemplation}
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, x: -20 }}
+                    className="p-4 rounded-lg cursor-grab active:cursor-grabbing"
                     style={{ 
-                      backgroundColor: contemplation.active ? "#c9a227" : "transparent",
-                      border: `1px solid ${contemplation.active ? "#c9a227" : "rgba(255,255,255,0.2)"}`
+                      backgroundColor: contemplation.featured ? "rgba(201,162,39,0.1)" : "rgba(255,255,255,0.03)", 
+                      border: contemplation.featured ? "1px solid rgba(201,162,39,0.3)" : "1px solid rgba(255,255,255,0.08)"
                     }}
                   >
-                    {contemplation.active && <span className="text-xs" style={{ color: "#0a0a0a" }}>✓</span>}
-                  </button>
+                    <div className="flex items-start gap-4">
+                      {/* Drag Handle */}
+                      <div className="text-lg mt-1" style={{ color: "rgba(255,255,255,0.2)" }}>⋮⋮</div>
                   
-                  {/* Content */}
-                  <div className="flex-1 min-w-0">
-                    {editingId === contemplation.id ? (
-                      <input
-                        type="text"
-                        value={editText}
-                        onChange={(e) => setEditText(e.target.value)}
-                        onKeyDown={(e) => {
-                          if (e.key === "Enter") saveEdit();
-                          if (e.key === "Escape") setEditingId(null);
-                        }}
-                        onBlur={saveEdit}
-                        autoFocus
-                        className="w-full px-2 py-1 rounded text-sm bg-transparent"
+                      {/* Toggle Active */}
+                      <button
+                        onClick={() => updateContemplation(contemplation.id, { active: !contemplation.active })}
+                        className="w-5 h-5 mt-1 rounded flex items-center justify-center transition-colors flex-shrink-0"
                         style={{ 
-                          border: "1px solid rgba(201,162,39,0.5)",
-                          color: "rgba(255,255,255,0.9)"
+                          backgroundColor: contemplation.active ? "#c9a227" : "transparent",
+                          border: `1px solid ${contemplation.active ? "#c9a227" : "rgba(255,255,255,0.2)"}`
                         }}
-                      />
-                    ) : (
-                      <p 
-                        className="text-sm cursor-pointer hover:opacity-70 transition-opacity"
-                        style={{ 
-                          color: contemplation.active ? "rgba(255,255,255,0.9)" : "rgba(255,255,255,0.4)",
-                          textDecoration: contemplation.active ? "none" : "line-through"
-                        }}
-                        onClick={() => startEdit(contemplation)}
                       >
-                        {contemplation.question}
-                      </p>
-                    )}
+                        {contemplation.active && <span className="text-xs" style={{ color: "#0a0a0a" }}>✓</span>}
+                      </button>
+                  
+                      {/* Content */}
+                      <div className="flex-1 min-w-0">
+                        {editingId === contemplation.id ? (
+                          <input
+                            type="text"
+                            value={editText}
+                            onChange={(e) => setEditText(e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key === "Enter") saveEdit();
+                              if (e.key === "Escape") setEditingId(null);
+                            }}
+                            onBlur={saveEdit}
+                            autoFocus
+                            className="w-full px-2 py-1 rounded text-sm bg-transparent"
+                            style={{ 
+                              border: "1px solid rgba(201,162,39,0.5)",
+                              color: "rgba(255,255,255,0.9)"
+                            }}
+                          />
+                        ) : (
+                          <p 
+                            className="text-sm cursor-pointer hover:opacity-70 transition-opacity"
+                            style={{ 
+                              color: contemplation.active ? "rgba(255,255,255,0.9)" : "rgba(255,255,255,0.4)",
+                              textDecoration: contemplation.active ? "none" : "line-through"
+                            }}
+                            onClick={() => startEdit(contemplation)}
+                          >
+                            {contemplation.question}
+                          </p>
+                        )}
                     
-                    {/* Meta */}
-                    <div className="flex items-center gap-3 mt-2">
-                      {contemplation.featured && (
-                        <span className="text-xs px-2 py-0.5 rounded" style={{ backgroundColor: "rgba(201,162,39,0.2)", color: "#c9a227" }}>
-                          ★ Hero
-                        </span>
-                      )}
-                      <span className="text-xs" style={{ color: "rgba(255,255,255,0.3)" }}>
-                        {contemplation.answers?.length || 0} answers
-                      </span>
-                    </div>
-                  </div>
+                        {/* Meta */}
+                        <div className="flex items-center gap-3 mt-2">
+                          {contemplation.featured && (
+                            <span className="text-xs px-2 py-0.5 rounded" style={{ backgroundColor: "rgba(201,162,39,0.2)", color: "#c9a227" }}>
+                              ★ Hero
+                            </span>
+                          )}
+                          <span className="text-xs" style={{ color: "rgba(255,255,255,0.3)" }}>
+                            {contemplation.answerCount || 0} answers
+                          </span>
+                          <span className="text-xs" style={{ color: "rgba(255,255,255,0.3)" }}>
+                            {contemplation.votes || 0} votes
+                          </span>
+                        </div>
+                      </div>
                   
-                  {/* Actions */}
-                  <div className="flex items-center gap-2">
-                    <button
-                      onClick={() => toggleFeatured(contemplation)}
-                      className="text-xs px-2 py-1 rounded transition-colors"
-                      style={{ 
-                        backgroundColor: contemplation.featured ? "rgba(201,162,39,0.2)" : "transparent",
-                        border: "1px solid rgba(255,255,255,0.1)",
-                        color: contemplation.featured ? "#c9a227" : "rgba(255,255,255,0.4)"
-                      }}
-                      title={contemplation.featured ? "Remove from hero" : "Set as hero"}
-                    >
-                      {contemplation.featured ? "★" : "☆"}
-                    </button>
-                    <button
-                      onClick={() => deleteContemplation(contemplation.id)}
-                      className="text-sm opacity-30 hover:opacity-100 transition-opacity"
-                      style={{ color: "#ff6b6b" }}
-                    >
-                      ✕
-                    </button>
-                  </div>
-                </div>
-              </Reorder.Item>
-            ))}
-          </AnimatePresence>
-        </Reorder.Group>
+                      {/* Actions */}
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={() => updateContemplation(contemplation.id, { inRotation: !contemplation.inRotation })}
+                          className="text-xs px-2 py-1 rounded transition-colors"
+                          style={{ 
+                            border: "1px solid rgba(255,255,255,0.1)",
+                            color: contemplation.inRotation ? "#c9a227" : "rgba(255,255,255,0.2)"
+                          }}
+                          title={contemplation.inRotation ? "In the rotation" : "Only on pinned days"}
+                        >
+                          ↻
+                        </button>
+                        <button
+                          onClick={() => toggleFeatured(contemplation)}
+                          className="text-xs px-2 py-1 rounded transition-colors"
+                          style={{ 
+                            backgroundColor: contemplation.featured ? "rgba(201,162,39,0.2)" : "transparent",
+                            border: "1px solid rgba(255,255,255,0.1)",
+                            color: contemplation.featured ? "#c9a227" : "rgba(255,255,255,0.4)"
+                          }}
+                          title={contemplation.featured ? "Hand today back to the schedule" : "Pin to today"}
+                        >
+                          {contemplation.featured ? "★" : "☆"}
+                        </button>
+                        <button
+                          onClick={() => deleteContemplation(contemplation.id)}
+                          className="text-sm opacity-30 hover:opacity-100 transition-opacity"
+                          style={{ color: "#ff6b6b" }}
+                        >
+                          ✕
+                        </button>
+                      </div>
+                    </div>
+                  </Reorder.Item>
+                ))}
+              </AnimatePresence>
+            </Reorder.Group>
 
-        {contemplations.length === 0 && (
-          <div className="text-center py-16">
-            <p className="text-sm" style={{ color: "rgba(255,255,255,0.4)" }}>
-              No contemplation questions yet. Add your first question above.
-            </p>
-          </div>
-        )}
+            {contemplations.length === 0 && (
+              <div className="text-center py-16">
+                <p className="text-sm" style={{ color: "rgba(255,255,255,0.4)" }}>
+                  No contemplation questions yet. Add your first question above.
+                </p>
+              </div>
+            )}
 
-        {/* Preview Featured */}
-        {contemplations.find(c => c.featured) && (
-          <div className="mt-12 pt-8 border-t" style={{ borderColor: "rgba(255,255,255,0.1)" }}>
-            <h3 className="text-xs font-mono uppercase tracking-wider mb-4" style={{ color: "rgba(255,255,255,0.4)" }}>
-              Hero Preview
-            </h3>
-            <div className="p-8 rounded-lg text-center" style={{ backgroundColor: "rgba(255,255,255,0.02)" }}>
-              <p className="text-xs uppercase tracking-widest mb-4" style={{ color: "#c9a227" }}>
-                Today&apos;s Contemplation
-              </p>
-              <p className="text-2xl font-light italic" style={{ color: "rgba(255,255,255,0.9)" }}>
-                &ldquo;{contemplations.find(c => c.featured)?.question}&rdquo;
-              </p>
-            </div>
-          </div>
+            {/* Preview Featured */}
+            {contemplations.find(c => c.featured) && (
+              <div className="mt-12 pt-8 border-t" style={{ borderColor: "rgba(255,255,255,0.1)" }}>
+                <h3 className="text-xs font-mono uppercase tracking-wider mb-4" style={{ color: "rgba(255,255,255,0.4)" }}>
+                  Hero Preview
+                </h3>
+                <div className="p-8 rounded-lg text-center" style={{ backgroundColor: "rgba(255,255,255,0.02)" }}>
+                  <p className="text-xs uppercase tracking-widest mb-4" style={{ color: "#c9a227" }}>
+                    Today&apos;s Contemplation
+                  </p>
+                  <p className="text-2xl font-light italic" style={{ color: "rgba(255,255,255,0.9)" }}>
+                    &ldquo;{contemplations.find(c => c.featured)?.question}&rdquo;
+                  </p>
+                </div>
+              </div>
+            )}
+          </>
         )}
 
         {/* Example Questions */}
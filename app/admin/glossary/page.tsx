@@ -0,0 +1,544 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { useSearchParams } from "next/navigation";
+import { GlossaryCard } from "@/components/VariableHover";
+import type { GlossaryEntry } from "@/lib/glossary";
+
+// ═══════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════
+
+interface Quote {
+  id: number;
+  text: string;
+  author: string;
+  source: string;
+}
+
+// Aliases are edited as one comma-separated line
+interface GlossaryDraft {
+  id: number;
+  term: string;
+  aliases: string;
+  origin: string;
+  definition: string;
+  quoteId: number | null;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// GLOSSARY MANAGER - The terms articles link to their definitions
+// "Nothing is so conducive to greatness of mind as the ability to
+//  examine methodically and truly every object." - Marcus Aurelius
+// ═══════════════════════════════════════════════════════════════════
+
+const EMPTY_DRAFT: GlossaryDraft = {
+  id: 0,
+  term: "",
+  aliases: "",
+  origin: "",
+  definition: "",
+  quoteId: null,
+};
+
+function toDraft(entry: GlossaryEntry): GlossaryDraft {
+  return {
+    id: entry.id,
+    term: entry.term,
+    aliases: entry.aliases.join(", "),
+    origin: entry.origin ?? "",
+    definition: entry.definition,
+    quoteId: entry.quote?.id ?? null,
+  };
+}
+
+const inputStyle = {
+  backgroundColor: "var(--bg-primary)",
+  border: "1px solid var(--border-secondary)",
+  color: "var(--text-primary)"
+};
+
+export default function GlossaryManager() {
+  const searchParams = useSearchParams();
+  const [terms, setTerms] = useState<GlossaryEntry[]>([]);
+  const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [draft, setDraft] = useState<GlossaryDraft | null>(null);
+  const [mounted, setMounted] = useState(false);
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState<number | null>(null);
+  const [filter, setFilter] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setMounted(true);
+    loadTerms();
+    loadQuotes();
+  }, []);
+
+  useEffect(() => {
+    if (mounted && searchParams.get("new")) {
+      setDraft({ ...EMPTY_DRAFT });
+    }
+  }, [mounted, searchParams]);
+
+  const loadTerms = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/glossary");
+      if (res.ok) {
+        setTerms(await res.json());
+      }
+    } catch (error) {
+      console.error("Failed to load glossary:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadQuotes = async () => {
+    try {
+      const res = await fetch("/api/quotes");
+      if (res.ok) {
+        setQuotes(await res.json());
+      }
+    } catch (error) {
+      console.error("Failed to load quotes:", error);
+    }
+  };
+
+  const openEditor = (next: GlossaryDraft | null) => {
+    setDraft(next);
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setSaving(true);
+    setError(null);
+
+    try {
+      const isNew = draft.id === 0;
+      const res = await fetch(isNew ? "/api/glossary" : `/api/glossary/${draft.id}`, {
+        method: isNew ? "POST" : "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(draft),
+      });
+
+      if (res.ok) {
+        await loadTerms();
+        openEditor(null);
+      } else {
+        const data = await res.json().catch(() => ({}));
+        setError(data.error || "Failed to save term");
+      }
+    } catch (error) {
+      console.error("Failed to save glossary term:", error);
+      setError("Failed to save term");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    try {
+      const res = await fetch(`/api/glossary/${id}`, { method: "DELETE" });
+      if (res.ok) {
+        await loadTerms();
+        setShowDeleteConfirm(null);
+        if (draft?.id === id) openEditor(null);
+      }
+    } catch (error) {
+      console.error("Failed to delete glossary term:", error);
+    }
+  };
+
+  const wanted = filter.trim().toLowerCase();
+  const filteredTerms = wanted
+    ? terms.filter(t => [t.term, ...t.aliases].some(name => name.toLowerCase().includes(wanted)))
+    : terms;
+
+  if (!mounted) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <motion.div
+          animate={{ rotate: 360 }}
+          transition={{ duration: 2, repeat: Infinity, ease: "linear" }}
+          className="text-2xl"
+          style={{ color: "var(--accent-gold)" }}
+        >
+          ◐
+        </motion.div>
+      </div>
+    );
+  }
+
+  // What the hover card will show once saved
+  const previewQuote = quotes.find(q => q.id === draft?.quoteId) ?? null;
+  const preview: GlossaryEntry | null = draft && {
+    id: draft.id,
+    term: draft.term || "Term",
+    aliases: [],
+    origin: draft.origin.trim() || null,
+    definition: draft.definition || "Its definition…",
+    quote: previewQuote,
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      <AnimatePresence mode="wait">
+        {draft && preview ? (
+          /* Edit Mode */
+          <motion.div
+            key="editor"
+            initial={{ opacity: 0, x: 20 }}
+            animate={{ opacity: 1, x: 0 }}
+            exit={{ opacity: 0, x: -20 }}
+            className="space-y-6"
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between">
+              <button
+                onClick={() => openEditor(null)}
+                className="flex items-center gap-2 text-sm transition-opacity hover:opacity-70"
+                style={{ color: "var(--text-muted)" }}
+              >
+                ← Back to glossary
+              </button>
+              <div className="flex gap-3">
+                <motion.button
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  onClick={() => openEditor(null)}
+                  className="px-4 py-2 rounded-lg text-sm"
+                  style={{
+                    backgroundColor: "var(--bg-elevated)",
+                    border: "1px solid var(--border-primary)",
+                    color: "var(--text-secondary)"
+                  }}
+                >
+                  Cancel
+                </motion.button>
+                <motion.button
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  onClick={handleSave}
+                  disabled={saving}
+                  className="px-4 py-2 rounded-lg text-sm font-medium disabled:opacity-50"
+                  style={{
+                    backgroundColor: "var(--accent-gold)",
+                    color: "var(--bg-primary)"
+                  }}
+                >
+                  {saving ? "Saving..." : "Save Term"}
+                </motion.button>
+              </div>
+            </div>
+
+            {error && (
+              <p className="text-sm" style={{ color: "#ef4444" }}>
+                {error}
+              </p>
+            )}
+
+            {/* Editor Form */}
+            <div
+              className="p-6 rounded-xl space-y-6"
+              style={{
+                backgroundColor: "var(--bg-elevated)",
+                border: "1px solid var(--border-primary)"
+              }}
+            >
+              {/* Term & Aliases */}
+              <div className="grid md:grid-cols-2 gap-4">
+                <div>
+                  <label
+                    className="block text-xs uppercase tracking-wider mb-2"
+                    style={{ color: "var(--text-muted)" }}
+                  >
+                    Term
+                  </label>
+                  <input
+                    type="text"
+                    value={draft.term}
+                    onChange={(e) => setDraft({ ...draft, term: e.target.value })}
+                    placeholder="Amor Fati"
+                    className="w-full px-4 py-3 rounded-lg text-sm focus:outline-none focus:ring-2"
+                    style={inputStyle}
+                  />
+                </div>
+                <div>
+                  <label
+                    className="block text-xs uppercase tracking-wider mb-2"
+                    style={{ color: "var(--text-muted)" }}
+                  >
+                    Aliases
+                  </label>
+                  <input
+                    type="text"
+                    value={draft.aliases}
+                    onChange={(e) => setDraft({ ...draft, aliases: e.target.value })}
+                    placeholder="love of fate, amor fati"
+                    className="w-full px-4 py-3 rounded-lg text-sm focus:outline-none focus:ring-2"
+                    style={inputStyle}
+                  />
+                  <p className="text-xs mt-2" style={{ color: "var(--text-muted)" }}>
+                    Comma-separated. Articles link whichever name appears first.
+                  </p>
+                </div>
+              </div>
+
+              {/* Origin */}
+              <div>
+                <label
+                  className="block text-xs uppercase tracking-wider mb-2"
+                  style={{ color: "var(--text-muted)" }}
+                >
+                  Origin
+                </label>
+                <input
+                  type="text"
+                  value={draft.origin}
+                  onChange={(e) => setDraft({ ...draft, origin: e.target.value })}
+                  placeholder="Latin: love of fate"
+                  className="w-full px-4 py-3 rounded-lg text-sm focus:outline-none focus:ring-2"
+                  style={inputStyle}
+                />
+              </div>
+
+              {/* Definition */}
+              <div>
+                <label
+                  className="block text-xs uppercase tracking-wider mb-2"
+                  style={{ color: "var(--text-muted)" }}
+                >
+                  Definition
+                </label>
+                <textarea
+                  value={draft.definition}
+                  onChange={(e) => setDraft({ ...draft, definition: e.target.value })}
+                  placeholder="What the term means, in a sentence or two..."
+                  rows={4}
+                  className="w-full px-4 py-3 rounded-lg text-sm leading-relaxed focus:outline-none focus:ring-2 resize-none"
+                  style={inputStyle}
+                />
+              </div>
+
+              {/* Quote */}
+              <div>
+                <label
+                  className="block text-xs uppercase tracking-wider mb-2"
+                  style={{ color: "var(--text-muted)" }}
+                >
+                  Example Quote
+                </label>
+                <select
+                  value={draft.quoteId ?? ""}
+                  onChange={(e) => setDraft({ ...draft, quoteId: e.target.value ? Number(e.target.value) : null })}
+                  className="w-full px-4 py-3 rounded-lg text-sm focus:outline-none focus:ring-2"
+                  style={inputStyle}
+                >
+                  <option value="">No quote</option>
+                  {quotes.map(quote => (
+                    <option key={quote.id} value={quote.id}>
+                      {quote.author}: {quote.text.length > 80 ? `${quote.text.slice(0, 80)}…` : quote.text}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {/* Preview */}
+              <div
+                className="p-6 rounded-lg"
+                style={{
+                  backgroundColor: "var(--bg-primary)",
+                  border: "1px solid var(--border-secondary)"
+                }}
+              >
+                <p
+                  className="text-xs uppercase tracking-wider mb-4"
+                  style={{ color: "var(--text-muted)" }}
+                >
+                  Hover Card
+                </p>
+                <div
+                  className="max-w-xs p-4 rounded-lg shadow-xl"
+                  style={{
+                    backgroundColor: "var(--bg-elevated)",
+                    border: "1px solid var(--border-secondary)"
+                  }}
+                >
+                  <GlossaryCard entry={preview} />
+                </div>
+              </div>
+            </div>
+          </motion.div>
+        ) : (
+          /* List Mode */
+          <motion.div
+            key="list"
+            initial={{ opacity: 0, x: -20 }}
+            animate={{ opacity: 1, x: 0 }}
+            exit={{ opacity: 0, x: 20 }}
+            className="space-y-6"
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between flex-wrap gap-4">
+              <div className="flex items-center gap-4">
+                <p
+                  className="text-sm"
+                  style={{ color: "var(--text-muted)" }}
+                >
+                  {loading ? "Loading..." : `${filteredTerms.length} term${filteredTerms.length !== 1 ? "s" : ""}`}
+                </p>
+                <input
+                  type="search"
+                  value={filter}
+                  onChange={(e) => setFilter(e.target.value)}
+                  placeholder="Filter terms..."
+                  className="px-3 py-1 rounded-lg text-xs focus:outline-none"
+                  style={{
+                    backgroundColor: "var(--bg-elevated)",
+                    border: "1px solid var(--border-primary)",
+                    color: "var(--text-secondary)"
+                  }}
+                />
+                <a
+                  href="/glossary"
+                  target="_blank"
+                  className="text-xs transition-opacity hover:opacity-70"
+                  style={{ color: "var(--text-muted)" }}
+                >
+                  View public glossary ↗
+                </a>
+              </div>
+              <motion.button
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                onClick={() => openEditor({ ...EMPTY_DRAFT })}
+                className="px-4 py-2 rounded-lg text-sm font-medium"
+                style={{
+                  backgroundColor: "var(--accent-gold)",
+                  color: "var(--bg-primary)"
+                }}
+              >
+                + New Term
+              </motion.button>
+            </div>
+
+            {/* Terms Grid */}
+            <div className="grid md:grid-cols-2 gap-4">
+              {filteredTerms.map((entry, index) => (
+                <motion.div
+                  key={entry.id}
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: index * 0.05 }}
+                  className="p-5 rounded-xl transition-all duration-200 hover:scale-[1.01]"
+                  style={{
+                    backgroundColor: "var(--bg-elevated)",
+                    border: "1px solid var(--border-primary)"
+                  }}
+                >
+                  <p className="font-mono text-sm mb-1">
+                    <span className="text-variable">{entry.term}</span>
+                  </p>
+                  {entry.aliases.length > 0 && (
+                    <p className="text-xs mb-2" style={{ color: "var(--text-muted)" }}>
+                      also {entry.aliases.join(", ")}
+                    </p>
+                  )}
+                  <p
+                    className="text-sm leading-relaxed line-clamp-3"
+                    style={{ color: "var(--text-secondary)" }}
+                  >
+                    {entry.definition}
+                  </p>
+                  {entry.quote && (
+                    <p className="text-xs mt-2 italic truncate" style={{ color: "var(--text-muted)" }}>
+                      ❝ {entry.quote.text}
+                    </p>
+                  )}
+
+                  {/* Actions */}
+                  <div
+                    className="mt-4 pt-4 flex gap-2"
+                    style={{ borderTop: "1px solid var(--border-secondary)" }}
+                  >
+                    <button
+                      onClick={() => openEditor(toDraft(entry))}
+                      className="px-3 py-1 rounded-lg text-xs transition-opacity hover:opacity-70"
+                      style={{
+                        backgroundColor: "var(--bg-primary)",
+                        border: "1px solid var(--border-secondary)",
+                        color: "var(--text-secondary)"
+                      }}
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => setShowDeleteConfirm(entry.id)}
+                      className="px-3 py-1 rounded-lg text-xs transition-opacity hover:opacity-70"
+                      style={{
+                        backgroundColor: "var(--bg-primary)",
+                        border: "1px solid var(--border-secondary)",
+                        color: "#ef4444"
+                      }}
+                    >
+                      Delete
+                    </button>
+                  </div>
+
+                  {/* Delete Confirmation */}
+                  <AnimatePresence>
+                    {showDeleteConfirm === entry.id && (
+                      <motion.div
+                        initial={{ opacity: 0, height: 0 }}
+                        animate={{ opacity: 1, height: "auto" }}
+                        exit={{ opacity: 0, height: 0 }}
+                        className="mt-4 pt-4 flex items-center justify-between"
+                        style={{ borderTop: "1px solid var(--border-secondary)" }}
+                      >
+                        <p className="text-xs" style={{ color: "#ef4444" }}>
+                          Delete this term? Articles stop linking it.
+                        </p>
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() => setShowDeleteConfirm(null)}
+                            className="px-2 py-1 rounded text-xs"
+                            style={{ color: "var(--text-muted)" }}
+                          >
+                            Cancel
+                          </button>
+                          <button
+                            onClick={() => handleDelete(entry.id)}
+                            className="px-2 py-1 rounded text-xs"
+                            style={{ backgroundColor: "#ef4444", color: "white" }}
+                          >
+                            Delete
+                          </button>
+                        </div>
+                      </motion.div>
+                    )}
+                  </AnimatePresence>
+                </motion.div>
+              ))}
+            </div>
+
+            {!loading && filteredTerms.length === 0 && (
+              <div
+                className="text-center py-16"
+                style={{ color: "var(--text-muted)" }}
+              >
+                <p className="text-4xl mb-4">ƒ</p>
+                <p className="text-sm">{filter ? "No matching terms" : "No terms yet"}</p>
+                <p className="text-xs mt-1">Terms are linked where an article first mentions them</p>
+              </div>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -3,11 +3,13 @@
 import { useState, useEffect } from "react";
 import { motion, AnimatePresence, Reorder } from "framer-motion";
 import Link from "next/link";
+import ScheduleCalendar from "@/components/ScheduleCalendar";
 
 interface Intention {
   id: number;
   text: string;
   active: boolean;
+  inRotation: boolean;
   order: number;
 }
 
@@ -17,11 +19,30 @@ export default function IntentionsAdmin() {
   const [newIntention, setNewIntention] = useState("");
   const [editingId, setEditingId] = useState<number | null>(null);
   const [editText, setEditText] = useState("");
+  const [viewMode, setViewMode] = useState<"list" | "calendar">("list");
+  const [todayIntention, setTodayIntention] = useState<string | null>(null);
 
   useEffect(() => {
     fetchIntentions();
   }, []);
 
+  // Today's pick comes from the server, in the site timezone
+  useEffect(() => {
+    fetchToday();
+  }, [intentions]);
+
+  const fetchToday = async () => {
+    try {
+      const res = await fetch("/api/today");
+      if (res.ok) {
+        const data = await res.json();
+        setTodayIntention(data.intention?.text ?? null);
+      }
+    } catch (error) {
+      console.error("Failed to fetch today's intention:", error);
+    }
+  };
+
   const fetchIntentions = async () => {
     try {
       const res = await fetch("/api/intentions");
@@ -134,9 +155,26 @@ export default function IntentionsAdmin() {
               Daily Intentions
             </h1>
           </div>
-          <span className="text-xs font-mono" style={{ color: "rgba(255,255,255,0.3)" }}>
-            {intentions.length} intentions
-          </span>
+          <div className="flex items-center gap-4">
+            <div className="flex rounded overflow-hidden" style={{ border: "1px solid rgba(255,255,255,0.1)" }}>
+              {(["list", "calendar"] as const).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => setViewMode(mode)}
+                  className="px-3 py-1 text-xs capitalize transition-colors"
+                  style={{
+                    backgroundColor: viewMode === mode ? "rgba(201,162,39,0.2)" : "transparent",
+                    color: viewMode === mode ? "#c9a227" : "rgba(255,255,255,0.5)",
+                  }}
+                >
+                  {mode}
+                </button>
+              ))}
+            </div>
+            <span className="text-xs font-mono" style={{ color: "rgba(255,255,255,0.3)" }}>
+              {intentions.length} intentions
+            </span>
+          </div>
         </div>
       </header>
 
@@ -144,131 +182,156 @@ export default function IntentionsAdmin() {
         {/* Info */}
         <div className="mb-8 p-4 rounded-lg" style={{ backgroundColor: "rgba(201,162,39,0.1)", border: "1px solid rgba(201,162,39,0.2)" }}>
           <p className="text-sm" style={{ color: "rgba(255,255,255,0.7)" }}>
-            <span style={{ color: "#c9a227" }}>✦</span> Daily intentions rotate based on the current date. 
-            One intention is shown per day. Drag to reorder.
+            <span style={{ color: "#c9a227" }}>✦</span> One intention is shown per day: the one pinned to that day in the
+            <strong> calendar</strong>, otherwise the next in the rotation (↻), in list order. Drag to reorder.
           </p>
         </div>
 
-        {/* Add New */}
-        <div className="mb-8 flex gap-3">
-          <input
-            type="text"
-            value={newIntention}
-            onChange={(e) => setNewIntention(e.target.value)}
-            onKeyDown={(e) => e.key === "Enter" && addIntention()}
-            placeholder="Add a new daily intention..."
-            className="flex-1 px-4 py-3 rounded-lg text-sm"
-            style={{ 
-              backgroundColor: "rgba(255,255,255,0.05)", 
-              border: "1px solid rgba(255,255,255,0.1)",
-              color: "rgba(255,255,255,0.9)"
-            }}
+        {viewMode === "calendar" ? (
+          <ScheduleCalendar
+            endpoint="/api/intentions/schedule"
+            idField="intentionId"
+            items={intentions}
+            label={(i) => i.text}
+            onTodayChange={fetchToday}
           />
-          <button
-            onClick={addIntention}
-            className="px-6 py-3 rounded-lg text-sm font-medium transition-all hover:brightness-110"
-            style={{ backgroundColor: "#c9a227", color: "#0a0a0a" }}
-          >
-            Add
-          </button>
-        </div>
-
-        {/* Intentions List */}
-        <Reorder.Group axis="y" values={intentions} onReorder={handleReorder} className="space-y-2">
-          <AnimatePresence>
-            {intentions.map((intention) => (
-              <Reorder.Item
-                key={intention.id}
-                value={intention}
-                initial={{ opacity: 0, y: 10 }}
-                animate={{ opacity: 1, y: 0 }}
-                exit={{ opacity: 0, x: -20 }}
-                className="p-4 rounded-lg cursor-grab active:cursor-grabbing"
+        ) : (
+          <>
+            {/* Add New */}
+            <div className="mb-8 flex gap-3">
+              <input
+                type="text"
+                value={newIntention}
+                onChange={(e) => setNewIntention(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && addIntention()}
+                placeholder="Add a new daily intention..."
+                className="flex-1 px-4 py-3 rounded-lg text-sm"
                 style={{ 
-                  backgroundColor: "rgba(255,255,255,0.03)", 
-                  border: "1px solid rgba(255,255,255,0.08)"
+                  backgroundColor: "rgba(255,255,255,0.05)", 
+                  border: "1px solid rgba(255,255,255,0.1)",
+                  color: "rgba(255,255,255,0.9)"
                 }}
+              />
+              <button
+                onClick={addIntention}
+                className="px-6 py-3 rounded-lg text-sm font-medium transition-all hover:brightness-110"
+                style={{ backgroundColor: "#c9a227", color: "#0a0a0a" }}
               >
-                <div className="flex items-center gap-4">
-                  {/* Drag Handle */}
-                  <div className="text-lg" style={{ color: "rgba(255,255,255,0.2)" }}>⋮⋮</div>
-                  
-                  {/* Toggle Active */}
-                  <button
-                    onClick={() => updateIntention(intention.id, { active: !intention.active })}
-                    className="w-5 h-5 rounded flex items-center justify-center transition-colors"
+                Add
+              </button>
+            </div>
+
+            {/* Intentions List */}
+            <Reorder.Group axis="y" values={intentions} onReorder={handleReorder} className="space-y-2">
+              <AnimatePresence>
+                {intentions.map((intention) => (
+                  <Reorder.Item
+                    key={intention.id}
+                    value={intention}
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, x: -20 }}
+                    className="p-4 rounded-lg cursor-grab active:cursor-grabbing"
                     style={{ 
-                      backgroundColor: intention.active ? "#c9a227" : "transparent",
-                      border: `1px solid ${intention.active ? "#c9a227" : "rgba(255,255,255,0.2)"}`
+                      backgroundColor: "rgba(255,255,255,0.03)", 
+                      border: "1px solid rgba(255,255,255,0.08)"
                     }}
                   >
-                    {intention.active && <span className="text-xs" style={{ color: "#0a0a0a" }}>✓</span>}
-                  </button>
+                    <div className="flex items-center gap-4">
+                      {/* Drag Handle */}
+                      <div className="text-lg" style={{ color: "rgba(255,255,255,0.2)" }}>⋮⋮</div>
                   
-                  {/* Text */}
-                  <div className="flex-1">
-                    {editingId === intention.id ? (
-                      <input
-                        type="text"
-                        value={editText}
-                        onChange={(e) => setEditText(e.target.value)}
-                        onKeyDown={(e) => {
-                          if (e.key === "Enter") saveEdit();
-                          if (e.key === "Escape") setEditingId(null);
-                        }}
-                        onBlur={saveEdit}
-                        autoFocus
-                        className="w-full px-2 py-1 rounded text-sm bg-transparent"
+                      {/* Toggle Active */}
+                      <button
+                        onClick={() => updateIntention(intention.id, { active: !intention.active })}
+                        className="w-5 h-5 rounded flex items-center justify-center transition-colors"
                         style={{ 
-                          border: "1px solid rgba(201,162,39,0.5)",
-                          color: "rgba(255,255,255,0.9)"
+                          backgroundColor: intention.active ? "#c9a227" : "transparent",
+                          border: `1px solid ${intention.active ? "#c9a227" : "rgba(255,255,255,0.2)"}`
                         }}
-                      />
-                    ) : (
-                      <p 
-                        className="text-sm cursor-pointer hover:opacity-70 transition-opacity"
+                      >
+                        {intention.active && <span className="text-xs" style={{ color: "#0a0a0a" }}>✓</span>}
+                      </button>
+                  
+                      {/* Text */}
+                      <div className="flex-1">
+                        {editingId === intention.id ? (
+                          <input
+                            type="text"
+                            value={editText}
+                            onChange={(e) => setEditText(e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key === "Enter") saveEdit();
+                              if (e.key === "Escape") setEditingId(null);
+                            }}
+                            onBlur={saveEdit}
+                            autoFocus
+                            className="w-full px-2 py-1 rounded text-sm bg-transparent"
+                            style={{ 
+                              border: "1px solid rgba(201,162,39,0.5)",
+                              color: "rgba(255,255,255,0.9)"
+                            }}
+                          />
+                        ) : (
+                          <p 
+                            className="text-sm cursor-pointer hover:opacity-70 transition-opacity"
+                            style={{ 
+                              color: intention.active ? "rgba(255,255,255,0.9)" : "rgba(255,255,255,0.4)",
+                              textDecoration: intention.active ? "none" : "line-through"
+                            }}
+                            onClick={() => startEdit(intention)}
+                          >
+                            &ldquo;{intention.text}&rdquo;
+                          </p>
+                        )}
+                      </div>
+                  
+                      {/* Rotation */}
+                      <button
+                        onClick={() => updateIntention(intention.id, { inRotation: !intention.inRotation })}
+                        className="text-xs px-2 py-1 rounded transition-colors"
                         style={{ 
-                          color: intention.active ? "rgba(255,255,255,0.9)" : "rgba(255,255,255,0.4)",
-                          textDecoration: intention.active ? "none" : "line-through"
+                          border: "1px solid rgba(255,255,255,0.1)",
+                          color: intention.inRotation ? "#c9a227" : "rgba(255,255,255,0.2)"
                         }}
-                        onClick={() => startEdit(intention)}
+                        title={intention.inRotation ? "In the rotation" : "Only on pinned days"}
                       >
-                        &ldquo;{intention.text}&rdquo;
-                      </p>
-                    )}
-                  </div>
-                  
-                  {/* Delete */}
-                  <button
-                    onClick={() => deleteIntention(intention.id)}
-                    className="text-sm opacity-30 hover:opacity-100 transition-opacity"
-                    style={{ color: "#ff6b6b" }}
-                  >
-                    ✕
-                  </button>
-                </div>
-              </Reorder.Item>
-            ))}
-          </AnimatePresence>
-        </Reorder.Group>
+                        ↻
+                      </button>
 
-        {intentions.length === 0 && (
-          <div className="text-center py-16">
-            <p className="text-sm" style={{ color: "rgba(255,255,255,0.4)" }}>
-              No intentions yet. Add your first daily intention above.
-            </p>
-          </div>
+                      {/* Delete */}
+                      <button
+                        onClick={() => deleteIntention(intention.id)}
+                        className="text-sm opacity-30 hover:opacity-100 transition-opacity"
+                        style={{ color: "#ff6b6b" }}
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  </Reorder.Item>
+                ))}
+              </AnimatePresence>
+            </Reorder.Group>
+
+            {intentions.length === 0 && (
+              <div className="text-center py-16">
+                <p className="text-sm" style={{ color: "rgba(255,255,255,0.4)" }}>
+                  No intentions yet. Add your first daily intention above.
+                </p>
+              </div>
+            )}
+          </>
         )}
 
         {/* Preview */}
-        {intentions.length > 0 && (
+        {todayIntention && (
           <div className="mt-12 pt-8 border-t" style={{ borderColor: "rgba(255,255,255,0.1)" }}>
             <h3 className="text-xs font-mono uppercase tracking-wider mb-4" style={{ color: "rgba(255,255,255,0.4)" }}>
               Today&apos;s Intention Preview
             </h3>
             <div className="p-6 rounded-lg" style={{ backgroundColor: "rgba(255,255,255,0.02)" }}>
               <p className="text-lg font-light italic" style={{ color: "rgba(255,255,255,0.8)" }}>
-                &ldquo;{intentions[new Date().getDate() % intentions.length]?.text}&rdquo;
+                &ldquo;{todayIntention}&rdquo;
               </p>
             </div>
           </div>
@@ -4,20 +4,25 @@ import { useState, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { useRouter, usePathname } from "next/navigation";
 import Link from "next/link";
-import { isAuthenticated, logout } from "@/lib/auth";
+import { getSession, logout, AuthUser } from "@/lib/auth";
+import { can, Permission, ROLE_LABELS } from "@/lib/roles";
 
 // ═══════════════════════════════════════════════════════════════════
 // ADMIN LAYOUT - Protected layout with sidebar navigation
 // "Order your soul. Reduce your wants." - Epictetus
 // ═══════════════════════════════════════════════════════════════════
 
-const NAV_ITEMS = [
+const NAV_ITEMS: Array<{ id: string; label: string; icon: string; href: string; permission?: Permission }> = [
   { id: "dashboard", label: "Dashboard", icon: "◉", href: "/admin" },
-  { id: "articles", label: "Articles", icon: "✎", href: "/admin/articles" },
-  { id: "projects", label: "Projects", icon: "⬡", href: "/admin/projects" },
-  { id: "profile", label: "Profile", icon: "◯", href: "/admin/profile" },
-  { id: "quotes", label: "Quotes", icon: "❝", href: "/admin/quotes" },
-  { id: "collective", label: "Collective", icon: "▣", href: "/admin/collective" },
+  { id: "articles", label: "Articles", icon: "✎", href: "/admin/articles", permission: "articles" },
+  { id: "projects", label: "Projects", icon: "⬡", href: "/admin/projects", permission: "projects" },
+  { id: "profile", label: "Profile", icon: "◯", href: "/admin/profile", permission: "profile" },
+  { id: "quotes", label: "Quotes", icon: "❝", href: "/admin/quotes", permission: "quotes" },
+  { id: "glossary", label: "Glossary", icon: "ƒ", href: "/admin/glossary", permission: "glossary" },
+  { id: "collective", label: "Collective", icon: "▣", href: "/admin/collective", permission: "collective" },
+  { id: "answers", label: "Answers", icon: "⚑", href: "/admin/answers", permission: "answers" },
+  { id: "oracle", label: "Oracle", icon: "☉", href: "/admin/oracle", permission: "oracle" },
+  { id: "users", label: "Users", icon: "⚇", href: "/admin/users", permission: "users" },
 ];
 
 export default function AdminLayout({
@@ -28,6 +33,7 @@ export default function AdminLayout({
   const router = useRouter();
   const pathname = usePathname();
   const [isAuthed, setIsAuthed] = useState(false);
+  const [user, setUser] = useState<AuthUser | null>(null);
   const [loading, setLoading] = useState(true);
   const [sidebarOpen, setSidebarOpen] = useState(true);
 
@@ -45,24 +51,30 @@ export default function AdminLayout({
     document.documentElement.classList.remove('dark');
     document.documentElement.classList.add('light');
 
-    const authed = isAuthenticated();
-    if (!authed) {
-      router.push("/admin/login");
-    } else {
-      setIsAuthed(true);
-    }
-    setLoading(false);
+    // Middleware already guards /admin, but the cookie may expire mid-session
+    let cancelled = false;
+    getSession().then((session) => {
+      if (cancelled) return;
+      if (!session.authenticated) {
+        router.push("/admin/login");
+      } else {
+        setUser(session.user);
+        setIsAuthed(true);
+      }
+      setLoading(false);
+    });
     
     // Restore theme when leaving admin
     return () => {
+      cancelled = true;
       const savedTheme = localStorage.getItem('theme') || 'dark';
       document.documentElement.classList.remove('light', 'dark');
       document.documentElement.classList.add(savedTheme === 'light' ? 'light' : 'dark');
     };
   }, [pathname, router, isLoginPage]);
 
-  const handleLogout = () => {
-    logout();
+  const handleLogout = async () => {
+    await logout();
     router.push("/admin/login");
   };
 
@@ -101,11 +113,14 @@ export default function AdminLayout({
     return null;
   }
 
+  // Only show sections the current role may manage
+  const navItems = NAV_ITEMS.filter(item => !item.permission || can(user?.role, item.permission));
+
   // Determine active nav item
-  const activeNav = NAV_ITEMS.find(item => 
+  const activeNav = navItems.find(item => 
     item.href === pathname || 
     (pathname.startsWith(item.href) && item.href !== "/admin")
-  ) || NAV_ITEMS[0];
+  ) || navItems[0];
 
   return (
     <div 
@@ -150,7 +165,7 @@ export default function AdminLayout({
 
             {/* Navigation */}
             <nav className="flex-1 p-4 space-y-1">
-              {NAV_ITEMS.map((item) => {
+              {navItems.map((item) => {
                 const isActive = item.id === activeNav.id;
                 return (
                   <Link key={item.id} href={item.href}>
@@ -181,6 +196,22 @@ export default function AdminLayout({
               className="p-4 space-y-2"
               style={{ borderTop: "1px solid var(--border-secondary)" }}
             >
+              {user && (
+                <div className="px-4 py-2">
+                  <p 
+                    className="text-sm"
+                    style={{ color: "var(--text-secondary)" }}
+                  >
+                    {user.name}
+                  </p>
+                  <p 
+                    className="text-xs"
+                    style={{ color: "var(--text-muted)" }}
+                  >
+                    {ROLE_LABELS[user.role]}
+                  </p>
+                </div>
+              )}
               <Link href="/" target="_blank">
                 <div 
                   className="flex items-center gap-3 px-4 py-2 rounded-lg text-sm transition-all duration-200 hover:opacity-70"
@@ -12,6 +12,7 @@ import { login } from "@/lib/auth";
 
 export default function AdminLogin() {
   const router = useRouter();
+  const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [error, setError] = useState("");
   const [isLoading, setIsLoading] = useState(false);
@@ -21,13 +22,11 @@ export default function AdminLogin() {
     setIsLoading(true);
     setError("");
 
-    // Simulate slight delay for UX
-    await new Promise(resolve => setTimeout(resolve, 500));
-
-    if (login(password)) {
+    if (await login(email, password)) {
       router.push("/admin");
+      router.refresh();
     } else {
-      setError("Invalid password. Try again.");
+      setError("Invalid credentials. Try again.");
       setPassword("");
     }
     setIsLoading(false);
@@ -117,8 +116,34 @@ export default function AdminLogin() {
             </p>
           </div>
 
-          {/* Password Input */}
+          {/* Credentials */}
           <div className="space-y-4">
+            <div>
+              <label 
+                htmlFor="email"
+                className="block text-xs uppercase tracking-wider mb-2"
+                style={{ color: "var(--text-muted)" }}
+              >
+                Email
+              </label>
+              <input
+                id="email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="you@example.com"
+                autoComplete="username"
+                className="w-full px-4 py-3 rounded-lg text-sm transition-all duration-200 focus:outline-none focus:ring-2"
+                style={{ 
+                  backgroundColor: "var(--bg-primary)",
+                  border: "1px solid var(--border-secondary)",
+                  color: "var(--text-primary)",
+                  // @ts-expect-error CSS custom property
+                  "--tw-ring-color": "var(--accent-gold)"
+                }}
+                autoFocus
+              />
+            </div>
             <div>
               <label 
                 htmlFor="password"
@@ -133,6 +158,7 @@ export default function AdminLogin() {
                 value={password}
                 onChange={(e) => setPassword(e.target.value)}
                 placeholder="Enter the sanctum..."
+                autoComplete="current-password"
                 className="w-full px-4 py-3 rounded-lg text-sm transition-all duration-200 focus:outline-none focus:ring-2"
                 style={{ 
                   backgroundColor: "var(--bg-primary)",
@@ -141,7 +167,6 @@ export default function AdminLogin() {
                   // @ts-expect-error CSS custom property
                   "--tw-ring-color": "var(--accent-gold)"
                 }}
-                autoFocus
               />
             </div>
 
@@ -185,13 +210,15 @@ export default function AdminLogin() {
             </motion.button>
           </div>
 
-          {/* Hint */}
-          <p 
-            className="mt-6 text-xs text-center"
-            style={{ color: "var(--text-muted)" }}
-          >
-            Default: stoic2025
-          </p>
+          {/* Hint (development only - production requires ADMIN_PASSWORD_HASH) */}
+          {process.env.NODE_ENV !== "production" && (
+            <p 
+              className="mt-6 text-xs text-center"
+              style={{ color: "var(--text-muted)" }}
+            >
+              Before any accounts exist: leave email empty, password stoic2025
+            </p>
+          )}
         </motion.form>
 
         {/* Back Link */}
@@ -0,0 +1,205 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { motion } from "framer-motion";
+import { DEFAULT_ORACLE_SETTINGS, ORACLE_SETTING_LIMITS, type OracleSettings } from "@/lib/oracle";
+
+// ═══════════════════════════════════════════════════════════════════
+// ORACLE SETTINGS - Persona and instructions for the Voices oracle
+// "First say to yourself what you would be; then do what you have to do." - Epictetus
+// ═══════════════════════════════════════════════════════════════════
+
+type Settings = OracleSettings & { provider: string | null };
+
+const fieldStyle = {
+  backgroundColor: "var(--bg-primary)",
+  border: "1px solid var(--border-secondary)",
+  color: "var(--text-primary)",
+};
+
+export default function OracleSettingsEditor() {
+  const [settings, setSettings] = useState<Settings | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      const res = await fetch("/api/oracle/settings");
+      if (res.ok) {
+        setSettings(await res.json());
+      }
+    } catch (error) {
+      console.error("Failed to load oracle settings:", error);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!settings) return;
+    setSaving(true);
+
+    try {
+      const res = await fetch("/api/oracle/settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(settings),
+      });
+
+      if (res.ok) {
+        setSettings(await res.json());
+        setSaved(true);
+        setTimeout(() => setSaved(false), 2000);
+      }
+    } catch (error) {
+      console.error("Failed to save oracle settings:", error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!settings) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <motion.div
+          animate={{ rotate: 360 }}
+          transition={{ duration: 2, repeat: Infinity, ease: "linear" }}
+          className="text-2xl"
+          style={{ color: "var(--accent-gold)" }}
+        >
+          ◐
+        </motion.div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <p className="text-sm" style={{ color: "var(--text-muted)" }}>
+          How the Stoic Oracle speaks when a language model answers
+        </p>
+        <motion.button
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          onClick={handleSave}
+          disabled={saving}
+          className="px-4 py-2 rounded-lg text-sm font-medium disabled:opacity-50"
+          style={{
+            backgroundColor: saved ? "#22c55e" : "var(--accent-gold)",
+            color: "var(--bg-primary)"
+          }}
+        >
+          {saving ? "Saving..." : saved ? "✓ Saved" : "Save Settings"}
+        </motion.button>
+      </div>
+
+      {/* Provider */}
+      <div
+        className="p-4 rounded-xl text-sm"
+        style={{ backgroundColor: "var(--bg-elevated)", border: "1px solid var(--border-primary)", color: "var(--text-secondary)" }}
+      >
+        {settings.provider ? (
+          <>
+            Model: <span className="font-mono" style={{ color: "var(--accent-gold)" }}>{settings.provider}</span>. Replies are
+            generated from the retrieved passages and fall back to retrieval if the model fails or a visitor uses up their budget.
+          </>
+        ) : (
+          <>
+            No language model is configured, so replies come from retrieval only. Set <span className="font-mono">ORACLE_LLM_PROVIDER</span> to{" "}
+            <span className="font-mono">openai</span>, <span className="font-mono">llamacpp</span> or <span className="font-mono">stub</span> to enable generation.
+          </>
+        )}
+      </div>
+
+      {/* Voice */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="p-6 rounded-xl space-y-6"
+        style={{ backgroundColor: "var(--bg-elevated)", border: "1px solid var(--border-primary)" }}
+      >
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-light" style={{ color: "var(--text-primary)" }}>
+            Voice
+          </h3>
+          <label className="flex items-center gap-2 text-xs cursor-pointer" style={{ color: "var(--text-secondary)" }}>
+            <input
+              type="checkbox"
+              checked={settings.useModel}
+              onChange={(e) => setSettings({ ...settings, useModel: e.target.checked })}
+            />
+            Use the language model
+          </label>
+        </div>
+
+        <div>
+          <label className="block text-xs uppercase tracking-wider mb-2" style={{ color: "var(--text-muted)" }}>
+            Persona
+          </label>
+          <textarea
+            value={settings.persona}
+            onChange={(e) => setSettings({ ...settings, persona: e.target.value })}
+            placeholder={DEFAULT_ORACLE_SETTINGS.persona}
+            maxLength={ORACLE_SETTING_LIMITS.text}
+            rows={3}
+            className="w-full px-4 py-3 rounded-lg text-sm focus:outline-none focus:ring-2 resize-none"
+            style={fieldStyle}
+          />
+        </div>
+
+        <div>
+          <label className="block text-xs uppercase tracking-wider mb-2" style={{ color: "var(--text-muted)" }}>
+            System Prompt
+          </label>
+          <textarea
+            value={settings.systemPrompt}
+            onChange={(e) => setSettings({ ...settings, systemPrompt: e.target.value })}
+            placeholder={DEFAULT_ORACLE_SETTINGS.systemPrompt}
+            maxLength={ORACLE_SETTING_LIMITS.text}
+            rows={6}
+            className="w-full px-4 py-3 rounded-lg text-sm font-mono focus:outline-none focus:ring-2 resize-y"
+            style={fieldStyle}
+          />
+          <p className="text-xs mt-2" style={{ color: "var(--text-muted)" }}>
+            The passages retrieved for each message are appended after this prompt.
+          </p>
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-xs uppercase tracking-wider mb-2" style={{ color: "var(--text-muted)" }}>
+              Temperature · {settings.temperature.toFixed(1)}
+            </label>
+            <input
+              type="range"
+              min={ORACLE_SETTING_LIMITS.temperature.min}
+              max={ORACLE_SETTING_LIMITS.temperature.max}
+              step={0.1}
+              value={settings.temperature}
+              onChange={(e) => setSettings({ ...settings, temperature: Number(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+          <div>
+            <label className="block text-xs uppercase tracking-wider mb-2" style={{ color: "var(--text-muted)" }}>
+              Max Tokens
+            </label>
+            <input
+              type="number"
+              min={ORACLE_SETTING_LIMITS.maxTokens.min}
+              max={ORACLE_SETTING_LIMITS.maxTokens.max}
+              value={settings.maxTokens}
+              onChange={(e) => setSettings({ ...settings, maxTokens: Number(e.target.value) })}
+              className="w-full px-4 py-3 rounded-lg text-sm focus:outline-none focus:ring-2"
+              style={fieldStyle}
+            />
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
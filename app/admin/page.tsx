@@ -3,6 +3,8 @@
 import { useState, useEffect } from "react";
 import { motion } from "framer-motion";
 import Link from "next/link";
+import { getSession } from "@/lib/auth";
+import { can, Permission, Role } from "@/lib/roles";
 
 // ═══════════════════════════════════════════════════════════════════
 // TYPES
@@ -37,18 +39,20 @@ export default function AdminDashboard() {
   const [mounted, setMounted] = useState(false);
   const [loading, setLoading] = useState(true);
   const [seeding, setSeeding] = useState(false);
+  const [role, setRole] = useState<Role | null>(null);
 
   useEffect(() => {
     setMounted(true);
     loadDashboardData();
+    getSession().then((session) => setRole(session.user?.role ?? null));
   }, []);
 
   const loadDashboardData = async () => {
     setLoading(true);
     try {
       const [articlesRes, projectsRes, quotesRes, intentionsRes, contemplationsRes, notesRes, profileRes, pendingRes] = await Promise.all([
-        fetch("/api/articles"),
-        fetch("/api/projects"),
+        fetch("/api/articles?all=true"),
+        fetch("/api/projects?all=true"),
         fetch("/api/quotes"),
         fetch("/api/intentions"),
         fetch("/api/contemplations"),
@@ -134,12 +138,13 @@ export default function AdminDashboard() {
     );
   }
 
-  const stats: Array<{ label: string; value: number; icon: string; href: string; featured: number; alert?: boolean }> = [
+  const allStats: Array<{ label: string; value: number; icon: string; href: string; featured: number; alert?: boolean; permission: Permission }> = [
     { 
       label: "Articles", 
       value: dashboardStats.articles.total, 
       icon: "✎", 
       href: "/admin/articles",
+      permission: "articles",
       featured: dashboardStats.articles.featured
     },
     { 
@@ -147,6 +152,7 @@ export default function AdminDashboard() {
       value: dashboardStats.projects.total, 
       icon: "⬡", 
       href: "/admin/projects",
+      permission: "projects",
       featured: dashboardStats.projects.featured
     },
     { 
@@ -154,6 +160,7 @@ export default function AdminDashboard() {
       value: dashboardStats.quotes.total, 
       icon: "❝", 
       href: "/admin/quotes",
+      permission: "quotes",
       featured: 0
     },
     { 
@@ -161,6 +168,7 @@ export default function AdminDashboard() {
       value: dashboardStats.intentions?.total || 0, 
       icon: "◐", 
       href: "/admin/intentions",
+      permission: "intentions",
       featured: 0
     },
     { 
@@ -168,6 +176,7 @@ export default function AdminDashboard() {
       value: dashboardStats.contemplations?.total || 0, 
       icon: "◇", 
       href: "/admin/contemplations",
+      permission: "contemplations",
       featured: dashboardStats.contemplations?.featured || 0
     },
     { 
@@ -175,6 +184,7 @@ export default function AdminDashboard() {
       value: dashboardStats.notes.total, 
       icon: "▣", 
       href: "/admin/collective",
+      permission: "collective",
       featured: 0
     },
     { 
@@ -182,23 +192,28 @@ export default function AdminDashboard() {
       value: dashboardStats.pendingAnswers || 0, 
       icon: "⚠", 
       href: "/admin/answers",
+      permission: "answers",
       featured: 0,
       alert: (dashboardStats.pendingAnswers || 0) > 0
     },
   ];
 
-  const quickActions = [
-    { label: "New Article", href: "/admin/articles?new=true", icon: "+" },
-    { label: "New Project", href: "/admin/projects?new=true", icon: "+" },
-    { label: "Add Quote", href: "/admin/quotes?new=true", icon: "+" },
-    { label: "Add Intention", href: "/admin/intentions", icon: "+" },
-    { label: "Add Contemplation", href: "/admin/contemplations", icon: "+" },
-    { label: "Edit Profile", href: "/admin/profile", icon: "→" },
+  const allQuickActions: Array<{ label: string; href: string; icon: string; permission: Permission }> = [
+    { label: "New Article", href: "/admin/articles?new=true", icon: "+", permission: "articles" },
+    { label: "New Project", href: "/admin/projects?new=true", icon: "+", permission: "projects" },
+    { label: "Add Quote", href: "/admin/quotes?new=true", icon: "+", permission: "quotes" },
+    { label: "Add Intention", href: "/admin/intentions", icon: "+", permission: "intentions" },
+    { label: "Add Contemplation", href: "/admin/contemplations", icon: "+", permission: "contemplations" },
+    { label: "Edit Profile", href: "/admin/profile", icon: "→", permission: "profile" },
   ];
 
-  const systemActions = [
-    { label: "Seed Database", onClick: handleSeedDatabase, icon: "⚡", disabled: seeding },
-  ];
+  const systemActions = can(role, "system")
+    ? [{ label: "Seed Database", onClick: handleSeedDatabase, icon: "⚡", disabled: seeding }]
+    : [];
+
+  // Only surface what the current role may manage
+  const stats = allStats.filter(stat => can(role, stat.permission));
+  const quickActions = allQuickActions.filter(action => can(role, action.permission));
 
   const recentArticles = dashboardStats.recentArticles;
 
@@ -305,30 +320,82 @@ export default function AdminDashboard() {
       {/* Quick Actions & Recent */}
       <div className="grid md:grid-cols-2 gap-6">
         {/* Quick Actions */}
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: 0.4 }}
-          className="p-6 rounded-xl"
-          style={{ 
-            backgroundColor: "var(--bg-elevated)",
-            border: "1px solid var(--border-primary)"
-          }}
-        >
-          <h2 
-            className="text-lg font-light mb-4"
-            style={{ color: "var(--text-primary)" }}
+        {quickActions.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.4 }}
+            className="p-6 rounded-xl"
+            style={{ 
+              backgroundColor: "var(--bg-elevated)",
+              border: "1px solid var(--border-primary)"
+            }}
+          >
+            <h2 
+              className="text-lg font-light mb-4"
+              style={{ color: "var(--text-primary)" }}
+            >
+              Quick Actions
+            </h2>
+            <div className="grid grid-cols-2 gap-3">
+              {quickActions.map((action) => (
+                <Link key={action.label} href={action.href}>
+                  <motion.div
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                    className="p-4 rounded-lg text-center cursor-pointer transition-all duration-200"
+                    style={{ 
+                      backgroundColor: "var(--bg-primary)",
+                      border: "1px solid var(--border-secondary)"
+                    }}
+                  >
+                    <span 
+                      className="text-lg block mb-1"
+                      style={{ color: "var(--accent-gold)" }}
+                    >
+                      {action.icon}
+                    </span>
+                    <span 
+                      className="text-sm"
+                      style={{ color: "var(--text-secondary)" }}
+                    >
+                      {action.label}
+                    </span>
+                  </motion.div>
+                </Link>
+              ))}
+            </div>
+          </motion.div>
+        )}
+
+        {/* System Actions */}
+        {systemActions.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.45 }}
+            className="p-6 rounded-xl"
+            style={{ 
+              backgroundColor: "var(--bg-elevated)",
+              border: "1px solid var(--border-primary)"
+            }}
           >
-            Quick Actions
-          </h2>
-          <div className="grid grid-cols-2 gap-3">
-            {quickActions.map((action) => (
-              <Link key={action.label} href={action.href}>
-                <motion.div
-                  whileHover={{ scale: 1.02 }}
-                  whileTap={{ scale: 0.98 }}
-                  className="p-4 rounded-lg text-center cursor-pointer transition-all duration-200"
-                  style={{ 
+            <h2 
+              className="text-lg font-light mb-4"
+              style={{ color: "var(--text-primary)" }}
+            >
+              System
+            </h2>
+            <div className="flex gap-3">
+              {systemActions.map((action) => (
+                <motion.button
+                  key={action.label}
+                  onClick={action.onClick}
+                  disabled={action.disabled}
+                  whileHover={{ scale: action.disabled ? 1 : 1.02 }}
+                  whileTap={{ scale: action.disabled ? 1 : 0.98 }}
+                  className="flex-1 p-4 rounded-lg text-center cursor-pointer transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                  style={{
                     backgroundColor: "var(--bg-primary)",
                     border: "1px solid var(--border-secondary)"
                   }}
@@ -343,67 +410,92 @@ export default function AdminDashboard() {
                     className="text-sm"
                     style={{ color: "var(--text-secondary)" }}
                   >
-                    {action.label}
+                    {action.disabled ? "Seeding..." : action.label}
                   </span>
-                </motion.div>
-              </Link>
-            ))}
-          </div>
-        </motion.div>
+                </motion.button>
+              ))}
+            </div>
+          </motion.div>
+        )}
 
-        {/* System Actions */}
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: 0.45 }}
-          className="p-6 rounded-xl"
-          style={{ 
-            backgroundColor: "var(--bg-elevated)",
-            border: "1px solid var(--border-primary)"
-          }}
-        >
-          <h2 
-            className="text-lg font-light mb-4"
-            style={{ color: "var(--text-primary)" }}
+        {/* Recent Articles */}
+        {can(role, "articles") && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.5 }}
+            className="p-6 rounded-xl"
+            style={{ 
+              backgroundColor: "var(--bg-elevated)",
+              border: "1px solid var(--border-primary)"
+            }}
           >
-            System
-          </h2>
-          <div className="flex gap-3">
-            {systemActions.map((action) => (
-              <motion.button
-                key={action.label}
-                onClick={action.onClick}
-                disabled={action.disabled}
-                whileHover={{ scale: action.disabled ? 1 : 1.02 }}
-                whileTap={{ scale: action.disabled ? 1 : 0.98 }}
-                className="flex-1 p-4 rounded-lg text-center cursor-pointer transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
-                style={{
-                  backgroundColor: "var(--bg-primary)",
-                  border: "1px solid var(--border-secondary)"
-                }}
+            <div className="flex items-center justify-between mb-4">
+              <h2 
+                className="text-lg font-light"
+                style={{ color: "var(--text-primary)" }}
               >
-                <span 
-                  className="text-lg block mb-1"
-                  style={{ color: "var(--accent-gold)" }}
-                >
-                  {action.icon}
-                </span>
-                <span 
-                  className="text-sm"
-                  style={{ color: "var(--text-secondary)" }}
-                >
-                  {action.disabled ? "Seeding..." : action.label}
-                </span>
-              </motion.button>
-            ))}
-          </div>
-        </motion.div>
+                Recent Articles
+              </h2>
+              <Link 
+                href="/admin/articles"
+                className="text-xs transition-opacity hover:opacity-70"
+                style={{ color: "var(--accent-gold)" }}
+              >
+                View all →
+              </Link>
+            </div>
+            <div className="space-y-3">
+              {recentArticles.map((article) => (
+                <Link key={article.id} href={`/admin/articles?edit=${article.id}`}>
+                  <div 
+                    className="p-3 rounded-lg transition-all duration-200 hover:opacity-70 cursor-pointer"
+                    style={{ 
+                      backgroundColor: "var(--bg-primary)",
+                      border: "1px solid var(--border-secondary)"
+                    }}
+                  >
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <p 
+                          className="text-sm font-medium"
+                          style={{ color: "var(--text-primary)" }}
+                        >
+                          {article.title}
+                        </p>
+                        <p 
+                          className="text-xs mt-1"
+                          style={{ color: "var(--text-muted)" }}
+                        >
+                          {article.date} · {article.readTime}
+                        </p>
+                      </div>
+                      {article.featured && (
+                        <span 
+                          className="text-xs px-2 py-1 rounded"
+                          style={{ 
+                            backgroundColor: "var(--accent-gold-dim)",
+                            color: "var(--accent-gold)"
+                          }}
+                        >
+                          featured
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          </motion.div>
+        )}
+      </div>
 
-        {/* Recent Articles */}
+      {/* Profile Preview */}
+      {can(role, "profile") && (
         <motion.div
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: 0.5 }}
+          transition={{ delay: 0.6 }}
           className="p-6 rounded-xl"
           style={{ 
             backgroundColor: "var(--bg-elevated)",
@@ -415,118 +507,49 @@ export default function AdminDashboard() {
               className="text-lg font-light"
               style={{ color: "var(--text-primary)" }}
             >
-              Recent Articles
+              Profile Overview
             </h2>
             <Link 
-              href="/admin/articles"
+              href="/admin/profile"
               className="text-xs transition-opacity hover:opacity-70"
               style={{ color: "var(--accent-gold)" }}
             >
-              View all →
+              Edit profile →
             </Link>
           </div>
-          <div className="space-y-3">
-            {recentArticles.map((article) => (
-              <Link key={article.id} href={`/admin/articles?edit=${article.id}`}>
-                <div 
-                  className="p-3 rounded-lg transition-all duration-200 hover:opacity-70 cursor-pointer"
-                  style={{ 
-                    backgroundColor: "var(--bg-primary)",
-                    border: "1px solid var(--border-secondary)"
-                  }}
-                >
-                  <div className="flex items-start justify-between">
-                    <div>
-                      <p 
-                        className="text-sm font-medium"
-                        style={{ color: "var(--text-primary)" }}
-                      >
-                        {article.title}
-                      </p>
-                      <p 
-                        className="text-xs mt-1"
-                        style={{ color: "var(--text-muted)" }}
-                      >
-                        {article.date} · {article.readTime}
-                      </p>
-                    </div>
-                    {article.featured && (
-                      <span 
-                        className="text-xs px-2 py-1 rounded"
-                        style={{ 
-                          backgroundColor: "var(--accent-gold-dim)",
-                          color: "var(--accent-gold)"
-                        }}
-                      >
-                        featured
-                      </span>
-                    )}
-                  </div>
-                </div>
-              </Link>
-            ))}
-          </div>
-        </motion.div>
-      </div>
-
-      {/* Profile Preview */}
-      <motion.div
-        initial={{ opacity: 0, y: 20 }}
-        animate={{ opacity: 1, y: 0 }}
-        transition={{ delay: 0.6 }}
-        className="p-6 rounded-xl"
-        style={{ 
-          backgroundColor: "var(--bg-elevated)",
-          border: "1px solid var(--border-primary)"
-        }}
-      >
-        <div className="flex items-center justify-between mb-4">
-          <h2 
-            className="text-lg font-light"
-            style={{ color: "var(--text-primary)" }}
-          >
-            Profile Overview
-          </h2>
-          <Link 
-            href="/admin/profile"
-            className="text-xs transition-opacity hover:opacity-70"
-            style={{ color: "var(--accent-gold)" }}
-          >
-            Edit profile →
-          </Link>
-        </div>
-        <div className="flex items-start gap-6">
-          <div 
-            className="w-16 h-16 rounded-full flex items-center justify-center text-2xl"
-            style={{ 
-              backgroundColor: "var(--bg-primary)",
-              border: "1px solid var(--border-secondary)"
-            }}
-          >
-            👤
-          </div>
-          <div className="flex-1">
-            <h3 
-              className="text-xl font-light mb-1"
-              style={{ color: "var(--text-primary)" }}
+          <div className="flex items-start gap-6">
+            <div 
+              className="w-16 h-16 rounded-full flex items-center justify-center text-2xl"
+              style={{ 
+                backgroundColor: "var(--bg-primary)",
+                border: "1px solid var(--border-secondary)"
+              }}
             >
-              {dashboardStats.profile.name}
-            </h3>
-            <p 
-              className="text-sm mb-2"
-              style={{ color: "var(--text-secondary)" }}
-            >
-              {dashboardStats.profile.title}
-            </p>
-            <p 
-              className="text-sm"
-              style={{ color: "var(--text-muted)" }}
-            >
-              {dashboardStats.profile.bio}
-            </p>
+              👤
+            </div>
+            <div className="flex-1">
+              <h3 
+                className="text-xl font-light mb-1"
+                style={{ color: "var(--text-primary)" }}
+              >
+                {dashboardStats.profile.name}
+              </h3>
+              <p 
+                className="text-sm mb-2"
+                style={{ color: "var(--text-secondary)" }}
+              >
+                {dashboardStats.profile.title}
+              </p>
+              <p 
+                className="text-sm"
+                style={{ color: "var(--text-muted)" }}
+              >
+                {dashboardStats.profile.bio}
+              </p>
+            </div>
           </div>
-        </div>
-      </motion.div>
+        </motion.div>
+      )}
     </div>
   );
 }
@@ -3,6 +3,14 @@
 import { useState, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { useSearchParams } from "next/navigation";
+import { PublishStatus } from "@/lib/publishing";
+import {
+  PublishBadge,
+  PublishFields,
+  PublishFilter,
+  PreviewLinkButton,
+  countByStatus,
+} from "@/components/PublishControls";
 
 // ═══════════════════════════════════════════════════════════════════
 // TYPES
@@ -20,6 +28,8 @@ interface Project {
   role?: string;
   links?: { live?: string; github?: string };
   philosophy?: { text: string; author: string };
+  publishStatus: PublishStatus;
+  publishAt: string | null;
 }
 
 // ═══════════════════════════════════════════════════════════════════
@@ -42,7 +52,9 @@ const EMPTY_PROJECT: Project = {
   tech: [],
   year: new Date().getFullYear().toString(),
   status: "Active",
-  featured: false
+  featured: false,
+  publishStatus: "draft",
+  publishAt: null
 };
 
 const STATUS_OPTIONS: Project["status"][] = ["Active", "Maintained", "Archived"];
@@ -57,6 +69,7 @@ export default function ProjectsManager() {
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<number | null>(null);
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<PublishStatus | "all">("all");
 
   useEffect(() => {
     setMounted(true);
@@ -84,7 +97,7 @@ export default function ProjectsManager() {
   const loadProjects = async () => {
     setLoading(true);
     try {
-      const res = await fetch("/api/projects");
+      const res = await fetch("/api/projects?all=true");
       if (res.ok) {
         const data = await res.json();
         setProjects(data);
@@ -163,6 +176,10 @@ export default function ProjectsManager() {
     });
   };
 
+  const visibleProjects = statusFilter === "all"
+    ? projects
+    : projects.filter(p => p.publishStatus === statusFilter);
+
   if (!mounted) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -377,6 +394,12 @@ export default function ProjectsManager() {
                 </div>
               </div>
 
+              {/* Visibility */}
+              <PublishFields
+                value={selectedProject}
+                onChange={(publishing) => setSelectedProject({ ...selectedProject, ...publishing })}
+              />
+
               {/* Role */}
               <div>
                 <label 
@@ -541,9 +564,15 @@ export default function ProjectsManager() {
               </motion.button>
             </div>
 
+            <PublishFilter
+              value={statusFilter}
+              onChange={setStatusFilter}
+              counts={countByStatus(projects)}
+            />
+
             {/* Projects List */}
             <div className="space-y-3">
-              {projects.map((project, index) => (
+              {visibleProjects.map((project, index) => (
                 <motion.div
                   key={project.id}
                   initial={{ opacity: 0, y: 10 }}
@@ -592,6 +621,7 @@ export default function ProjectsManager() {
                         >
                           {project.status}
                         </span>
+                        <PublishBadge publishStatus={project.publishStatus} publishAt={project.publishAt} />
                       </div>
                       <p 
                         className="text-sm mb-2"
@@ -620,6 +650,9 @@ export default function ProjectsManager() {
                       >
                         Edit
                       </button>
+                      {project.publishStatus !== "published" && (
+                        <PreviewLinkButton endpoint={`/api/projects/${project.id}/preview`} />
+                      )}
                       <button
                         onClick={() => setShowDeleteConfirm(project.id)}
                         className="px-3 py-1 rounded-lg text-xs transition-opacity hover:opacity-70"
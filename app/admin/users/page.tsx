@@ -0,0 +1,420 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { ROLES, ROLE_LABELS, Role } from "@/lib/roles";
+
+// ═══════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════
+
+interface User {
+  id: number;
+  email: string;
+  name: string;
+  role: Role;
+  createdAt?: string;
+  password?: string; // Only sent when creating or resetting
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// USERS MANAGER - Owner-only account & role management
+// "It is not the man who has too little, but the man who craves more, that is poor." - Seneca
+// ═══════════════════════════════════════════════════════════════════
+
+const EMPTY_USER: User = {
+  id: 0,
+  email: "",
+  name: "",
+  role: "editor",
+  password: "",
+};
+
+const ROLE_DESCRIPTIONS: Record<Role, string> = {
+  owner: "Manages everything, including accounts",
+  editor: "Manages articles, projects and quotes",
+  moderator: "Approves or rejects collective answers",
+};
+
+export default function UsersManager() {
+  const [users, setUsers] = useState<User[]>([]);
+  const [selectedUser, setSelectedUser] = useState<User | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [mounted, setMounted] = useState(false);
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState<number | null>(null);
+  const [error, setError] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setMounted(true);
+    loadUsers();
+  }, []);
+
+  const loadUsers = async () => {
+    try {
+      const res = await fetch("/api/users");
+      if (res.ok) {
+        const data = await res.json();
+        setUsers(data);
+      }
+    } catch (error) {
+      console.error("Failed to load users:", error);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!selectedUser) return;
+    setSaving(true);
+    setError("");
+
+    try {
+      const isNew = selectedUser.id === 0;
+      const url = isNew ? "/api/users" : `/api/users/${selectedUser.id}`;
+      const method = isNew ? "POST" : "PUT";
+
+      const res = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(selectedUser),
+      });
+
+      if (res.ok) {
+        await loadUsers();
+        setIsEditing(false);
+        setSelectedUser(null);
+      } else {
+        const data = await res.json();
+        setError(data.error || "Failed to save user");
+      }
+    } catch (error) {
+      console.error("Failed to save user:", error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    setError("");
+    try {
+      const res = await fetch(`/api/users/${id}`, { method: "DELETE" });
+      if (res.ok) {
+        await loadUsers();
+      } else {
+        const data = await res.json();
+        setError(data.error || "Failed to delete user");
+      }
+      setShowDeleteConfirm(null);
+    } catch (error) {
+      console.error("Failed to delete user:", error);
+    }
+  };
+
+  if (!mounted) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <motion.div
+          animate={{ rotate: 360 }}
+          transition={{ duration: 2, repeat: Infinity, ease: "linear" }}
+          className="text-2xl"
+          style={{ color: "var(--accent-gold)" }}
+        >
+          ◐
+        </motion.div>
+      </div>
+    );
+  }
+
+  const inputStyle = {
+    backgroundColor: "var(--bg-primary)",
+    border: "1px solid var(--border-secondary)",
+    color: "var(--text-primary)"
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      {error && (
+        <p className="mb-4 text-sm" style={{ color: "#ef4444" }}>
+          {error}
+        </p>
+      )}
+
+      <AnimatePresence mode="wait">
+        {isEditing && selectedUser ? (
+          /* Edit Mode */
+          <motion.div
+            key="editor"
+            initial={{ opacity: 0, x: 20 }}
+            animate={{ opacity: 1, x: 0 }}
+            exit={{ opacity: 0, x: -20 }}
+            className="space-y-6"
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between">
+              <button
+                onClick={() => {
+                  setIsEditing(false);
+                  setSelectedUser(null);
+                  setError("");
+                }}
+                className="flex items-center gap-2 text-sm transition-opacity hover:opacity-70"
+                style={{ color: "var(--text-muted)" }}
+              >
+                ← Back to users
+              </button>
+              <motion.button
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                onClick={handleSave}
+                disabled={saving}
+                className="px-4 py-2 rounded-lg text-sm font-medium disabled:opacity-50"
+                style={{
+                  backgroundColor: "var(--accent-gold)",
+                  color: "var(--bg-primary)"
+                }}
+              >
+                {saving ? "Saving..." : "Save User"}
+              </motion.button>
+            </div>
+
+            {/* Editor Form */}
+            <div
+              className="p-6 rounded-xl space-y-6"
+              style={{
+                backgroundColor: "var(--bg-elevated)",
+                border: "1px solid var(--border-primary)"
+              }}
+            >
+              <div className="grid md:grid-cols-2 gap-4">
+                <div>
+                  <label
+                    className="block text-xs uppercase tracking-wider mb-2"
+                    style={{ color: "var(--text-muted)" }}
+                  >
+                    Name
+                  </label>
+                  <input
+                    type="text"
+                    value={selectedUser.name}
+                    onChange={(e) => setSelectedUser({ ...selectedUser, name: e.target.value })}
+                    placeholder="Seneca"
+                    className="w-full px-4 py-3 rounded-lg text-sm focus:outline-none focus:ring-2"
+                    style={inputStyle}
+                  />
+                </div>
+                <div>
+                  <label
+                    className="block text-xs uppercase tracking-wider mb-2"
+                    style={{ color: "var(--text-muted)" }}
+                  >
+                    Email
+                  </label>
+                  <input
+                    type="email"
+                    value={selectedUser.email}
+                    onChange={(e) => setSelectedUser({ ...selectedUser, email: e.target.value })}
+                    placeholder="seneca@example.com"
+                    disabled={selectedUser.id !== 0}
+                    className="w-full px-4 py-3 rounded-lg text-sm focus:outline-none focus:ring-2 disabled:opacity-60"
+                    style={inputStyle}
+                  />
+                </div>
+              </div>
+
+              {/* Password */}
+              <div>
+                <label
+                  className="block text-xs uppercase tracking-wider mb-2"
+                  style={{ color: "var(--text-muted)" }}
+                >
+                  {selectedUser.id === 0 ? "Password" : "New Password (leave empty to keep)"}
+                </label>
+                <input
+                  type="password"
+                  value={selectedUser.password || ""}
+                  onChange={(e) => setSelectedUser({ ...selectedUser, password: e.target.value })}
+                  autoComplete="new-password"
+                  className="w-full px-4 py-3 rounded-lg text-sm focus:outline-none focus:ring-2"
+                  style={inputStyle}
+                />
+              </div>
+
+              {/* Role */}
+              <div>
+                <label
+                  className="block text-xs uppercase tracking-wider mb-2"
+                  style={{ color: "var(--text-muted)" }}
+                >
+                  Role
+                </label>
+                <div className="grid md:grid-cols-3 gap-3">
+                  {ROLES.map(role => (
+                    <button
+                      key={role}
+                      onClick={() => setSelectedUser({ ...selectedUser, role })}
+                      className="p-4 rounded-lg text-left transition-all duration-200"
+                      style={{
+                        backgroundColor: "var(--bg-primary)",
+                        border: selectedUser.role === role
+                          ? "1px solid var(--accent-gold)"
+                          : "1px solid var(--border-secondary)"
+                      }}
+                    >
+                      <p
+                        className="text-sm"
+                        style={{ color: selectedUser.role === role ? "var(--accent-gold)" : "var(--text-primary)" }}
+                      >
+                        {ROLE_LABELS[role]}
+                      </p>
+                      <p
+                        className="text-xs mt-1"
+                        style={{ color: "var(--text-muted)" }}
+                      >
+                        {ROLE_DESCRIPTIONS[role]}
+                      </p>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </motion.div>
+        ) : (
+          /* List Mode */
+          <motion.div
+            key="list"
+            initial={{ opacity: 0, x: -20 }}
+            animate={{ opacity: 1, x: 0 }}
+            exit={{ opacity: 0, x: 20 }}
+            className="space-y-6"
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between">
+              <p
+                className="text-sm"
+                style={{ color: "var(--text-muted)" }}
+              >
+                {users.length} account{users.length !== 1 ? "s" : ""}
+              </p>
+              <motion.button
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                onClick={() => {
+                  setSelectedUser({ ...EMPTY_USER });
+                  setIsEditing(true);
+                  setError("");
+                }}
+                className="px-4 py-2 rounded-lg text-sm font-medium"
+                style={{
+                  backgroundColor: "var(--accent-gold)",
+                  color: "var(--bg-primary)"
+                }}
+              >
+                + New User
+              </motion.button>
+            </div>
+
+            {/* Users List */}
+            <div className="space-y-3">
+              {users.map((user, index) => (
+                <motion.div
+                  key={user.id}
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: index * 0.05 }}
+                  className="p-5 rounded-xl flex items-center justify-between"
+                  style={{
+                    backgroundColor: "var(--bg-elevated)",
+                    border: "1px solid var(--border-primary)"
+                  }}
+                >
+                  <div>
+                    <p
+                      className="text-sm"
+                      style={{ color: "var(--text-primary)" }}
+                    >
+                      {user.name}
+                    </p>
+                    <p
+                      className="text-xs"
+                      style={{ color: "var(--text-muted)" }}
+                    >
+                      {user.email}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span
+                      className="text-xs px-2 py-1 rounded"
+                      style={{
+                        backgroundColor: user.role === "owner" ? "var(--accent-gold-dim)" : "var(--bg-primary)",
+                        color: user.role === "owner" ? "var(--accent-gold)" : "var(--text-muted)"
+                      }}
+                    >
+                      {ROLE_LABELS[user.role]}
+                    </span>
+                    {showDeleteConfirm === user.id ? (
+                      <>
+                        <button
+                          onClick={() => setShowDeleteConfirm(null)}
+                          className="px-2 py-1 rounded text-xs"
+                          style={{ color: "var(--text-muted)" }}
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={() => handleDelete(user.id)}
+                          className="px-2 py-1 rounded text-xs"
+                          style={{ backgroundColor: "#ef4444", color: "white" }}
+                        >
+                          Delete
+                        </button>
+                      </>
+                    ) : (
+                      <>
+                        <button
+                          onClick={() => {
+                            setSelectedUser({ ...user, password: "" });
+                            setIsEditing(true);
+                            setError("");
+                          }}
+                          className="px-3 py-1 rounded-lg text-xs transition-opacity hover:opacity-70"
+                          style={{
+                            backgroundColor: "var(--bg-primary)",
+                            border: "1px solid var(--border-secondary)",
+                            color: "var(--text-secondary)"
+                          }}
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => setShowDeleteConfirm(user.id)}
+                          className="px-3 py-1 rounded-lg text-xs transition-opacity hover:opacity-70"
+                          style={{
+                            backgroundColor: "var(--bg-primary)",
+                            border: "1px solid var(--border-secondary)",
+                            color: "#ef4444"
+                          }}
+                        >
+                          Delete
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </motion.div>
+              ))}
+            </div>
+
+            {users.length === 0 && (
+              <div
+                className="text-center py-16"
+                style={{ color: "var(--text-muted)" }}
+              >
+                <p className="text-4xl mb-4">⚇</p>
+                <p className="text-sm">No accounts yet</p>
+                <p className="text-xs mt-1">Create the first owner account, then sign in with it</p>
+              </div>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { getOrCreateVisitor, setVisitorCookie } from "@/lib/visitor";
+import { clientIp, consumeTokens, type RateLimitRule } from "@/lib/rateLimit";
+import { isReactionKind } from "@/lib/reactions";
+import { summarizeReactions } from "@/lib/reactionCounts";
+
+// ═══════════════════════════════════════════════════════════════════
+// NOTE REACTIONS - Each visitor gives each kind at most once per note
+// ═══════════════════════════════════════════════════════════════════
+
+// Generous for people, tight enough to stop a script inflating counts
+const REACT_RATE: RateLimitRule = { capacity: 20, refillMs: 3000 };
+
+// POST { kind, active? } toggles the visitor's reaction (or sets it when `active` is given)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const noteId = parseInt(id);
+    const body = await request.json().catch(() => ({}));
+
+    if (!isReactionKind(body.kind)) {
+      return NextResponse.json({ error: "Unknown reaction" }, { status: 400 });
+    }
+
+    const note = isNaN(noteId)
+      ? null
+      : await prisma.stickyNote.findUnique({ where: { id: noteId }, select: { approved: true } });
+    if (!note || !note.approved) {
+      return NextResponse.json({ error: "Answer not found" }, { status: 404 });
+    }
+
+    const visitor = await getOrCreateVisitor(request);
+    const limit = consumeTokens([`reactions:ip:${clientIp(request)}`, `reactions:${visitor.id}`], REACT_RATE);
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { error: "Slow down a little." },
+        { status: 429, headers: { "Retry-After": String(limit.retryAfter) } }
+      );
+    }
+
+    const key = { noteId_visitorId_kind: { noteId, visitorId: visitor.id, kind: body.kind } };
+    const existing = await prisma.noteReaction.findUnique({ where: key });
+    const active = typeof body.active === "boolean" ? body.active : !existing;
+
+    if (active && !existing) {
+      await prisma.noteReaction.upsert({
+        where: key,
+        create: { noteId, visitorId: visitor.id, kind: body.kind },
+        update: {},
+      });
+    } else if (!active && existing) {
+      await prisma.noteReaction.deleteMany({ where: { noteId, visitorId: visitor.id, kind: body.kind } });
+    }
+
+    const summary = (await summarizeReactions([noteId], visitor.id)).get(noteId);
+    const response = NextResponse.json(summary);
+    setVisitorCookie(response, visitor);
+    return response;
+  } catch (error) {
+    console.error("Failed to record reaction:", error);
+    return NextResponse.json(
+      { error: "Failed to record reaction" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,16 +1,23 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
+import { publishLiveEvent } from "@/lib/events";
+import { revalidateCollectivePages } from "@/lib/contemplations";
+import { invalidateSearchIndex } from "@/lib/searchIndex";
+import { getRequestSession } from "@/lib/session";
+import { moderateAnswers, withoutSpamFields, type ModerationAction } from "@/lib/moderation";
 
 // ═══════════════════════════════════════════════════════════════════
-// SINGLE ANSWER API - Approve/Reject/Delete answers
+// SINGLE ANSWER API - Approve/Reject/Restore/Delete answers
 // ═══════════════════════════════════════════════════════════════════
 
+// GET one answer; visitors only see approved ones, without moderation fields
 export async function GET(
-  request: Request,
+  request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id } = await params;
+    const session = await getRequestSession(request);
     const answer = await prisma.stickyNote.findUnique({
       where: { id: parseInt(id) },
       include: {
@@ -20,14 +27,14 @@ export async function GET(
       },
     });
     
-    if (!answer) {
+    if (!answer || (!session && !answer.approved)) {
       return NextResponse.json(
         { error: "Answer not found" },
         { status: 404 }
       );
     }
     
-    return NextResponse.json(answer);
+    return NextResponse.json(session ? answer : withoutSpamFields(answer));
   } catch (error) {
     console.error("Failed to fetch answer:", error);
     return NextResponse.json(
@@ -37,24 +44,60 @@ export async function GET(
   }
 }
 
+// PUT moderate and/or edit an answer:
+// { approved: true|false } approves/unapproves, { rejected: true, reason } rejects, { rejected: false } restores
 export async function PUT(
-  request: Request,
+  request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id } = await params;
+    const noteId = parseInt(id);
     const data = await request.json();
-    
+    const session = await getRequestSession(request);
+
+    const existing = Number.isInteger(noteId)
+      && (await prisma.stickyNote.findUnique({ where: { id: noteId }, select: { id: true } }));
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Answer not found" },
+        { status: 404 }
+      );
+    }
+
+    const action: ModerationAction | null =
+      data.rejected === true ? "reject"
+      : data.rejected === false ? "restore"
+      : data.approved === true ? "approve"
+      : data.approved === false ? "unapprove"
+      : null;
+    if (action) {
+      await moderateAnswers([noteId], action, session, data.reason);
+    }
+
+    // Allow editing other fields if needed
+    const edits = {
+      ...(data.answer && { answer: data.answer }),
+      ...(data.author && { author: data.author }),
+      ...(data.color && { color: data.color }),
+    };
+
     const answer = await prisma.stickyNote.update({
-      where: { id: parseInt(id) },
-      data: {
-        approved: data.approved,
-        // Allow editing other fields if needed
-        ...(data.answer && { answer: data.answer }),
-        ...(data.author && { author: data.author }),
-        ...(data.color && { color: data.color }),
+      where: { id: noteId },
+      data: edits,
+      include: {
+        moderatedBy: {
+          select: { name: true },
+        },
       },
     });
+
+    // Edits to an approved answer show up on the board
+    if (answer.approved && Object.keys(edits).length > 0) {
+      publishLiveEvent({ type: "answer.approved", id: answer.id, contemplationId: answer.contemplationId, approved: true });
+      revalidateCollectivePages();
+      invalidateSearchIndex();
+    }
     
     return NextResponse.json(answer);
   } catch (error) {
@@ -66,16 +109,22 @@ export async function PUT(
   }
 }
 
+// DELETE answer: a rejection, so it is logged and can be restored within the window
 export async function DELETE(
-  request: Request,
+  request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id } = await params;
-    
-    await prisma.stickyNote.delete({
-      where: { id: parseInt(id) },
-    });
+    const session = await getRequestSession(request);
+
+    const removed = await moderateAnswers([parseInt(id)], "reject", session, "Deleted in the Sanctum");
+    if (removed.length === 0) {
+      return NextResponse.json(
+        { error: "Answer not found" },
+        { status: 404 }
+      );
+    }
     
     return NextResponse.json({ success: true });
   } catch (error) {
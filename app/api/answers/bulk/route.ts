@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRequestSession } from "@/lib/session";
+import { isModerationAction, moderateAnswers } from "@/lib/moderation";
+
+const MAX_BULK = 200;
+
+// POST { ids, action, reason? } - approve/unapprove/reject/restore/delete a selection
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const ids: number[] = Array.isArray(body.ids)
+      ? body.ids.filter((id: unknown): id is number => Number.isInteger(id))
+      : [];
+
+    if (!isModerationAction(body.action)) {
+      return NextResponse.json({ error: "Unknown action" }, { status: 400 });
+    }
+    if (ids.length === 0 || ids.length > MAX_BULK) {
+      return NextResponse.json({ error: `Select 1–${MAX_BULK} answers` }, { status: 400 });
+    }
+
+    const session = await getRequestSession(request);
+    const affected = await moderateAnswers(ids, body.action, session, body.reason);
+
+    return NextResponse.json({ affected });
+  } catch (error) {
+    console.error("Failed to moderate answers:", error);
+    return NextResponse.json({ error: "Failed to moderate answers" }, { status: 500 });
+  }
+}
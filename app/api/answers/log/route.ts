@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+
+// GET newest moderation log entries (?limit=, default 100)
+export async function GET(request: NextRequest) {
+  try {
+    const limit = Math.min(parseInt(request.nextUrl.searchParams.get("limit") || "100") || 100, 500);
+    const entries = await prisma.moderationLog.findMany({
+      orderBy: { createdAt: "desc" },
+      take: limit,
+    });
+    return NextResponse.json(entries);
+  } catch (error) {
+    console.error("Failed to fetch moderation log:", error);
+    return NextResponse.json({ error: "Failed to fetch moderation log" }, { status: 500 });
+  }
+}
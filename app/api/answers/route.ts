@@ -1,38 +1,120 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
+import { getRequestSession } from "@/lib/session";
+import { can } from "@/lib/roles";
+import { clientFingerprint, clientIp, consumeTokens, type RateLimitRule } from "@/lib/rateLimit";
+import { ANSWER_LIMITS, HONEYPOT_FIELD, SPAM_FLAG_SCORE, SPAM_REJECT_SCORE, scoreAnswer } from "@/lib/spam";
+import { pendingWhere, purgeExpiredRejections, rejectedWhere, restoreDeadline, withoutSpamFields } from "@/lib/moderation";
+import { summarizeReactions } from "@/lib/reactionCounts";
+import { getVisitorId } from "@/lib/visitor";
 
 // ═══════════════════════════════════════════════════════════════════
 // PUBLIC ANSWERS API - Users submit answers to contemplations
 // These become sticky notes on the Board of Collective (after approval)
 // ═══════════════════════════════════════════════════════════════════
 
-export async function POST(request: Request) {
+const PENDING_MESSAGE = "Your reflection has been submitted and is pending approval.";
+
+// A few answers in a burst, then one every ten minutes
+const SUBMIT_RATE: RateLimitRule = { capacity: 3, refillMs: 10 * 60 * 1000 };
+
+// Identical answers within this window count as duplicates
+const DUPLICATE_WINDOW = 24 * 60 * 60 * 1000;
+
+// A positive integer id, sent as a number or a numeric string
+function parseId(value: unknown): number | null {
+  const id = typeof value === "number" || (typeof value === "string" && /^\d+$/.test(value)) ? Number(value) : NaN;
+  return Number.isSafeInteger(id) && id > 0 ? id : null;
+}
+
+export async function POST(request: NextRequest) {
   try {
-    const data = await request.json();
+    const data: Record<string, unknown> | null = await request.json().catch(() => null);
+    if (!data || typeof data !== "object" || Array.isArray(data)) {
+      return NextResponse.json(
+        { error: "Invalid request body" },
+        { status: 400 }
+      );
+    }
+
+    // Bots that fill the hidden field get a normal-looking reply and nothing is stored
+    if (data[HONEYPOT_FIELD]) {
+      return NextResponse.json({ message: PENDING_MESSAGE });
+    }
+
+    const answer = typeof data.answer === "string" ? data.answer.trim() : "";
+    const author = typeof data.author === "string" ? data.author.trim() : "";
     
     // Validate required fields
-    if (!data.answer || !data.author) {
+    if (!answer || !author) {
       return NextResponse.json(
         { error: "Answer and author are required" },
         { status: 400 }
       );
     }
+    if (answer.length < ANSWER_LIMITS.answer.min || answer.length > ANSWER_LIMITS.answer.max) {
+      return NextResponse.json(
+        { error: `Answers must be ${ANSWER_LIMITS.answer.min}–${ANSWER_LIMITS.answer.max} characters` },
+        { status: 400 }
+      );
+    }
+    if (author.length > ANSWER_LIMITS.author.max) {
+      return NextResponse.json(
+        { error: `Names must be at most ${ANSWER_LIMITS.author.max} characters` },
+        { status: 400 }
+      );
+    }
+    // Optional: the question being answered
+    const hasContemplation = data.contemplationId !== undefined && data.contemplationId !== null && data.contemplationId !== "";
+    const contemplationId = hasContemplation ? parseId(data.contemplationId) : null;
+    if (hasContemplation && contemplationId === null) {
+      return NextResponse.json(
+        { error: "Invalid contemplation" },
+        { status: 400 }
+      );
+    }
+
+    const limit = consumeTokens(
+      [`answers:ip:${clientIp(request)}`, `answers:${await clientFingerprint(request)}`],
+      SUBMIT_RATE
+    );
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { error: "You're sharing faster than we can read. Please wait a few minutes." },
+        { status: 429, headers: { "Retry-After": String(limit.retryAfter) } }
+      );
+    }
+
+    const [bannedWords, duplicates] = await Promise.all([
+      prisma.bannedWord.findMany({ select: { word: true } }),
+      prisma.stickyNote.count({
+        where: { answer, createdAt: { gte: new Date(Date.now() - DUPLICATE_WINDOW) } },
+      }),
+    ]);
+    const spam = scoreAnswer({ answer, author }, bannedWords.map((b) => b.word), duplicates);
+    // Obvious spam skips the queue but stays restorable like any rejection
+    const autoRejected = spam.score >= SPAM_REJECT_SCORE;
 
     // Get the contemplation question if contemplationId is provided
-    let question = data.question || "A personal reflection";
+    let question = typeof data.question === "string" && data.question.trim()
+      ? data.question.trim().slice(0, ANSWER_LIMITS.question.max)
+      : "A personal reflection";
     
-    if (data.contemplationId) {
+    if (contemplationId !== null) {
       const contemplation = await prisma.contemplation.findUnique({
-        where: { id: data.contemplationId },
+        where: { id: contemplationId },
+        select: { question: true, active: true },
       });
-      if (contemplation) {
-        question = contemplation.question;
+      if (!contemplation || !contemplation.active) {
+        return NextResponse.json(
+          { error: "Contemplation not found" },
+          { status: 404 }
+        );
       }
+      question = contemplation.question;
     }
 
-    // Random position and rotation for the sticky note
-    const positionX = Math.floor(Math.random() * 60) + 10; // 10-70%
-    const positionY = Math.floor(Math.random() * 50) + 10; // 10-60%
+    // New notes start unpinned, so the board packs them (lib/board.ts); only the tilt is random
     const rotation = Math.floor(Math.random() * 10) - 5; // -5 to 5 degrees
     
     // Random color from Stoic palette
@@ -42,20 +124,25 @@ export async function POST(request: Request) {
     const stickyNote = await prisma.stickyNote.create({
       data: {
         question,
-        answer: data.answer,
-        author: data.author,
+        answer,
+        author,
         color,
-        positionX,
-        positionY,
         rotation,
         approved: false, // Requires approval before showing on board
-        contemplationId: data.contemplationId || null,
+        spamScore: spam.score,
+        spamReasons: spam.reasons.length ? JSON.stringify(spam.reasons) : null,
+        flagged: spam.score >= SPAM_FLAG_SCORE,
+        ...(autoRejected && {
+          rejectedAt: new Date(),
+          rejectionReason: `Automatic: spam score ${spam.score}`,
+        }),
+        contemplationId,
       },
     });
 
     return NextResponse.json({ 
-      ...stickyNote, 
-      message: "Your reflection has been submitted and is pending approval." 
+      ...withoutSpamFields(stickyNote), 
+      message: PENDING_MESSAGE,
     });
   } catch (error) {
     console.error("Failed to create answer:", error);
@@ -70,27 +157,67 @@ export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const showPending = searchParams.get("pending") === "true";
+    const showRejected = searchParams.get("rejected") === "true";
     const showAll = searchParams.get("all") === "true";
     
-    // For admin: show pending or all
+    // Moderator names and spam fields are only shown to roles that moderate
+    const session = await getRequestSession(request);
+    const moderator = can(session?.role, "answers");
+
+    // Only approved answers are public; the queues belong to moderators
+    if ((showPending || showRejected || showAll) && !moderator) {
+      return NextResponse.json(
+        session ? { error: "Forbidden" } : { error: "Unauthorized" },
+        { status: session ? 403 : 401 }
+      );
+    }
+    if (showRejected) {
+      await purgeExpiredRejections();
+    }
+
+    // For admin: show pending, rejected or all
     // For public: only show approved
     const whereClause = showAll 
       ? {} 
       : showPending 
-        ? { approved: false }
-        : { approved: true };
-    
+        ? pendingWhere
+        : showRejected
+          ? rejectedWhere
+          : { approved: true };
+
     const answers = await prisma.stickyNote.findMany({
       where: whereClause,
-      orderBy: { createdAt: "desc" },
+      orderBy: showRejected ? { rejectedAt: "desc" } : { createdAt: "desc" },
       include: {
         contemplation: {
           select: { question: true },
         },
+        ...(moderator && {
+          moderatedBy: {
+            select: { name: true },
+          },
+        }),
       },
     });
     
-    return NextResponse.json(answers);
+    // Reaction counts, plus which ones this visitor gave
+    const summaries = await summarizeReactions(
+      answers.map((answer) => answer.id),
+      await getVisitorId(request)
+    );
+
+    if (!moderator) {
+      return NextResponse.json(answers.map((answer) => ({
+        ...withoutSpamFields(answer),
+        ...summaries.get(answer.id),
+      })));
+    }
+
+    return NextResponse.json(answers.map((answer) => ({
+      ...answer,
+      ...summaries.get(answer.id),
+      restoreBy: answer.rejectedAt ? restoreDeadline(answer.rejectedAt) : null,
+    })));
   } catch (error) {
     console.error("Failed to fetch answers:", error);
     return NextResponse.json(
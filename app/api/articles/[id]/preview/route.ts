@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { createPreviewToken } from "@/lib/preview";
+
+// ═══════════════════════════════════════════════════════════════════
+// ARTICLE PREVIEW API - Shareable links to drafts
+// ═══════════════════════════════════════════════════════════════════
+
+// POST mint a preview link for an article
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const article = await prisma.article.findUnique({
+      where: { id: parseInt(id) },
+      select: { id: true, slug: true },
+    });
+
+    if (!article) {
+      return NextResponse.json({ error: "Article not found" }, { status: 404 });
+    }
+
+    const { token, expiresAt } = await createPreviewToken("article", article.id);
+    return NextResponse.json({
+      url: `/writing/${article.slug}/preview?token=${token}`,
+      expiresAt,
+    });
+  } catch (error) {
+    console.error("Error creating article preview:", error);
+    return NextResponse.json({ error: "Failed to create preview link" }, { status: 500 });
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { getRequestSession, sessionUserId } from "@/lib/session";
+import { recordRevision } from "@/lib/revisions";
+import { announceArticle, revalidateArticle } from "@/lib/articles";
+import { invalidateSearchIndex } from "@/lib/searchIndex";
+import { invalidateOracleCorpus } from "@/lib/oracleCorpus";
+
+// Helper to parse content (handles both legacy array and new string format)
+function parseContent(contentStr: string | null): string | unknown[] {
+  if (!contentStr) return "";
+  try {
+    return JSON.parse(contentStr);
+  } catch {
+    return contentStr;
+  }
+}
+
+// GET single revision with its full snapshot
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; revisionId: string }> }
+) {
+  try {
+    const { id, revisionId } = await params;
+    const revision = await prisma.articleRevision.findFirst({
+      where: { id: parseInt(revisionId), articleId: parseInt(id) },
+      include: { editedBy: { select: { name: true } } },
+    });
+
+    if (!revision) {
+      return NextResponse.json({ error: "Revision not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      ...revision,
+      tags: JSON.parse(revision.tags || "[]"),
+      epigraph: revision.epigraph ? JSON.parse(revision.epigraph) : null,
+      content: parseContent(revision.content),
+    });
+  } catch (error) {
+    console.error("Error fetching revision:", error);
+    return NextResponse.json({ error: "Failed to fetch revision" }, { status: 500 });
+  }
+}
+
+// POST restore this revision onto the article. The article as it stood and the
+// restored version are each kept as revisions of their own, never merged away.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; revisionId: string }> }
+) {
+  try {
+    const { id, revisionId } = await params;
+    const editedById = sessionUserId(await getRequestSession(request));
+
+    const revision = await prisma.articleRevision.findFirst({
+      where: { id: parseInt(revisionId), articleId: parseInt(id) },
+    });
+
+    if (!revision) {
+      return NextResponse.json({ error: "Revision not found" }, { status: 404 });
+    }
+
+    const current = await prisma.article.findUnique({ where: { id: revision.articleId } });
+    if (!current) {
+      return NextResponse.json({ error: "Article not found" }, { status: 404 });
+    }
+    await recordRevision(current, current.editedById, { merge: false });
+
+    const article = await prisma.article.update({
+      where: { id: revision.articleId },
+      data: {
+        title: revision.title,
+        content: revision.content,
+        tags: revision.tags,
+        epigraph: revision.epigraph,
+        editedById,
+      },
+    });
+
+    await recordRevision(article, editedById, { merge: false });
+    revalidateArticle(article, current);
+    announceArticle(article, current);
+    invalidateSearchIndex();
+    invalidateOracleCorpus();
+
+    return NextResponse.json({
+      ...article,
+      tags: JSON.parse(article.tags),
+      epigraph: article.epigraph ? JSON.parse(article.epigraph) : null,
+      content: parseContent(article.content),
+    });
+  } catch (error) {
+    console.error("Error restoring revision:", error);
+    return NextResponse.json({ error: "Failed to restore revision" }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+
+// ═══════════════════════════════════════════════════════════════════
+// ARTICLE REVISIONS API - History list for the writer
+// ═══════════════════════════════════════════════════════════════════
+
+// GET revisions for an article (newest first, without content)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const revisions = await prisma.articleRevision.findMany({
+      where: { articleId: parseInt(id) },
+      orderBy: { createdAt: "desc" },
+      select: {
+        id: true,
+        title: true,
+        createdAt: true,
+        updatedAt: true,
+        editedBy: { select: { name: true } },
+      },
+    });
+
+    return NextResponse.json(revisions);
+  } catch (error) {
+    console.error("Error fetching revisions:", error);
+    return NextResponse.json({ error: "Failed to fetch revisions" }, { status: 500 });
+  }
+}
@@ -1,5 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
+import { getRequestSession, sessionUserId } from "@/lib/session";
+import { recordRevision } from "@/lib/revisions";
+import { announceArticle, revalidateArticle } from "@/lib/articles";
+import { invalidateSearchIndex } from "@/lib/searchIndex";
+import { invalidateOracleCorpus } from "@/lib/oracleCorpus";
+import { isViewable, parsePublishFields } from "@/lib/publishing";
+import { canPreview } from "@/lib/preview";
 
 // GET single article
 export async function GET(
@@ -21,7 +28,8 @@ export async function GET(
       article = await prisma.article.findUnique({ where: { slug: id } });
     }
 
-    if (!article) {
+    // Drafts and future posts look missing unless previewed
+    if (!article || (!isViewable(article) && !(await canPreview(request, "article", article.id)))) {
       return NextResponse.json({ error: "Article not found" }, { status: 404 });
     }
 
@@ -50,7 +58,7 @@ export async function GET(
   }
 }
 
-// PUT update article
+// PUT update article; the writer's autosaves add ?autosave=true
 export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -58,7 +66,15 @@ export async function PUT(
   try {
     const { id } = await params;
     const body = await request.json();
+    const session = await getRequestSession(request);
+
+    // Status is optional here so partial saves keep the current one
+    const publishing = parsePublishFields(body, "draft");
+    if ("error" in publishing) {
+      return NextResponse.json({ error: publishing.error }, { status: 400 });
+    }
 
+    const previous = await prisma.article.findUnique({ where: { id: parseInt(id) } });
     const article = await prisma.article.update({
       where: { id: parseInt(id) },
       data: {
@@ -72,9 +88,20 @@ export async function PUT(
         epigraph: body.epigraph ? JSON.stringify(body.epigraph) : null,
         // Store content as JSON - works for both string (markdown) and array (legacy)
         content: JSON.stringify(body.content ?? ""),
+        editedById: sessionUserId(session),
+        ...(body.publishStatus !== undefined && publishing),
       },
     });
 
+    await recordRevision(article, sessionUserId(session));
+    const relisted = announceArticle(article, previous);
+    invalidateSearchIndex();
+    invalidateOracleCorpus();
+    // Autosaves only refresh public pages when they change what is listed
+    if (request.nextUrl.searchParams.get("autosave") !== "true" || relisted) {
+      revalidateArticle(article, previous);
+    }
+
     // Parse content for response
     let responseContent;
     try {
@@ -102,7 +129,11 @@ export async function DELETE(
 ) {
   try {
     const { id } = await params;
-    await prisma.article.delete({ where: { id: parseInt(id) } });
+    const article = await prisma.article.delete({ where: { id: parseInt(id) } });
+    revalidateArticle(article);
+    announceArticle(null, article);
+    invalidateSearchIndex();
+    invalidateOracleCorpus();
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Error deleting article:", error);
@@ -1,5 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
+import { getRequestSession, sessionUserId } from "@/lib/session";
+import { recordRevision } from "@/lib/revisions";
+import { announceArticle, revalidateArticle } from "@/lib/articles";
+import { invalidateSearchIndex } from "@/lib/searchIndex";
+import { invalidateOracleCorpus } from "@/lib/oracleCorpus";
+import { isPublishStatus, listedWhere, parsePublishFields } from "@/lib/publishing";
 
 // Helper to parse content (handles both legacy array and new string format)
 function parseContent(contentStr: string | null): string | unknown[] {
@@ -12,11 +18,26 @@ function parseContent(contentStr: string | null): string | unknown[] {
   }
 }
 
-// GET all articles
-export async function GET() {
+// GET all articles (?all=true includes drafts for admin, ?status= narrows it)
+export async function GET(request: NextRequest) {
   try {
+    // Editor names and unpublished work are only shown inside the Sanctum
+    const session = await getRequestSession(request);
+    const { searchParams } = new URL(request.url);
+    const showAll = session && searchParams.get("all") === "true";
+    const status = searchParams.get("status");
+
+    let where = {};
+    if (!showAll) {
+      where = listedWhere();
+    } else if (isPublishStatus(status)) {
+      where = { publishStatus: status };
+    }
+
     const articles = await prisma.article.findMany({
+      where,
       orderBy: { date: "desc" },
+      ...(session && { include: { editedBy: { select: { name: true } } } }),
     });
 
     // Parse JSON fields
@@ -34,12 +55,20 @@ export async function GET() {
   }
 }
 
-// POST create article (with upsert to handle duplicate slugs)
+// POST create article (with upsert to handle duplicate slugs); autosaves add ?autosave=true
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
+    const editedById = sessionUserId(await getRequestSession(request));
+
+    // New articles start as drafts unless told otherwise
+    const publishing = parsePublishFields(body, "draft");
+    if ("error" in publishing) {
+      return NextResponse.json({ error: publishing.error }, { status: 400 });
+    }
 
     // Use upsert to handle cases where slug already exists
+    const previous = await prisma.article.findUnique({ where: { slug: body.slug } });
     const article = await prisma.article.upsert({
       where: { slug: body.slug },
       update: {
@@ -51,6 +80,8 @@ export async function POST(request: NextRequest) {
         featured: body.featured || false,
         epigraph: body.epigraph ? JSON.stringify(body.epigraph) : null,
         content: JSON.stringify(body.content ?? ""),
+        editedById,
+        ...(body.publishStatus !== undefined && publishing),
       },
       create: {
         slug: body.slug,
@@ -62,9 +93,20 @@ export async function POST(request: NextRequest) {
         featured: body.featured || false,
         epigraph: body.epigraph ? JSON.stringify(body.epigraph) : null,
         content: JSON.stringify(body.content ?? ""),
+        editedById,
+        ...publishing,
       },
     });
 
+    await recordRevision(article, editedById);
+    const relisted = announceArticle(article, previous);
+    invalidateSearchIndex();
+    invalidateOracleCorpus();
+    // Autosaves only refresh public pages when they change what is listed
+    if (request.nextUrl.searchParams.get("autosave") !== "true" || relisted) {
+      revalidateArticle(article, previous);
+    }
+
     return NextResponse.json({
       ...article,
       tags: JSON.parse(article.tags),
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { verifyPassword } from "@/lib/password";
+import { isRole } from "@/lib/roles";
+import {
+  BOOTSTRAP_SUBJECT,
+  SESSION_COOKIE,
+  SESSION_DURATION,
+  SessionPayload,
+  createSessionToken,
+  sessionCookieOptions,
+} from "@/lib/session";
+
+// ═══════════════════════════════════════════════════════════════════
+// ADMIN LOGIN - Verify credentials and issue a signed session cookie
+// "Know thyself" - Oracle at Delphi
+// ═══════════════════════════════════════════════════════════════════
+
+// Only used outside production when ADMIN_PASSWORD_HASH is not configured
+const DEV_PASSWORD = "stoic2025";
+
+// Bootstrap owner password, accepted only until the first User exists
+async function checkBootstrapPassword(password: string): Promise<boolean> {
+  const hash = process.env.ADMIN_PASSWORD_HASH;
+  if (hash) return verifyPassword(password, hash);
+  if (process.env.NODE_ENV === "production") {
+    console.error("ADMIN_PASSWORD_HASH is not set; refusing admin login");
+    return false;
+  }
+  return password === DEV_PASSWORD;
+}
+
+async function authenticate(email: string, password: string): Promise<Omit<SessionPayload, "expiresAt"> | null> {
+  const userCount = await prisma.user.count();
+
+  if (userCount === 0) {
+    if (!(await checkBootstrapPassword(password))) return null;
+    return { sub: BOOTSTRAP_SUBJECT, name: "Owner", role: "owner" };
+  }
+
+  const user = await prisma.user.findUnique({ where: { email: email.trim().toLowerCase() } });
+  if (!user || !isRole(user.role)) return null;
+  if (!(await verifyPassword(password, user.passwordHash))) return null;
+
+  return { sub: String(user.id), name: user.name, role: user.role };
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { email, password } = await request.json();
+
+    if (typeof password !== "string") {
+      return NextResponse.json({ error: "Invalid credentials" }, { status: 401 });
+    }
+
+    const identity = await authenticate(typeof email === "string" ? email : "", password);
+    if (!identity) {
+      return NextResponse.json({ error: "Invalid credentials" }, { status: 401 });
+    }
+
+    const expiresAt = Date.now() + SESSION_DURATION;
+    const token = await createSessionToken({ ...identity, expiresAt });
+
+    const response = NextResponse.json({
+      authenticated: true,
+      expiresAt,
+      user: { name: identity.name, role: identity.role },
+    });
+    response.cookies.set(SESSION_COOKIE, token, sessionCookieOptions(expiresAt));
+    return response;
+  } catch (error) {
+    console.error("Error logging in:", error);
+    return NextResponse.json({ error: "Failed to log in" }, { status: 500 });
+  }
+}
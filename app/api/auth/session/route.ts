@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRequestSession, sessionUserId } from "@/lib/session";
+
+// GET current admin session (never exposes the token itself)
+export async function GET(request: NextRequest) {
+  const session = await getRequestSession(request);
+
+  return NextResponse.json({
+    authenticated: !!session,
+    expiresAt: session?.expiresAt ?? null,
+    user: session
+      ? { id: sessionUserId(session), name: session.name, role: session.role }
+      : null,
+  });
+}
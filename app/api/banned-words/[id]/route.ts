@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+
+// DELETE banned word
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    await prisma.bannedWord.delete({ where: { id: parseInt(id) } });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting banned word:", error);
+    return NextResponse.json({ error: "Failed to delete banned word" }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+
+// ═══════════════════════════════════════════════════════════════════
+// BANNED WORDS API - Spam filter vocabulary for public answers
+// ═══════════════════════════════════════════════════════════════════
+
+// GET all banned words
+export async function GET() {
+  try {
+    const words = await prisma.bannedWord.findMany({
+      orderBy: { word: "asc" },
+    });
+    return NextResponse.json(words);
+  } catch (error) {
+    console.error("Error fetching banned words:", error);
+    return NextResponse.json({ error: "Failed to fetch banned words" }, { status: 500 });
+  }
+}
+
+// POST add a banned word (stored lowercase; adding one twice is a no-op)
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const word = typeof body.word === "string" ? body.word.trim().toLowerCase() : "";
+
+    if (!word || word.length > 60) {
+      return NextResponse.json({ error: "Word must be 1–60 characters" }, { status: 400 });
+    }
+
+    const bannedWord = await prisma.bannedWord.upsert({
+      where: { word },
+      create: { word },
+      update: {},
+    });
+    return NextResponse.json(bannedWord);
+  } catch (error) {
+    console.error("Error adding banned word:", error);
+    return NextResponse.json({ error: "Failed to add banned word" }, { status: 500 });
+  }
+}
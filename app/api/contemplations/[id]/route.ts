@@ -1,5 +1,9 @@
 import { NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
+import { publishLiveEvent } from "@/lib/events";
+import { revalidateCollectivePages } from "@/lib/contemplations";
+import { invalidateOracleCorpus } from "@/lib/oracleCorpus";
+import { setScheduleEntry, syncFeaturedContemplation, todayKey } from "@/lib/today";
 
 // ═══════════════════════════════════════════════════════════════════
 // SINGLE CONTEMPLATION API
@@ -15,8 +19,11 @@ export async function GET(
     const contemplation = await prisma.contemplation.findUnique({
       where: { id: parseInt(id) },
       include: {
+        // Pending and rejected answers stay inside the Sanctum
         answers: {
+          where: { approved: true },
           orderBy: { createdAt: "desc" },
+          select: { id: true, question: true, answer: true, author: true, color: true, createdAt: true },
         },
       },
     });
@@ -46,15 +53,29 @@ export async function PUT(
     const { id } = await params;
     const data = await request.json();
     
-    const contemplation = await prisma.contemplation.update({
+    let contemplation = await prisma.contemplation.update({
       where: { id: parseInt(id) },
       data: {
         question: data.question,
         active: data.active,
-        featured: data.featured,
+        inRotation: data.inRotation,
         order: data.order,
       },
     });
+
+    // `featured` is derived from the schedule: starring pins the question to today,
+    // unstarring hands today back to the rotation
+    const today = todayKey();
+    if (data.featured === true) {
+      await setScheduleEntry("contemplation", today, contemplation.id);
+    } else if (data.featured === false) {
+      const pinned = await prisma.scheduleEntry.findUnique({ where: { kind_date: { kind: "contemplation", date: today } } });
+      if (pinned?.contemplationId === contemplation.id) await setScheduleEntry("contemplation", today, null);
+    }
+    await syncFeaturedContemplation();
+    contemplation = await prisma.contemplation.findUniqueOrThrow({ where: { id: contemplation.id } });
+    invalidateOracleCorpus();
+    publishLiveEvent({ type: "contemplation.featured", id: contemplation.id, featured: contemplation.featured });
     
     return NextResponse.json(contemplation);
   } catch (error) {
@@ -79,9 +100,13 @@ export async function DELETE(
       data: { contemplationId: null },
     });
     
-    await prisma.contemplation.delete({
+    const contemplation = await prisma.contemplation.delete({
       where: { id: parseInt(id) },
     });
+    revalidateCollectivePages();
+    invalidateOracleCorpus();
+    await syncFeaturedContemplation();
+    publishLiveEvent({ type: "contemplation.featured", id: contemplation.id, featured: false });
     
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { getOrCreateVisitor, setVisitorCookie } from "@/lib/visitor";
+import { clientIp, consumeTokens, type RateLimitRule } from "@/lib/rateLimit";
+
+// ═══════════════════════════════════════════════════════════════════
+// CONTEMPLATION VOTES - One anonymous vote per visitor per question
+// ═══════════════════════════════════════════════════════════════════
+
+// The allowance reactions get: plenty for people, not for a script minting visitors
+const VOTE_RATE: RateLimitRule = { capacity: 20, refillMs: 3000 };
+
+// POST vote for a question; repeat votes from the same visitor are ignored
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const contemplationId = parseInt(id);
+
+    const contemplation = isNaN(contemplationId)
+      ? null
+      : await prisma.contemplation.findUnique({ where: { id: contemplationId } });
+    if (!contemplation || !contemplation.active) {
+      return NextResponse.json(
+        { error: "Contemplation not found" },
+        { status: 404 }
+      );
+    }
+
+    const visitor = await getOrCreateVisitor(request);
+    const limit = consumeTokens([`votes:ip:${clientIp(request)}`, `votes:${visitor.id}`], VOTE_RATE);
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { error: "Slow down a little." },
+        { status: 429, headers: { "Retry-After": String(limit.retryAfter) } }
+      );
+    }
+
+    await prisma.contemplationVote.upsert({
+      where: { contemplationId_visitorId: { contemplationId, visitorId: visitor.id } },
+      create: { contemplationId, visitorId: visitor.id },
+      update: {},
+    });
+    const votes = await prisma.contemplationVote.count({ where: { contemplationId } });
+
+    const response = NextResponse.json({ votes, voted: true });
+    setVisitorCookie(response, visitor);
+    return response;
+  } catch (error) {
+    console.error("Failed to record vote:", error);
+    return NextResponse.json(
+      { error: "Failed to record vote" },
+      { status: 500 }
+    );
+  }
+}
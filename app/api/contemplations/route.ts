@@ -1,24 +1,47 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
+import { publishLiveEvent } from "@/lib/events";
+import { getVisitorId } from "@/lib/visitor";
+import { invalidateOracleCorpus } from "@/lib/oracleCorpus";
+import { setScheduleEntry, syncFeaturedContemplation, todayKey } from "@/lib/today";
 
 // ═══════════════════════════════════════════════════════════════════
 // CONTEMPLATIONS API - Stoic Questions for Reflection
 // "The unexamined life is not worth living." - Socrates
 // ═══════════════════════════════════════════════════════════════════
 
-export async function GET() {
+// Each question carries its vote count, whether this visitor has voted and its approved answer count.
+// `featured` marks today's scheduled question.
+export async function GET(request: NextRequest) {
   try {
+    await syncFeaturedContemplation();
+    const visitorId = await getVisitorId(request);
     const contemplations = await prisma.contemplation.findMany({
       where: { active: true },
       orderBy: { order: "asc" },
       include: {
         answers: {
+          where: { approved: true },
           orderBy: { createdAt: "desc" },
           take: 5, // Last 5 answers per contemplation
+          select: { id: true, question: true, answer: true, author: true, color: true, createdAt: true },
+        },
+        _count: { select: { votes: true, answers: { where: { approved: true } } } },
+        votes: {
+          where: { visitorId: visitorId ?? "" },
+          select: { id: true },
         },
       },
     });
-    return NextResponse.json(contemplations);
+
+    return NextResponse.json(
+      contemplations.map(({ _count, votes, ...contemplation }) => ({
+        ...contemplation,
+        votes: _count.votes,
+        voted: votes.length > 0,
+        answerCount: _count.answers,
+      }))
+    );
   } catch (error) {
     console.error("Failed to fetch contemplations:", error);
     return NextResponse.json(
@@ -41,12 +64,20 @@ export async function POST(request: Request) {
       data: {
         question: data.question,
         active: data.active ?? true,
-        featured: data.featured ?? false,
+        inRotation: data.inRotation ?? true,
         order: data.order ?? (maxOrder._max.order ?? -1) + 1,
       },
     });
+    // `featured: true` pins the new question to today; otherwise it may still be the rotation's turn
+    if (data.featured) {
+      await setScheduleEntry("contemplation", todayKey(), contemplation.id);
+    } else {
+      await syncFeaturedContemplation();
+    }
+    invalidateOracleCorpus();
+    publishLiveEvent({ type: "contemplation.featured", id: contemplation.id, featured: false });
     
-    return NextResponse.json(contemplation);
+    return NextResponse.json(await prisma.contemplation.findUnique({ where: { id: contemplation.id } }));
   } catch (error) {
     console.error("Failed to create contemplation:", error);
     return NextResponse.json(
@@ -70,6 +101,9 @@ export async function PUT(request: Request) {
         })
       )
     );
+    // The rotation follows this order
+    await syncFeaturedContemplation();
+    publishLiveEvent({ type: "contemplation.featured", id: null, featured: false });
     
     return NextResponse.json({ success: true });
   } catch (error) {
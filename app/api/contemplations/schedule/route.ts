@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { isDateKey, isMonthKey, monthOf } from "@/lib/schedule";
+import { getScheduleMonth, setScheduleEntry, todayKey } from "@/lib/today";
+
+// ═══════════════════════════════════════════════════════════════════
+// CONTEMPLATION SCHEDULE API - Questions pinned to calendar days
+// ═══════════════════════════════════════════════════════════════════
+
+// GET ?month=YYYY-MM - each day's question and whether it is pinned or the rotation's turn
+export async function GET(request: NextRequest) {
+  try {
+    const month = request.nextUrl.searchParams.get("month") ?? monthOf(todayKey());
+    if (!isMonthKey(month)) {
+      return NextResponse.json({ error: "Invalid month" }, { status: 400 });
+    }
+    return NextResponse.json(await getScheduleMonth("contemplation", month));
+  } catch (error) {
+    console.error("Failed to fetch contemplation schedule:", error);
+    return NextResponse.json({ error: "Failed to fetch schedule" }, { status: 500 });
+  }
+}
+
+// PUT { date, contemplationId } pins a question to a day; a null id hands the day back to the rotation
+export async function PUT(request: Request) {
+  try {
+    const { date, contemplationId } = await request.json();
+    if (!isDateKey(date)) {
+      return NextResponse.json({ error: "Invalid date" }, { status: 400 });
+    }
+    if (date < todayKey()) {
+      return NextResponse.json({ error: "Past days can't be rescheduled" }, { status: 400 });
+    }
+    if (contemplationId !== null && !Number.isInteger(contemplationId)) {
+      return NextResponse.json({ error: "Invalid contemplation" }, { status: 400 });
+    }
+    if (contemplationId !== null) {
+      const exists = await prisma.contemplation.count({ where: { id: contemplationId } });
+      if (!exists) {
+        return NextResponse.json({ error: "Contemplation not found" }, { status: 404 });
+      }
+    }
+
+    await setScheduleEntry("contemplation", date, contemplationId);
+    return NextResponse.json(await getScheduleMonth("contemplation", monthOf(date)));
+  } catch (error) {
+    console.error("Failed to update contemplation schedule:", error);
+    return NextResponse.json({ error: "Failed to update schedule" }, { status: 500 });
+  }
+}
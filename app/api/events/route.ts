@@ -0,0 +1,62 @@
+import { NextRequest } from "next/server";
+import { onLiveEvent } from "@/lib/events";
+
+// ═══════════════════════════════════════════════════════════════════
+// EVENTS API - Server-Sent Events stream of content changes
+// ═══════════════════════════════════════════════════════════════════
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Comment line that keeps proxies from closing an idle stream
+const HEARTBEAT_INTERVAL = 25000;
+
+export async function GET(request: NextRequest) {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      const unsubscribe = onLiveEvent((event) => {
+        send(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      });
+      const heartbeat = setInterval(() => send(": ping\n\n"), HEARTBEAT_INTERVAL);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+
+      request.signal.addEventListener("abort", () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      });
+
+      send(": connected\n\n");
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import {
+  GLOSSARY_INCLUDE,
+  findNameConflict,
+  parseGlossaryFields,
+  parseGlossaryTerm,
+  revalidateGlossaryPages,
+} from "@/lib/glossaryTerms";
+
+async function termExists(id: number): Promise<boolean> {
+  return Number.isInteger(id) && !!(await prisma.glossaryTerm.findUnique({ where: { id }, select: { id: true } }));
+}
+
+// GET single glossary term
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const id = parseInt((await params).id);
+    const term = Number.isInteger(id) && (await prisma.glossaryTerm.findUnique({
+      where: { id },
+      include: GLOSSARY_INCLUDE,
+    }));
+
+    if (!term) {
+      return NextResponse.json({ error: "Glossary term not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(parseGlossaryTerm(term));
+  } catch (error) {
+    console.error("Error fetching glossary term:", error);
+    return NextResponse.json({ error: "Failed to fetch glossary term" }, { status: 500 });
+  }
+}
+
+// PUT update glossary term
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const id = parseInt((await params).id);
+    if (!(await termExists(id))) {
+      return NextResponse.json({ error: "Glossary term not found" }, { status: 404 });
+    }
+    const fields = parseGlossaryFields(await request.json());
+    if ("error" in fields) {
+      return NextResponse.json({ error: fields.error }, { status: 400 });
+    }
+
+    const conflict = await findNameConflict([fields.term, ...fields.aliases], id);
+    if (conflict) {
+      return NextResponse.json({ error: `"${conflict}" is already in the glossary` }, { status: 409 });
+    }
+
+    const term = await prisma.glossaryTerm.update({
+      where: { id },
+      data: { ...fields, aliases: JSON.stringify(fields.aliases) },
+      include: GLOSSARY_INCLUDE,
+    });
+
+    revalidateGlossaryPages();
+    return NextResponse.json(parseGlossaryTerm(term));
+  } catch (error) {
+    console.error("Error updating glossary term:", error);
+    return NextResponse.json({ error: "Failed to update glossary term" }, { status: 500 });
+  }
+}
+
+// DELETE glossary term
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const id = parseInt((await params).id);
+    if (!(await termExists(id))) {
+      return NextResponse.json({ error: "Glossary term not found" }, { status: 404 });
+    }
+    await prisma.glossaryTerm.delete({ where: { id } });
+    revalidateGlossaryPages();
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting glossary term:", error);
+    return NextResponse.json({ error: "Failed to delete glossary term" }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import {
+  GLOSSARY_INCLUDE,
+  findNameConflict,
+  getGlossary,
+  parseGlossaryFields,
+  parseGlossaryTerm,
+  revalidateGlossaryPages,
+} from "@/lib/glossaryTerms";
+
+// ═══════════════════════════════════════════════════════════════════
+// GLOSSARY API - Public reads for hover cards; writes need "glossary"
+// ═══════════════════════════════════════════════════════════════════
+
+// GET all glossary terms
+export async function GET() {
+  try {
+    return NextResponse.json(await getGlossary());
+  } catch (error) {
+    console.error("Error fetching glossary:", error);
+    return NextResponse.json({ error: "Failed to fetch glossary" }, { status: 500 });
+  }
+}
+
+// POST create glossary term
+export async function POST(request: NextRequest) {
+  try {
+    const fields = parseGlossaryFields(await request.json());
+    if ("error" in fields) {
+      return NextResponse.json({ error: fields.error }, { status: 400 });
+    }
+
+    const conflict = await findNameConflict([fields.term, ...fields.aliases]);
+    if (conflict) {
+      return NextResponse.json({ error: `"${conflict}" is already in the glossary` }, { status: 409 });
+    }
+
+    const term = await prisma.glossaryTerm.create({
+      data: { ...fields, aliases: JSON.stringify(fields.aliases) },
+      include: GLOSSARY_INCLUDE,
+    });
+
+    revalidateGlossaryPages();
+    return NextResponse.json(parseGlossaryTerm(term));
+  } catch (error) {
+    console.error("Error creating glossary term:", error);
+    return NextResponse.json({ error: "Failed to create glossary term" }, { status: 500 });
+  }
+}
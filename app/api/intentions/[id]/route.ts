@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
+import { publishLiveEvent } from "@/lib/events";
 
 // GET single intention
 export async function GET(
@@ -37,10 +38,12 @@ export async function PUT(
       data: {
         text: body.text,
         active: body.active,
+        inRotation: body.inRotation,
         order: body.order,
       },
     });
 
+    publishLiveEvent({ type: "intention.updated", id: intention.id });
     return NextResponse.json(intention);
   } catch (error) {
     console.error("Error updating intention:", error);
@@ -55,7 +58,8 @@ export async function DELETE(
 ) {
   try {
     const { id } = await params;
-    await prisma.dailyIntention.delete({ where: { id: parseInt(id) } });
+    const intention = await prisma.dailyIntention.delete({ where: { id: parseInt(id) } });
+    publishLiveEvent({ type: "intention.updated", id: intention.id });
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Error deleting intention:", error);
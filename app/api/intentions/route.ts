@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
+import { publishLiveEvent } from "@/lib/events";
 
 // GET all daily intentions
 export async function GET() {
@@ -31,10 +32,12 @@ export async function POST(request: NextRequest) {
       data: {
         text: body.text,
         active: body.active ?? true,
+        inRotation: body.inRotation ?? true,
         order: (maxOrder?.order ?? 0) + 1,
       },
     });
 
+    publishLiveEvent({ type: "intention.updated", id: intention.id });
     return NextResponse.json(intention);
   } catch (error) {
     console.error("Error creating intention:", error);
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { isDateKey, isMonthKey, monthOf } from "@/lib/schedule";
+import { getScheduleMonth, setScheduleEntry, todayKey } from "@/lib/today";
+
+// ═══════════════════════════════════════════════════════════════════
+// INTENTION SCHEDULE API - Daily intentions pinned to calendar days
+// ═══════════════════════════════════════════════════════════════════
+
+// GET ?month=YYYY-MM - each day's intention and whether it is pinned or the rotation's turn
+export async function GET(request: NextRequest) {
+  try {
+    const month = request.nextUrl.searchParams.get("month") ?? monthOf(todayKey());
+    if (!isMonthKey(month)) {
+      return NextResponse.json({ error: "Invalid month" }, { status: 400 });
+    }
+    return NextResponse.json(await getScheduleMonth("intention", month));
+  } catch (error) {
+    console.error("Failed to fetch intention schedule:", error);
+    return NextResponse.json({ error: "Failed to fetch schedule" }, { status: 500 });
+  }
+}
+
+// PUT { date, intentionId } pins an intention to a day; a null id hands the day back to the rotation
+export async function PUT(request: Request) {
+  try {
+    const { date, intentionId } = await request.json();
+    if (!isDateKey(date)) {
+      return NextResponse.json({ error: "Invalid date" }, { status: 400 });
+    }
+    if (date < todayKey()) {
+      return NextResponse.json({ error: "Past days can't be rescheduled" }, { status: 400 });
+    }
+    if (intentionId !== null && !Number.isInteger(intentionId)) {
+      return NextResponse.json({ error: "Invalid intention" }, { status: 400 });
+    }
+    if (intentionId !== null) {
+      const exists = await prisma.dailyIntention.count({ where: { id: intentionId } });
+      if (!exists) {
+        return NextResponse.json({ error: "Intention not found" }, { status: 404 });
+      }
+    }
+
+    await setScheduleEntry("intention", date, intentionId);
+    return NextResponse.json(await getScheduleMonth("intention", monthOf(date)));
+  } catch (error) {
+    console.error("Failed to update intention schedule:", error);
+    return NextResponse.json({ error: "Failed to update schedule" }, { status: 500 });
+  }
+}
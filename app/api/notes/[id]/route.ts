@@ -1,5 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
+import { publishLiveEvent } from "@/lib/events";
+import { revalidateCollectivePages } from "@/lib/contemplations";
+import { invalidateSearchIndex } from "@/lib/searchIndex";
+import { STICKY_COLORS, clampPosition } from "@/lib/board";
+import { getRequestSession } from "@/lib/session";
+import { moderateAnswers } from "@/lib/moderation";
+
+// What visitors see of a note; the rest is board layout
+const CONTENT_FIELDS = ["question", "answer", "author", "color"] as const;
 
 // GET single note
 export async function GET(
@@ -25,27 +34,48 @@ export async function GET(
   }
 }
 
-// PUT update note
+// PUT update note (partial: the board editor only sends position, rotation and pinned)
 export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id } = await params;
+    const noteId = parseInt(id);
     const body = await request.json();
 
+    if (body.color !== undefined && !Object.keys(STICKY_COLORS).includes(body.color)) {
+      return NextResponse.json({ error: "Unknown color" }, { status: 400 });
+    }
+    const previous = Number.isInteger(noteId) && (await prisma.stickyNote.findUnique({ where: { id: noteId } }));
+    if (!previous) {
+      return NextResponse.json({ error: "Note not found" }, { status: 404 });
+    }
+
+    const position = body.position && clampPosition({
+      x: Number(body.position.x) || 0,
+      y: Number(body.position.y) || 0,
+    });
+
     const note = await prisma.stickyNote.update({
-      where: { id: parseInt(id) },
+      where: { id: noteId },
       data: {
-        question: body.question,
-        answer: body.answer,
-        author: body.author,
-        color: body.color || "gold",
-        positionX: body.position?.x || 20,
-        positionY: body.position?.y || 20,
-        rotation: body.rotation || 0,
+        ...(body.question !== undefined && { question: body.question }),
+        ...(body.answer !== undefined && { answer: body.answer }),
+        ...(body.author !== undefined && { author: body.author }),
+        ...(body.color !== undefined && { color: body.color }),
+        ...(position && { positionX: position.x, positionY: position.y }),
+        ...(body.rotation !== undefined && { rotation: Math.round(Number(body.rotation)) || 0 }),
+        ...(typeof body.pinned === "boolean" && { pinned: body.pinned }),
       },
     });
+    // Drags, pins and rotations leave the public pages, live feeds and search index alone
+    const contentChanged = CONTENT_FIELDS.some((field) => note[field] !== previous[field]);
+    if (note.approved && contentChanged) {
+      publishLiveEvent({ type: "answer.approved", id: note.id, contemplationId: note.contemplationId, approved: true });
+      revalidateCollectivePages();
+      invalidateSearchIndex();
+    }
 
     return NextResponse.json({
       ...note,
@@ -58,14 +88,19 @@ export async function PUT(
   }
 }
 
-// DELETE note
+// DELETE note: a rejection, so it is logged and can be restored within the window
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id } = await params;
-    await prisma.stickyNote.delete({ where: { id: parseInt(id) } });
+    const session = await getRequestSession(request);
+
+    const removed = await moderateAnswers([parseInt(id)], "reject", session, "Removed from the board");
+    if (removed.length === 0) {
+      return NextResponse.json({ error: "Note not found" }, { status: 404 });
+    }
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Error deleting note:", error);
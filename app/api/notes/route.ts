@@ -1,10 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
+import { STICKY_COLORS, clampPosition } from "@/lib/board";
 
 // GET all sticky notes
 export async function GET() {
   try {
+    // Rejected notes wait out their restore window off the board
     const notes = await prisma.stickyNote.findMany({
+      where: { rejectedAt: null },
       orderBy: { createdAt: "desc" },
     });
 
@@ -22,20 +25,34 @@ export async function GET() {
   }
 }
 
-// POST create sticky note
+// POST create sticky note; a note created with a position is pinned there, the rest are packed
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
 
+    const fields = [body.question, body.answer, body.author];
+    if (!fields.every((field) => typeof field === "string" && field.trim())) {
+      return NextResponse.json({ error: "Question, answer and author are required" }, { status: 400 });
+    }
+    if (body.color !== undefined && !Object.keys(STICKY_COLORS).includes(body.color)) {
+      return NextResponse.json({ error: "Unknown color" }, { status: 400 });
+    }
+
+    const x = Number(body.position?.x);
+    const y = Number(body.position?.y);
+    if (body.position !== undefined && !(Number.isFinite(x) && Number.isFinite(y))) {
+      return NextResponse.json({ error: "Invalid position" }, { status: 400 });
+    }
+    const position = body.position !== undefined && clampPosition({ x, y });
+
     const note = await prisma.stickyNote.create({
       data: {
-        question: body.question,
-        answer: body.answer,
-        author: body.author,
-        color: body.color || "gold",
-        positionX: body.position?.x || 20,
-        positionY: body.position?.y || 20,
-        rotation: body.rotation || 0,
+        question: body.question.trim(),
+        answer: body.answer.trim(),
+        author: body.author.trim(),
+        color: body.color ?? "gold",
+        ...(position && { positionX: position.x, positionY: position.y, pinned: true }),
+        rotation: Math.round(Number(body.rotation)) || 0,
       },
     });
 
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { getOrCreateVisitor, getVisitorId, setVisitorCookie } from "@/lib/visitor";
+import { clientIp, consumeTokens, type RateLimitRule } from "@/lib/rateLimit";
+import { ORACLE_MESSAGE_MAX } from "@/lib/oracle";
+import { getOracleHistory } from "@/lib/oracleCorpus";
+import { answerOracle } from "@/lib/oracleReply";
+
+// ═══════════════════════════════════════════════════════════════════
+// ORACLE API - The Voices view's conversation, kept per visitor
+// ═══════════════════════════════════════════════════════════════════
+
+export const runtime = "nodejs";
+
+// A conversation's pace, not a script's
+const ASK_RATE: RateLimitRule = { capacity: 6, refillMs: 5000 };
+
+// Model calls cost money or CPU; past this budget replies come from retrieval only
+const GENERATE_RATE: RateLimitRule = { capacity: 5, refillMs: 60 * 1000 };
+
+// GET the visitor's conversation so far
+export async function GET(request: NextRequest) {
+  try {
+    const visitorId = await getVisitorId(request);
+    return NextResponse.json(visitorId ? await getOracleHistory(visitorId) : []);
+  } catch (error) {
+    console.error("Failed to fetch oracle history:", error);
+    return NextResponse.json({ error: "Failed to fetch conversation" }, { status: 500 });
+  }
+}
+
+// POST { message } streams OracleEvents: the stored message, reply tokens, then the stored reply
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const message = typeof body.message === "string" ? body.message.trim() : "";
+    if (!message || message.length > ORACLE_MESSAGE_MAX) {
+      return NextResponse.json(
+        { error: `Messages must be 1–${ORACLE_MESSAGE_MAX} characters` },
+        { status: 400 }
+      );
+    }
+
+    const visitor = await getOrCreateVisitor(request);
+    const limit = consumeTokens([`oracle:ip:${clientIp(request)}`, `oracle:${visitor.id}`], ASK_RATE);
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { error: "The oracle is still thinking. Ask again in a moment." },
+        { status: 429, headers: { "Retry-After": String(limit.retryAfter) } }
+      );
+    }
+
+    const allowModel = consumeTokens(
+      [`oracle:generate:ip:${clientIp(request)}`, `oracle:generate:${visitor.id}`],
+      GENERATE_RATE
+    ).allowed;
+
+    const encoder = new TextEncoder();
+    const events = answerOracle(visitor.id, message, { allowModel, signal: request.signal });
+    const stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { done, value } = await events.next();
+          if (done) {
+            controller.close();
+          } else {
+            controller.enqueue(encoder.encode(`event: ${value.type}\ndata: ${JSON.stringify(value)}\n\n`));
+          }
+        } catch (error) {
+          console.error("Failed to consult oracle:", error);
+          controller.error(error);
+        }
+      },
+      async cancel() {
+        await events.return(undefined);
+      },
+    });
+
+    const response = new NextResponse(stream, {
+      headers: {
+        "Content-Type": "text/event-stream; charset=utf-8",
+        "Cache-Control": "no-cache, no-transform",
+        "X-Accel-Buffering": "no",
+      },
+    });
+    setVisitorCookie(response, visitor);
+    return response;
+  } catch (error) {
+    console.error("Failed to consult oracle:", error);
+    return NextResponse.json({ error: "Failed to consult the oracle" }, { status: 500 });
+  }
+}
+
+// DELETE forgets the visitor's conversation
+export async function DELETE(request: NextRequest) {
+  try {
+    const visitorId = await getVisitorId(request);
+    if (visitorId) await prisma.oracleMessage.deleteMany({ where: { visitorId } });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to clear oracle history:", error);
+    return NextResponse.json({ error: "Failed to clear conversation" }, { status: 500 });
+  }
+}
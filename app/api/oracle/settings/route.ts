@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { configuredModel } from "@/lib/llm";
+import { getOracleSettings, saveOracleSettings } from "@/lib/oracleReply";
+
+// ═══════════════════════════════════════════════════════════════════
+// ORACLE SETTINGS API - Persona and instructions for the language model
+// ═══════════════════════════════════════════════════════════════════
+
+// GET the settings, plus which provider the environment configures (null: retrieval only)
+export async function GET() {
+  try {
+    return NextResponse.json({ ...(await getOracleSettings()), provider: configuredModel()?.name ?? null });
+  } catch (error) {
+    console.error("Error fetching oracle settings:", error);
+    return NextResponse.json({ error: "Failed to fetch oracle settings" }, { status: 500 });
+  }
+}
+
+// PUT update settings
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    return NextResponse.json({ ...(await saveOracleSettings(body)), provider: configuredModel()?.name ?? null });
+  } catch (error) {
+    console.error("Error updating oracle settings:", error);
+    return NextResponse.json({ error: "Failed to update oracle settings" }, { status: 500 });
+  }
+}
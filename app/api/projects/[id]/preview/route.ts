@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { createPreviewToken } from "@/lib/preview";
+
+// ═══════════════════════════════════════════════════════════════════
+// PROJECT PREVIEW API - Shareable links to drafts
+// ═══════════════════════════════════════════════════════════════════
+
+// POST mint a preview link for a project
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const project = await prisma.project.findUnique({
+      where: { id: parseInt(id) },
+      select: { id: true, slug: true },
+    });
+
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const { token, expiresAt } = await createPreviewToken("project", project.id);
+    return NextResponse.json({
+      url: `/work/${project.slug}/preview?token=${token}`,
+      expiresAt,
+    });
+  } catch (error) {
+    console.error("Error creating project preview:", error);
+    return NextResponse.json({ error: "Failed to create preview link" }, { status: 500 });
+  }
+}
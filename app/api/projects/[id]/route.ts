@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
+import { announceProject, revalidateProject } from "@/lib/projects";
+import { invalidateSearchIndex } from "@/lib/searchIndex";
+import { isViewable, parsePublishFields } from "@/lib/publishing";
+import { canPreview } from "@/lib/preview";
 
 // GET single project
 export async function GET(
@@ -20,7 +24,8 @@ export async function GET(
       project = await prisma.project.findUnique({ where: { slug: id } });
     }
 
-    if (!project) {
+    // Drafts and future projects look missing unless previewed
+    if (!project || (!isViewable(project) && !(await canPreview(request, "project", project.id)))) {
       return NextResponse.json({ error: "Project not found" }, { status: 404 });
     }
 
@@ -47,6 +52,13 @@ export async function PUT(
     const { id } = await params;
     const body = await request.json();
 
+    // Status is optional here so partial saves keep the current one
+    const publishing = parsePublishFields(body, "draft");
+    if ("error" in publishing) {
+      return NextResponse.json({ error: publishing.error }, { status: 400 });
+    }
+
+    const previous = await prisma.project.findUnique({ where: { id: parseInt(id) } });
     const project = await prisma.project.update({
       where: { id: parseInt(id) },
       data: {
@@ -63,8 +75,12 @@ export async function PUT(
         philosophy: body.philosophy ? JSON.stringify(body.philosophy) : null,
         sections: body.sections ? JSON.stringify(body.sections) : null,
         gallery: body.gallery ? JSON.stringify(body.gallery) : null,
+        ...(body.publishStatus !== undefined && publishing),
       },
     });
+    revalidateProject(project, previous);
+    announceProject(project, previous);
+    invalidateSearchIndex();
 
     return NextResponse.json({
       ...project,
@@ -87,7 +103,10 @@ export async function DELETE(
 ) {
   try {
     const { id } = await params;
-    await prisma.project.delete({ where: { id: parseInt(id) } });
+    const project = await prisma.project.delete({ where: { id: parseInt(id) } });
+    revalidateProject(project);
+    announceProject(null, project);
+    invalidateSearchIndex();
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Error deleting project:", error);
@@ -1,10 +1,27 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
+import { announceProject, revalidateProject } from "@/lib/projects";
+import { invalidateSearchIndex } from "@/lib/searchIndex";
+import { getRequestSession } from "@/lib/session";
+import { isPublishStatus, listedWhere, parsePublishFields } from "@/lib/publishing";
 
-// GET all projects
-export async function GET() {
+// GET all projects (?all=true includes drafts for admin, ?status= narrows it)
+export async function GET(request: NextRequest) {
   try {
+    const session = await getRequestSession(request);
+    const { searchParams } = new URL(request.url);
+    const showAll = session && searchParams.get("all") === "true";
+    const status = searchParams.get("status");
+
+    let where = {};
+    if (!showAll) {
+      where = listedWhere();
+    } else if (isPublishStatus(status)) {
+      where = { publishStatus: status };
+    }
+
     const projects = await prisma.project.findMany({
+      where,
       orderBy: { year: "desc" },
     });
 
@@ -29,6 +46,12 @@ export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
 
+    // New projects start as drafts unless told otherwise
+    const publishing = parsePublishFields(body, "draft");
+    if ("error" in publishing) {
+      return NextResponse.json({ error: publishing.error }, { status: 400 });
+    }
+
     const project = await prisma.project.create({
       data: {
         slug: body.slug,
@@ -44,8 +67,12 @@ export async function POST(request: NextRequest) {
         philosophy: body.philosophy ? JSON.stringify(body.philosophy) : null,
         sections: body.sections ? JSON.stringify(body.sections) : null,
         gallery: body.gallery ? JSON.stringify(body.gallery) : null,
+        ...publishing,
       },
     });
+    revalidateProject(project);
+    announceProject(project, null);
+    invalidateSearchIndex();
 
     return NextResponse.json({
       ...project,
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
+import { revalidateGlossaryPages } from "@/lib/glossaryTerms";
+import { invalidateSearchIndex } from "@/lib/searchIndex";
+import { invalidateOracleCorpus } from "@/lib/oracleCorpus";
 
 // GET single quote
 export async function GET(
@@ -40,6 +43,10 @@ export async function PUT(
       },
     });
 
+    // Glossary hover cards may cite it
+    revalidateGlossaryPages();
+    invalidateSearchIndex();
+    invalidateOracleCorpus();
     return NextResponse.json(quote);
   } catch (error) {
     console.error("Error updating quote:", error);
@@ -55,6 +62,9 @@ export async function DELETE(
   try {
     const { id } = await params;
     await prisma.quote.delete({ where: { id: parseInt(id) } });
+    revalidateGlossaryPages();
+    invalidateSearchIndex();
+    invalidateOracleCorpus();
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Error deleting quote:", error);
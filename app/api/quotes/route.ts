@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
+import { invalidateSearchIndex } from "@/lib/searchIndex";
+import { invalidateOracleCorpus } from "@/lib/oracleCorpus";
 
 // GET all quotes
 export async function GET() {
@@ -26,6 +28,8 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    invalidateSearchIndex();
+    invalidateOracleCorpus();
     return NextResponse.json(quote);
   } catch (error) {
     console.error("Error creating quote:", error);
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SEARCH_LIMIT, SEARCH_QUERY_MAX } from "@/lib/search";
+import { searchSite } from "@/lib/searchIndex";
+
+// ═══════════════════════════════════════════════════════════════════
+// SEARCH API - Ranked, highlighted results for the ⌘K palette
+// ═══════════════════════════════════════════════════════════════════
+
+export const runtime = "nodejs";
+
+// GET ?q=<query> returns SearchResult[], best first
+export async function GET(request: NextRequest) {
+  try {
+    const query = request.nextUrl.searchParams.get("q")?.trim() ?? "";
+    if (query.length > SEARCH_QUERY_MAX) {
+      return NextResponse.json(
+        { error: `Searches must be at most ${SEARCH_QUERY_MAX} characters` },
+        { status: 400 }
+      );
+    }
+    if (!query) return NextResponse.json([]);
+
+    return NextResponse.json(await searchSite(query, SEARCH_LIMIT));
+  } catch (error) {
+    console.error("Error searching:", error);
+    return NextResponse.json({ error: "Failed to search" }, { status: 500 });
+  }
+}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
+import { glossarySeedRows } from "@/lib/glossarySeed";
+import { invalidateSearchIndex } from "@/lib/searchIndex";
+import { invalidateOracleCorpus } from "@/lib/oracleCorpus";
 
 // ═══════════════════════════════════════════════════════════════════
 // SEED DATABASE - Populate with initial Stoic content
@@ -19,6 +22,7 @@ export async function POST(request: NextRequest) {
       quotes: await prisma.quote.count(),
       notes: await prisma.stickyNote.count(),
       intentions: await prisma.dailyIntention.count(),
+      glossary: await prisma.glossaryTerm.count(),
       profile: await prisma.profile.count(),
     };
 
@@ -29,6 +33,7 @@ export async function POST(request: NextRequest) {
       quotes: 0,
       stickyNotes: 0,
       intentions: 0,
+      glossary: 0,
       skipped: [] as string[],
     };
 
@@ -40,6 +45,7 @@ export async function POST(request: NextRequest) {
       await prisma.article.deleteMany();
       await prisma.profile.deleteMany();
       await prisma.dailyIntention.deleteMany();
+      await prisma.glossaryTerm.deleteMany();
     }
 
     // Seed Profile (only if empty or reset)
@@ -348,6 +354,19 @@ export async function POST(request: NextRequest) {
       results.skipped.push("intentions");
     }
 
+    // Seed Glossary (only if empty or reset)
+    if (existingCounts.glossary === 0 || forceReset) {
+      const terms = glossarySeedRows();
+      await prisma.glossaryTerm.createMany({ data: terms });
+      results.glossary = terms.length;
+    } else {
+      results.skipped.push("glossary");
+    }
+
+    // Seeded and deleted rows must not linger in the cached indexes
+    invalidateSearchIndex();
+    invalidateOracleCorpus();
+
     return NextResponse.json({
       success: true,
       message: forceReset 
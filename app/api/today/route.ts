@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { getToday } from "@/lib/today";
+
+// ═══════════════════════════════════════════════════════════════════
+// TODAY API - Today's question and intention, decided in SITE_TIMEZONE
+// ═══════════════════════════════════════════════════════════════════
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    return NextResponse.json(await getToday());
+  } catch (error) {
+    console.error("Failed to resolve today:", error);
+    return NextResponse.json({ error: "Failed to resolve today" }, { status: 500 });
+  }
+}
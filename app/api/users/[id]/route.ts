@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { hashPassword } from "@/lib/password";
+import { isRole } from "@/lib/roles";
+import { USER_SELECT, isLastOwner } from "@/lib/users";
+
+// PUT update admin account (name, role, optional new password)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const userId = parseInt(id);
+    const body = await request.json();
+
+    if (body.role !== undefined && !isRole(body.role)) {
+      return NextResponse.json({ error: "Invalid role" }, { status: 400 });
+    }
+    if (body.role && body.role !== "owner" && (await isLastOwner(userId))) {
+      return NextResponse.json({ error: "Cannot demote the last owner" }, { status: 400 });
+    }
+
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: {
+        name: body.name,
+        role: body.role,
+        ...(body.password && { passwordHash: await hashPassword(body.password) }),
+      },
+      select: USER_SELECT,
+    });
+
+    return NextResponse.json(user);
+  } catch (error) {
+    console.error("Error updating user:", error);
+    return NextResponse.json({ error: "Failed to update user" }, { status: 500 });
+  }
+}
+
+// DELETE admin account
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const userId = parseInt(id);
+
+    if (await isLastOwner(userId)) {
+      return NextResponse.json({ error: "Cannot delete the last owner" }, { status: 400 });
+    }
+
+    await prisma.user.delete({ where: { id: userId } });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting user:", error);
+    return NextResponse.json({ error: "Failed to delete user" }, { status: 500 });
+  }
+}
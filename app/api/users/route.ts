@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { hashPassword } from "@/lib/password";
+import { isRole } from "@/lib/roles";
+import { USER_SELECT } from "@/lib/users";
+
+// ═══════════════════════════════════════════════════════════════════
+// ADMIN ACCOUNTS API - Owner-only (enforced in middleware)
+// ═══════════════════════════════════════════════════════════════════
+
+// GET all admin accounts
+export async function GET() {
+  try {
+    const users = await prisma.user.findMany({
+      orderBy: { createdAt: "asc" },
+      select: USER_SELECT,
+    });
+    return NextResponse.json(users);
+  } catch (error) {
+    console.error("Error fetching users:", error);
+    return NextResponse.json({ error: "Failed to fetch users" }, { status: 500 });
+  }
+}
+
+// POST create admin account
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (!body.email || !body.name || !body.password) {
+      return NextResponse.json(
+        { error: "Email, name and password are required" },
+        { status: 400 }
+      );
+    }
+    if (!isRole(body.role)) {
+      return NextResponse.json({ error: "Invalid role" }, { status: 400 });
+    }
+
+    // Bootstrap login stops working once any account exists, so it must be an owner
+    if ((await prisma.user.count()) === 0 && body.role !== "owner") {
+      return NextResponse.json(
+        { error: "The first account must be an owner" },
+        { status: 400 }
+      );
+    }
+
+    const email = String(body.email).trim().toLowerCase();
+    const existing = await prisma.user.findUnique({ where: { email } });
+    if (existing) {
+      return NextResponse.json({ error: "Email already in use" }, { status: 409 });
+    }
+
+    const user = await prisma.user.create({
+      data: {
+        email,
+        name: body.name,
+        role: body.role,
+        passwordHash: await hashPassword(body.password),
+      },
+      select: USER_SELECT,
+    });
+
+    return NextResponse.json(user);
+  } catch (error) {
+    console.error("Error creating user:", error);
+    return NextResponse.json({ error: "Failed to create user" }, { status: 500 });
+  }
+}
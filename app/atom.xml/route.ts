@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { FEED_CACHE_CONTROL, getWritingFeed, renderAtom } from "@/lib/feed";
+
+// GET Atom feed of published articles
+export async function GET(request: NextRequest) {
+  try {
+    const feed = await getWritingFeed(request.nextUrl.origin);
+    return new NextResponse(renderAtom(feed, `${feed.origin}/atom.xml`), {
+      headers: {
+        "Content-Type": "application/atom+xml; charset=utf-8",
+        "Cache-Control": FEED_CACHE_CONTROL,
+      },
+    });
+  } catch (error) {
+    console.error("Error building Atom feed:", error);
+    return NextResponse.json({ error: "Failed to build feed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,83 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { answerPermalink, getContemplationAnswer } from "@/lib/contemplations";
+import { STICKY_COLORS } from "@/lib/board";
+import { SITE_NAME } from "@/lib/site";
+
+// ═══════════════════════════════════════════════════════════════════
+// ANSWER PERMALINK - One answer on its own, for sharing
+// ═══════════════════════════════════════════════════════════════════
+
+export const revalidate = 3600;
+
+type Props = { params: Promise<{ id: string; answerId: string }> };
+
+async function load({ params }: Props) {
+  const { id, answerId } = await params;
+  const contemplationId = parseInt(id);
+  const noteId = parseInt(answerId);
+  if (isNaN(contemplationId) || isNaN(noteId)) return null;
+  const answer = await getContemplationAnswer(contemplationId, noteId);
+  return answer && { ...answer, contemplationId };
+}
+
+export async function generateMetadata(props: Props): Promise<Metadata> {
+  const answer = await load(props);
+  if (!answer) return {};
+
+  const title = `${answer.author} on “${answer.question}”`;
+  const description = answer.answer.length > 160 ? `${answer.answer.slice(0, 157)}…` : answer.answer;
+  return {
+    title: `${title} | ${SITE_NAME}`,
+    description,
+    alternates: { canonical: answerPermalink(answer.contemplationId, answer.id) },
+    openGraph: { title, description, siteName: SITE_NAME },
+    twitter: { card: "summary", title, description },
+  };
+}
+
+export default async function AnswerPermalinkPage(props: Props) {
+  const answer = await load(props);
+  if (!answer) notFound();
+
+  const context = `/collective/${answer.contemplationId}${answer.page > 1 ? `?page=${answer.page}` : ""}#answer-${answer.id}`;
+
+  return (
+    <main className="min-h-screen px-6 py-24" style={{ backgroundColor: 'var(--bg-primary)' }}>
+      <div className="max-w-xl mx-auto">
+        <Link
+          href={context}
+          className="text-sm transition-opacity hover:opacity-70"
+          style={{ color: 'var(--text-muted)' }}
+        >
+          ← All answers to this question
+        </Link>
+
+        <article
+          className="mt-12 p-8 pt-10"
+          style={{
+            backgroundColor: STICKY_COLORS[answer.color] || STICKY_COLORS.gold,
+            boxShadow: '4px 8px 24px rgba(0,0,0,0.25)',
+          }}
+        >
+          <p className="text-sm uppercase tracking-wider mb-4 font-medium" style={{ color: 'rgba(0,0,0,0.5)' }}>
+            {answer.question}
+          </p>
+          <p
+            className="text-xl leading-relaxed mb-6 italic"
+            style={{ color: 'rgba(0,0,0,0.85)', fontFamily: "'Georgia', serif" }}
+          >
+            &ldquo;{answer.answer}&rdquo;
+          </p>
+          <div className="flex items-center justify-between pt-4 border-t text-sm" style={{ borderColor: 'rgba(0,0,0,0.15)' }}>
+            <span style={{ color: 'rgba(0,0,0,0.6)' }}>— {answer.author}</span>
+            <time dateTime={answer.createdAt} className="text-xs" style={{ color: 'rgba(0,0,0,0.4)' }}>
+              {new Date(answer.createdAt).toLocaleDateString("en-US", { month: "long", day: "numeric", year: "numeric" })}
+            </time>
+          </div>
+        </article>
+      </div>
+    </main>
+  );
+}
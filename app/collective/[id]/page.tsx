@@ -0,0 +1,136 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { answerPermalink, getContemplationPage } from "@/lib/contemplations";
+import { STICKY_COLORS } from "@/lib/board";
+import { ogImage } from "@/lib/og";
+import { SITE_NAME } from "@/lib/site";
+
+// ═══════════════════════════════════════════════════════════════════
+// CONTEMPLATION PAGE - Every approved answer to one question, paginated
+// ═══════════════════════════════════════════════════════════════════
+
+type Props = {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ page?: string }>;
+};
+
+async function load({ params, searchParams }: Props) {
+  const id = parseInt((await params).id);
+  const page = parseInt((await searchParams).page ?? "1") || 1;
+  return isNaN(id) ? null : getContemplationPage(id, page);
+}
+
+export async function generateMetadata(props: Props): Promise<Metadata> {
+  const contemplation = await load(props);
+  if (!contemplation) return {};
+
+  const path = `/collective/${contemplation.id}`;
+  const image = ogImage("contemplation", contemplation.id, contemplation.updatedAt, contemplation.question);
+  const description = `${contemplation.answerCount} reflections from the Board of Collective`;
+  return {
+    title: `${contemplation.question} | ${SITE_NAME}`,
+    description,
+    alternates: { canonical: contemplation.page > 1 ? `${path}?page=${contemplation.page}` : path },
+    openGraph: { url: path, title: contemplation.question, description, siteName: SITE_NAME, images: [image] },
+    twitter: { card: "summary_large_image", title: contemplation.question, description, images: [image] },
+  };
+}
+
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+}
+
+export default async function ContemplationPage(props: Props) {
+  const contemplation = await load(props);
+  if (!contemplation) notFound();
+
+  const { id, page, pageCount } = contemplation;
+  const pageHref = (n: number) => (n === 1 ? `/collective/${id}` : `/collective/${id}?page=${n}`);
+  const firstFeatured = contemplation.periods.at(-1);
+
+  return (
+    <main className="min-h-screen px-6 py-24" style={{ backgroundColor: 'var(--bg-primary)' }}>
+      <div className="max-w-5xl mx-auto">
+        <Link
+          href="/collective/archive"
+          className="text-sm transition-opacity hover:opacity-70"
+          style={{ color: 'var(--text-muted)' }}
+        >
+          ← Past Contemplations
+        </Link>
+
+        <header className="mt-12 mb-16 text-center">
+          <p className="text-xs uppercase tracking-[0.3em] mb-6" style={{ color: 'var(--accent-gold)' }}>
+            {contemplation.featured ? "Today's Contemplation" : firstFeatured ? `Featured ${formatDate(firstFeatured.startedAt)}` : "Contemplation"}
+          </p>
+          <h1
+            className="text-3xl sm:text-4xl font-extralight leading-tight italic mb-6"
+            style={{ color: 'var(--text-primary)', fontFamily: "'Georgia', serif" }}
+          >
+            &ldquo;{contemplation.question}&rdquo;
+          </h1>
+          <p className="text-sm" style={{ color: 'var(--text-muted)' }}>
+            {contemplation.answerCount} answer{contemplation.answerCount !== 1 ? "s" : ""}
+          </p>
+        </header>
+
+        <ol className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+          {contemplation.answers.map((answer) => (
+            <li
+              key={answer.id}
+              id={`answer-${answer.id}`}
+              className="p-6 flex flex-col scroll-mt-24"
+              style={{
+                backgroundColor: STICKY_COLORS[answer.color] || STICKY_COLORS.gold,
+                boxShadow: '2px 4px 12px rgba(0,0,0,0.15)',
+              }}
+            >
+              <p
+                className="flex-1 text-sm leading-relaxed mb-4 italic"
+                style={{ color: 'rgba(0,0,0,0.75)', fontFamily: "'Georgia', serif" }}
+              >
+                &ldquo;{answer.answer}&rdquo;
+              </p>
+              <div className="flex items-center justify-between pt-3 border-t text-xs" style={{ borderColor: 'rgba(0,0,0,0.1)' }}>
+                <span style={{ color: 'rgba(0,0,0,0.5)' }}>— {answer.author}</span>
+                <Link
+                  href={answerPermalink(id, answer.id)}
+                  className="transition-opacity hover:opacity-70"
+                  style={{ color: 'rgba(0,0,0,0.4)' }}
+                  title="Permalink to this answer"
+                >
+                  {formatDate(answer.createdAt)} ¶
+                </Link>
+              </div>
+            </li>
+          ))}
+        </ol>
+
+        {contemplation.answers.length === 0 && (
+          <p className="text-center text-sm" style={{ color: 'var(--text-muted)' }}>
+            No answers yet.
+          </p>
+        )}
+
+        {pageCount > 1 && (
+          <nav className="flex items-center justify-center gap-6 mt-16 text-sm" aria-label="Pagination">
+            {page > 1 ? (
+              <Link href={pageHref(page - 1)} className="transition-opacity hover:opacity-70" style={{ color: 'var(--text-secondary)' }}>
+                ← Earlier
+              </Link>
+            ) : <span />}
+            <span style={{ color: 'var(--text-muted)' }}>
+              Page {page} of {pageCount}
+            </span>
+            {page < pageCount ? (
+              <Link href={pageHref(page + 1)} className="transition-opacity hover:opacity-70" style={{ color: 'var(--text-secondary)' }}>
+                Later →
+              </Link>
+            ) : <span />}
+          </nav>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,78 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { getContemplationArchive, type FeaturePeriod } from "@/lib/contemplations";
+import { SITE_NAME } from "@/lib/site";
+
+// ═══════════════════════════════════════════════════════════════════
+// CONTEMPLATION ARCHIVE - Every question that has held the board
+// ═══════════════════════════════════════════════════════════════════
+
+export const revalidate = 3600;
+
+export const metadata: Metadata = {
+  title: `Past Contemplations | ${SITE_NAME}`,
+  description: "Every question featured on the Board of Collective, with the answers it gathered",
+  alternates: { canonical: "/collective/archive" },
+};
+
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+}
+
+function formatPeriod(period: FeaturePeriod) {
+  return `${formatDate(period.startedAt)} – ${period.endedAt ? formatDate(period.endedAt) : "now"}`;
+}
+
+export default async function ContemplationArchivePage() {
+  const archive = await getContemplationArchive();
+
+  return (
+    <main className="min-h-screen px-6 py-24" style={{ backgroundColor: 'var(--bg-primary)' }}>
+      <div className="max-w-3xl mx-auto">
+        <Link
+          href="/collective"
+          className="text-sm transition-opacity hover:opacity-70"
+          style={{ color: 'var(--text-muted)' }}
+        >
+          ← Back to the Board
+        </Link>
+
+        <h1 className="text-4xl font-extralight mt-12 mb-12" style={{ color: 'var(--text-primary)' }}>
+          Past Contemplations
+        </h1>
+
+        <ul className="space-y-2">
+          {archive.map((entry) => (
+            <li key={entry.id}>
+              <Link
+                href={`/collective/${entry.id}`}
+                className="block p-6 rounded-xl transition-opacity hover:opacity-80"
+                style={{ backgroundColor: 'var(--bg-elevated)' }}
+              >
+                <p className="text-xs mb-2" style={{ color: 'var(--text-muted)' }}>
+                  {entry.featured && <span style={{ color: 'var(--accent-gold)' }}>Featured now · </span>}
+                  {entry.periods.map(formatPeriod).join(", ")}
+                </p>
+                <h2
+                  className="text-xl font-light italic mb-2"
+                  style={{ color: 'var(--text-primary)', fontFamily: "'Georgia', serif" }}
+                >
+                  &ldquo;{entry.question}&rdquo;
+                </h2>
+                <p className="text-sm" style={{ color: 'var(--text-tertiary)' }}>
+                  {entry.answerCount} answer{entry.answerCount !== 1 ? "s" : ""}
+                </p>
+              </Link>
+            </li>
+          ))}
+        </ul>
+
+        {archive.length === 0 && (
+          <p className="text-sm" style={{ color: 'var(--text-muted)' }}>
+            No question has been featured yet.
+          </p>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { FEED_CACHE_CONTROL, getWritingFeed, renderJsonFeed } from "@/lib/feed";
+
+// GET JSON Feed of published articles
+export async function GET(request: NextRequest) {
+  try {
+    const feed = await getWritingFeed(request.nextUrl.origin);
+    return new NextResponse(renderJsonFeed(feed, `${feed.origin}/feed.json`), {
+      headers: {
+        "Content-Type": "application/feed+json; charset=utf-8",
+        "Cache-Control": FEED_CACHE_CONTROL,
+      },
+    });
+  } catch (error) {
+    console.error("Error building JSON feed:", error);
+    return NextResponse.json({ error: "Failed to build feed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { FEED_CACHE_CONTROL, getWritingFeed, renderRss } from "@/lib/feed";
+
+// GET RSS 2.0 feed of published articles
+export async function GET(request: NextRequest) {
+  try {
+    const feed = await getWritingFeed(request.nextUrl.origin);
+    return new NextResponse(renderRss(feed, `${feed.origin}/feed.xml`), {
+      headers: {
+        "Content-Type": "application/rss+xml; charset=utf-8",
+        "Cache-Control": FEED_CACHE_CONTROL,
+      },
+    });
+  } catch (error) {
+    console.error("Error building RSS feed:", error);
+    return NextResponse.json({ error: "Failed to build feed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,114 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { getGlossaryIndex } from "@/lib/glossaryTerms";
+import { SITE_NAME } from "@/lib/site";
+
+// ═══════════════════════════════════════════════════════════════════
+// GLOSSARY - Every term, its definition, and the writing that uses it
+// Article hover cards link here; regenerated on glossary and article saves
+// ═══════════════════════════════════════════════════════════════════
+
+export const revalidate = 3600;
+
+export const metadata: Metadata = {
+  title: `Glossary | ${SITE_NAME}`,
+  description: "The Stoic vocabulary used across the writing, with definitions and the articles that use each term",
+  alternates: { canonical: "/glossary" },
+};
+
+export default async function GlossaryPage() {
+  const glossary = await getGlossaryIndex();
+
+  return (
+    <main className="min-h-screen px-6 py-24" style={{ backgroundColor: 'var(--bg-primary)' }}>
+      <div className="max-w-3xl mx-auto">
+        <Link
+          href="/writing"
+          className="text-sm transition-opacity hover:opacity-70"
+          style={{ color: 'var(--text-muted)' }}
+        >
+          ← Back to Writing
+        </Link>
+
+        <h1 className="text-4xl font-extralight mt-12 mb-4" style={{ color: 'var(--text-primary)' }}>
+          Glossary
+        </h1>
+        <p className="text-sm mb-12" style={{ color: 'var(--text-muted)' }}>
+          {glossary.length} term{glossary.length !== 1 ? "s" : ""}
+        </p>
+
+        {glossary.length > 0 && (
+          <nav className="flex flex-wrap gap-x-4 gap-y-2 mb-16 font-mono text-xs">
+            {glossary.map((entry) => (
+              <a key={entry.id} href={`#${entry.anchor}`} className="text-variable transition-opacity hover:opacity-70">
+                {entry.term}
+              </a>
+            ))}
+          </nav>
+        )}
+
+        <dl className="space-y-2">
+          {glossary.map((entry) => (
+            <div
+              key={entry.id}
+              id={entry.anchor}
+              className="p-6 rounded-xl scroll-mt-24"
+              style={{ backgroundColor: 'var(--bg-elevated)' }}
+            >
+              <dt className="font-mono text-sm mb-3">
+                <span className="text-function">const</span> <span className="text-variable">{entry.term}</span>
+                {entry.origin && (
+                  <span className="block mt-1 text-comment italic text-xs">{"// "}{entry.origin}</span>
+                )}
+              </dt>
+              <dd>
+                <p className="leading-relaxed" style={{ color: 'var(--text-secondary)' }}>
+                  {entry.definition}
+                </p>
+                {entry.aliases.length > 0 && (
+                  <p className="text-xs mt-2" style={{ color: 'var(--text-muted)' }}>
+                    Also: {entry.aliases.join(", ")}
+                  </p>
+                )}
+
+                {entry.quote && (
+                  <blockquote className="mt-4 pl-4" style={{ borderLeft: '2px solid var(--accent-gold)' }}>
+                    <p className="text-sm italic" style={{ color: 'var(--text-tertiary)' }}>
+                      &ldquo;{entry.quote.text}&rdquo;
+                    </p>
+                    <footer className="text-xs mt-1" style={{ color: 'var(--text-muted)' }}>
+                      — {entry.quote.author}, <cite>{entry.quote.source}</cite>
+                    </footer>
+                  </blockquote>
+                )}
+
+                <div className="mt-4 text-xs" style={{ color: 'var(--text-muted)' }}>
+                  {entry.articles.length === 0 ? (
+                    <span className="font-mono">{"// Not used in any article yet"}</span>
+                  ) : (
+                    <>
+                      <span className="uppercase tracking-wider">Used in</span>
+                      <ul className="mt-2 space-y-1">
+                        {entry.articles.map((article) => (
+                          <li key={article.slug}>
+                            <Link
+                              href={`/writing/${article.slug}`}
+                              className="text-sm transition-opacity hover:opacity-70"
+                              style={{ color: 'var(--accent-gold)' }}
+                            >
+                              {article.title}
+                            </Link>
+                          </li>
+                        ))}
+                      </ul>
+                    </>
+                  )}
+                </div>
+              </dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+    </main>
+  );
+}
@@ -1,5 +1,7 @@
 import type { Metadata } from "next";
 import { JetBrains_Mono, Inter } from "next/font/google";
+import CommandPalette from "@/components/CommandPalette";
+import { SITE_DESCRIPTION, SITE_NAME, siteUrl } from "@/lib/site";
 import "./globals.css";
 
 const jetbrainsMono = JetBrains_Mono({
@@ -13,8 +15,16 @@ const inter = Inter({
 });
 
 export const metadata: Metadata = {
-  title: "Juan Rizky Maulana | The Semantic IDE",
-  description: "Integrated Destiny Environment - Where code meets stories",
+  metadataBase: new URL(siteUrl()),
+  title: SITE_NAME,
+  description: SITE_DESCRIPTION,
+  alternates: {
+    types: {
+      "application/rss+xml": "/feed.xml",
+      "application/atom+xml": "/atom.xml",
+      "application/feed+json": "/feed.json",
+    },
+  },
 };
 
 // Inline script to prevent theme flash on page load
@@ -40,7 +50,10 @@ export default function RootLayout({
       <head>
         <script dangerouslySetInnerHTML={{ __html: themeInitScript }} />
       </head>
-      <body className="bg-[var(--bg-primary)] text-[var(--text-primary)] font-mono antialiased">{children}</body>
+      <body className="bg-[var(--bg-primary)] text-[var(--text-primary)] font-mono antialiased">
+        {children}
+        <CommandPalette />
+      </body>
     </html>
   );
 }
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ImageResponse } from "next/og";
+import prisma from "@/lib/prisma";
+import { OG_SIZE, OG_TYPES, OgCard, OgCardProps, OgType, loadOgFonts } from "@/lib/og";
+import { isViewable } from "@/lib/publishing";
+import { siteUrl } from "@/lib/site";
+
+// Fonts are read from node_modules, so this can't run on the edge
+export const runtime = "nodejs";
+
+type Card = Omit<OgCardProps, "site"> & { updatedAt: Date };
+
+// Accepts a numeric id or, for articles and projects, a slug
+async function loadCard(type: OgType, id: string): Promise<Card | null> {
+  const numId = parseInt(id);
+  const where = !isNaN(numId) && String(numId) === id ? { id: numId } : { slug: id };
+
+  if (type === "article") {
+    const article = await prisma.article.findUnique({ where });
+    if (!article || !isViewable(article)) return null;
+    const epigraph = article.epigraph ? JSON.parse(article.epigraph) : null;
+    const tags: string[] = JSON.parse(article.tags || "[]");
+    return {
+      type,
+      title: article.title,
+      quote: epigraph?.text ? { text: epigraph.text, author: epigraph.author } : null,
+      subtitle: epigraph?.text ? null : article.excerpt,
+      meta: [article.readTime, article.date, ...tags.slice(0, 3)],
+      updatedAt: article.updatedAt,
+    };
+  }
+
+  if (type === "project") {
+    const project = await prisma.project.findUnique({ where });
+    if (!project || !isViewable(project)) return null;
+    return {
+      type,
+      title: project.title,
+      subtitle: project.tagline || project.description,
+      meta: JSON.parse(project.tech || "[]"),
+      updatedAt: project.updatedAt,
+    };
+  }
+
+  if (!("id" in where)) return null;
+  const contemplation = await prisma.contemplation.findUnique({
+    where: { id: where.id },
+    include: { features: { select: { id: true }, take: 1 } },
+  });
+  // Same visibility as the permalink page
+  if (!contemplation || (!contemplation.active && contemplation.features.length === 0)) return null;
+  return {
+    type,
+    title: contemplation.question,
+    meta: ["contemplation", "leave your answer"],
+    updatedAt: contemplation.updatedAt,
+  };
+}
+
+// GET 1200×630 share card; immutable while ?v= matches the row's updatedAt
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ type: string; id: string }> }
+) {
+  try {
+    const { type, id } = await params;
+    if (!(OG_TYPES as readonly string[]).includes(type)) {
+      return NextResponse.json({ error: "Unknown image type" }, { status: 404 });
+    }
+
+    const card = await loadCard(type as OgType, id);
+    if (!card) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const version = String(card.updatedAt.getTime());
+    const etag = `"og-${type}-${id}-${version}"`;
+    if (request.headers.get("if-none-match") === etag) {
+      return new NextResponse(null, { status: 304, headers: { ETag: etag } });
+    }
+
+    const { updatedAt: _updatedAt, ...props } = card;
+    const isCurrent = request.nextUrl.searchParams.get("v") === version;
+
+    return new ImageResponse(<OgCard {...props} site={new URL(siteUrl(request.nextUrl.origin)).host} />, {
+      ...OG_SIZE,
+      fonts: await loadOgFonts(),
+      headers: {
+        ETag: etag,
+        // Unversioned or stale URLs must be rechecked; the current version never changes
+        "Cache-Control": isCurrent
+          ? "public, max-age=31536000, immutable"
+          : "public, max-age=0, must-revalidate",
+      },
+    });
+  } catch (error) {
+    console.error("Error rendering OG image:", error);
+    return NextResponse.json({ error: "Failed to render image" }, { status: 500 });
+  }
+}
@@ -3681,7 +3681,7 @@ export default function Home() {
         {/* UI */}
         <ScrollIndicator />
         <HeartbeatPulse />
-        <Nav current={view} onChange={setView} />
+        <Nav />
 
         {/* Sound/Theme Toggle - Fixed position */}
         <motion.div
@@ -0,0 +1,14 @@
+import type { MetadataRoute } from "next";
+import { siteUrl } from "@/lib/site";
+
+// Admin screens and the JSON API are never worth crawling
+export default function robots(): MetadataRoute.Robots {
+  return {
+    rules: {
+      userAgent: "*",
+      allow: "/",
+      disallow: ["/admin", "/api"],
+    },
+    sitemap: `${siteUrl()}/sitemap.xml`,
+  };
+}
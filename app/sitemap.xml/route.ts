@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { siteUrl } from "@/lib/site";
+import {
+  SITEMAP_HEADERS,
+  getSitemapEntries,
+  renderSitemapIndex,
+  renderUrlset,
+  sitemapChunks,
+} from "@/lib/sitemap";
+
+// GET a single sitemap, or an index of /sitemap/<n>.xml once content outgrows one file
+export async function GET(request: NextRequest) {
+  try {
+    const chunks = sitemapChunks(await getSitemapEntries(request.nextUrl.origin));
+    const body = chunks.length > 1
+      ? renderSitemapIndex(chunks, siteUrl(request.nextUrl.origin))
+      : renderUrlset(chunks[0] ?? []);
+
+    return new NextResponse(body, { headers: SITEMAP_HEADERS });
+  } catch (error) {
+    console.error("Error building sitemap:", error);
+    return NextResponse.json({ error: "Failed to build sitemap" }, { status: 500 });
+  }
+}
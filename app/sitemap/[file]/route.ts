@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SITEMAP_HEADERS, getSitemapEntries, renderUrlset, sitemapChunks } from "@/lib/sitemap";
+
+// GET one child sitemap listed by the index, e.g. /sitemap/2.xml
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ file: string }> }
+) {
+  try {
+    const { file } = await params;
+    const match = file.match(/^(\d+)\.xml$/);
+    const chunks = sitemapChunks(await getSitemapEntries(request.nextUrl.origin));
+    const chunk = match ? chunks[parseInt(match[1]) - 1] : undefined;
+
+    if (!chunk) {
+      return NextResponse.json({ error: "Sitemap not found" }, { status: 404 });
+    }
+
+    return new NextResponse(renderUrlset(chunk), { headers: SITEMAP_HEADERS });
+  } catch (error) {
+    console.error("Error building sitemap:", error);
+    return NextResponse.json({ error: "Failed to build sitemap" }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { FEED_CACHE_CONTROL, getWritingFeed, renderRss } from "@/lib/feed";
+import { decodeTag } from "@/lib/articles";
+
+// GET RSS 2.0 feed of published articles carrying one tag
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ tag: string }> }
+) {
+  try {
+    const decoded = decodeTag((await params).tag);
+    if (decoded === null) {
+      return NextResponse.json({ error: "Tag not found" }, { status: 404 });
+    }
+    const feed = await getWritingFeed(request.nextUrl.origin, decoded);
+
+    if (feed.items.length === 0) {
+      return NextResponse.json({ error: "Tag not found" }, { status: 404 });
+    }
+
+    return new NextResponse(renderRss(feed, `${feed.origin}/tags/${encodeURIComponent(decoded)}/feed.xml`), {
+      headers: {
+        "Content-Type": "application/rss+xml; charset=utf-8",
+        "Cache-Control": FEED_CACHE_CONTROL,
+      },
+    });
+  } catch (error) {
+    console.error("Error building tag feed:", error);
+    return NextResponse.json({ error: "Failed to build feed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,88 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { decodeTag, getArticlesByTag, getListedTags } from "@/lib/articles";
+import { SITE_NAME } from "@/lib/site";
+
+// ═══════════════════════════════════════════════════════════════════
+// TAG PAGE - Every published article carrying one tag
+// ═══════════════════════════════════════════════════════════════════
+
+export const revalidate = 3600;
+
+type Props = { params: Promise<{ tag: string }> };
+
+export async function generateStaticParams() {
+  const tags = await getListedTags();
+  return tags.map(({ tag }) => ({ tag }));
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const tag = decodeTag((await params).tag);
+  if (tag === null) notFound();
+  const path = `/tags/${encodeURIComponent(tag)}`;
+  return {
+    title: `#${tag} | ${SITE_NAME}`,
+    description: `Writing tagged ${tag}`,
+    alternates: {
+      canonical: path,
+      types: { "application/rss+xml": `${path}/feed.xml` },
+    },
+  };
+}
+
+export default async function TagPage({ params }: Props) {
+  const tag = decodeTag((await params).tag);
+  if (tag === null) notFound();
+  const articles = await getArticlesByTag(tag);
+  if (articles.length === 0) notFound();
+
+  return (
+    <main className="min-h-screen px-6 py-24" style={{ backgroundColor: 'var(--bg-primary)' }}>
+      <div className="max-w-3xl mx-auto">
+        <Link
+          href="/writing"
+          className="text-sm transition-opacity hover:opacity-70"
+          style={{ color: 'var(--text-muted)' }}
+        >
+          ← Back to Writing
+        </Link>
+
+        <div className="flex items-baseline justify-between mt-12 mb-12">
+          <h1 className="text-4xl font-extralight" style={{ color: 'var(--text-primary)' }}>
+            <span style={{ color: 'var(--accent-gold)' }}>#</span>{tag}
+          </h1>
+          <a
+            href={`/tags/${encodeURIComponent(tag)}/feed.xml`}
+            className="text-xs transition-opacity hover:opacity-70"
+            style={{ color: 'var(--text-muted)' }}
+          >
+            rss
+          </a>
+        </div>
+
+        <ul className="space-y-2">
+          {articles.map((article) => (
+            <li key={article.id}>
+              <Link
+                href={`/writing/${article.slug}`}
+                className="block p-6 rounded-xl transition-opacity hover:opacity-80"
+                style={{ backgroundColor: 'var(--bg-elevated)' }}
+              >
+                <p className="text-xs mb-2" style={{ color: 'var(--text-muted)' }}>
+                  {article.date} · {article.readTime}
+                </p>
+                <h2 className="text-xl font-light mb-2" style={{ color: 'var(--text-primary)' }}>
+                  {article.title}
+                </h2>
+                <p className="text-sm" style={{ color: 'var(--text-tertiary)' }}>
+                  {article.excerpt}
+                </p>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </main>
+  );
+}
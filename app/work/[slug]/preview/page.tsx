@@ -0,0 +1,26 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { getProjectBySlug } from "@/lib/projects";
+import { canPreviewPage } from "@/lib/preview";
+import ProjectView from "../ProjectView";
+
+// ═══════════════════════════════════════════════════════════════════
+// PROJECT PREVIEW - Drafts behind a signed link or an admin session
+// ═══════════════════════════════════════════════════════════════════
+
+type Props = {
+  params: Promise<{ slug: string }>;
+  searchParams: Promise<{ token?: string }>;
+};
+
+export const metadata: Metadata = {
+  robots: { index: false, follow: false },
+};
+
+export default async function ProjectPreviewPage({ params, searchParams }: Props) {
+  const [{ slug }, { token }] = await Promise.all([params, searchParams]);
+  const project = await getProjectBySlug(slug, true);
+  if (!project || !(await canPreviewPage(token, "project", project.id))) notFound();
+
+  return <ProjectView project={project} />;
+}
@@ -0,0 +1,356 @@
+"use client";
+
+import { useState, useEffect, useLayoutEffect, useRef } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import CodeCopy from "@/components/CodeCopy";
+import GlossaryCards from "@/components/GlossaryCards";
+import Inspector from "@/components/Inspector";
+import NarrativeConsole from "@/components/NarrativeConsole";
+import RefactorToggle from "@/components/RefactorToggle";
+import SyntaxHighlight from "@/components/SyntaxHighlight";
+import type { ArticleDetail } from "@/lib/articles";
+import type { GlossaryEntry } from "@/lib/glossary";
+import { useIdeStore } from "@/lib/store";
+
+// ═══════════════════════════════════════════════════════════════════
+// ARTICLE VIEW - Interactive reading shell around a server-rendered article
+// ═══════════════════════════════════════════════════════════════════
+
+interface ArticleViewProps {
+  article: ArticleDetail;
+  // Markdown rendered on the server; null for legacy ContentBlock articles
+  html: string | null;
+  // Terms the html links, for their hover cards and the margin
+  glossary: GlossaryEntry[];
+}
+
+export default function ArticleView({ article, html, glossary }: ArticleViewProps) {
+  const router = useRouter();
+  const [focusMode, setFocusMode] = useState(false);
+  const [readProgress, setReadProgress] = useState(0);
+  const articleRef = useRef<HTMLElement>(null);
+  const viewMode = useIdeStore((state) => state.viewMode);
+  const log = useIdeStore((state) => state.log);
+  const setGlossary = useIdeStore((state) => state.setGlossary);
+
+  // Already loaded on the server. A layout effect runs before the children's
+  // effects, so the margin and cards find it instead of fetching their own
+  useLayoutEffect(() => {
+    setGlossary(glossary);
+  }, [glossary, setGlossary]);
+
+  useEffect(() => {
+    log("opened", article.title);
+  }, [article.title, log]);
+
+  useEffect(() => {
+    if (readProgress >= 99) log("finished", article.title);
+  }, [readProgress, article.title, log]);
+
+  // Read progress tracking
+  useEffect(() => {
+    const handleScroll = () => {
+      const scrollHeight = document.documentElement.scrollHeight - window.innerHeight;
+      const progress = (window.scrollY / scrollHeight) * 100;
+      setReadProgress(Math.min(progress, 100));
+    };
+
+    window.addEventListener('scroll', handleScroll);
+    return () => window.removeEventListener('scroll', handleScroll);
+  }, []);
+
+  // Keyboard shortcuts
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'f' || e.key === 'F') {
+        setFocusMode(prev => !prev);
+      }
+      if (e.key === 'Escape') {
+        if (focusMode) {
+          setFocusMode(false);
+        } else {
+          router.back();
+        }
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [focusMode, router]);
+
+  return (
+    <>
+      {/* Focus Mode Vignette - dims edges, keeps center clear */}
+      <AnimatePresence>
+        {focusMode && (
+          <>
+            {/* Top vignette */}
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="fixed top-0 left-0 right-0 h-32 z-40 pointer-events-none"
+              style={{ 
+                background: 'linear-gradient(to bottom, var(--bg-primary) 0%, transparent 100%)',
+              }}
+            />
+            {/* Bottom vignette */}
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="fixed bottom-0 left-0 right-0 h-32 z-40 pointer-events-none"
+              style={{ 
+                background: 'linear-gradient(to top, var(--bg-primary) 0%, transparent 100%)',
+              }}
+            />
+            {/* Left vignette */}
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="fixed top-0 left-0 bottom-0 w-1/4 z-40 pointer-events-none"
+              style={{ 
+                background: 'linear-gradient(to right, var(--bg-primary) 0%, transparent 100%)',
+              }}
+            />
+            {/* Right vignette */}
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="fixed top-0 right-0 bottom-0 w-1/4 z-40 pointer-events-none"
+              style={{ 
+                background: 'linear-gradient(to left, var(--bg-primary) 0%, transparent 100%)',
+              }}
+            />
+          </>
+        )}
+      </AnimatePresence>
+
+      {/* Reading Progress Bar */}
+      <motion.div
+        className="fixed top-0 left-0 right-0 h-px z-50"
+        style={{ 
+          backgroundColor: 'var(--accent-gold)',
+          scaleX: readProgress / 100,
+          transformOrigin: 'left',
+        }}
+      />
+
+      <div 
+        className="min-h-screen relative z-10"
+        style={{ backgroundColor: 'var(--bg-primary)' }}
+      >
+        {/* Back Navigation */}
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="fixed top-6 left-6 z-50"
+        >
+          <Link 
+            href="/writing"
+            className="flex items-center gap-2 text-sm transition-opacity hover:opacity-70"
+            style={{ color: 'var(--text-muted)' }}
+          >
+            <span>←</span>
+            <span>Back to Writing</span>
+          </Link>
+        </motion.div>
+
+        {/* Source and Focus Mode Toggles */}
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="fixed top-6 right-6 z-50 flex items-center gap-6"
+        >
+          <RefactorToggle />
+          <button
+            onClick={() => setFocusMode(prev => !prev)}
+            className="text-sm transition-opacity hover:opacity-70"
+            style={{ color: 'var(--text-muted)' }}
+          >
+            {focusMode ? '◉ Focus' : '○ Focus'}
+          </button>
+        </motion.div>
+
+        {/* Living Margin */}
+        <Inspector container={articleRef} />
+
+        <NarrativeConsole />
+
+        {/* Article Content */}
+        <article ref={articleRef} className="max-w-2xl mx-auto px-6 py-24 sm:py-32">
+          {/* Header */}
+          <motion.header
+            initial={{ opacity: 0, y: 30 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.2 }}
+            className="mb-16"
+            data-section="introduction"
+            data-section-title="Introduction"
+          >
+            {/* Meta */}
+            <div className="flex items-center gap-4 mb-6 text-sm" style={{ color: 'var(--text-muted)' }}>
+              <span>{article.date}</span>
+              <span>•</span>
+              <span>{article.readTime}</span>
+            </div>
+
+            {/* Title */}
+            <h1 
+              className="text-3xl sm:text-4xl font-light leading-tight mb-6"
+              style={{ color: 'var(--text-primary)' }}
+            >
+              {article.title}
+            </h1>
+
+            {/* Excerpt */}
+            <p 
+              className="text-lg font-light leading-relaxed"
+              style={{ color: 'var(--text-secondary)' }}
+            >
+              {article.excerpt}
+            </p>
+
+            {/* Tags */}
+            <div className="flex flex-wrap gap-2 mt-6">
+              {article.tags.map((tag: string) => (
+                <span 
+                  key={tag}
+                  className="px-3 py-1 rounded-full text-xs"
+                  style={{ 
+                    backgroundColor: 'var(--bg-elevated)',
+                    color: 'var(--text-muted)',
+                    border: '1px solid var(--border-primary)',
+                  }}
+                >
+                  {tag}
+                </span>
+              ))}
+            </div>
+          </motion.header>
+
+          {/* Epigraph */}
+          {article.epigraph && (
+            <motion.blockquote
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.4 }}
+              className="mb-16 pl-6"
+              style={{ borderLeft: '2px solid var(--accent-gold)' }}
+            >
+              <p 
+                className="text-lg italic mb-2"
+                style={{ color: 'var(--text-secondary)' }}
+              >
+                &ldquo;{article.epigraph.text}&rdquo;
+              </p>
+              <footer style={{ color: 'var(--text-muted)' }}>
+                — {article.epigraph.author}, <cite>{article.epigraph.source}</cite>
+              </footer>
+            </motion.blockquote>
+          )}
+
+          {/* Content */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ delay: 0.5 }}
+          >
+            {/* Markdown styles are injected by the server page */}
+            <CodeCopy />
+            <GlossaryCards />
+            
+            {viewMode === 'source' ? (
+              // Raw markdown, or the legacy blocks as JSON
+              <SyntaxHighlight
+                source={typeof article.content === 'string' ? article.content : JSON.stringify(article.content, null, 2)}
+                language={typeof article.content === 'string' ? 'markdown' : 'json'}
+              />
+            ) : html !== null ? (
+              // Markdown content - render with shared styles
+              <div 
+                className="prose-markdown"
+                dangerouslySetInnerHTML={{ __html: html }} 
+              />
+            ) : Array.isArray(article.content) && (
+              // Legacy ContentBlock format
+              <div className="prose-stoic">
+                {article.content.map((block, index) => {
+                  if (block.type === 'heading') {
+                    return (
+                      <h2 
+                        key={index}
+                        data-section={`section-${index}`}
+                        className="text-xl font-light mt-12 mb-6"
+                        style={{ color: 'var(--text-primary)' }}
+                      >
+                        {block.text}
+                      </h2>
+                    );
+                  }
+                  
+                  if (block.type === 'quote') {
+                    return (
+                      <blockquote 
+                        key={index}
+                        className="my-8 pl-6"
+                        style={{ borderLeft: '2px solid var(--border-secondary)' }}
+                      >
+                        <p 
+                          className="text-lg italic mb-2"
+                          style={{ color: 'var(--text-secondary)' }}
+                        >
+                          &ldquo;{block.text}&rdquo;
+                        </p>
+                        {block.author && (
+                          <footer style={{ color: 'var(--text-muted)' }}>
+                            — {block.author}
+                          </footer>
+                        )}
+                      </blockquote>
+                    );
+                  }
+                  
+                  return (
+                    <p 
+                      key={index}
+                      className="text-base leading-relaxed mb-6"
+                      style={{ color: 'var(--text-tertiary)' }}
+                    >
+                      {block.text}
+                    </p>
+                  );
+                })}
+              </div>
+            )}
+          </motion.div>
+
+          {/* Footer */}
+          <motion.footer
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ delay: 0.7 }}
+            className="mt-24 pt-12"
+            style={{ borderTop: '1px solid var(--border-primary)' }}
+          >
+            <div className="flex items-center justify-between">
+              <Link 
+                href="/"
+                className="text-sm transition-opacity hover:opacity-70"
+                style={{ color: 'var(--text-muted)' }}
+              >
+                ← More writings
+              </Link>
+              <div className="text-sm" style={{ color: 'var(--text-muted)' }}>
+                {Math.round(readProgress)}% read
+              </div>
+            </div>
+          </motion.footer>
+        </article>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,24 @@
+import Link from "next/link";
+
+export default function ArticleNotFound() {
+  return (
+    <div 
+      className="min-h-screen flex items-center justify-center"
+      style={{ backgroundColor: 'var(--bg-primary)' }}
+    >
+      <div className="text-center">
+        <p className="text-6xl mb-4" style={{ color: 'var(--accent-gold)' }}>∅</p>
+        <h1 className="text-2xl font-light mb-4" style={{ color: 'var(--text-primary)' }}>
+          Article Not Found
+        </h1>
+        <Link 
+          href="/writing"
+          className="text-sm underline transition-opacity hover:opacity-70"
+          style={{ color: 'var(--text-muted)' }}
+        >
+          Return to Writing
+        </Link>
+      </div>
+    </div>
+  );
+}
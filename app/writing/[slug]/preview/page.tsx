@@ -0,0 +1,39 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { getArticleBySlug } from "@/lib/articles";
+import { getGlossary } from "@/lib/glossaryTerms";
+import { markdownStyles, markdownToHtml } from "@/lib/markdown";
+import { canPreviewPage } from "@/lib/preview";
+import ArticleView from "../ArticleView";
+
+// ═══════════════════════════════════════════════════════════════════
+// ARTICLE PREVIEW - Drafts behind a signed link or an admin session
+// ═══════════════════════════════════════════════════════════════════
+
+type Props = {
+  params: Promise<{ slug: string }>;
+  searchParams: Promise<{ token?: string }>;
+};
+
+export const metadata: Metadata = {
+  robots: { index: false, follow: false },
+};
+
+export default async function ArticlePreviewPage({ params, searchParams }: Props) {
+  const [{ slug }, { token }] = await Promise.all([params, searchParams]);
+  const article = await getArticleBySlug(slug, true);
+  if (!article || !(await canPreviewPage(token, "article", article.id))) notFound();
+
+  const glossary = await getGlossary();
+
+  return (
+    <>
+      <style dangerouslySetInnerHTML={{ __html: markdownStyles }} />
+      <ArticleView
+        article={article}
+        html={typeof article.content === "string" ? markdownToHtml(article.content, { glossary }) : null}
+        glossary={glossary}
+      />
+    </>
+  );
+}
@@ -0,0 +1,34 @@
+"use client";
+
+import { useEffect } from "react";
+
+// ═══════════════════════════════════════════════════════════════════
+// CODE COPY - One delegated listener for every rendered code block's copy button
+// ═══════════════════════════════════════════════════════════════════
+
+export default function CodeCopy() {
+  useEffect(() => {
+    const handleClick = async (e: MouseEvent) => {
+      const button = (e.target as HTMLElement).closest<HTMLButtonElement>("[data-copy-code]");
+      const code = button?.closest(".md-codeblock")?.querySelector("code");
+      if (!button || !code) return;
+
+      try {
+        await navigator.clipboard.writeText(code.textContent ?? "");
+        button.textContent = "copied";
+        button.dataset.copied = "";
+        setTimeout(() => {
+          button.textContent = "copy";
+          delete button.dataset.copied;
+        }, 1500);
+      } catch (error) {
+        console.error("Failed to copy code:", error);
+      }
+    };
+
+    document.addEventListener("click", handleClick);
+    return () => document.removeEventListener("click", handleClick);
+  }, []);
+
+  return null;
+}
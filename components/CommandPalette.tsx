@@ -0,0 +1,259 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { usePathname, useRouter } from "next/navigation";
+import { useIdeStore } from "@/lib/store";
+import { VIEWS } from "@/lib/views";
+import { SEARCH_KIND_LABELS, SEARCH_QUERY_MAX, type SearchResult } from "@/lib/search";
+import type { SnippetPart } from "@/lib/bm25";
+
+// ═══════════════════════════════════════════════════════════════════
+// COMMAND PALETTE - ⌘K / Ctrl+K: jump to a view, enter Zen mode,
+// or search the writing, work, quotes and collective answers
+// ═══════════════════════════════════════════════════════════════════
+
+// Wait for a pause in typing before asking /api/search
+const SEARCH_DELAY_MS = 200;
+
+interface PaletteItem {
+  key: string;
+  label: string;
+  hint: string;
+  snippet?: SnippetPart[];
+  run: () => void;
+}
+
+function Snippet({ parts }: { parts: SnippetPart[] }) {
+  return (
+    <p className="mt-1 text-xs leading-relaxed line-clamp-2" style={{ color: 'var(--text-muted)' }}>
+      {parts.map((part, i) =>
+        part.match ? (
+          <mark key={i} className="bg-transparent text-function">{part.text}</mark>
+        ) : (
+          <span key={i}>{part.text}</span>
+        )
+      )}
+    </p>
+  );
+}
+
+// Mounted per opening, so every search starts from a blank prompt
+function PalettePanel({ onClose }: { onClose: () => void }) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const log = useIdeStore(state => state.log);
+  const setZenMode = useIdeStore(state => state.setZenMode);
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [status, setStatus] = useState<"idle" | "searching" | "done" | "failed">("idle");
+  const [selected, setSelected] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const q = query.trim();
+    if (!q) {
+      setResults([]);
+      setStatus("idle");
+      return;
+    }
+
+    setStatus("searching");
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/search?q=${encodeURIComponent(q)}`, { signal: controller.signal });
+        if (!res.ok) throw new Error(`Search failed: ${res.status}`);
+        setResults(await res.json());
+        setStatus("done");
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error("Failed to search:", error);
+        setResults([]);
+        setStatus("failed");
+      }
+    }, SEARCH_DELAY_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query]);
+
+  const items = useMemo<PaletteItem[]>(() => {
+    const go = (href: string) => {
+      onClose();
+      router.push(href);
+    };
+
+    const commands: PaletteItem[] = [
+      ...VIEWS.map((view, i) => ({
+        key: `view:${view.id}`,
+        label: `Go to ${view.id}`,
+        hint: String(i + 1),
+        run: () => go(view.href),
+      })),
+      {
+        key: "zen",
+        label: "Enter zen mode",
+        hint: "Z",
+        run: () => {
+          setZenMode(true);
+          log("entered", "zen mode");
+          if (pathname === "/") onClose();
+          else go("/");
+        },
+      },
+    ];
+
+    const q = query.trim().toLowerCase();
+    const matchingCommands = q ? commands.filter((command) => command.label.toLowerCase().includes(q)) : commands;
+
+    const found = results.map<PaletteItem>((result) => ({
+      key: `${result.kind}:${result.id}`,
+      label: result.title,
+      hint: SEARCH_KIND_LABELS[result.kind],
+      snippet: result.snippet,
+      run: () => {
+        log("searched", query.trim());
+        if (result.href) return go(result.href);
+        // A quote: copy it, attributed
+        const text = result.snippet.map((part) => part.text).join("");
+        navigator.clipboard?.writeText(`${text} — ${result.title}`).catch(() => {});
+        log("copied", result.title);
+        onClose();
+      },
+    }));
+
+    return [...matchingCommands, ...found];
+  }, [query, results, pathname, router, log, setZenMode, onClose]);
+
+  // Keep the highlight on a real row as the list changes
+  useEffect(() => {
+    setSelected((current) => Math.min(current, Math.max(items.length - 1, 0)));
+  }, [items.length]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${selected}"]`)?.scrollIntoView({ block: "nearest" });
+  }, [selected]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Escape") {
+      onClose();
+    } else if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setSelected((current) => (items.length ? (current + 1) % items.length : 0));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setSelected((current) => (items.length ? (current - 1 + items.length) % items.length : 0));
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      items[selected]?.run();
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ scale: 0.97, opacity: 0, y: -10 }}
+      animate={{ scale: 1, opacity: 1, y: 0 }}
+      exit={{ scale: 0.97, opacity: 0, y: -10 }}
+      transition={{ duration: 0.15 }}
+      role="dialog"
+      aria-label="Command palette"
+      className="w-full max-w-xl rounded-xl overflow-hidden shadow-2xl font-mono"
+      style={{
+        backgroundColor: 'var(--bg-primary)',
+        border: '1px solid var(--border-primary)',
+      }}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center gap-3 px-4 border-b" style={{ borderColor: 'var(--border-secondary)' }}>
+        <span className="text-function text-sm">❯</span>
+        <input
+          autoFocus
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setSelected(0);
+          }}
+          onKeyDown={handleKeyDown}
+          maxLength={SEARCH_QUERY_MAX}
+          placeholder="Search, or jump to a view…"
+          aria-label="Search"
+          className="flex-1 py-4 bg-transparent text-sm outline-none"
+          style={{ color: 'var(--text-primary)' }}
+        />
+        <kbd className="text-[10px] px-1.5 py-0.5 rounded" style={{ color: 'var(--text-muted)', border: '1px solid var(--border-primary)' }}>
+          esc
+        </kbd>
+      </div>
+
+      <div ref={listRef} className="max-h-[50vh] overflow-y-auto py-2" role="listbox">
+        {items.map((item, i) => (
+          <button
+            key={item.key}
+            data-index={i}
+            role="option"
+            aria-selected={i === selected}
+            onMouseMove={() => setSelected(i)}
+            onClick={item.run}
+            className="w-full px-4 py-2 text-left transition-colors"
+            style={{ backgroundColor: i === selected ? 'var(--bg-elevated)' : 'transparent' }}
+          >
+            <div className="flex items-baseline justify-between gap-4">
+              <span className="text-sm truncate" style={{ color: 'var(--text-primary)' }}>{item.label}</span>
+              <span className="shrink-0 text-[10px] uppercase tracking-wider" style={{ color: 'var(--text-muted)' }}>
+                {item.hint}
+              </span>
+            </div>
+            {item.snippet && <Snippet parts={item.snippet} />}
+          </button>
+        ))}
+
+        {status === "searching" && results.length === 0 && (
+          <p className="px-4 py-3 text-xs text-comment italic">{"// Searching…"}</p>
+        )}
+        {status === "failed" && (
+          <p className="px-4 py-3 text-xs text-comment italic">{"// Search is unavailable right now"}</p>
+        )}
+        {status === "done" && results.length === 0 && (
+          <p className="px-4 py-3 text-xs text-comment italic">{"// Nothing found"}</p>
+        )}
+      </div>
+    </motion.div>
+  );
+}
+
+export default function CommandPalette() {
+  const [open, setOpen] = useState(false);
+  const close = useCallback(() => setOpen(false), []);
+
+  // ⌘K anywhere, even from inside a text field
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        setOpen(prev => !prev);
+      }
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, []);
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-[110] flex items-start justify-center p-4 pt-[15vh]"
+          style={{ backgroundColor: 'rgba(0, 0, 0, 0.6)' }}
+          onClick={close}
+        >
+          <PalettePanel onClose={close} />
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { findGlossaryEntry, type GlossaryEntry } from "@/lib/glossary";
+import { useGlossary, useIdeStore } from "@/lib/store";
+import { GlossaryCard } from "@/components/VariableHover";
+
+// ═══════════════════════════════════════════════════════════════════
+// GLOSSARY CARDS - One delegated hover card for every term the markdown
+// renderer linked (a[data-term]); the links themselves lead to /glossary
+// ═══════════════════════════════════════════════════════════════════
+
+const CARD_WIDTH = 288;
+const EDGE = 16;
+
+interface OpenCard {
+  entry: GlossaryEntry;
+  top: number;
+  left: number;
+}
+
+function termLink(target: EventTarget | null): HTMLAnchorElement | null {
+  return target instanceof Element ? target.closest<HTMLAnchorElement>("a[data-term]") : null;
+}
+
+export default function GlossaryCards() {
+  const glossary = useGlossary();
+  const log = useIdeStore((state) => state.log);
+  const [card, setCard] = useState<OpenCard | null>(null);
+
+  useEffect(() => {
+    const show = (e: Event) => {
+      const link = termLink(e.target);
+      const entry = link && findGlossaryEntry(glossary, link.dataset.term ?? "");
+      if (!link || !entry) return;
+
+      // Below the term, kept inside the viewport
+      const rect = link.getBoundingClientRect();
+      const left = Math.min(Math.max(rect.left, EDGE), window.innerWidth - CARD_WIDTH - EDGE);
+      setCard({ entry, top: rect.bottom + 8, left });
+      log("looked up", entry.term);
+    };
+    const hide = (e: Event) => {
+      const link = termLink(e.target);
+      if (link && link !== termLink((e as MouseEvent | FocusEvent).relatedTarget)) setCard(null);
+    };
+    const close = () => setCard(null);
+
+    document.addEventListener("mouseover", show);
+    document.addEventListener("focusin", show);
+    document.addEventListener("mouseout", hide);
+    document.addEventListener("focusout", hide);
+    window.addEventListener("scroll", close, { passive: true });
+    return () => {
+      document.removeEventListener("mouseover", show);
+      document.removeEventListener("focusin", show);
+      document.removeEventListener("mouseout", hide);
+      document.removeEventListener("focusout", hide);
+      window.removeEventListener("scroll", close);
+    };
+  }, [glossary, log]);
+
+  return (
+    <AnimatePresence>
+      {card && (
+        <motion.span
+          key={card.entry.id}
+          role="tooltip"
+          initial={{ opacity: 0, y: 4 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 4 }}
+          transition={{ duration: 0.15 }}
+          className="fixed z-50 block p-4 rounded-lg text-left shadow-xl pointer-events-none"
+          style={{
+            top: card.top,
+            left: card.left,
+            width: CARD_WIDTH,
+            backgroundColor: "var(--bg-elevated)",
+            border: "1px solid var(--border-secondary)",
+          }}
+        >
+          <GlossaryCard entry={card.entry} />
+        </motion.span>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,23 @@
+"use client";
+
+import { HONEYPOT_FIELD } from "@/lib/spam";
+
+// ═══════════════════════════════════════════════════════════════════
+// HONEYPOT FIELD - Shared by the answer forms on Now and Collective
+// ═══════════════════════════════════════════════════════════════════
+
+// Invisible to people and screen readers; bots that fill every field give themselves away
+export default function HoneypotField({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <input
+      type="text"
+      name={HONEYPOT_FIELD}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      tabIndex={-1}
+      autoComplete="off"
+      aria-hidden="true"
+      style={{ position: 'absolute', left: '-10000px', width: 1, height: 1, opacity: 0 }}
+    />
+  );
+}
@@ -0,0 +1,191 @@
+"use client";
+
+import { useEffect, useState, type ReactNode, type RefObject } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { glossaryTermsIn } from "@/lib/glossary";
+import { useGlossary, useIdeStore } from "@/lib/store";
+import VariableHover from "@/components/VariableHover";
+
+// ═══════════════════════════════════════════════════════════════════
+// INSPECTOR - The Living Margin: follows the section being read
+// Any element with data-section="<id>" inside the container is a
+// section; data-section-title overrides its text as the label
+// ═══════════════════════════════════════════════════════════════════
+
+export interface InspectorSection {
+  id: string;
+  title: string;
+  element: HTMLElement;
+  // Everything from this section's marker up to the next one
+  text: string;
+}
+
+interface InspectorProps {
+  container: RefObject<HTMLElement | null>;
+  // Margin notes for the section in view; defaults to its length and glossary terms
+  children?: (section: InspectorSection) => ReactNode;
+  // Narrower pages leave room for the margin sooner
+  visibleFrom?: "xl" | "2xl";
+}
+
+const VISIBLE_FROM = { xl: "hidden xl:block", "2xl": "hidden 2xl:block" };
+
+// A section is current once its top passes this share of the viewport
+const READING_LINE = 0.3;
+
+function scanSections(root: HTMLElement): InspectorSection[] {
+  const elements = Array.from(root.querySelectorAll<HTMLElement>("[data-section]"));
+  return elements.map((element, i) => {
+    const range = document.createRange();
+    range.setStartBefore(element);
+    const next = elements[i + 1];
+    if (next) range.setEndBefore(next);
+    else range.setEnd(root, root.childNodes.length);
+
+    return {
+      id: element.dataset.section ?? "",
+      title: element.dataset.sectionTitle ?? element.textContent?.trim() ?? "",
+      element,
+      text: range.toString(),
+    };
+  });
+}
+
+function SectionNotes({ section }: { section: InspectorSection }) {
+  const words = section.text.split(/\s+/).filter(Boolean).length;
+  const terms = glossaryTermsIn(useGlossary(), section.text);
+
+  return (
+    <>
+      <p className="font-mono mb-1" style={{ color: "var(--text-muted)" }}>
+        {"// "}{section.title}
+      </p>
+      <p className="mb-4">
+        {words} words · {Math.max(1, Math.round(words / 200))} min
+      </p>
+      {terms.length > 0 && (
+        <>
+          <p className="font-mono text-[10px] uppercase tracking-widest mb-2" style={{ color: "var(--text-muted)" }}>
+            Terms
+          </p>
+          <ul className="space-y-1">
+            {terms.map((entry) => (
+              <li key={entry.term}>
+                <VariableHover term={entry.term} align="end" />
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </>
+  );
+}
+
+export default function Inspector({ container, children, visibleFrom = "xl" }: InspectorProps) {
+  const [sections, setSections] = useState<InspectorSection[]>([]);
+  const activeSection = useIdeStore((state) => state.activeSection);
+  const setActiveSection = useIdeStore((state) => state.setActiveSection);
+  const log = useIdeStore((state) => state.log);
+
+  // Rescan when the content changes, e.g. after switching to source and back
+  useEffect(() => {
+    const root = container.current;
+    if (!root) return;
+    const rescan = () =>
+      setSections((prev) => {
+        const next = scanSections(root);
+        const same =
+          next.length === prev.length &&
+          next.every((section, i) => section.element === prev[i].element && section.title === prev[i].title);
+        return same ? prev : next;
+      });
+    rescan();
+    const observer = new MutationObserver(rescan);
+    observer.observe(root, { childList: true, subtree: true });
+    return () => observer.disconnect();
+  }, [container]);
+
+  useEffect(() => {
+    if (sections.length === 0) {
+      setActiveSection(null);
+      return;
+    }
+
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      const line = window.innerHeight * READING_LINE;
+      let current = sections[0];
+      for (const section of sections) {
+        if (section.element.getBoundingClientRect().top <= line) current = section;
+      }
+      setActiveSection(current.id);
+    };
+    const handleScroll = () => {
+      if (!frame) frame = requestAnimationFrame(update);
+    };
+
+    update();
+    window.addEventListener("scroll", handleScroll, { passive: true });
+    window.addEventListener("resize", handleScroll);
+    return () => {
+      if (frame) cancelAnimationFrame(frame);
+      window.removeEventListener("scroll", handleScroll);
+      window.removeEventListener("resize", handleScroll);
+      setActiveSection(null);
+    };
+  }, [sections, setActiveSection]);
+
+  const active = sections.find((section) => section.id === activeSection) ?? null;
+  const activeTitle = active?.title;
+
+  useEffect(() => {
+    if (activeTitle) log("reached", activeTitle);
+  }, [activeTitle, log]);
+
+  if (sections.length === 0) return null;
+
+  return (
+    <motion.aside
+      initial={{ opacity: 0, x: 20 }}
+      animate={{ opacity: 1, x: 0 }}
+      transition={{ delay: 0.8 }}
+      className={`${VISIBLE_FROM[visibleFrom]} fixed top-32 right-8 w-56 z-30`}
+    >
+      <p className="font-mono text-[10px] uppercase tracking-widest mb-3" style={{ color: "var(--text-muted)" }}>
+        Outline
+      </p>
+      <nav className="space-y-1 mb-6 max-h-[40vh] overflow-y-auto">
+        {sections.map((section) => (
+          <button
+            key={section.id}
+            onClick={() => section.element.scrollIntoView({ behavior: "smooth", block: "start" })}
+            className="block w-full text-left text-xs py-1 pl-3 truncate transition-colors"
+            style={{
+              color: section.id === activeSection ? "var(--text-primary)" : "var(--text-muted)",
+              borderLeft: `1px solid ${section.id === activeSection ? "var(--accent-gold)" : "var(--border-secondary)"}`,
+            }}
+          >
+            {section.title}
+          </button>
+        ))}
+      </nav>
+
+      <AnimatePresence mode="wait">
+        {active && (
+          <motion.div
+            key={active.id}
+            initial={{ opacity: 0, y: 8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -8 }}
+            transition={{ duration: 0.2 }}
+            className="text-xs leading-relaxed"
+            style={{ color: "var(--text-tertiary)" }}
+          >
+            {children ? children(active) : <SectionNotes section={active} />}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </motion.aside>
+  );
+}
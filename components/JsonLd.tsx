@@ -0,0 +1,9 @@
+// ═══════════════════════════════════════════════════════════════════
+// JSON-LD - Structured data script for search engines
+// ═══════════════════════════════════════════════════════════════════
+
+export default function JsonLd({ data }: { data: object }) {
+  // Escape "<" so text fields can't close the script tag
+  const json = JSON.stringify(data).replace(/</g, "\\u003c");
+  return <script type="application/ld+json" dangerouslySetInnerHTML={{ __html: json }} />;
+}
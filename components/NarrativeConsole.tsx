@@ -0,0 +1,106 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { useIdeStore, type ConsoleEntry } from "@/lib/store";
+import { Token } from "@/components/SyntaxHighlight";
+
+// ═══════════════════════════════════════════════════════════════════
+// NARRATIVE CONSOLE - A terminal footer that narrates the reader's visit
+// "Observe always that everything is the result of change." - Marcus Aurelius
+// ═══════════════════════════════════════════════════════════════════
+
+function timeOf(at: number): string {
+  return new Date(at).toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+}
+
+function EntryLine({ entry }: { entry: ConsoleEntry }) {
+  return (
+    <div className="truncate">
+      <Token kind="comment">{timeOf(entry.at)}</Token>{" "}
+      <span style={{ color: "#e5e5e5" }}>You</span> <Token kind="function">{entry.verb}</Token>
+      {entry.object !== undefined && (
+        <>
+          {" "}
+          <Token kind="string">&ldquo;{entry.object}&rdquo;</Token>
+        </>
+      )}
+      <span style={{ color: "#e5e5e5" }}>.</span>
+    </div>
+  );
+}
+
+export default function NarrativeConsole() {
+  const entries = useIdeStore((state) => state.entries);
+  const open = useIdeStore((state) => state.consoleOpen);
+  const setOpen = useIdeStore((state) => state.setConsoleOpen);
+  const clearConsole = useIdeStore((state) => state.clearConsole);
+  const logRef = useRef<HTMLDivElement>(null);
+
+  // ` opens and closes the console, like a game's
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (e.key === "`") setOpen(!useIdeStore.getState().consoleOpen);
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [setOpen]);
+
+  useEffect(() => {
+    if (open && logRef.current) logRef.current.scrollTop = logRef.current.scrollHeight;
+  }, [open, entries]);
+
+  const last = entries[entries.length - 1];
+
+  return (
+    <div
+      className={`hidden lg:block fixed bottom-4 left-4 z-40 font-mono text-[11px] bg-console rounded-lg shadow-xl overflow-hidden ${
+        open ? "w-[32rem]" : "w-72"
+      }`}
+    >
+      <AnimatePresence initial={false}>
+        {open && (
+          <motion.div
+            initial={{ height: 0 }}
+            animate={{ height: "auto" }}
+            exit={{ height: 0 }}
+            transition={{ duration: 0.2 }}
+          >
+            <div className="flex items-center justify-between px-3 py-2 border-b border-white/10">
+              <span className="text-comment">narrative.log</span>
+              <div className="flex gap-3">
+                <button onClick={clearConsole} className="text-comment hover:text-white transition-colors">
+                  clear
+                </button>
+                <button onClick={() => setOpen(false)} className="text-comment hover:text-white transition-colors">
+                  ×
+                </button>
+              </div>
+            </div>
+            <div ref={logRef} className="h-40 overflow-y-auto px-3 py-2 space-y-1">
+              {entries.length === 0 ? (
+                <Token kind="comment">{"// Nothing has happened yet."}</Token>
+              ) : (
+                entries.map((entry) => <EntryLine key={entry.id} entry={entry} />)
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {!open && (
+        <button
+          onClick={() => setOpen(true)}
+          className="flex items-center gap-2 w-full px-3 py-2 text-left"
+          title="Open the console (`)"
+        >
+          <span className="text-string flex-shrink-0">&gt;_</span>
+          <span className="min-w-0 flex-1">
+            {last ? <EntryLine entry={last} /> : <Token kind="comment">{"// console"}</Token>}
+          </span>
+        </button>
+      )}
+    </div>
+  );
+}
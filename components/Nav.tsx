@@ -1,15 +1,14 @@
 "use client";
 
-import { useEffect, useState, useMemo } from "react";
+import { useEffect, useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
+import Link from "next/link";
+import { usePathname, useRouter } from "next/navigation";
+import { VIEWS, viewForPath } from "@/lib/views";
 
-interface NavProps {
-  current: string;
-  onChange: (view: string) => void;
-}
-
-export default function Nav({ current, onChange }: NavProps) {
-  const items = useMemo(() => ["now", "writing", "work", "collective", "about", "voices"], []);
+export default function Nav() {
+  const router = useRouter();
+  const current = viewForPath(usePathname());
   const [currentDate, setCurrentDate] = useState({ day: "", date: "", month: "" });
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
 
@@ -24,25 +23,23 @@ export default function Nav({ current, onChange }: NavProps) {
 
   useEffect(() => {
     const handleKey = (e: KeyboardEvent) => {
-      // Ignore if user is typing in an input
-      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      // Leave typing and dropdowns alone
+      const target = e.target;
+      if (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return;
+      if (target instanceof HTMLElement && target.isContentEditable) return;
+      // ⌘1 and friends belong to the browser
+      if (e.metaKey || e.ctrlKey || e.altKey) return;
       
       const idx = parseInt(e.key) - 1;
-      if (idx >= 0 && idx < items.length) {
-        onChange(items[idx]);
+      if (idx >= 0 && idx < VIEWS.length) {
+        router.push(VIEWS[idx].href);
         setMobileMenuOpen(false);
       }
       if (e.key === "Escape") setMobileMenuOpen(false);
     };
     window.addEventListener("keydown", handleKey);
     return () => window.removeEventListener("keydown", handleKey);
-  }, [onChange, items]);
-
-  // Close mobile menu when view changes
-  const handleNavChange = (view: string) => {
-    onChange(view);
-    setMobileMenuOpen(false);
-  };
+  }, [router]);
 
   return (
     <>
@@ -80,10 +77,10 @@ export default function Nav({ current, onChange }: NavProps) {
               animate={{ opacity: 1, x: 0 }}
               transition={{ duration: 0.8 }}
             >
-              {items.map((item, i) => (
-                <button
+              {VIEWS.map(({ id: item, href }, i) => (
+                <Link
                   key={item}
-                  onClick={() => handleNavChange(item)}
+                  href={href}
                   className="relative px-3 md:px-4 py-2 text-[10px] md:text-xs tracking-widest uppercase transition-all duration-300 rounded-sm"
                   style={{ 
                     color: current === item ? 'var(--text-primary)' : 'var(--text-tertiary)'
@@ -107,7 +104,7 @@ export default function Nav({ current, onChange }: NavProps) {
                   >
                     {i + 1}
                   </span>
-                </button>
+                </Link>
               ))}
             </motion.div>
 
@@ -175,20 +172,24 @@ export default function Nav({ current, onChange }: NavProps) {
                 <span className="text-[10px] tracking-widest uppercase" style={{ color: 'var(--text-tertiary)' }}>{currentDate.month}</span>
               </div>
 
-              {items.map((item, i) => (
-                <motion.button
+              {VIEWS.map(({ id: item, href }, i) => (
+                <motion.div
                   key={item}
-                  onClick={() => handleNavChange(item)}
                   initial={{ opacity: 0, y: 10 }}
                   animate={{ opacity: 1, y: 0 }}
                   transition={{ delay: i * 0.05 }}
-                  className="text-2xl tracking-widest uppercase transition-colors py-2"
-                  style={{ 
-                    color: current === item ? 'var(--text-primary)' : 'var(--text-tertiary)'
-                  }}
                 >
-                  {item}
-                </motion.button>
+                  <Link
+                    href={href}
+                    onClick={() => setMobileMenuOpen(false)}
+                    className="block text-2xl tracking-widest uppercase transition-colors py-2"
+                    style={{ 
+                      color: current === item ? 'var(--text-primary)' : 'var(--text-tertiary)'
+                    }}
+                  >
+                    {item}
+                  </Link>
+                </motion.div>
               ))}
             </motion.div>
           </motion.div>
@@ -0,0 +1,177 @@
+"use client";
+
+import { useState } from "react";
+import {
+  PUBLISH_STATUSES,
+  PUBLISH_STATUS_LABELS,
+  PublishStatus,
+  isListed,
+  toDateTimeLocal,
+} from "@/lib/publishing";
+
+// ═══════════════════════════════════════════════════════════════════
+// PUBLISH CONTROLS - Status picker, badges and preview links for the admin
+// ═══════════════════════════════════════════════════════════════════
+
+export interface PublishState {
+  publishStatus: PublishStatus;
+  publishAt: string | null;
+}
+
+const STATUS_COLORS: Record<PublishStatus, { bg: string; fg: string }> = {
+  draft: { bg: "var(--bg-primary)", fg: "var(--text-muted)" },
+  scheduled: { bg: "rgba(59, 130, 246, 0.2)", fg: "#3b82f6" },
+  published: { bg: "rgba(34, 197, 94, 0.2)", fg: "#22c55e" },
+  unlisted: { bg: "var(--accent-gold-dim)", fg: "var(--accent-gold)" },
+};
+
+/**
+ * Status buttons plus the publish date used when scheduling
+ */
+export function PublishFields({
+  value,
+  onChange,
+}: {
+  value: PublishState;
+  onChange: (value: PublishState) => void;
+}) {
+  return (
+    <div>
+      <label
+        className="block text-xs uppercase tracking-wider mb-2"
+        style={{ color: "var(--text-muted)" }}
+      >
+        Visibility
+      </label>
+      <div className="grid grid-cols-4 gap-2">
+        {PUBLISH_STATUSES.map(status => (
+          <button
+            key={status}
+            type="button"
+            onClick={() => onChange({ ...value, publishStatus: status })}
+            className="px-3 py-2 rounded-lg text-xs transition-all duration-200"
+            style={{
+              backgroundColor: value.publishStatus === status ? STATUS_COLORS[status].bg : "var(--bg-primary)",
+              border: "1px solid var(--border-secondary)",
+              color: value.publishStatus === status ? STATUS_COLORS[status].fg : "var(--text-muted)"
+            }}
+          >
+            {PUBLISH_STATUS_LABELS[status]}
+          </button>
+        ))}
+      </div>
+      {value.publishStatus === "scheduled" && (
+        <input
+          type="datetime-local"
+          value={toDateTimeLocal(value.publishAt)}
+          onChange={(e) => onChange({
+            ...value,
+            publishAt: e.target.value ? new Date(e.target.value).toISOString() : null
+          })}
+          className="w-full mt-2 px-4 py-2 rounded-lg text-sm focus:outline-none focus:ring-2"
+          style={{
+            backgroundColor: "var(--bg-primary)",
+            border: "1px solid var(--border-secondary)",
+            color: "var(--text-secondary)"
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+/**
+ * Small status pill for list rows. Scheduled items whose date has passed read as live.
+ */
+export function PublishBadge({ publishStatus, publishAt }: PublishState) {
+  const status = publishStatus === "scheduled" && isListed({ publishStatus, publishAt })
+    ? "published"
+    : publishStatus;
+
+  return (
+    <span
+      className="text-xs px-2 py-0.5 rounded"
+      style={{ backgroundColor: STATUS_COLORS[status].bg, color: STATUS_COLORS[status].fg }}
+      title={publishAt ? new Date(publishAt).toLocaleString() : undefined}
+    >
+      {status === "scheduled" && publishAt
+        ? `scheduled · ${new Date(publishAt).toLocaleDateString()}`
+        : PUBLISH_STATUS_LABELS[status].toLowerCase()}
+    </span>
+  );
+}
+
+/**
+ * Tabs for narrowing an admin list by status
+ */
+export function PublishFilter({
+  value,
+  onChange,
+  counts,
+}: {
+  value: PublishStatus | "all";
+  onChange: (value: PublishStatus | "all") => void;
+  counts: Record<PublishStatus | "all", number>;
+}) {
+  const options: Array<PublishStatus | "all"> = ["all", ...PUBLISH_STATUSES];
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {options.map(option => (
+        <button
+          key={option}
+          onClick={() => onChange(option)}
+          className="px-3 py-1 rounded-full text-xs transition-all duration-200"
+          style={{
+            backgroundColor: value === option ? "var(--accent-gold-dim)" : "var(--bg-elevated)",
+            border: `1px solid ${value === option ? "var(--accent-gold)" : "var(--border-primary)"}`,
+            color: value === option ? "var(--accent-gold)" : "var(--text-muted)"
+          }}
+        >
+          {option === "all" ? "All" : PUBLISH_STATUS_LABELS[option]} ({counts[option]})
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Mints a signed preview URL and copies it to the clipboard
+ */
+export function PreviewLinkButton({ endpoint }: { endpoint: string }) {
+  const [state, setState] = useState<"idle" | "copied" | "error">("idle");
+
+  const handleClick = async () => {
+    try {
+      const res = await fetch(endpoint, { method: "POST" });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const { url } = await res.json();
+      await navigator.clipboard.writeText(new URL(url, window.location.origin).toString());
+      setState("copied");
+    } catch (error) {
+      console.error("Failed to create preview link:", error);
+      setState("error");
+    }
+    setTimeout(() => setState("idle"), 2000);
+  };
+
+  return (
+    <button
+      onClick={handleClick}
+      className="px-3 py-1 rounded-lg text-xs transition-opacity hover:opacity-70"
+      style={{
+        backgroundColor: "var(--bg-primary)",
+        border: "1px solid var(--border-secondary)",
+        color: state === "error" ? "#ef4444" : "var(--text-secondary)"
+      }}
+    >
+      {state === "copied" ? "✓ Copied" : state === "error" ? "Failed" : "Preview link"}
+    </button>
+  );
+}
+
+export function countByStatus(items: { publishStatus: PublishStatus }[]): Record<PublishStatus | "all", number> {
+  const counts = { all: items.length, draft: 0, scheduled: 0, published: 0, unlisted: 0 };
+  for (const item of items) counts[item.publishStatus]++;
+  return counts;
+}
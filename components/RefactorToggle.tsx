@@ -0,0 +1,57 @@
+"use client";
+
+import { useEffect, type CSSProperties } from "react";
+import { motion } from "framer-motion";
+import { useIdeStore } from "@/lib/store";
+
+// ═══════════════════════════════════════════════════════════════════
+// REFACTOR TOGGLE - Swap the rendered prose for the source behind it
+// ═══════════════════════════════════════════════════════════════════
+
+interface RefactorToggleProps {
+  // Glyph only, for round icon buttons
+  compact?: boolean;
+  className?: string;
+  style?: CSSProperties;
+}
+
+export default function RefactorToggle({ compact = false, className = "", style }: RefactorToggleProps) {
+  const viewMode = useIdeStore((state) => state.viewMode);
+  const toggleViewMode = useIdeStore((state) => state.toggleViewMode);
+  const log = useIdeStore((state) => state.log);
+
+  const handleToggle = () => {
+    log("switched to", viewMode === "render" ? "source" : "render");
+    toggleViewMode();
+  };
+
+  // S toggles wherever the button is shown
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      // Leave typing, dropdowns and browser shortcuts alone
+      const target = e.target;
+      if (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return;
+      if (target instanceof HTMLElement && target.isContentEditable) return;
+      if (e.metaKey || e.ctrlKey || e.altKey) return;
+      if (e.key === "s" || e.key === "S") {
+        log("switched to", useIdeStore.getState().viewMode === "render" ? "source" : "render");
+        toggleViewMode();
+      }
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [log, toggleViewMode]);
+
+  return (
+    <motion.button
+      onClick={handleToggle}
+      whileTap={{ scale: 0.95 }}
+      className={`font-mono text-xs transition-opacity hover:opacity-70 ${className}`}
+      style={{ ...style, color: viewMode === "source" ? "var(--accent-gold)" : "var(--text-muted)" }}
+      title={viewMode === "render" ? "View source (s)" : "View rendered (s)"}
+      aria-pressed={viewMode === "source"}
+    >
+      {compact ? (viewMode === "render" ? "{ }" : "¶") : viewMode === "render" ? "{ } Source" : "¶ Render"}
+    </motion.button>
+  );
+}
@@ -0,0 +1,213 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { addMonths, monthRange, weekdayIndex, type ScheduleDay } from "@/lib/schedule";
+
+// ═══════════════════════════════════════════════════════════════════
+// SCHEDULE CALENDAR - Month view for pinning questions and intentions to days
+// Days left unpinned show whose turn it is in the rotation
+// ═══════════════════════════════════════════════════════════════════
+
+interface ScheduleMonth {
+  month: string;
+  today: string;
+  timeZone: string;
+  days: ScheduleDay[];
+}
+
+interface ScheduleCalendarProps<T extends { id: number; active: boolean }> {
+  // e.g. /api/contemplations/schedule
+  endpoint: string;
+  // Body field naming the pinned item, e.g. "contemplationId"
+  idField: string;
+  // Refetched whenever this array changes, since order and rotation decide unpinned days
+  items: T[];
+  label: (item: T) => string;
+  // Called after today's item changed
+  onTodayChange?: () => void;
+}
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+function formatMonth(month: string) {
+  return new Date(`${month}-01T00:00:00Z`).toLocaleDateString("en-US", { month: "long", year: "numeric", timeZone: "UTC" });
+}
+
+function formatDay(date: string) {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", { weekday: "long", month: "long", day: "numeric", timeZone: "UTC" });
+}
+
+export default function ScheduleCalendar<T extends { id: number; active: boolean }>({
+  endpoint,
+  idField,
+  items,
+  label,
+  onTodayChange,
+}: ScheduleCalendarProps<T>) {
+  const [month, setMonth] = useState<string | null>(null);
+  const [schedule, setSchedule] = useState<ScheduleMonth | null>(null);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchSchedule = useCallback(async () => {
+    try {
+      const res = await fetch(month ? `${endpoint}?month=${month}` : endpoint);
+      if (res.ok) {
+        const data: ScheduleMonth = await res.json();
+        setSchedule(data);
+        if (!month) setMonth(data.month);
+      }
+    } catch (error) {
+      console.error("Failed to fetch schedule:", error);
+    }
+  }, [endpoint, month]);
+
+  useEffect(() => {
+    fetchSchedule();
+  }, [fetchSchedule, items]);
+
+  const pin = async (date: string, itemId: number | null) => {
+    setSaving(true);
+    try {
+      const res = await fetch(endpoint, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ date, [idField]: itemId }),
+      });
+      if (res.ok) {
+        setSchedule(await res.json());
+        if (date === schedule?.today) onTodayChange?.();
+      } else {
+        const data = await res.json().catch(() => ({}));
+        alert(data.error || "Failed to update schedule");
+      }
+    } catch (error) {
+      console.error("Failed to update schedule:", error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!schedule || !month) {
+    return (
+      <div className="py-16 text-center text-sm" style={{ color: "rgba(255,255,255,0.4)" }}>
+        Loading calendar...
+      </div>
+    );
+  }
+
+  const labels = new Map(items.map((item) => [item.id, label(item)]));
+  const activeItems = items.filter((item) => item.active);
+  const leading = weekdayIndex(monthRange(month).first);
+  const selectedDay = schedule.days.find((day) => day.date === selected) ?? null;
+
+  return (
+    <div>
+      {/* Month switcher */}
+      <div className="flex items-center justify-between mb-4">
+        <button
+          onClick={() => setMonth(addMonths(month, -1))}
+          className="px-3 py-1 rounded text-sm hover:opacity-70 transition-opacity"
+          style={{ border: "1px solid rgba(255,255,255,0.1)", color: "rgba(255,255,255,0.6)" }}
+        >
+          ‹
+        </button>
+        <div className="text-center">
+          <p className="text-sm" style={{ color: "rgba(255,255,255,0.9)" }}>{formatMonth(month)}</p>
+          <p className="text-[10px] font-mono" style={{ color: "rgba(255,255,255,0.3)" }}>
+            days start at midnight {schedule.timeZone}
+          </p>
+        </div>
+        <button
+          onClick={() => setMonth(addMonths(month, 1))}
+          className="px-3 py-1 rounded text-sm hover:opacity-70 transition-opacity"
+          style={{ border: "1px solid rgba(255,255,255,0.1)", color: "rgba(255,255,255,0.6)" }}
+        >
+          ›
+        </button>
+      </div>
+
+      {/* Grid */}
+      <div className="grid grid-cols-7 gap-1">
+        {WEEKDAYS.map((weekday) => (
+          <div key={weekday} className="text-[10px] font-mono uppercase text-center py-1" style={{ color: "rgba(255,255,255,0.3)" }}>
+            {weekday}
+          </div>
+        ))}
+        {Array.from({ length: leading }, (_, i) => <div key={`blank-${i}`} />)}
+        {schedule.days.map((day) => {
+          const past = day.date < schedule.today;
+          const isToday = day.date === schedule.today;
+          const isSelected = day.date === selected;
+          return (
+            <button
+              key={day.date}
+              onClick={() => setSelected(isSelected ? null : day.date)}
+              disabled={past}
+              className="h-20 p-1.5 rounded text-left flex flex-col transition-colors disabled:cursor-default"
+              style={{
+                opacity: past ? 0.4 : 1,
+                backgroundColor: isSelected
+                  ? "rgba(201,162,39,0.15)"
+                  : day.source === "scheduled"
+                    ? "rgba(201,162,39,0.06)"
+                    : "rgba(255,255,255,0.03)",
+                border: `1px solid ${isToday ? "#c9a227" : isSelected ? "rgba(201,162,39,0.4)" : "rgba(255,255,255,0.08)"}`,
+              }}
+              title={day.itemId !== null ? labels.get(day.itemId) : "Nothing to show"}
+            >
+              <span className="flex items-center justify-between text-[10px] font-mono" style={{ color: isToday ? "#c9a227" : "rgba(255,255,255,0.4)" }}>
+                {Number(day.date.slice(8))}
+                {day.source === "scheduled" && <span style={{ color: "#c9a227" }}>●</span>}
+                {day.source === "rotation" && <span>↻</span>}
+              </span>
+              <span className="mt-1 text-[10px] leading-tight line-clamp-3" style={{ color: day.source === "scheduled" ? "rgba(255,255,255,0.85)" : "rgba(255,255,255,0.45)" }}>
+                {day.itemId !== null ? labels.get(day.itemId) ?? "…" : "—"}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Legend */}
+      <div className="flex gap-4 mt-3 text-[10px] font-mono" style={{ color: "rgba(255,255,255,0.3)" }}>
+        <span><span style={{ color: "#c9a227" }}>●</span> pinned to the day</span>
+        <span>↻ rotation&apos;s turn</span>
+      </div>
+
+      {/* Selected day */}
+      {selectedDay && (
+        <div className="mt-6 p-4 rounded-lg" style={{ backgroundColor: "rgba(255,255,255,0.03)", border: "1px solid rgba(255,255,255,0.08)" }}>
+          <p className="text-xs font-mono uppercase tracking-wider mb-3" style={{ color: "rgba(255,255,255,0.4)" }}>
+            {formatDay(selectedDay.date)}
+            {selectedDay.date === schedule.today && <span style={{ color: "#c9a227" }}> · today</span>}
+          </p>
+          <div className="flex gap-3">
+            <select
+              value={selectedDay.source === "scheduled" && selectedDay.itemId !== null ? String(selectedDay.itemId) : ""}
+              onChange={(e) => pin(selectedDay.date, e.target.value ? Number(e.target.value) : null)}
+              disabled={saving}
+              className="flex-1 px-3 py-2 rounded text-sm"
+              style={{ backgroundColor: "#141414", border: "1px solid rgba(255,255,255,0.1)", color: "rgba(255,255,255,0.9)" }}
+            >
+              <option value="">↻ Rotation</option>
+              {activeItems.map((item) => (
+                <option key={item.id} value={item.id}>{label(item)}</option>
+              ))}
+            </select>
+            {selectedDay.source === "scheduled" && (
+              <button
+                onClick={() => pin(selectedDay.date, null)}
+                disabled={saving}
+                className="px-4 py-2 rounded text-xs transition-opacity hover:opacity-70"
+                style={{ border: "1px solid rgba(255,255,255,0.1)", color: "rgba(255,255,255,0.6)" }}
+              >
+                Unpin
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
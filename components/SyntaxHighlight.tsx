@@ -0,0 +1,138 @@
+"use client";
+
+import { Fragment, type ReactNode } from "react";
+
+// ═══════════════════════════════════════════════════════════════════
+// SYNTAX HIGHLIGHT - Semantic token colors for prose and raw source
+// Variables are subjects, functions are actions, strings are quotes,
+// comments are asides; colors come from tailwind.config.ts
+// ═══════════════════════════════════════════════════════════════════
+
+export type TokenKind = "variable" | "function" | "string" | "comment";
+
+const TOKEN_CLASS: Record<TokenKind, string> = {
+  variable: "text-variable",
+  function: "text-function",
+  string: "text-string",
+  comment: "text-comment italic",
+};
+
+export function Token({ kind, children }: { kind: TokenKind; children: ReactNode }) {
+  return <span className={TOKEN_CLASS[kind]}>{children}</span>;
+}
+
+type Piece = string | { kind: TokenKind; text: string };
+
+// Object keys are variables, string values strings, literals functions
+const JSON_TOKEN = /("(?:\\.|[^"\\])*")(\s*:)?|\b(?:true|false|null)\b|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|[{}[\],]/g;
+
+function jsonLine(line: string): Piece[] {
+  const pieces: Piece[] = [];
+  let last = 0;
+  for (const match of line.matchAll(JSON_TOKEN)) {
+    const index = match.index ?? 0;
+    if (index > last) pieces.push(line.slice(last, index));
+    if (match[1]) {
+      pieces.push({ kind: match[2] ? "variable" : "string", text: match[1] });
+      if (match[2]) pieces.push(match[2]);
+    } else if (/^[{}[\],]$/.test(match[0])) {
+      pieces.push({ kind: "comment", text: match[0] });
+    } else {
+      pieces.push({ kind: "function", text: match[0] });
+    }
+    last = index + match[0].length;
+  }
+  if (last < line.length) pieces.push(line.slice(last));
+  return pieces;
+}
+
+// Links are variables, inline code strings, their targets comments;
+// semantic annotations ({var:…}, {fn:…}, {str:…}, {// …}) take their own color
+const MARKDOWN_INLINE = /(\[[^\]]*\])(\([^)]*\))|(`[^`]+`)|(<!--.*?-->)|\{(var:|fn:|str:|\/\/)[^{}\n]*\}/g;
+
+const ANNOTATION_KIND: Record<string, TokenKind> = { "var:": "variable", "fn:": "function", "str:": "string", "//": "comment" };
+
+function markdownInline(text: string): Piece[] {
+  const pieces: Piece[] = [];
+  let last = 0;
+  for (const match of text.matchAll(MARKDOWN_INLINE)) {
+    const index = match.index ?? 0;
+    if (index > last) pieces.push(text.slice(last, index));
+    if (match[1]) {
+      pieces.push({ kind: "variable", text: match[1] }, { kind: "comment", text: match[2] });
+    } else if (match[3]) {
+      pieces.push({ kind: "string", text: match[3] });
+    } else if (match[4]) {
+      pieces.push({ kind: "comment", text: match[4] });
+    } else {
+      pieces.push({ kind: ANNOTATION_KIND[match[5]], text: match[0] });
+    }
+    last = index + match[0].length;
+  }
+  if (last < text.length) pieces.push(text.slice(last));
+  return pieces;
+}
+
+// Headings are functions, quotes strings, markers and fences comments
+function markdownLines(source: string): Piece[][] {
+  let inFence = false;
+  return source.split("\n").map((line): Piece[] => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      return [{ kind: "comment", text: line }];
+    }
+    if (inFence) return [line];
+    if (/^#{1,6}\s/.test(line)) return [{ kind: "function", text: line }];
+    if (/^\s*>/.test(line)) return [{ kind: "string", text: line }];
+
+    const marker = line.match(/^(\s*(?:[-*+]|\d+\.)\s+(?:\[[ xX]\]\s+)?)/);
+    if (marker) return [{ kind: "comment", text: marker[1] }, ...markdownInline(line.slice(marker[1].length))];
+    return markdownInline(line);
+  });
+}
+
+interface SyntaxHighlightProps {
+  source: string;
+  language: "json" | "markdown";
+}
+
+/**
+ * Raw source in an editor pane: line numbers and semantic colors
+ */
+export default function SyntaxHighlight({ source, language }: SyntaxHighlightProps) {
+  const lines = language === "json" ? source.split("\n").map(jsonLine) : markdownLines(source);
+
+  return (
+    <pre
+      className="font-mono text-xs sm:text-sm leading-relaxed overflow-x-auto rounded-xl py-4"
+      style={{
+        backgroundColor: "var(--bg-elevated)",
+        border: "1px solid var(--border-primary)",
+        color: "var(--text-secondary)",
+      }}
+    >
+      <code>
+        {lines.map((pieces, index) => (
+          <div key={index} className="flex">
+            <span
+              className="select-none w-12 flex-shrink-0 pr-4 text-right"
+              style={{ color: "var(--text-muted)", opacity: 0.5 }}
+            >
+              {index + 1}
+            </span>
+            <span className="pr-4 whitespace-pre">
+              {pieces.map((piece, i) =>
+                typeof piece === "string" ? (
+                  <Fragment key={i}>{piece}</Fragment>
+                ) : (
+                  <Token key={i} kind={piece.kind}>{piece.text}</Token>
+                )
+              )}
+              {pieces.length === 0 && " "}
+            </span>
+          </div>
+        ))}
+      </code>
+    </pre>
+  );
+}
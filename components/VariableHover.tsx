@@ -0,0 +1,97 @@
+"use client";
+
+import { useState, type ReactNode } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { findGlossaryEntry, type GlossaryEntry } from "@/lib/glossary";
+import { useGlossary, useIdeStore } from "@/lib/store";
+import { Token } from "@/components/SyntaxHighlight";
+
+// ═══════════════════════════════════════════════════════════════════
+// VARIABLE HOVER - A glossary term's definition, documented like a symbol
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * The inside of a hover card: signature, origin, definition and an example quote
+ */
+export function GlossaryCard({ entry }: { entry: GlossaryEntry }) {
+  return (
+    <>
+      <span className="block font-mono text-xs mb-2">
+        <Token kind="function">const</Token> <Token kind="variable">{entry.term}</Token>
+        {entry.origin && (
+          <span className="block mt-1">
+            <Token kind="comment">{"// "}{entry.origin}</Token>
+          </span>
+        )}
+      </span>
+      <span className="block text-sm leading-relaxed" style={{ color: "var(--text-secondary)" }}>
+        {entry.definition}
+      </span>
+      {entry.quote && (
+        <span className="block mt-3 text-xs leading-relaxed">
+          <Token kind="comment">@example</Token>{" "}
+          <Token kind="string">&ldquo;{entry.quote.text}&rdquo;</Token>{" "}
+          <span style={{ color: "var(--text-muted)" }}>— {entry.quote.author}</span>
+        </span>
+      )}
+    </>
+  );
+}
+
+interface VariableHoverProps {
+  // Glossary term or alias; unknown terms render as plain text
+  term: string;
+  children?: ReactNode;
+  // Which edge of the term the card lines up with; "end" opens leftwards
+  align?: "start" | "end";
+}
+
+export default function VariableHover({ term, children, align = "start" }: VariableHoverProps) {
+  const [open, setOpen] = useState(false);
+  const log = useIdeStore((state) => state.log);
+  const entry = findGlossaryEntry(useGlossary(), term);
+
+  if (!entry) return <>{children ?? term}</>;
+
+  const show = () => {
+    setOpen(true);
+    log("looked up", entry.term);
+  };
+
+  return (
+    <span
+      className="relative inline-block"
+      onMouseEnter={show}
+      onMouseLeave={() => setOpen(false)}
+      onFocus={show}
+      onBlur={() => setOpen(false)}
+    >
+      <span
+        tabIndex={0}
+        className="cursor-help focus:outline-none"
+        style={{ borderBottom: "1px dotted currentColor" }}
+      >
+        {children ?? term}
+      </span>
+
+      <AnimatePresence>
+        {open && (
+          <motion.span
+            role="tooltip"
+            initial={{ opacity: 0, y: 4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 4 }}
+            transition={{ duration: 0.15 }}
+            className={`absolute ${align === "end" ? "right-0" : "left-0"} top-full mt-2 z-50 block w-72 p-4 rounded-lg text-left font-normal not-italic shadow-xl`}
+            style={{
+              backgroundColor: "var(--bg-elevated)",
+              border: "1px solid var(--border-secondary)",
+            }}
+          >
+            <GlossaryCard entry={entry} />
+          </motion.span>
+        )}
+      </AnimatePresence>
+    </span>
+  );
+}
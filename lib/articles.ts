@@ -0,0 +1,188 @@
+import { revalidatePath } from "next/cache";
+import prisma from "@/lib/prisma";
+import { publishLiveEvent } from "@/lib/events";
+import { stripAnnotations } from "@/lib/markdown";
+import { isListed, isViewable, listedWhere } from "@/lib/publishing";
+import type { Article as ArticleRow } from "@prisma/client";
+
+// ═══════════════════════════════════════════════════════════════════
+// ARTICLES - Server-side loading for the public /writing pages
+// ═══════════════════════════════════════════════════════════════════
+
+export interface ContentBlock {
+  type: "paragraph" | "heading" | "quote";
+  text: string;
+  author?: string;
+}
+
+export interface ArticleDetail {
+  id: number;
+  slug: string;
+  title: string;
+  excerpt: string;
+  date: string;
+  readTime: string;
+  tags: string[];
+  featured: boolean;
+  epigraph: { text: string; author: string; source: string } | null;
+  content: ContentBlock[] | string;
+  publishStatus: string;
+  publishAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Same parsing as /api/articles: markdown strings or legacy block arrays
+export function parseArticle(article: ArticleRow): ArticleDetail {
+  let content: ContentBlock[] | string;
+  try {
+    content = JSON.parse(article.content || "\"\"");
+  } catch {
+    content = article.content || "";
+  }
+
+  return {
+    id: article.id,
+    slug: article.slug,
+    title: article.title,
+    excerpt: article.excerpt,
+    date: article.date,
+    readTime: article.readTime,
+    tags: JSON.parse(article.tags || "[]"),
+    featured: article.featured,
+    epigraph: article.epigraph ? JSON.parse(article.epigraph) : null,
+    content,
+    publishStatus: article.publishStatus,
+    publishAt: article.publishAt?.toISOString() ?? null,
+    createdAt: article.createdAt.toISOString(),
+    updatedAt: article.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Plain text of a stored body, markdown or legacy JSON blocks, for search and matching
+ */
+export function articleText(content: string): string {
+  try {
+    const parsed = JSON.parse(content || "\"\"");
+    if (typeof parsed === "string") return stripAnnotations(parsed);
+    if (Array.isArray(parsed)) return parsed.map((block: { text?: string }) => block.text ?? "").join("\n");
+  } catch {
+    // Plain text
+  }
+  return stripAnnotations(content);
+}
+
+/**
+ * Find an article by slug. Drafts are only returned with `includeUnpublished`.
+ */
+export async function getArticleBySlug(slug: string, includeUnpublished = false): Promise<ArticleDetail | null> {
+  const article = await prisma.article.findUnique({ where: { slug } });
+  if (!article || (!includeUnpublished && !isViewable(article))) return null;
+  return parseArticle(article);
+}
+
+export async function getListedArticleSlugs(): Promise<string[]> {
+  const articles = await prisma.article.findMany({
+    where: listedWhere(),
+    select: { slug: true },
+  });
+  return articles.map((a) => a.slug);
+}
+
+export interface TagSummary {
+  tag: string;
+  count: number;
+  updatedAt: Date;
+}
+
+/**
+ * Every tag on a listed article, with how many articles carry it and when one last changed.
+ * Tags are matched case-insensitively; the first spelling seen wins.
+ */
+export async function getListedTags(): Promise<TagSummary[]> {
+  const articles = await prisma.article.findMany({
+    where: listedWhere(),
+    select: { tags: true, updatedAt: true },
+  });
+
+  const tags = new Map<string, TagSummary>();
+  for (const article of articles) {
+    for (const tag of JSON.parse(article.tags || "[]") as string[]) {
+      const key = tag.toLowerCase();
+      const summary = tags.get(key);
+      if (!summary) {
+        tags.set(key, { tag, count: 1, updatedAt: article.updatedAt });
+      } else {
+        summary.count++;
+        if (article.updatedAt > summary.updatedAt) summary.updatedAt = article.updatedAt;
+      }
+    }
+  }
+  return [...tags.values()].sort((a, b) => a.tag.localeCompare(b.tag));
+}
+
+/**
+ * The tag in a /tags/[tag] URL segment, or null when its escapes are malformed
+ */
+export function decodeTag(segment: string): string | null {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+}
+
+export async function getArticlesByTag(tag: string): Promise<ArticleDetail[]> {
+  const wanted = tag.toLowerCase();
+  const articles = await prisma.article.findMany({
+    where: listedWhere(),
+    orderBy: { date: "desc" },
+  });
+  return articles
+    .map(parseArticle)
+    .filter((article) => article.tags.some((t) => t.toLowerCase() === wanted));
+}
+
+/**
+ * Drop every cached article and tag page, for changes that reach all of them (the glossary)
+ */
+export function revalidateArticlePages() {
+  revalidatePath("/writing/[slug]", "page");
+  revalidatePath("/tags/[tag]", "page");
+  // Which articles use each term
+  revalidatePath("/glossary");
+}
+
+/**
+ * Drop the cached pages one write touched: the article and its tags, as they
+ * were and as they are, so renamed slugs and removed tags are covered too
+ */
+export function revalidateArticle(...versions: Array<Pick<ArticleRow, "slug" | "tags"> | null | undefined>) {
+  const paths = new Set<string>();
+  for (const version of versions) {
+    if (!version) continue;
+    paths.add(`/writing/${version.slug}`);
+    for (const tag of JSON.parse(version.tags || "[]") as string[]) {
+      paths.add(`/tags/${encodeURIComponent(tag)}`);
+    }
+  }
+  paths.forEach((path) => revalidatePath(path));
+}
+
+type ArticleListing = Pick<ArticleRow, "id" | "slug" | "publishStatus" | "publishAt">;
+
+/**
+ * Push a live event when a write changed whether /writing lists the article:
+ * published, withdrawn or deleted. Edits to an article that stays listed are
+ * not news. `article` is null after a delete; `previous` is the row before the write.
+ * Returns whether the listing changed.
+ */
+export function announceArticle(article: ArticleListing | null, previous: ArticleListing | null): boolean {
+  const listed = !!article && isListed(article);
+  const wasListed = !!previous && isListed(previous);
+  const current = article ?? previous;
+  if (!current || listed === wasListed) return false;
+  publishLiveEvent({ type: "article.published", id: current.id, slug: current.slug, listed });
+  return true;
+}
@@ -1,60 +1,52 @@
+import type { Role } from "@/lib/roles";
+
 // ═══════════════════════════════════════════════════════════════════
-// AUTHENTICATION - Simple password-based auth for personal blog
+// AUTHENTICATION - Client helpers for the server-side admin session
 // "Know thyself" - Oracle at Delphi
+// The session itself lives in an HTTP-only cookie (see lib/session.ts)
 // ═══════════════════════════════════════════════════════════════════
 
-const ADMIN_PASSWORD = "stoic2025"; // Change this to your password
-const AUTH_KEY = "stoic_admin_auth";
-const SESSION_DURATION = 24 * 60 * 60 * 1000; // 24 hours
+export interface AuthUser {
+  id: number | null; // null for the bootstrap owner
+  name: string;
+  role: Role;
+}
 
 export interface AuthSession {
   authenticated: boolean;
-  expiresAt: number;
+  expiresAt: number | null;
+  user: AuthUser | null;
 }
 
-export function login(password: string): boolean {
-  if (password === ADMIN_PASSWORD) {
-    const session: AuthSession = {
-      authenticated: true,
-      expiresAt: Date.now() + SESSION_DURATION,
-    };
-    if (typeof window !== "undefined") {
-      localStorage.setItem(AUTH_KEY, JSON.stringify(session));
-    }
-    return true;
-  }
-  return false;
-}
+const SIGNED_OUT: AuthSession = { authenticated: false, expiresAt: null, user: null };
 
-export function logout(): void {
-  if (typeof window !== "undefined") {
-    localStorage.removeItem(AUTH_KEY);
+export async function login(email: string, password: string): Promise<boolean> {
+  try {
+    const res = await fetch("/api/auth/login", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ email, password }),
+    });
+    return res.ok;
+  } catch {
+    return false;
   }
 }
 
-export function isAuthenticated(): boolean {
-  if (typeof window === "undefined") return false;
-  
-  const stored = localStorage.getItem(AUTH_KEY);
-  if (!stored) return false;
-  
+export async function logout(): Promise<void> {
   try {
-    const session: AuthSession = JSON.parse(stored);
-    if (session.authenticated && session.expiresAt > Date.now()) {
-      return true;
-    }
-    // Session expired
-    localStorage.removeItem(AUTH_KEY);
-    return false;
+    await fetch("/api/auth/logout", { method: "POST" });
   } catch {
-    return false;
+    // Cookie will still expire on its own
   }
 }
 
-export function useAuth(): { isAuth: boolean; loading: boolean } {
-  // This is a simple sync check - in real app you'd use a proper hook
-  if (typeof window === "undefined") {
-    return { isAuth: false, loading: true };
+export async function getSession(): Promise<AuthSession> {
+  try {
+    const res = await fetch("/api/auth/session", { cache: "no-store" });
+    if (!res.ok) return SIGNED_OUT;
+    return await res.json();
+  } catch {
+    return SIGNED_OUT;
   }
-  return { isAuth: isAuthenticated(), loading: false };
 }
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { buildIndex, search, snippet, stem, tokenize } from "@/lib/bm25";
+
+const documents = [
+  {
+    item: "fear",
+    fields: [
+      { text: "On fear", weight: 3 },
+      { text: "We suffer more often in imagination than in reality. Fears shrink when named.", weight: 1 },
+    ],
+  },
+  {
+    item: "death",
+    fields: [
+      { text: "Memento mori", weight: 3 },
+      { text: "He who fears death will never do anything worthy of a living man.", weight: 1 },
+    ],
+  },
+  {
+    item: "control",
+    fields: [
+      { text: "The dichotomy of control", weight: 3 },
+      { text: "Some things are up to us and some are not.", weight: 1 },
+    ],
+  },
+];
+
+describe("tokenize", () => {
+  it("drops stopwords and one-letter words, and stems the rest", () => {
+    expect(tokenize("The fears of a man feared by many")).toEqual(["fear", "man", "fear", "many"]);
+  });
+
+  it("folds accents and case", () => {
+    expect(tokenize("Ataraxía ATARAXIA")).toEqual(["ataraxia", "ataraxia"]);
+  });
+
+  it("leaves short words alone", () => {
+    expect(stem("dies")).toBe("dies");
+    expect(stem("worries")).toBe("worry");
+  });
+});
+
+describe("search", () => {
+  const index = buildIndex(documents);
+
+  it("ranks a title match above a body match", () => {
+    const hits = search(index, "fear");
+    expect(hits.map((hit) => hit.item)).toEqual(["fear", "death"]);
+    expect(hits[0].score).toBeGreaterThan(hits[1].score);
+  });
+
+  it("reports the stemmed query terms each document matched", () => {
+    const [hit] = search(index, "fearing death", 1);
+    expect(hit.item).toBe("death");
+    expect(hit.matched.sort()).toEqual(["death", "fear"]);
+  });
+
+  it("leaves out documents that share no term, and honors the limit", () => {
+    expect(search(index, "control").map((hit) => hit.item)).toEqual(["control"]);
+    expect(search(index, "fear", 1)).toHaveLength(1);
+    expect(search(index, "the of and")).toEqual([]);
+  });
+
+  it("weighs a rare term above a common one", () => {
+    const small = buildIndex([
+      { item: "calm", fields: [{ text: "stoic calm", weight: 1 }] },
+      { item: "virtue", fields: [{ text: "stoic virtue", weight: 1 }] },
+      { item: "plain", fields: [{ text: "stoic", weight: 1 }] },
+    ]);
+    const [calm] = search(small, "calm");
+    const stoic = search(small, "stoic").find((hit) => hit.item === "calm")!;
+    expect(calm.score).toBeGreaterThan(stoic.score);
+    expect(search(small, "stoic virtue")[0].item).toBe("virtue");
+  });
+
+  it("handles an empty index", () => {
+    expect(search(buildIndex<string>([]), "fear")).toEqual([]);
+  });
+});
+
+describe("snippet", () => {
+  it("marks each occurrence of a term, whatever its inflection", () => {
+    const parts = snippet("Fear is not the enemy. Fearing fear is.", ["fear"]);
+    expect(parts?.filter((part) => part.match).map((part) => part.text)).toEqual(["Fear", "Fearing", "fear"]);
+    expect(parts?.map((part) => part.text).join("")).toBe("Fear is not the enemy. Fearing fear is.");
+  });
+
+  it("is null when no term occurs", () => {
+    expect(snippet("Nothing to see here.", ["fear"])).toBeNull();
+  });
+
+  it("centres on the densest cluster and cuts at word boundaries", () => {
+    const filler = "lorem ipsum dolor sit amet ".repeat(20);
+    const text = `${filler}death once here. ${filler}death and fear and death together. ${filler}`;
+    const parts = snippet(text, ["death", "fear"], 80)!;
+    const joined = parts.map((part) => part.text).join("");
+
+    expect(parts[0]).toEqual({ text: "…", match: false });
+    expect(parts[parts.length - 1]).toEqual({ text: "…", match: false });
+    expect(joined).toContain("death and fear and death together");
+    expect(joined).not.toContain("death once");
+    expect(joined.length).toBeLessThanOrEqual(82);
+    // Whole words only between the ellipses
+    expect(joined).toMatch(/^…(lorem|ipsum|dolor|sit|amet) .* (lorem|ipsum|dolor|sit|amet)…$/);
+  });
+});
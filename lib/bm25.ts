@@ -0,0 +1,178 @@
+// ═══════════════════════════════════════════════════════════════════
+// BM25 - Local lexical ranking, no embeddings and no external service
+// "Seek not the good in external things; seek it in yourselves." - Epictetus
+// ═══════════════════════════════════════════════════════════════════
+
+// Okapi BM25 defaults
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set(
+  (
+    "a about above after again against all am an and any are as at be because been before being below between both but by " +
+    "can could did do does doing down during each few for from further had has have having he her here hers herself him " +
+    "himself his how i if in into is it its itself just me more most my myself no nor not now of off on once only or other " +
+    "our ours ourselves out over own same she should so some such than that the their theirs them themselves then there " +
+    "these they this those through to too under until up very was we were what when where which while who whom why will " +
+    "with would you your yours yourself yourselves"
+  ).split(" ")
+);
+
+/**
+ * Crude suffix stripping so "fears", "fearing" and "feared" meet at "fear"
+ */
+export function stem(word: string): string {
+  if (word.length <= 4) return word;
+  for (const suffix of ["ingly", "edly", "ation", "ness", "ment", "ing", "ies", "ied", "ed", "ly", "es", "s"]) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3) {
+      const base = word.slice(0, -suffix.length);
+      return suffix === "ies" || suffix === "ied" ? `${base}y` : base;
+    }
+  }
+  return word;
+}
+
+/**
+ * Lowercased, stemmed terms with stopwords and one-letter words removed
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().normalize("NFKD").replace(/\p{M}/gu, "").match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter((word) => word.length > 1 && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+// A document is weighted fields: a title counted twice outranks the same word in the body
+export interface Bm25Document<T> {
+  item: T;
+  fields: Array<{ text: string; weight: number }>;
+}
+
+interface Posting {
+  doc: number;
+  tf: number;
+}
+
+export interface Bm25Index<T> {
+  items: T[];
+  lengths: number[];
+  averageLength: number;
+  postings: Map<string, Posting[]>;
+}
+
+export interface Bm25Hit<T> {
+  item: T;
+  score: number;
+  // Query terms this document contains
+  matched: string[];
+}
+
+export function buildIndex<T>(documents: Bm25Document<T>[]): Bm25Index<T> {
+  const postings = new Map<string, Posting[]>();
+  const lengths: number[] = [];
+
+  documents.forEach((document, doc) => {
+    const frequencies = new Map<string, number>();
+    let length = 0;
+    for (const { text, weight } of document.fields) {
+      for (const term of tokenize(text)) {
+        frequencies.set(term, (frequencies.get(term) ?? 0) + weight);
+        length += weight;
+      }
+    }
+    lengths.push(length);
+    frequencies.forEach((tf, term) => {
+      const list = postings.get(term);
+      if (list) list.push({ doc, tf });
+      else postings.set(term, [{ doc, tf }]);
+    });
+  });
+
+  const total = lengths.reduce((sum, length) => sum + length, 0);
+  return {
+    items: documents.map((document) => document.item),
+    lengths,
+    averageLength: documents.length ? total / documents.length : 0,
+    postings,
+  };
+}
+
+/**
+ * Documents ranked by BM25 against the query, best first; documents sharing no term are left out
+ */
+export function search<T>(index: Bm25Index<T>, query: string, limit = 10): Bm25Hit<T>[] {
+  const terms = [...new Set(tokenize(query))];
+  const count = index.items.length;
+  const scores = new Map<number, { score: number; matched: string[] }>();
+
+  for (const term of terms) {
+    const list = index.postings.get(term);
+    if (!list) continue;
+    // Lucene's idf stays positive even for terms in most documents
+    const idf = Math.log(1 + (count - list.length + 0.5) / (list.length + 0.5));
+    for (const { doc, tf } of list) {
+      const norm = tf + K1 * (1 - B + (B * index.lengths[doc]) / (index.averageLength || 1));
+      const entry = scores.get(doc) ?? { score: 0, matched: [] };
+      entry.score += (idf * tf * (K1 + 1)) / norm;
+      entry.matched.push(term);
+      scores.set(doc, entry);
+    }
+  }
+
+  return [...scores.entries()]
+    .sort(([a, x], [b, y]) => y.score - x.score || a - b)
+    .slice(0, limit)
+    .map(([doc, { score, matched }]) => ({ item: index.items[doc], score, matched }));
+}
+
+// One run of a snippet; matched runs are the query terms, for highlighting
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * About `length` characters of `text` around its densest cluster of `terms`
+ * (stemmed, as in Bm25Hit.matched), cut at word boundaries. Null when no term occurs.
+ */
+export function snippet(text: string, terms: string[], length = 160): SnippetPart[] | null {
+  const flat = text.replace(/\s+/g, " ").trim();
+  const wanted = new Set(terms);
+  const matches = [...flat.matchAll(/[\p{L}\p{N}]+/gu)]
+    .filter((word) => wanted.has(tokenize(word[0])[0]))
+    .map((word) => ({ start: word.index, end: word.index + word[0].length }));
+  if (matches.length === 0) return null;
+
+  // The match followed by the most others inside one window
+  let best = 0;
+  let bestCount = 0;
+  for (let i = 0, j = 0; i < matches.length; i++) {
+    while (j < matches.length && matches[j].end - matches[i].start <= length) j++;
+    if (j - i > bestCount) [best, bestCount] = [i, j - i];
+  }
+
+  // A little lead-in before the first match, then snapped to whole words
+  let end = Math.min(flat.length, Math.max(0, matches[best].start - Math.floor(length / 4)) + length);
+  let start = Math.max(0, end - length);
+  if (start > 0) {
+    const space = flat.indexOf(" ", start);
+    if (space !== -1 && space < matches[best].start) start = space + 1;
+  }
+  if (end < flat.length) {
+    const space = flat.lastIndexOf(" ", end);
+    if (space > matches[best].end) end = space;
+  }
+
+  const parts: SnippetPart[] = [];
+  let cursor = start;
+  for (const { start: from, end: to } of matches) {
+    if (from < start || to > end) continue;
+    if (from > cursor) parts.push({ text: flat.slice(cursor, from), match: false });
+    parts.push({ text: flat.slice(from, to), match: true });
+    cursor = to;
+  }
+  if (cursor < end) parts.push({ text: flat.slice(cursor, end), match: false });
+
+  if (start > 0) parts.unshift({ text: "…", match: false });
+  if (end < flat.length) parts.push({ text: "…", match: false });
+  return parts;
+}
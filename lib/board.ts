@@ -0,0 +1,136 @@
+// ═══════════════════════════════════════════════════════════════════
+// BOARD LAYOUT - Where each sticky note hangs on the Board of Collective
+// "Nothing happens to anybody which he is not fitted by nature to bear." - Marcus Aurelius
+// Client-safe: shared by the public board, the admin editor and /api/notes
+// ═══════════════════════════════════════════════════════════════════
+
+// Board coordinates are whole percentages of the board's width on both axes
+// (StickyNote.positionX/Y are Int), so a layout scales with the screen instead of reflowing
+export const BOARD_WIDTH = 100;
+export const NOTE_WIDTH = 22;
+export const NOTE_HEIGHT = 18;
+export const NOTE_GAP = 2;
+
+// Dragged notes snap to this grid; packing uses it too
+export const SNAP = 2;
+
+// Paper colours for StickyNote.color
+export const STICKY_COLORS: Record<string, string> = {
+  gold: "#fef3c7",
+  sage: "#d1fae5",
+  stone: "#e7e5e4",
+  amber: "#fed7aa",
+  bronze: "#fde68a",
+};
+
+export interface BoardNote {
+  id: number;
+  positionX: number;
+  positionY: number;
+  pinned: boolean;
+}
+
+export interface BoardPosition {
+  x: number;
+  y: number;
+}
+
+export interface BoardLayout {
+  positions: Map<number, BoardPosition>;
+  height: number;
+}
+
+export function snapToGrid(value: number): number {
+  return Math.round(value / SNAP) * SNAP;
+}
+
+/**
+ * Keep a note fully on the board horizontally and below its top edge, in whole units
+ */
+export function clampPosition({ x, y }: BoardPosition): BoardPosition {
+  return {
+    x: Math.round(Math.min(Math.max(x, 0), BOARD_WIDTH - NOTE_WIDTH)),
+    y: Math.round(Math.max(y, 0)),
+  };
+}
+
+const FOOTPRINT_COLS = Math.ceil((NOTE_WIDTH + NOTE_GAP) / SNAP);
+const GRID_COLS = Math.floor(BOARD_WIDTH / SNAP);
+// Row stride for numeric cell keys; wider than any note can reach
+const CELL_STRIDE = GRID_COLS + FOOTPRINT_COLS + 1;
+
+/**
+ * Pinned notes stay where they were put. Unpinned notes fill the free space
+ * around them in id order, so older notes keep their place as new ones arrive
+ * and the same notes always produce the same layout.
+ */
+export function packBoard(notes: BoardNote[]): BoardLayout {
+  const positions = new Map<number, BoardPosition>();
+  const occupied = new Set<number>();
+
+  // Cells covered by a note at (x, y), including its gap to the right and below
+  const cells = ({ x, y }: BoardPosition) => {
+    const result: number[] = [];
+    const lastCol = Math.ceil((x + NOTE_WIDTH + NOTE_GAP) / SNAP);
+    const lastRow = Math.ceil((y + NOTE_HEIGHT + NOTE_GAP) / SNAP);
+    for (let r = Math.floor(y / SNAP); r < lastRow; r++) {
+      for (let c = Math.floor(x / SNAP); c < lastCol; c++) result.push(r * CELL_STRIDE + c);
+    }
+    return result;
+  };
+  const fits = (position: BoardPosition) => cells(position).every((cell) => !occupied.has(cell));
+  const occupy = (position: BoardPosition) => cells(position).forEach((cell) => occupied.add(cell));
+
+  const ordered = [...notes].sort((a, b) => a.id - b.id);
+
+  for (const note of ordered) {
+    if (!note.pinned) continue;
+    const position = clampPosition({ x: note.positionX, y: note.positionY });
+    positions.set(note.id, position);
+    occupy(position);
+  }
+
+  // Resume from the last placed row: later notes never jump above earlier ones
+  let startRow = 0;
+  for (const note of ordered) {
+    if (note.pinned) continue;
+    for (let row = startRow; ; row++) {
+      let col = 0;
+      while (col + FOOTPRINT_COLS <= GRID_COLS && !fits({ x: col * SNAP, y: row * SNAP })) col++;
+      if (col + FOOTPRINT_COLS > GRID_COLS) continue;
+
+      const position = { x: col * SNAP, y: row * SNAP };
+      occupy(position);
+      positions.set(note.id, position);
+      startRow = row;
+      break;
+    }
+  }
+
+  let height = NOTE_HEIGHT;
+  positions.forEach(({ y }) => (height = Math.max(height, y + NOTE_HEIGHT)));
+  return { positions, height: height + NOTE_GAP };
+}
+
+/**
+ * Absolute box for a note on a board `height` units tall. Left and width are
+ * plain percentages; top and height are scaled because CSS resolves vertical
+ * percentages against the board's height, not its width.
+ */
+export function noteBox(position: BoardPosition, height: number) {
+  return {
+    left: `${position.x}%`,
+    top: `${(position.y / height) * 100}%`,
+    width: `${NOTE_WIDTH}%`,
+    height: `${(NOTE_HEIGHT / height) * 100}%`,
+  };
+}
+
+/**
+ * Notes in reading order (top to bottom, left to right), for narrow screens
+ * that list the board instead of drawing it
+ */
+export function readingOrder<T extends { id: number }>(notes: T[], layout: BoardLayout): T[] {
+  const key = (note: T) => layout.positions.get(note.id) ?? { x: 0, y: Infinity };
+  return [...notes].sort((a, b) => key(a).y - key(b).y || key(a).x - key(b).x);
+}
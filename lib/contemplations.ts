@@ -0,0 +1,161 @@
+import { revalidatePath } from "next/cache";
+import prisma from "@/lib/prisma";
+
+// ═══════════════════════════════════════════════════════════════════
+// CONTEMPLATIONS - Feature history and the public /collective archive
+// "Time is a river of passing events, and strong is its current." - Marcus Aurelius
+// ═══════════════════════════════════════════════════════════════════
+
+export const ANSWERS_PAGE_SIZE = 24;
+
+export interface FeaturePeriod {
+  startedAt: string;
+  endedAt: string | null;
+}
+
+export interface ArchiveEntry {
+  id: number;
+  question: string;
+  featured: boolean;
+  periods: FeaturePeriod[];
+  answerCount: number;
+}
+
+export interface ArchiveAnswer {
+  id: number;
+  answer: string;
+  author: string;
+  color: string;
+  createdAt: string;
+}
+
+export interface ContemplationPage {
+  id: number;
+  question: string;
+  featured: boolean;
+  updatedAt: string;
+  periods: FeaturePeriod[];
+  answers: ArchiveAnswer[];
+  answerCount: number;
+  page: number;
+  pageCount: number;
+}
+
+const publicAnswer = { id: true, answer: true, author: true, color: true, createdAt: true } as const;
+
+function toPeriod(feature: { startedAt: Date; endedAt: Date | null }): FeaturePeriod {
+  return { startedAt: feature.startedAt.toISOString(), endedAt: feature.endedAt?.toISOString() ?? null };
+}
+
+function toAnswer(answer: { id: number; answer: string; author: string; color: string; createdAt: Date }): ArchiveAnswer {
+  return { ...answer, createdAt: answer.createdAt.toISOString() };
+}
+
+/**
+ * Open a feature period when a question becomes featured, close it when it stops
+ */
+export async function recordFeaturing(contemplationId: number, featured: boolean) {
+  const open = await prisma.contemplationFeature.findFirst({
+    where: { contemplationId, endedAt: null },
+  });
+  if (featured && !open) {
+    await prisma.contemplationFeature.create({ data: { contemplationId } });
+  } else if (!featured && open) {
+    await prisma.contemplationFeature.updateMany({
+      where: { contemplationId, endedAt: null },
+      data: { endedAt: new Date() },
+    });
+  }
+  revalidateCollectivePages();
+}
+
+export function revalidateCollectivePages() {
+  revalidatePath("/collective/archive");
+  revalidatePath("/collective/[id]", "page");
+  revalidatePath("/collective/[id]/answers/[answerId]", "page");
+}
+
+/**
+ * Every question that has ever been featured, most recently featured first
+ */
+export async function getContemplationArchive(): Promise<ArchiveEntry[]> {
+  const contemplations = await prisma.contemplation.findMany({
+    where: { features: { some: {} } },
+    include: {
+      features: { orderBy: { startedAt: "desc" } },
+      _count: { select: { answers: { where: { approved: true } } } },
+    },
+  });
+
+  return contemplations
+    .map((c) => ({
+      id: c.id,
+      question: c.question,
+      featured: c.featured,
+      periods: c.features.map(toPeriod),
+      answerCount: c._count.answers,
+    }))
+    .sort((a, b) => b.periods[0].startedAt.localeCompare(a.periods[0].startedAt));
+}
+
+/**
+ * One page of a question's approved answers, oldest first so pages stay put
+ * as new answers arrive. Null when the question is inactive and was never featured.
+ */
+export async function getContemplationPage(id: number, page: number): Promise<ContemplationPage | null> {
+  const contemplation = await prisma.contemplation.findUnique({
+    where: { id },
+    include: {
+      features: { orderBy: { startedAt: "desc" } },
+      _count: { select: { answers: { where: { approved: true } } } },
+    },
+  });
+  if (!contemplation || (!contemplation.active && contemplation.features.length === 0)) return null;
+
+  const answerCount = contemplation._count.answers;
+  const pageCount = Math.max(1, Math.ceil(answerCount / ANSWERS_PAGE_SIZE));
+  const current = Math.min(Math.max(1, page), pageCount);
+
+  const answers = await prisma.stickyNote.findMany({
+    where: { contemplationId: id, approved: true },
+    orderBy: { id: "asc" },
+    skip: (current - 1) * ANSWERS_PAGE_SIZE,
+    take: ANSWERS_PAGE_SIZE,
+    select: publicAnswer,
+  });
+
+  return {
+    id: contemplation.id,
+    question: contemplation.question,
+    featured: contemplation.featured,
+    updatedAt: contemplation.updatedAt.toISOString(),
+    periods: contemplation.features.map(toPeriod),
+    answers: answers.map(toAnswer),
+    answerCount,
+    page: current,
+    pageCount,
+  };
+}
+
+/**
+ * A single approved answer to a question, with the archive page it sits on
+ */
+export async function getContemplationAnswer(contemplationId: number, answerId: number) {
+  const answer = await prisma.stickyNote.findFirst({
+    where: { id: answerId, contemplationId, approved: true },
+    select: { ...publicAnswer, question: true },
+  });
+  if (!answer) return null;
+
+  const before = await prisma.stickyNote.count({
+    where: { contemplationId, approved: true, id: { lt: answerId } },
+  });
+  return { ...toAnswer(answer), question: answer.question, page: Math.floor(before / ANSWERS_PAGE_SIZE) + 1 };
+}
+
+/**
+ * Path of an answer's permalink
+ */
+export function answerPermalink(contemplationId: number, answerId: number): string {
+  return `/collective/${contemplationId}/answers/${answerId}`;
+}
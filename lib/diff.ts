@@ -0,0 +1,44 @@
+// ═══════════════════════════════════════════════════════════════════
+// LINE DIFF - Longest-common-subsequence diff for revision history
+// ═══════════════════════════════════════════════════════════════════
+
+export interface DiffLine {
+  type: "same" | "add" | "remove";
+  text: string;
+}
+
+/**
+ * Diff two texts line by line.
+ * "remove" lines exist only in `from`, "add" lines only in `to`.
+ */
+export function diffLines(from: string, to: string): DiffLine[] {
+  const a = from.split("\n");
+  const b = to.split("\n");
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: "same", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: "remove", text: a[i++] });
+    } else {
+      result.push({ type: "add", text: b[j++] });
+    }
+  }
+  while (i < a.length) result.push({ type: "remove", text: a[i++] });
+  while (j < b.length) result.push({ type: "add", text: b[j++] });
+
+  return result;
+}
@@ -0,0 +1,56 @@
+// ═══════════════════════════════════════════════════════════════════
+// LIVE EVENTS - Change notifications pushed to visitors over /api/events
+// "Everything flows." - Heraclitus
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * What changed, not the new data: clients refetch what they show.
+ * - answer.approved         an answer joined, left or changed on the public board
+ * - contemplation.featured  the featured question, or the set of active questions, changed
+ * - article.published       an article joined or left the /writing listing: published, unlisted or deleted
+ * - project.published       same for projects and /work
+ * - intention.updated       a daily intention was added, edited, reordered or removed
+ */
+export type LiveEvent =
+  | { type: "answer.approved"; id: number; contemplationId: number | null; approved: boolean }
+  | { type: "contemplation.featured"; id: number | null; featured: boolean }
+  | { type: "article.published"; id: number; slug: string; listed: boolean }
+  | { type: "project.published"; id: number; slug: string; listed: boolean }
+  | { type: "intention.updated"; id: number | null };
+
+export type LiveEventType = LiveEvent["type"];
+
+export const LIVE_EVENT_TYPES: LiveEventType[] = [
+  "answer.approved",
+  "contemplation.featured",
+  "article.published",
+  "project.published",
+  "intention.updated",
+];
+
+type Listener = (event: LiveEvent) => void;
+
+// Kept on globalThis so dev hot reloads share one set with open streams.
+// In-process only: several server instances would need a shared broker.
+const globalForEvents = globalThis as unknown as { liveEventListeners?: Set<Listener> };
+const listeners = (globalForEvents.liveEventListeners ??= new Set());
+
+export function publishLiveEvent(event: LiveEvent) {
+  for (const listener of listeners) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error("Live event listener failed:", error);
+    }
+  }
+}
+
+/**
+ * Listen for every published event; returns the unsubscribe function
+ */
+export function onLiveEvent(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,207 @@
+import prisma from "@/lib/prisma";
+import { markdownToHtml } from "@/lib/markdown";
+import { listedWhere } from "@/lib/publishing";
+import { SITE_DESCRIPTION, SITE_NAME, siteUrl } from "@/lib/site";
+
+// ═══════════════════════════════════════════════════════════════════
+// FEEDS - RSS 2.0, Atom 1.0 and JSON Feed 1.1 for Writing
+// "Wherever there is a human being, there is an opportunity for kindness." - Seneca
+// ═══════════════════════════════════════════════════════════════════
+
+export const FEED_LIMIT = 50;
+
+interface LegacyBlock {
+  type: string;
+  text: string;
+  author?: string;
+}
+
+export interface FeedItem {
+  url: string;
+  title: string;
+  summary: string;
+  html: string;
+  tags: string[];
+  published: Date;
+  updated: Date;
+}
+
+export interface Feed {
+  title: string;
+  description: string;
+  author: string;
+  home: string;
+  origin: string;
+  updated: Date;
+  items: FeedItem[];
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function legacyBlocksToHtml(blocks: LegacyBlock[]): string {
+  return blocks.map((block) => {
+    const text = escapeXml(block.text || "");
+    if (block.type === "heading") return `<h2>${text}</h2>`;
+    if (block.type === "quote") {
+      const author = block.author ? `<footer>— ${escapeXml(block.author)}</footer>` : "";
+      return `<blockquote><p>${text}</p>${author}</blockquote>`;
+    }
+    return `<p>${text}</p>`;
+  }).join("\n");
+}
+
+/**
+ * Article body as standalone HTML for feed readers:
+ * absolute links and no interactive chrome (copy buttons)
+ */
+export function articleHtml(content: string, origin: string): string {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content || "\"\"");
+  } catch {
+    parsed = content || "";
+  }
+
+  const html = Array.isArray(parsed)
+    ? legacyBlocksToHtml(parsed as LegacyBlock[])
+    : markdownToHtml(String(parsed));
+
+  return html
+    .replace(/<button[^>]*data-copy-code[^>]*>.*?<\/button>/g, "")
+    // Only inside tags: escaped code text never contains a raw "<"
+    .replace(/(<[^>]*\s(?:href|src))="\/(?!\/)/g, `$1="${origin}/`);
+}
+
+// Articles carry a plain "YYYY-MM-DD" date; a publishAt wins when present
+function publishedAt(article: { date: string; publishAt: Date | null; createdAt: Date }): Date {
+  if (article.publishAt) return article.publishAt;
+  const date = new Date(article.date);
+  return isNaN(date.getTime()) ? article.createdAt : date;
+}
+
+/**
+ * Load the newest listed articles, optionally only those carrying `tag`
+ */
+export async function getWritingFeed(requestOrigin: string, tag?: string): Promise<Feed> {
+  const origin = siteUrl(requestOrigin);
+  const [articles, profile] = await Promise.all([
+    prisma.article.findMany({
+      where: listedWhere(),
+      orderBy: { date: "desc" },
+    }),
+    prisma.profile.findFirst(),
+  ]);
+
+  const wanted = tag?.toLowerCase();
+  const items = articles
+    .map((article) => ({ article, tags: JSON.parse(article.tags || "[]") as string[] }))
+    .filter(({ tags }) => !wanted || tags.some((t) => t.toLowerCase() === wanted))
+    .slice(0, FEED_LIMIT)
+    .map(({ article, tags }): FeedItem => ({
+      url: `${origin}/writing/${article.slug}`,
+      title: article.title,
+      summary: article.excerpt,
+      html: articleHtml(article.content, origin),
+      tags,
+      published: publishedAt(article),
+      updated: article.updatedAt,
+    }));
+
+  const updated = items.reduce<Date>(
+    (latest, item) => (item.updated > latest ? item.updated : latest),
+    new Date(0)
+  );
+
+  return {
+    title: tag ? `${SITE_NAME} · #${tag}` : SITE_NAME,
+    description: profile?.bio || SITE_DESCRIPTION,
+    author: profile?.name || "Juan Rizky Maulana",
+    home: `${origin}/writing`,
+    origin,
+    updated: items.length ? updated : new Date(),
+    items,
+  };
+}
+
+export function renderRss(feed: Feed, selfUrl: string): string {
+  const items = feed.items.map((item) => `    <item>
+      <title>${escapeXml(item.title)}</title>
+      <link>${escapeXml(item.url)}</link>
+      <guid isPermaLink="true">${escapeXml(item.url)}</guid>
+      <pubDate>${item.published.toUTCString()}</pubDate>
+      <description>${escapeXml(item.summary)}</description>
+${item.tags.map((tag) => `      <category>${escapeXml(tag)}</category>`).join("\n")}
+      <content:encoded><![CDATA[${item.html.replace(/]]>/g, "]]]]><![CDATA[>")}]]></content:encoded>
+    </item>`).join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/">
+  <channel>
+    <title>${escapeXml(feed.title)}</title>
+    <link>${escapeXml(feed.home)}</link>
+    <description>${escapeXml(feed.description)}</description>
+    <language>en</language>
+    <lastBuildDate>${feed.updated.toUTCString()}</lastBuildDate>
+    <atom:link href="${escapeXml(selfUrl)}" rel="self" type="application/rss+xml" />
+${items}
+  </channel>
+</rss>
+`;
+}
+
+export function renderAtom(feed: Feed, selfUrl: string): string {
+  const entries = feed.items.map((item) => `  <entry>
+    <title>${escapeXml(item.title)}</title>
+    <link rel="alternate" type="text/html" href="${escapeXml(item.url)}" />
+    <id>${escapeXml(item.url)}</id>
+    <published>${item.published.toISOString()}</published>
+    <updated>${item.updated.toISOString()}</updated>
+    <summary>${escapeXml(item.summary)}</summary>
+${item.tags.map((tag) => `    <category term="${escapeXml(tag)}" />`).join("\n")}
+    <content type="html">${escapeXml(item.html)}</content>
+  </entry>`).join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>${escapeXml(feed.title)}</title>
+  <subtitle>${escapeXml(feed.description)}</subtitle>
+  <link rel="alternate" type="text/html" href="${escapeXml(feed.home)}" />
+  <link rel="self" type="application/atom+xml" href="${escapeXml(selfUrl)}" />
+  <id>${escapeXml(selfUrl)}</id>
+  <updated>${feed.updated.toISOString()}</updated>
+  <author><name>${escapeXml(feed.author)}</name></author>
+${entries}
+</feed>
+`;
+}
+
+export function renderJsonFeed(feed: Feed, selfUrl: string): string {
+  return JSON.stringify({
+    version: "https://jsonfeed.org/version/1.1",
+    title: feed.title,
+    home_page_url: feed.home,
+    feed_url: selfUrl,
+    description: feed.description,
+    language: "en",
+    authors: [{ name: feed.author, url: feed.origin }],
+    items: feed.items.map((item) => ({
+      id: item.url,
+      url: item.url,
+      title: item.title,
+      summary: item.summary,
+      content_html: item.html,
+      tags: item.tags,
+      date_published: item.published.toISOString(),
+      date_modified: item.updated.toISOString(),
+    })),
+  }, null, 2);
+}
+
+export const FEED_CACHE_CONTROL = "public, s-maxage=3600, stale-while-revalidate=86400";
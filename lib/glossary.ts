@@ -0,0 +1,96 @@
+// ═══════════════════════════════════════════════════════════════════
+// GLOSSARY - The Stoic vocabulary the site's prose leans on
+// Terms live in the GlossaryTerm table (lib/glossaryTerms.ts loads them);
+// this file only matches them, so client components can use it too
+// ═══════════════════════════════════════════════════════════════════
+
+export interface GlossaryQuote {
+  id: number;
+  text: string;
+  author: string;
+  source: string;
+}
+
+export interface GlossaryEntry {
+  id: number;
+  term: string;
+  // Other spellings and translations that mean the same thing
+  aliases: string[];
+  // Original word, shown as a comment above the definition
+  origin: string | null;
+  definition: string;
+  // A quote that uses the term, shown beneath the definition like an example
+  quote: GlossaryQuote | null;
+}
+
+export interface GlossaryMatcher {
+  // Every term and alias as a whole word; global, so reset lastIndex or use matchAll
+  pattern: RegExp;
+  entryFor: (name: string) => GlossaryEntry | undefined;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function namesOf(entry: GlossaryEntry): string[] {
+  return [entry.term, ...entry.aliases].filter((name) => name.trim());
+}
+
+/**
+ * Anchor of a term on the /glossary page: "Memento Mori" → "memento-mori"
+ */
+export function glossaryAnchor(term: string): string {
+  return (
+    term
+      .toLowerCase()
+      .normalize("NFKD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") || "term"
+  );
+}
+
+/**
+ * One pattern for the whole glossary. Longer names are tried first, so
+ * "Dichotomy of Control" wins over a term inside it; word edges are
+ * Unicode-aware, so Greek and accented names match too.
+ */
+export function glossaryMatcher(glossary: GlossaryEntry[]): GlossaryMatcher | null {
+  const byName = new Map<string, GlossaryEntry>();
+  for (const entry of glossary) {
+    for (const name of namesOf(entry)) {
+      const key = name.trim().toLowerCase();
+      if (!byName.has(key)) byName.set(key, entry);
+    }
+  }
+  if (byName.size === 0) return null;
+
+  const names = [...byName.keys()].sort((a, b) => b.length - a.length).map(escapeRegExp);
+  return {
+    pattern: new RegExp(`(?<![\\p{L}\\p{N}])(?:${names.join("|")})(?![\\p{L}\\p{N}])`, "giu"),
+    entryFor: (name) => byName.get(name.toLowerCase()),
+  };
+}
+
+/**
+ * The entry for a term or one of its aliases, ignoring case
+ */
+export function findGlossaryEntry(glossary: GlossaryEntry[], term: string): GlossaryEntry | null {
+  const wanted = term.trim().toLowerCase();
+  return glossary.find((entry) => namesOf(entry).some((name) => name.toLowerCase() === wanted)) ?? null;
+}
+
+/**
+ * Entries mentioned in a passage as whole words, in glossary order
+ */
+export function glossaryTermsIn(glossary: GlossaryEntry[], text: string): GlossaryEntry[] {
+  const matcher = glossaryMatcher(glossary);
+  if (!matcher) return [];
+  const found = new Set<GlossaryEntry>();
+  for (const match of text.matchAll(matcher.pattern)) {
+    const entry = matcher.entryFor(match[0]);
+    if (entry) found.add(entry);
+  }
+  return glossary.filter((entry) => found.has(entry));
+}
@@ -0,0 +1,93 @@
+// ═══════════════════════════════════════════════════════════════════
+// GLOSSARY SEED - The starting vocabulary, written by prisma/seed.ts
+// and /api/seed; after that the terms are edited in the admin
+// ═══════════════════════════════════════════════════════════════════
+
+export interface GlossarySeedTerm {
+  term: string;
+  aliases: string[];
+  origin: string;
+  definition: string;
+}
+
+export const GLOSSARY_SEED: GlossarySeedTerm[] = [
+  {
+    term: "Stoicism",
+    aliases: ["Stoic", "Stoics"],
+    origin: "Greek: Stoa Poikilē, the Painted Porch",
+    definition: "A school founded by Zeno of Citium around 300 BC. It teaches that virtue is the only good, and that a calm mind comes from telling apart what is up to us from what is not.",
+  },
+  {
+    term: "Logos",
+    aliases: [],
+    origin: "Greek: λόγος, reason",
+    definition: "The rational order running through nature. To live by reason is to live in agreement with it.",
+  },
+  {
+    term: "Apatheia",
+    aliases: [],
+    origin: "Greek: ἀπάθεια",
+    definition: "Freedom from the passions that come from false judgments, such as fear, craving and rage. It is not numbness, but steadiness.",
+  },
+  {
+    term: "Ataraxia",
+    aliases: ["tranquility", "tranquillity"],
+    origin: "Greek: ἀταραξία",
+    definition: "Untroubledness: the settled state of a mind that is no longer shaken by what it cannot control.",
+  },
+  {
+    term: "Eudaimonia",
+    aliases: ["flourishing"],
+    origin: "Greek: εὐδαιμονία",
+    definition: "A flourishing life, the aim of Stoic practice. It is reached through virtue, not through luck or possessions.",
+  },
+  {
+    term: "Prohairesis",
+    aliases: [],
+    origin: "Greek: προαίρεσις, choice",
+    definition: "Epictetus' word for our faculty of choice: the one thing wholly ours, which nothing outside can compel.",
+  },
+  {
+    term: "Virtue",
+    aliases: ["arete", "virtues"],
+    origin: "Greek: ἀρετή, excellence",
+    definition: "Wisdom, justice, courage and temperance. For the Stoics it is the only true good. Everything else is indifferent.",
+  },
+  {
+    term: "Dichotomy of Control",
+    aliases: [],
+    origin: "Epictetus, Enchiridion 1",
+    definition: "Some things are up to us (our judgments, intentions and actions) and some are not (body, reputation, fortune). Peace lies in caring only for the first.",
+  },
+  {
+    term: "Memento Mori",
+    aliases: [],
+    origin: "Latin: remember that you will die",
+    definition: "The practice of keeping one's mortality in view, so that time is spent on what matters.",
+  },
+  {
+    term: "Amor Fati",
+    aliases: [],
+    origin: "Latin: love of fate",
+    definition: "Welcoming whatever happens as necessary, and even as material for virtue, rather than merely putting up with it.",
+  },
+  {
+    term: "Premeditatio Malorum",
+    aliases: ["Negative Visualization"],
+    origin: "Latin: the premeditation of evils",
+    definition: "Imagining loss and hardship ahead of time, so that they lose their power to shock and what we have is valued.",
+  },
+  {
+    term: "Sympatheia",
+    aliases: [],
+    origin: "Greek: συμπάθεια",
+    definition: "The mutual interdependence of all things. Each part of the cosmos, each person included, is bound up with the whole.",
+  },
+];
+
+/**
+ * Seed terms as GlossaryTerm rows
+ */
+export function glossarySeedRows() {
+  return GLOSSARY_SEED.map((entry) => ({ ...entry, aliases: JSON.stringify(entry.aliases) }));
+}
@@ -0,0 +1,119 @@
+import { revalidatePath } from "next/cache";
+import prisma from "@/lib/prisma";
+import { articleText, revalidateArticlePages } from "@/lib/articles";
+import { glossaryAnchor, glossaryTermsIn, type GlossaryEntry } from "@/lib/glossary";
+import { listedWhere } from "@/lib/publishing";
+import type { GlossaryTerm, Quote } from "@prisma/client";
+
+// ═══════════════════════════════════════════════════════════════════
+// GLOSSARY TERMS - Loading and validating the GlossaryTerm table
+// ═══════════════════════════════════════════════════════════════════
+
+export const GLOSSARY_INCLUDE = { quote: true } as const;
+
+export function parseGlossaryTerm(row: GlossaryTerm & { quote: Quote | null }): GlossaryEntry {
+  return {
+    id: row.id,
+    term: row.term,
+    aliases: JSON.parse(row.aliases || "[]"),
+    origin: row.origin,
+    definition: row.definition,
+    quote: row.quote && { id: row.quote.id, text: row.quote.text, author: row.quote.author, source: row.quote.source },
+  };
+}
+
+export async function getGlossary(): Promise<GlossaryEntry[]> {
+  const rows = await prisma.glossaryTerm.findMany({ include: GLOSSARY_INCLUDE, orderBy: { term: "asc" } });
+  return rows.map(parseGlossaryTerm);
+}
+
+export interface GlossaryIndexEntry extends GlossaryEntry {
+  anchor: string;
+  articles: Array<{ slug: string; title: string }>;
+}
+
+/**
+ * Every term with the listed articles that mention it, newest first
+ */
+export async function getGlossaryIndex(): Promise<GlossaryIndexEntry[]> {
+  const [glossary, articles] = await Promise.all([
+    getGlossary(),
+    prisma.article.findMany({
+      where: listedWhere(),
+      orderBy: { date: "desc" },
+      select: { slug: true, title: true, content: true },
+    }),
+  ]);
+
+  const index = glossary.map((entry): GlossaryIndexEntry => ({ ...entry, anchor: glossaryAnchor(entry.term), articles: [] }));
+  const byId = new Map(index.map((entry) => [entry.id, entry]));
+  for (const article of articles) {
+    for (const entry of glossaryTermsIn(glossary, articleText(article.content))) {
+      byId.get(entry.id)?.articles.push({ slug: article.slug, title: article.title });
+    }
+  }
+  return index;
+}
+
+/**
+ * Normalize a term from a request body. Aliases arrive as an array or a
+ * comma-separated string; blanks and repeats of the term are dropped.
+ */
+export function parseGlossaryFields(body: {
+  term?: unknown;
+  aliases?: unknown;
+  origin?: unknown;
+  definition?: unknown;
+  quoteId?: unknown;
+}) {
+  const term = typeof body.term === "string" ? body.term.trim() : "";
+  const definition = typeof body.definition === "string" ? body.definition.trim() : "";
+  if (!term || !definition) {
+    return { error: "Term and definition are required" } as const;
+  }
+
+  const rawAliases = Array.isArray(body.aliases)
+    ? body.aliases
+    : typeof body.aliases === "string"
+      ? body.aliases.split(",")
+      : [];
+  const aliases: string[] = [];
+  for (const alias of rawAliases.map((value) => String(value).trim())) {
+    const seen = [term, ...aliases].some((name) => name.toLowerCase() === alias.toLowerCase());
+    if (alias && !seen) aliases.push(alias);
+  }
+
+  const quoteId = Number(body.quoteId);
+  return {
+    term,
+    aliases,
+    origin: typeof body.origin === "string" && body.origin.trim() ? body.origin.trim() : null,
+    definition,
+    quoteId: Number.isInteger(quoteId) && quoteId > 0 ? quoteId : null,
+  } as const;
+}
+
+/**
+ * The term already using one of these names, ignoring case; a name can link to only one definition
+ */
+export async function findNameConflict(names: string[], excludeId?: number): Promise<string | null> {
+  const wanted = new Set(names.map((name) => name.toLowerCase()));
+  const others = await prisma.glossaryTerm.findMany({
+    where: excludeId ? { id: { not: excludeId } } : undefined,
+    select: { term: true, aliases: true },
+  });
+  for (const other of others) {
+    const otherNames = [other.term, ...(JSON.parse(other.aliases || "[]") as string[])];
+    const clash = otherNames.find((name) => wanted.has(name.toLowerCase()));
+    if (clash) return clash;
+  }
+  return null;
+}
+
+/**
+ * Articles link terms when rendered, so a glossary edit re-renders them along with /glossary
+ */
+export function revalidateGlossaryPages() {
+  revalidateArticlePages();
+  revalidatePath("/glossary");
+}
@@ -0,0 +1,158 @@
+import { common, createLowlight } from "lowlight";
+import type { Element, ElementContent, Root, RootContent } from "hast";
+
+// ═══════════════════════════════════════════════════════════════════
+// CODE BLOCKS - Token highlighting for fenced code, done while rendering
+// "Simplicity is the result of maturity." - Friedrich Schiller
+// Colors come from the --code-* variables in markdownStyles
+// ═══════════════════════════════════════════════════════════════════
+
+const lowlight = createLowlight(common);
+
+export interface CodeMeta {
+  filename: string | null;
+  highlight: Set<number>;
+}
+
+/**
+ * Parse a fence's info string after the language:
+ *   ```ts title="lib/store.ts" {3-5,8}
+ * Also accepts `filename=` and a bare `{…}` range list.
+ */
+export function parseCodeMeta(meta: string | null | undefined): CodeMeta {
+  const result: CodeMeta = { filename: null, highlight: new Set() };
+  if (!meta) return result;
+
+  const filename = meta.match(/(?:title|filename)=(?:"([^"]*)"|'([^']*)'|(\S+))/);
+  if (filename) result.filename = filename[1] ?? filename[2] ?? filename[3];
+
+  const ranges = meta.match(/\{([\d,\s-]+)\}/);
+  if (ranges) {
+    for (const part of ranges[1].split(",")) {
+      const [start, end = start] = part.trim().split("-").map(Number);
+      if (!start) continue;
+      for (let line = start; line <= Math.min(end, start + 1000); line++) {
+        result.highlight.add(line);
+      }
+    }
+  }
+  return result;
+}
+
+interface Segment {
+  text: string;
+  classes: string[];
+}
+
+// Flatten highlighted nodes into text runs that remember their token classes
+function flatten(nodes: Array<RootContent | ElementContent>, classes: string[], out: Segment[]) {
+  for (const node of nodes) {
+    if (node.type === "text") {
+      out.push({ text: node.value, classes });
+    } else if (node.type === "element") {
+      const own = Array.isArray(node.properties.className) ? node.properties.className.map(String) : [];
+      flatten(node.children, [...classes, ...own], out);
+    }
+  }
+}
+
+/**
+ * Highlight `code` and split it into one span per line, so that
+ * tokens spanning several lines (block comments, template strings) still
+ * close and reopen cleanly around each line.
+ */
+export function highlightLines(code: string, language: string | undefined): ElementContent[][] {
+  let tree: Root;
+  if (language && lowlight.registered(language)) {
+    tree = lowlight.highlight(language, code);
+  } else {
+    tree = { type: "root", children: [{ type: "text", value: code }] };
+  }
+
+  const segments: Segment[] = [];
+  flatten(tree.children, [], segments);
+
+  const lines: ElementContent[][] = [[]];
+  for (const segment of segments) {
+    segment.text.split("\n").forEach((text, i) => {
+      if (i > 0) lines.push([]);
+      if (!text) return;
+      lines[lines.length - 1].push(
+        segment.classes.length
+          ? { type: "element", tagName: "span", properties: { className: segment.classes }, children: [{ type: "text", value: text }] }
+          : { type: "text", value: text }
+      );
+    });
+  }
+
+  // A fence always ends with a newline; drop the empty line it leaves
+  if (lines.length > 1 && lines[lines.length - 1].length === 0) lines.pop();
+  return lines;
+}
+
+function textContent(node: ElementContent): string {
+  if (node.type === "text") return node.value;
+  if (node.type === "element") return node.children.map(textContent).join("");
+  return "";
+}
+
+/**
+ * Rewrite a sanitized `<pre><code>` into the full code block in place:
+ * header (filename, language, copy button), numbered lines and highlighted ranges.
+ * Copying is wired up by components/CodeCopy.tsx.
+ */
+export function renderCodeBlock(pre: Element, meta: string | null | undefined) {
+  const code = pre.children.find((child): child is Element => child.type === "element" && child.tagName === "code");
+  if (!code) return;
+
+  const codeClasses = Array.isArray(code.properties.className) ? code.properties.className.map(String) : [];
+  const language = codeClasses.find(c => c.startsWith("language-"))?.slice("language-".length);
+  const { filename, highlight } = parseCodeMeta(meta);
+
+  const lines = highlightLines(textContent(code), language);
+  const lineNodes: ElementContent[] = [];
+  lines.forEach((children, i) => {
+    const number = i + 1;
+    lineNodes.push({
+      type: "element",
+      tagName: "span",
+      properties: {
+        className: highlight.has(number) ? ["md-line", "md-line-highlight"] : ["md-line"],
+        dataLine: number,
+      },
+      children,
+    });
+    if (number < lines.length) lineNodes.push({ type: "text", value: "\n" });
+  });
+
+  const header: ElementContent[] = [];
+  if (filename) {
+    header.push({ type: "element", tagName: "span", properties: { className: ["md-code-filename"] }, children: [{ type: "text", value: filename }] });
+  }
+  if (language) {
+    header.push({ type: "element", tagName: "span", properties: { className: ["md-code-lang"] }, children: [{ type: "text", value: language }] });
+  }
+  header.push({
+    type: "element",
+    tagName: "button",
+    properties: { type: "button", className: ["md-copy"], dataCopyCode: true, ariaLabel: "Copy code" },
+    children: [{ type: "text", value: "copy" }],
+  });
+
+  pre.tagName = "div";
+  pre.properties = { className: ["md-codeblock"], dataLanguage: language || undefined };
+  pre.children = [
+    { type: "element", tagName: "div", properties: { className: ["md-code-header"] }, children: header },
+    {
+      type: "element",
+      tagName: "pre",
+      properties: { className: ["md-pre"] },
+      children: [{
+        type: "element",
+        tagName: "code",
+        properties: { className: [...codeClasses, "md-code-block", "hljs"] },
+        children: lineNodes,
+      }],
+    },
+  ];
+}
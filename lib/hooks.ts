@@ -0,0 +1,239 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { useScroll, useSpring } from "framer-motion";
+
+// ═══════════════════════════════════════════════════════════════════
+// CORE UTILITIES & HOOKS - Reusable across all views
+// ═══════════════════════════════════════════════════════════════════
+
+// Sound Manager
+const SoundManager = {
+  enabled: false,
+  volume: 0.3,
+  context: null as AudioContext | null,
+  
+  init() {
+    if (typeof window !== 'undefined' && !this.context) {
+      this.context = new (window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
+    }
+  },
+  
+  play(type: 'click' | 'hover' | 'type' | 'ambient' | 'success' | 'open' | 'close') {
+    if (!this.enabled || !this.context) return;
+    
+    const oscillator = this.context.createOscillator();
+    const gainNode = this.context.createGain();
+    
+    oscillator.connect(gainNode);
+    gainNode.connect(this.context.destination);
+    
+    const sounds: Record<string, { freq: number; type: OscillatorType; duration: number }> = {
+      click: { freq: 600, type: 'sine', duration: 0.05 },
+      hover: { freq: 400, type: 'sine', duration: 0.03 },
+      type: { freq: 800, type: 'square', duration: 0.02 },
+      success: { freq: 880, type: 'sine', duration: 0.15 },
+      open: { freq: 300, type: 'sine', duration: 0.1 },
+      close: { freq: 200, type: 'sine', duration: 0.08 },
+      ambient: { freq: 60, type: 'sine', duration: 2 },
+    };
+    
+    const sound = sounds[type];
+    oscillator.frequency.setValueAtTime(sound.freq, this.context.currentTime);
+    oscillator.type = sound.type;
+    gainNode.gain.setValueAtTime(this.volume * 0.1, this.context.currentTime);
+    gainNode.gain.exponentialRampToValueAtTime(0.001, this.context.currentTime + sound.duration);
+    
+    oscillator.start(this.context.currentTime);
+    oscillator.stop(this.context.currentTime + sound.duration);
+  },
+  
+  toggle() {
+    this.enabled = !this.enabled;
+    if (this.enabled) this.init();
+    return this.enabled;
+  }
+};
+
+// Theme Store
+const ThemeStore = {
+  get(): 'dark' | 'light' | 'auto' {
+    if (typeof window === 'undefined') return 'dark';
+    return (localStorage.getItem('theme') as 'dark' | 'light' | 'auto') || 'dark';
+  },
+  
+  set(theme: 'dark' | 'light' | 'auto') {
+    if (typeof window === 'undefined') return;
+    localStorage.setItem('theme', theme);
+  }
+};
+
+// Time awareness hook
+export function useTimeAwareness() {
+  const [phase, setPhase] = useState<"dawn" | "day" | "dusk" | "night" | null>(null);
+  
+  useEffect(() => {
+    const h = new Date().getHours();
+    if (h >= 5 && h < 8) setPhase("dawn");
+    else if (h >= 8 && h < 17) setPhase("day");
+    else if (h >= 17 && h < 20) setPhase("dusk");
+    else setPhase("night");
+  }, []);
+
+  const atmosphere = {
+    dawn: { accent: "from-amber-900/20", greeting: "Begin with purpose", mood: "hopeful" },
+    day: { accent: "from-white/5", greeting: "Be present in this moment", mood: "focused" },
+    dusk: { accent: "from-orange-900/20", greeting: "Reflect on what you've learned", mood: "contemplative" },
+    night: { accent: "from-blue-900/20", greeting: "Rest well, prepare for tomorrow", mood: "peaceful" }
+  };
+
+  const currentPhase = phase || "day";
+  return { phase: currentPhase, ...atmosphere[currentPhase] };
+}
+
+// Life progress hook
+export function useLifeProgress() {
+  const [data, setData] = useState({ day: 0, year: 0, week: 1, mounted: false });
+  
+  useEffect(() => {
+    const now = new Date();
+    const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const startOfYear = new Date(now.getFullYear(), 0, 1);
+    const endOfYear = new Date(now.getFullYear() + 1, 0, 1);
+    
+    setData({
+      day: ((now.getTime() - startOfDay.getTime()) / (24 * 60 * 60 * 1000)) * 100,
+      year: ((now.getTime() - startOfYear.getTime()) / (endOfYear.getTime() - startOfYear.getTime())) * 100,
+      week: Math.ceil((now.getTime() - startOfYear.getTime()) / (7 * 24 * 60 * 60 * 1000)),
+      mounted: true
+    });
+  }, []);
+  
+  return data;
+}
+
+// Countdown to tomorrow with midnight callback. `nextChangeAt` is the server's
+// midnight in the site timezone; without it the visitor's local midnight is used.
+export function useCountdownToTomorrow(onMidnight?: () => void, nextChangeAt?: string | null) {
+  const [timeLeft, setTimeLeft] = useState({ hours: 0, minutes: 0, seconds: 0 });
+  const midnightCalledRef = useRef<number | null>(null);
+  
+  useEffect(() => {
+    const calculate = () => {
+      const now = new Date();
+      const tomorrow = nextChangeAt
+        ? new Date(nextChangeAt)
+        : new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+      const diff = Math.max(0, tomorrow.getTime() - now.getTime());
+      
+      const hours = Math.floor(diff / (1000 * 60 * 60));
+      const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
+      const seconds = Math.floor((diff % (1000 * 60)) / 1000);
+      
+      setTimeLeft({ hours, minutes, seconds });
+      
+      // Trigger midnight callback once per midnight when countdown reaches 0
+      if (diff < 1000 && midnightCalledRef.current !== tomorrow.getTime()) {
+        midnightCalledRef.current = tomorrow.getTime();
+        onMidnight?.();
+      }
+    };
+    
+    calculate();
+    const interval = setInterval(calculate, 1000);
+    return () => clearInterval(interval);
+  }, [onMidnight, nextChangeAt]);
+  
+  return timeLeft;
+}
+
+// Lunar Phase hook
+export function useLunarPhase() {
+  const [phase, setPhase] = useState({ name: "New Moon", emoji: "🌑", illumination: 0, mounted: false });
+  
+  useEffect(() => {
+    const now = new Date();
+    const knownNew = new Date(2000, 0, 6).getTime();
+    const current = now.getTime();
+    const daysSince = (current - knownNew) / (1000 * 60 * 60 * 24);
+    const lunarCycle = 29.53;
+    const daysIntoCycle = daysSince % lunarCycle;
+    const phasePercent = daysIntoCycle / lunarCycle;
+    
+    const phases = [
+      { name: "New Moon", emoji: "🌑", range: [0, 0.0625] },
+      { name: "Waxing Crescent", emoji: "🌒", range: [0.0625, 0.1875] },
+      { name: "First Quarter", emoji: "🌓", range: [0.1875, 0.3125] },
+      { name: "Waxing Gibbous", emoji: "🌔", range: [0.3125, 0.4375] },
+      { name: "Full Moon", emoji: "🌕", range: [0.4375, 0.5625] },
+      { name: "Waning Gibbous", emoji: "🌖", range: [0.5625, 0.6875] },
+      { name: "Last Quarter", emoji: "🌗", range: [0.6875, 0.8125] },
+      { name: "Waning Crescent", emoji: "🌘", range: [0.8125, 1] },
+    ];
+    
+    const currentPhase = phases.find(p => phasePercent >= p.range[0] && phasePercent < p.range[1]) || phases[0];
+    const illumination = Math.abs(Math.cos(phasePercent * 2 * Math.PI)) * 100;
+    
+    setPhase({ ...currentPhase, illumination, mounted: true });
+  }, []);
+  
+  return phase;
+}
+
+// Sound Hook
+export function useSound() {
+  const [enabled, setEnabled] = useState(false);
+  
+  useEffect(() => {
+    setEnabled(SoundManager.enabled);
+  }, []);
+  
+  const toggle = useCallback(() => {
+    const newState = SoundManager.toggle();
+    setEnabled(newState);
+  }, []);
+  
+  const play = useCallback((type: 'click' | 'hover' | 'type' | 'ambient' | 'success' | 'open' | 'close') => {
+    SoundManager.play(type);
+  }, []);
+  
+  return { enabled, toggle, play };
+}
+
+// Theme Hook
+export function useTheme() {
+  const [theme, setThemeState] = useState<'dark' | 'light' | 'auto'>('dark');
+  
+  useEffect(() => {
+    setThemeState(ThemeStore.get());
+  }, []);
+  
+  const setTheme = useCallback((newTheme: 'dark' | 'light' | 'auto') => {
+    ThemeStore.set(newTheme);
+    setThemeState(newTheme);
+  }, []);
+  
+  return { theme, setTheme };
+}
+
+// Mouse parallax
+export function useMouseParallax() {
+  const [position, setPosition] = useState({ x: 0, y: 0 });
+  
+  useEffect(() => {
+    const handleMouse = (e: MouseEvent) => {
+      const x = (e.clientX / window.innerWidth - 0.5) * 2;
+      const y = (e.clientY / window.innerHeight - 0.5) * 2;
+      setPosition({ x, y });
+    };
+    window.addEventListener("mousemove", handleMouse);
+    return () => window.removeEventListener("mousemove", handleMouse);
+  }, []);
+  
+  return position;
+}
+
+// Scroll depth
+export function useScrollDepth() {
+  const { scrollYProgress } = useScroll();
+  const smoothProgress = useSpring(scrollYProgress, { stiffness: 50, damping: 20 });
+  return smoothProgress;
+}
@@ -0,0 +1,157 @@
+// ═══════════════════════════════════════════════════════════════════
+// LANGUAGE MODELS - Pluggable text generation for the oracle
+// "Speak only what is necessary, and in few words." - Epictetus
+// Chosen by ORACLE_LLM_PROVIDER; unset means retrieval-only replies
+// ═══════════════════════════════════════════════════════════════════
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface GenerateOptions {
+  temperature: number;
+  maxTokens: number;
+  signal?: AbortSignal;
+}
+
+export interface LanguageModel {
+  // Shown in logs, e.g. "openai:gpt-4o-mini"
+  name: string;
+  // Yields the reply piece by piece; throws when the provider fails
+  stream(messages: ChatMessage[], options: GenerateOptions): AsyncIterable<string>;
+}
+
+/**
+ * Payloads of a Server-Sent Events body, one per `data:` line
+ */
+async function* sseData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        if (line.startsWith("data:")) yield line.slice(5).trim();
+      }
+    }
+    if (buffer.startsWith("data:")) yield buffer.slice(5).trim();
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+async function post(url: string, body: unknown, signal?: AbortSignal, apiKey?: string): Promise<ReadableStream<Uint8Array>> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "text/event-stream",
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!res.ok || !res.body) {
+    throw new Error(`${url} answered ${res.status}: ${(await res.text().catch(() => "")).slice(0, 200)}`);
+  }
+  return res.body;
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API (OpenAI, vLLM, Ollama, LM Studio…)
+ */
+export function openAiCompatible(config: { baseUrl: string; model: string; apiKey?: string }): LanguageModel {
+  return {
+    name: `openai:${config.model}`,
+    async *stream(messages, { temperature, maxTokens, signal }) {
+      const body = await post(
+        `${config.baseUrl.replace(/\/+$/, "")}/chat/completions`,
+        { model: config.model, messages, temperature, max_tokens: maxTokens, stream: true },
+        signal,
+        config.apiKey
+      );
+      for await (const data of sseData(body)) {
+        if (data === "[DONE]") return;
+        const text = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (text) yield text;
+      }
+    },
+  };
+}
+
+/**
+ * llama.cpp's own server (`llama-server`), through its native /completion endpoint.
+ * The chat is flattened into a plain transcript, which works with any loaded model.
+ */
+export function llamaCpp(config: { baseUrl: string }): LanguageModel {
+  const speaker = { system: "", user: "Seeker", assistant: "Oracle" };
+  return {
+    name: "llamacpp",
+    async *stream(messages, { temperature, maxTokens, signal }) {
+      const prompt =
+        messages.map((m) => (m.role === "system" ? `${m.content}\n` : `${speaker[m.role]}: ${m.content}`)).join("\n") +
+        "\nOracle:";
+      const body = await post(
+        `${config.baseUrl.replace(/\/+$/, "")}/completion`,
+        { prompt, temperature, n_predict: maxTokens, stream: true, stop: ["\nSeeker:"] },
+        signal
+      );
+      for await (const data of sseData(body)) {
+        const chunk = JSON.parse(data);
+        if (chunk.content) yield chunk.content;
+        if (chunk.stop) return;
+      }
+    },
+  };
+}
+
+/**
+ * Deterministic offline model for tests and development: echoes the last
+ * question back one word at a time, without any network.
+ */
+export function stubModel(): LanguageModel {
+  return {
+    name: "stub",
+    async *stream(messages, { maxTokens }) {
+      const question = [...messages].reverse().find((m) => m.role === "user")?.content ?? "";
+      const words = `You ask: "${question}". Look first to what is within your power.`.split(/(?<=\s)/);
+      for (const word of words.slice(0, maxTokens)) yield word;
+    },
+  };
+}
+
+/**
+ * The configured model, or null for retrieval-only replies
+ */
+export function configuredModel(): LanguageModel | null {
+  const provider = process.env.ORACLE_LLM_PROVIDER;
+  switch (provider) {
+    case "openai":
+      return openAiCompatible({
+        baseUrl: process.env.ORACLE_LLM_URL || "https://api.openai.com/v1",
+        model: process.env.ORACLE_LLM_MODEL || "gpt-4o-mini",
+        apiKey: process.env.ORACLE_LLM_API_KEY,
+      });
+    case "llamacpp":
+      return llamaCpp({ baseUrl: process.env.ORACLE_LLM_URL || "http://127.0.0.1:8080" });
+    case "stub":
+      return stubModel();
+    case undefined:
+    case "":
+      return null;
+    default:
+      console.error(`Unknown ORACLE_LLM_PROVIDER "${provider}", answering from retrieval only`);
+      return null;
+  }
+}
+
+// Whole-reply budget before falling back to retrieval
+export function generationTimeout(): number {
+  return Number(process.env.ORACLE_LLM_TIMEOUT_MS) || 30000;
+}
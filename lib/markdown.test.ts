@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { markdownToHtml, stripAnnotations } from "@/lib/markdown";
+
+describe("markdownToHtml sanitizing", () => {
+  it("drops raw HTML and scripts", () => {
+    const html = markdownToHtml('<script>alert(1)</script>\n\nHi <b onclick="x()">there</b> <img src=x onerror=alert(1)>\n\n<iframe src="https://evil.example"></iframe>');
+    expect(html).not.toMatch(/<script|<b|<iframe|onerror|onclick|alert/);
+    expect(html).toContain("Hi");
+    expect(html).toContain("there");
+  });
+
+  it("strips javascript: and data: links but keeps the text", () => {
+    const html = markdownToHtml("[click](javascript:alert(1)) [img](data:text/html,hi) ![x](javascript:alert(2))");
+    expect(html).not.toContain("javascript:");
+    expect(html).not.toContain("data:");
+    expect(html).toContain(">click</a>");
+  });
+
+  it("opens external links in a new tab without an opener", () => {
+    expect(markdownToHtml("[Seneca](https://example.com)")).toContain('target="_blank" rel="noopener noreferrer"');
+  });
+});
+
+describe("ids", () => {
+  it("keeps footnote ids prefixed, once", () => {
+    const html = markdownToHtml("Text[^a].\n\n[^a]: A note.");
+    expect(html).toContain('id="user-content-fn-a"');
+    expect(html).toContain('href="#user-content-fn-a"');
+    expect(html).toContain('id="footnote-label"');
+    expect(html).not.toContain("user-content-user-content");
+  });
+
+  it("gives headings unique ids that don't collide with footnotes", () => {
+    const html = markdownToHtml("## Why it matters\n\n## Why it matters\n\n## Footnote label\n\nA[^a]\n\n[^a]: note");
+    const ids = [...html.matchAll(/ id="([^"]+)"/g)].map((match) => match[1]);
+    expect(ids).toContain("why-it-matters");
+    expect(ids).toContain("why-it-matters-1");
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it("leaves the footnotes heading out of the outline", () => {
+    const html = markdownToHtml("A[^a]\n\n[^a]: note");
+    expect(html).not.toContain("data-section");
+  });
+});
+
+describe("annotations", () => {
+  it("colors each kind", () => {
+    expect(markdownToHtml('{var:Marcus} {fn:endures}. {str:"Courage."} {// an aside}')).toBe(
+      '<p class="md-p"><span class="text-variable">Marcus</span> <span class="text-function">endures</span>. ' +
+        '<span class="text-string">"Courage."</span> <span class="md-aside text-comment">// an aside</span></p>'
+    );
+  });
+
+  it("nests without leaking braces", () => {
+    const html = markdownToHtml("{var:a {fn:b}} done");
+    expect(html).toBe('<p class="md-p"><span class="text-variable">a <span class="text-function">b</span></span> done</p>');
+    expect(stripAnnotations("{var:a {fn:b}} done")).toBe("a b done");
+  });
+
+  it("leaves unclosed and empty annotations literal", () => {
+    expect(markdownToHtml("{fn:open and {var:}")).toBe('<p class="md-p">{fn:open and {var:}</p>');
+  });
+
+  it("stays literal in code", () => {
+    expect(markdownToHtml("`{var:x}`")).toContain("<code");
+    expect(markdownToHtml("`{var:x}`")).toContain("{var:x}");
+  });
+
+  it("can't smuggle markup through a token", () => {
+    expect(markdownToHtml("{var:<script>alert(1)</script>}")).not.toContain("<script");
+  });
+});
@@ -1,46 +1,385 @@
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import remarkGfm from "remark-gfm";
+import remarkBreaks from "remark-breaks";
+import remarkRehype from "remark-rehype";
+import rehypeSanitize, { defaultSchema } from "rehype-sanitize";
+import rehypeStringify from "rehype-stringify";
+import { visit } from "unist-util-visit";
+import type { Element, ElementContent, Root } from "hast";
+import type { PhrasingContent, Root as MdastRoot } from "mdast";
+import { glossaryAnchor, glossaryMatcher, type GlossaryEntry } from "@/lib/glossary";
+import { renderCodeBlock } from "@/lib/highlight";
+
 // ═══════════════════════════════════════════════════════════════════
 // SHARED MARKDOWN UTILITIES
 // Used by both CMS preview and article display
 // ═══════════════════════════════════════════════════════════════════
 
+// Tags that map straight onto an md-* class
+const CLASS_NAMES: Record<string, string> = {
+  h1: "md-h1",
+  h2: "md-h2",
+  h3: "md-h3",
+  h4: "md-h4",
+  h5: "md-h4",
+  h6: "md-h4",
+  p: "md-p",
+  blockquote: "md-quote",
+  hr: "md-hr",
+  a: "md-link",
+  ul: "md-ul",
+  ol: "md-ol",
+  li: "md-li",
+  img: "md-img",
+  del: "md-del",
+  input: "md-checkbox",
+  th: "md-th",
+  td: "md-td",
+};
+
+function classList(node: Element): string[] {
+  const className = node.properties.className;
+  return Array.isArray(className) ? className.map(String) : [];
+}
+
+function addClass(node: Element, ...names: string[]) {
+  node.properties.className = [...classList(node), ...names];
+}
+
+function element(tagName: string, className: string, children: ElementContent[]): Element {
+  return { type: "element", tagName, properties: { className: [className] }, children };
+}
+
+function isWhitespace(node: ElementContent): boolean {
+  return node.type === "text" && !node.value.trim();
+}
+
+/**
+ * Semantic annotations color narrative like code:
+ *   {var:Marcus}  subject     {fn:endure}  action
+ *   {str:"..."}   dialogue    {// aside}   meta-commentary
+ * They hold plain text and may nest ({var:a {fn:b}}); markdown inside them
+ * is not parsed. One without its closing brace on the same line stays literal.
+ */
+const ANNOTATION_OPENER = /^\{(?:(var|fn|str):|\/\/)/;
+
+const ANNOTATION_KINDS: Record<string, string> = { var: "variable", fn: "function", str: "string" };
+
+// Colors from tailwind.config.ts; asides are also set in italics
+const TOKEN_CLASSES: Record<string, string[]> = {
+  variable: ["text-variable"],
+  function: ["text-function"],
+  string: ["text-string"],
+  comment: ["md-aside", "text-comment"],
+};
+
+type AnnotationPiece = string | { token: string; pieces: AnnotationPiece[] };
+
+// Index of the brace closing the one opened just before `from`, or -1
+function closingBrace(text: string, from: number): number {
+  let depth = 1;
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === "\n") return -1;
+    if (text[i] === "{") depth++;
+    else if (text[i] === "}" && --depth === 0) return i;
+  }
+  return -1;
+}
+
+function parseAnnotations(text: string): AnnotationPiece[] {
+  const pieces: AnnotationPiece[] = [];
+  let last = 0;
+  let i = text.indexOf("{");
+  while (i !== -1) {
+    const opener = text.slice(i, i + 6).match(ANNOTATION_OPENER);
+    const close = opener ? closingBrace(text, i + 1) : -1;
+    // {var:}, {fn:} and {str:} need something inside; an empty aside is fine
+    if (!opener || close === -1 || (opener[1] && close === i + opener[0].length)) {
+      i = text.indexOf("{", i + 1);
+      continue;
+    }
+
+    const value = text.slice(i + opener[0].length, close);
+    if (i > last) pieces.push(text.slice(last, i));
+    pieces.push(
+      opener[1]
+        ? { token: ANNOTATION_KINDS[opener[1]], pieces: parseAnnotations(value) }
+        : { token: "comment", pieces: parseAnnotations(value.trim()) }
+    );
+    last = close + 1;
+    i = text.indexOf("{", last);
+  }
+  if (last < text.length) pieces.push(text.slice(last));
+  return pieces;
+}
+
+function plainPieces(pieces: AnnotationPiece[]): string {
+  return pieces.map((piece) => (typeof piece === "string" ? piece : plainPieces(piece.pieces))).join("");
+}
+
+/**
+ * Annotations replaced by their text, for excerpts and search
+ */
+export function stripAnnotations(markdown: string): string {
+  return markdown.includes("{") ? plainPieces(parseAnnotations(markdown)) : markdown;
+}
+
+function annotationNodes(pieces: AnnotationPiece[]): PhrasingContent[] {
+  return pieces.map((piece): PhrasingContent => {
+    if (typeof piece === "string") return { type: "text", value: piece };
+    const children = annotationNodes(piece.pieces);
+    if (piece.token === "comment") children.unshift({ type: "text", value: "// " });
+    return { type: "emphasis", children, data: { hName: "span", hProperties: { dataToken: piece.token } } };
+  });
+}
+
+/**
+ * Split annotations out of text nodes into spans marked with data-token,
+ * which survives sanitizing and becomes a class in rehypeMarkdownClasses.
+ * Code and inline code are separate node types, so they stay literal.
+ */
+function remarkAnnotations() {
+  return (tree: MdastRoot) => {
+    visit(tree, "text", (node, index, parent) => {
+      if (!parent || index === undefined || !node.value.includes("{")) return;
+
+      const parsed = parseAnnotations(node.value);
+      if (parsed.every((piece) => typeof piece === "string")) return;
+      const pieces = annotationNodes(parsed);
+
+      (parent.children as PhrasingContent[]).splice(index, 1, ...pieces);
+      return index + pieces.length;
+    });
+  };
+}
+
+function textOf(node: ElementContent): string {
+  if (node.type === "text") return node.value;
+  if (node.type === "element") return node.children.map(textOf).join("");
+  return "";
+}
+
+// Unique within one document: "why-it-matters", then "why-it-matters-1";
+// `used` holds every id already given out, footnote ids included
+function headingId(text: string, taken: Map<string, number>, used: Set<string>): string {
+  const base =
+    text
+      .toLowerCase()
+      .normalize("NFKD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") || "section";
+  let count = taken.get(base) ?? 0;
+  let id = count ? `${base}-${count}` : base;
+  while (used.has(id)) id = `${base}-${++count}`;
+  taken.set(base, count + 1);
+  used.add(id);
+  return id;
+}
+
+/**
+ * Carry a fence's info string (`title="…" {3-5}`) through to the code element
+ */
+function remarkCodeMeta() {
+  return (tree: MdastRoot) => {
+    visit(tree, "code", (node) => {
+      if (!node.meta) return;
+      node.data = { ...node.data, hProperties: { ...node.data?.hProperties, dataMeta: node.meta } };
+    });
+  };
+}
+
+// Default schema plus the fence meta read back by rehypeMarkdownClasses
+const SANITIZE_SCHEMA = {
+  ...defaultSchema,
+  // remark-rehype already prefixes footnote ids; a second prefix breaks their links
+  clobberPrefix: "",
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [...(defaultSchema.attributes?.code ?? []), "dataMeta"],
+    span: [...(defaultSchema.attributes?.span ?? []), ["dataToken", ...Object.keys(TOKEN_CLASSES)] as [string, ...string[]]],
+  },
+};
+
+/**
+ * Attach md-* classes and structural wrappers to the sanitized tree.
+ * Runs after sanitizing, so everything it adds is trusted.
+ */
+function rehypeMarkdownClasses() {
+  return (tree: Root) => {
+    const headingIds = new Map<string, number>();
+    const usedIds = new Set<string>();
+    visit(tree, "element", (node) => {
+      if (typeof node.properties.id === "string") usedIds.add(node.properties.id);
+    });
+    // Headings in the footnotes keep remark-rehype's ids and stay out of the outline
+    const footnoteHeadings = new Set<Element>();
+    visit(tree, "element", (node, _index, parent) => {
+      const classes = classList(node);
+
+      switch (node.tagName) {
+        case "pre": {
+          // Fenced code → highlighted block; rewritten in place, guarded by md-pre
+          if (classes.includes("md-pre")) return;
+          const code = node.children.find((child): child is Element => child.type === "element" && child.tagName === "code");
+          const meta = code?.properties.dataMeta;
+          if (code) delete code.properties.dataMeta;
+          renderCodeBlock(node, meta ? String(meta) : null);
+          return;
+        }
+        case "code":
+          if (parent?.type === "element" && parent.tagName === "pre") return;
+          addClass(node, "md-code");
+          return;
+        case "table": {
+          // Wide tables scroll inside their own wrapper
+          if (classes.includes("md-table")) return;
+          const table = element("table", "md-table", node.children);
+          node.tagName = "div";
+          node.properties = { className: ["md-table-wrap"] };
+          node.children = [table];
+          return;
+        }
+        case "p": {
+          // A paragraph holding only an image becomes a captioned figure
+          const content = node.children.filter(child => !isWhitespace(child));
+          const image = content[0];
+          if (content.length !== 1 || image.type !== "element" || image.tagName !== "img") break;
+
+          const caption = image.properties.title;
+          node.tagName = "figure";
+          node.properties = { className: ["md-figure"] };
+          node.children = caption
+            ? [image, element("figcaption", "md-caption", [{ type: "text", value: String(caption) }])]
+            : [image];
+          return;
+        }
+        case "a":
+          if (node.properties.dataFootnoteRef !== undefined || node.properties.dataFootnoteBackref !== undefined) {
+            addClass(node, "md-footnote-link");
+            return;
+          }
+          if (/^https?:\/\//.test(String(node.properties.href ?? ""))) {
+            node.properties.target = "_blank";
+            node.properties.rel = ["noopener", "noreferrer"];
+          }
+          break;
+        case "img":
+          node.properties.loading = "lazy";
+          break;
+        case "span": {
+          // Semantic annotation from remarkAnnotations
+          const token = node.properties.dataToken;
+          if (typeof token !== "string") break;
+          delete node.properties.dataToken;
+          addClass(node, ...(TOKEN_CLASSES[token] ?? []));
+          return;
+        }
+        case "h2":
+        case "h3":
+          // Anchors, and the sections the Living Margin follows
+          if (footnoteHeadings.has(node)) break;
+          node.properties.id = headingId(textOf(node), headingIds, usedIds);
+          node.properties.dataSection = node.properties.id;
+          break;
+        case "li":
+          if (classes.includes("task-list-item")) addClass(node, "md-task");
+          break;
+        case "section":
+          if (node.properties.dataFootnotes === undefined) return;
+          addClass(node, "md-footnotes");
+          visit(node, "element", (child) => {
+            if (child.tagName === "h2" || child.tagName === "h3") footnoteHeadings.add(child);
+          });
+          return;
+      }
+
+      const className = CLASS_NAMES[node.tagName];
+      if (className) addClass(node, className);
+    });
+  };
+}
+
+// Terms stay plain in code, in existing links and in headings, which the outline reads
+const UNLINKED_TAGS = new Set(["a", "code", "pre", "h1", "h2", "h3", "h4", "h5", "h6"]);
+
+/**
+ * Link the first mention of each glossary term (or one of its aliases) to
+ * its /glossary entry. components/GlossaryCards.tsx turns the links into
+ * hover cards; without JavaScript they still lead to the definition.
+ */
+function linkGlossaryTerms(tree: Root, glossary: GlossaryEntry[]) {
+  const matcher = glossaryMatcher(glossary);
+  if (!matcher) return;
+  const linked = new Set<number>();
+
+  const walk = (parent: Root | Element) => {
+    const children = parent.children as ElementContent[];
+    for (let i = 0; i < children.length; i++) {
+      const child = children[i];
+      if (child.type === "element") {
+        if (!UNLINKED_TAGS.has(child.tagName)) walk(child);
+        continue;
+      }
+      if (child.type !== "text") continue;
+
+      const pieces: ElementContent[] = [];
+      let last = 0;
+      for (const match of child.value.matchAll(matcher.pattern)) {
+        const entry = matcher.entryFor(match[0]);
+        if (!entry || linked.has(entry.id)) continue;
+        linked.add(entry.id);
+
+        const start = match.index ?? 0;
+        if (start > last) pieces.push({ type: "text", value: child.value.slice(last, start) });
+        pieces.push({
+          type: "element",
+          tagName: "a",
+          properties: { href: `/glossary#${glossaryAnchor(entry.term)}`, className: ["md-term"], dataTerm: entry.term },
+          children: [{ type: "text", value: match[0] }],
+        });
+        last = start + match[0].length;
+      }
+      if (pieces.length === 0) continue;
+      if (last < child.value.length) pieces.push({ type: "text", value: child.value.slice(last) });
+
+      children.splice(i, 1, ...pieces);
+      i += pieces.length - 1;
+    }
+  };
+  walk(tree);
+}
+
+// Built once; every call reuses the frozen pipeline
+const processor = unified()
+  .use(remarkParse)
+  .use(remarkGfm)
+  // Single newlines stay line breaks, as in the original renderer
+  .use(remarkBreaks)
+  .use(remarkCodeMeta)
+  .use(remarkAnnotations)
+  // Raw HTML in the source is dropped, not passed through
+  .use(remarkRehype)
+  .use(rehypeSanitize, SANITIZE_SCHEMA)
+  .use(rehypeMarkdownClasses)
+  .use(rehypeStringify)
+  .freeze();
+
+export interface MarkdownOptions {
+  // Terms whose first mention links to a hover card; feeds leave this out
+  glossary?: GlossaryEntry[];
+}
+
 /**
- * Convert markdown string to HTML
- * Supports: headings, bold, italic, quotes, links, code, hr
+ * Convert markdown string to sanitized HTML
+ * CommonMark + GFM: tables, task lists, strikethrough, autolinks, footnotes,
+ * fenced code with language labels, and images with title captions
  */
-export function markdownToHtml(markdown: string): string {
-  let html = markdown
-    // Escape HTML
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    // Headings
-    .replace(/^### (.*$)/gm, '<h3 class="md-h3">$1</h3>')
-    .replace(/^## (.*$)/gm, '<h2 class="md-h2">$1</h2>')
-    .replace(/^# (.*$)/gm, '<h1 class="md-h1">$1</h1>')
-    // Bold & Italic
-    .replace(/\*\*\*(.*?)\*\*\*/g, '<strong><em>$1</em></strong>')
-    .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-    .replace(/\*(.*?)\*/g, '<em>$1</em>')
-    // Blockquotes
-    .replace(/^> (.*$)/gm, '<blockquote class="md-quote">$1</blockquote>')
-    // Horizontal rule
-    .replace(/^---$/gm, '<hr class="md-hr" />')
-    // Links
-    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '<a href="$2" class="md-link" target="_blank" rel="noopener noreferrer">$1</a>')
-    // Inline code
-    .replace(/`([^`]+)`/g, '<code class="md-code">$1</code>')
-    // Paragraphs
-    .replace(/\n\n/g, '</p><p class="md-p">')
-    .replace(/\n/g, '<br />');
-  
-  // Wrap in paragraph
-  html = '<p class="md-p">' + html + '</p>';
-  // Remove empty paragraphs
-  html = html.replace(/<p class="md-p"><\/p>/g, '');
-  // Merge consecutive blockquotes
-  html = html.replace(/<\/blockquote>\s*<br \/>\s*<blockquote class="md-quote">/g, '<br />');
-  
-  return html;
+export function markdownToHtml(markdown: string, options: MarkdownOptions = {}): string {
+  const tree = processor.runSync(processor.parse(markdown));
+  if (options.glossary) linkGlossaryTerms(tree, options.glossary);
+  return processor.stringify(tree);
 }
 
 /**
@@ -94,6 +433,10 @@ export const markdownStyles = `
     color: var(--text-secondary);
   }
   
+  .prose-markdown .md-aside {
+    font-style: italic;
+  }
+  
   .prose-markdown .md-hr {
     border: none;
     border-top: 1px solid var(--border-secondary);
@@ -111,6 +454,19 @@ export const markdownStyles = `
     opacity: 0.7;
   }
   
+  .prose-markdown .md-term {
+    color: inherit;
+    text-decoration: underline dotted;
+    text-underline-offset: 4px;
+    cursor: help;
+  }
+  
+  .prose-markdown .md-term:hover,
+  .prose-markdown .md-term:focus-visible {
+    color: var(--text-secondary);
+    outline: none;
+  }
+  
   .prose-markdown .md-code {
     font-family: 'SF Mono', 'Fira Code', monospace;
     font-size: 0.9em;
@@ -120,6 +476,249 @@ export const markdownStyles = `
     color: var(--accent-gold);
   }
   
+  .prose-markdown .md-h4 {
+    font-size: 1.1rem;
+    font-weight: 500;
+    color: var(--text-secondary);
+    margin-top: 1.75rem;
+    margin-bottom: 0.5rem;
+  }
+  
+  .prose-markdown .md-quote .md-p:last-child {
+    margin-bottom: 0;
+  }
+  
+  .prose-markdown .md-ul,
+  .prose-markdown .md-ol {
+    margin: 0 0 1.5rem 1.5rem;
+  }
+  
+  .prose-markdown .md-ul {
+    list-style: disc;
+  }
+  
+  .prose-markdown .md-ol {
+    list-style: decimal;
+  }
+  
+  .prose-markdown .md-li {
+    margin-bottom: 0.5rem;
+  }
+  
+  .prose-markdown .md-li > .md-p {
+    margin-bottom: 0.5rem;
+  }
+  
+  .prose-markdown .md-li::marker {
+    color: var(--accent-gold);
+  }
+  
+  .prose-markdown .contains-task-list {
+    list-style: none;
+    margin-left: 0;
+  }
+  
+  .prose-markdown .md-checkbox {
+    margin-right: 0.5rem;
+    accent-color: var(--accent-gold);
+  }
+  
+  .prose-markdown {
+    --code-bg: var(--bg-elevated);
+    --code-text: var(--text-tertiary);
+    --code-comment: var(--text-muted);
+    --code-keyword: var(--accent-gold);
+    --code-string: var(--virtue-justice);
+    --code-function: var(--virtue-wisdom);
+    --code-number: var(--virtue-courage);
+    --code-type: var(--virtue-temperance);
+    --code-highlight: var(--accent-gold-dim);
+  }
+  
+  .prose-markdown .md-codeblock {
+    margin: 2rem 0;
+    border-radius: 8px;
+    overflow: hidden;
+    background-color: var(--code-bg);
+    border: 1px solid var(--border-secondary);
+  }
+  
+  .prose-markdown .md-code-header {
+    display: flex;
+    align-items: center;
+    gap: 0.75rem;
+    padding: 0.4rem 0.75rem;
+    border-bottom: 1px solid var(--border-secondary);
+    font-family: 'SF Mono', 'Fira Code', monospace;
+    font-size: 0.7rem;
+    color: var(--text-muted);
+  }
+  
+  .prose-markdown .md-code-filename {
+    color: var(--text-secondary);
+  }
+  
+  .prose-markdown .md-code-lang {
+    text-transform: uppercase;
+    letter-spacing: 0.05em;
+  }
+  
+  .prose-markdown .md-copy {
+    margin-left: auto;
+    color: var(--text-muted);
+    transition: color 0.2s;
+  }
+  
+  .prose-markdown .md-copy:hover,
+  .prose-markdown .md-copy[data-copied] {
+    color: var(--accent-gold);
+  }
+  
+  .prose-markdown .md-pre {
+    overflow-x: auto;
+    padding: 1rem 0;
+    margin: 0;
+  }
+  
+  .prose-markdown .md-code-block {
+    font-family: 'SF Mono', 'Fira Code', monospace;
+    font-size: 0.85rem;
+    line-height: 1.6;
+    color: var(--code-text);
+  }
+  
+  /* inline-block keeps the newline between lines in the copied text */
+  .prose-markdown .md-line {
+    display: inline-block;
+    min-width: 100%;
+    padding-right: 1.25rem;
+    border-left: 2px solid transparent;
+  }
+  
+  .prose-markdown .md-line::before {
+    content: attr(data-line);
+    display: inline-block;
+    width: 2.5rem;
+    margin-right: 1rem;
+    padding-right: 0.5rem;
+    text-align: right;
+    color: var(--code-comment);
+    opacity: 0.6;
+    user-select: none;
+  }
+  
+  .prose-markdown .md-line-highlight {
+    background-color: var(--code-highlight);
+    border-left-color: var(--accent-gold);
+  }
+  
+  .prose-markdown .hljs-comment,
+  .prose-markdown .hljs-quote {
+    color: var(--code-comment);
+    font-style: italic;
+  }
+  
+  .prose-markdown .hljs-keyword,
+  .prose-markdown .hljs-selector-tag,
+  .prose-markdown .hljs-literal,
+  .prose-markdown .hljs-meta {
+    color: var(--code-keyword);
+  }
+  
+  .prose-markdown .hljs-string,
+  .prose-markdown .hljs-regexp,
+  .prose-markdown .hljs-addition {
+    color: var(--code-string);
+  }
+  
+  .prose-markdown .hljs-title,
+  .prose-markdown .hljs-section,
+  .prose-markdown .hljs-name {
+    color: var(--code-function);
+  }
+  
+  .prose-markdown .hljs-number,
+  .prose-markdown .hljs-symbol,
+  .prose-markdown .hljs-deletion {
+    color: var(--code-number);
+  }
+  
+  .prose-markdown .hljs-type,
+  .prose-markdown .hljs-built_in,
+  .prose-markdown .hljs-class,
+  .prose-markdown .hljs-attr,
+  .prose-markdown .hljs-attribute,
+  .prose-markdown .hljs-variable {
+    color: var(--code-type);
+  }
+  
+  .prose-markdown .md-table-wrap {
+    overflow-x: auto;
+    margin: 2rem 0;
+  }
+  
+  .prose-markdown .md-table {
+    width: 100%;
+    border-collapse: collapse;
+    font-size: 0.95rem;
+  }
+  
+  .prose-markdown .md-th,
+  .prose-markdown .md-td {
+    padding: 0.5rem 0.75rem;
+    border-bottom: 1px solid var(--border-secondary);
+  }
+  
+  .prose-markdown .md-th {
+    font-weight: 500;
+    color: var(--text-secondary);
+  }
+  
+  .prose-markdown .md-figure {
+    margin: 2rem 0;
+  }
+  
+  .prose-markdown .md-img {
+    max-width: 100%;
+    height: auto;
+    border-radius: 8px;
+  }
+  
+  .prose-markdown .md-caption {
+    margin-top: 0.75rem;
+    font-size: 0.9rem;
+    font-style: italic;
+    text-align: center;
+    color: var(--text-muted);
+  }
+  
+  .prose-markdown .md-del {
+    opacity: 0.6;
+  }
+  
+  .prose-markdown .md-footnote-link {
+    color: var(--accent-gold);
+    text-decoration: none;
+    font-size: 0.8em;
+    margin-left: 0.1em;
+  }
+  
+  .prose-markdown .md-footnotes {
+    margin-top: 3rem;
+    padding-top: 1.5rem;
+    border-top: 1px solid var(--border-secondary);
+    font-size: 0.95rem;
+  }
+  
+  .prose-markdown .md-footnotes .sr-only {
+    position: absolute;
+    width: 1px;
+    height: 1px;
+    overflow: hidden;
+    clip: rect(0, 0, 0, 0);
+    white-space: nowrap;
+  }
+  
   .prose-markdown strong {
     font-weight: 600;
     color: var(--text-secondary);
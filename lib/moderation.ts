@@ -0,0 +1,133 @@
+import prisma from "@/lib/prisma";
+import { publishLiveEvent } from "@/lib/events";
+import { revalidateCollectivePages } from "@/lib/contemplations";
+import { invalidateSearchIndex } from "@/lib/searchIndex";
+import { sessionUserId, type SessionPayload } from "@/lib/session";
+import type { Prisma, StickyNote } from "@prisma/client";
+
+// ═══════════════════════════════════════════════════════════════════
+// ANSWER MODERATION - State changes plus the audit trail behind them
+// "Be tolerant with others and strict with yourself." - Marcus Aurelius
+// ═══════════════════════════════════════════════════════════════════
+
+export const MODERATION_ACTIONS = ["approve", "unapprove", "reject", "restore", "delete"] as const;
+export type ModerationAction = (typeof MODERATION_ACTIONS)[number];
+
+export const RESTORE_WINDOW = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+const EXCERPT_LENGTH = 140;
+
+export function isModerationAction(value: unknown): value is ModerationAction {
+  return typeof value === "string" && (MODERATION_ACTIONS as readonly string[]).includes(value);
+}
+
+// Queue filters for GET /api/answers
+export const pendingWhere = { approved: false, rejectedAt: null } satisfies Prisma.StickyNoteWhereInput;
+export const rejectedWhere = { rejectedAt: { not: null } } satisfies Prisma.StickyNoteWhereInput;
+
+// Spam heuristics and rejections stay inside the Sanctum
+export function withoutSpamFields<T extends Pick<StickyNote, "spamScore" | "spamReasons" | "flagged" | "rejectedAt" | "rejectionReason">>(note: T) {
+  const {
+    spamScore: _spamScore,
+    spamReasons: _spamReasons,
+    flagged: _flagged,
+    rejectedAt: _rejectedAt,
+    rejectionReason: _rejectionReason,
+    ...rest
+  } = note;
+  return rest;
+}
+
+export function restoreDeadline(rejectedAt: Date): Date {
+  return new Date(rejectedAt.getTime() + RESTORE_WINDOW);
+}
+
+// Which notes an action applies to; the rest of a selection is skipped
+function applies(action: ModerationAction, note: StickyNote, now: Date): boolean {
+  switch (action) {
+    case "approve": return !note.approved;
+    case "unapprove": return note.approved;
+    case "reject": return !note.rejectedAt;
+    case "restore": return !!note.rejectedAt && restoreDeadline(note.rejectedAt) > now;
+    case "delete": return true;
+  }
+}
+
+function changes(action: ModerationAction, reason: string | null, moderatedById: number | null, now: Date) {
+  switch (action) {
+    case "approve":
+      return { approved: true, rejectedAt: null, rejectionReason: null, moderatedById };
+    case "unapprove":
+      return { approved: false, moderatedById };
+    case "reject":
+      return { approved: false, rejectedAt: now, rejectionReason: reason, moderatedById };
+    case "restore":
+      return { rejectedAt: null, rejectionReason: null, moderatedById };
+    case "delete":
+      return null;
+  }
+}
+
+/**
+ * Apply one action to every applicable note in `ids` and log each change.
+ * Rejections past their restore window are purged first.
+ * Returns the ids that actually changed.
+ */
+export async function moderateAnswers(
+  ids: number[],
+  action: ModerationAction,
+  session: SessionPayload | null,
+  reason?: unknown
+): Promise<number[]> {
+  const now = new Date();
+  const moderatorId = sessionUserId(session);
+  // `reason` comes straight from the request body
+  const cleanReason = typeof reason === "string" ? reason.trim().slice(0, 200) || null : null;
+
+  await purgeExpiredRejections();
+  const notes = (await prisma.stickyNote.findMany({ where: { id: { in: ids } } }))
+    .filter((note) => applies(action, note, now));
+  if (notes.length === 0) return [];
+
+  const affected = notes.map((note) => note.id);
+  const data = changes(action, cleanReason, moderatorId, now);
+
+  await prisma.$transaction([
+    data
+      ? prisma.stickyNote.updateMany({ where: { id: { in: affected } }, data })
+      : prisma.stickyNote.deleteMany({ where: { id: { in: affected } } }),
+    prisma.moderationLog.createMany({
+      data: notes.map((note) => ({
+        action,
+        noteId: note.id,
+        excerpt: `${note.answer.slice(0, EXCERPT_LENGTH)}${note.answer.length > EXCERPT_LENGTH ? "…" : ""} — ${note.author}`,
+        reason: action === "reject" ? cleanReason : null,
+        moderatorId,
+        moderatorName: session?.name ?? "Unknown",
+      })),
+    }),
+  ]);
+
+  // Only changes to what the public board shows are worth pushing
+  const approved = action === "approve";
+  const visible = notes.filter((note) => note.approved !== approved);
+  for (const note of visible) {
+    publishLiveEvent({ type: "answer.approved", id: note.id, contemplationId: note.contemplationId, approved });
+  }
+  if (visible.length > 0) {
+    revalidateCollectivePages();
+    invalidateSearchIndex();
+  }
+
+  return affected;
+}
+
+/**
+ * Permanently remove rejected notes whose restore window has passed
+ */
+export async function purgeExpiredRejections(): Promise<number> {
+  const { count } = await prisma.stickyNote.deleteMany({
+    where: { rejectedAt: { lt: new Date(Date.now() - RESTORE_WINDOW) } },
+  });
+  return count;
+}
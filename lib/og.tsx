@@ -0,0 +1,163 @@
+import { readFile } from "fs/promises";
+import { join } from "path";
+
+// ═══════════════════════════════════════════════════════════════════
+// OPENGRAPH CARDS - 1200×630 share images, rendered locally with next/og
+// "Very little is needed to make a happy life." - Marcus Aurelius
+// ═══════════════════════════════════════════════════════════════════
+
+export const OG_SIZE = { width: 1200, height: 630 };
+
+export const OG_TYPES = ["article", "project", "contemplation"] as const;
+export type OgType = (typeof OG_TYPES)[number];
+
+// Dark theme values from globals.css (CSS variables don't exist inside satori)
+const PALETTE = {
+  bg: "#050505",
+  elevated: "#161616",
+  border: "#252525",
+  gold: "#c9a227",
+  goldDim: "rgba(201, 162, 39, 0.15)",
+  text: "#ffffff",
+  secondary: "#c5c5c5",
+  muted: "#6b6b6b",
+};
+
+const LABELS: Record<OgType, string> = {
+  article: "writing",
+  project: "work",
+  contemplation: "the collective",
+};
+
+/**
+ * Versioned image path: the `v` changes with updatedAt, so the image can be cached forever
+ */
+export function ogImagePath(type: OgType, id: number, updatedAt: Date | string): string {
+  return `/og/${type}/${id}?v=${new Date(updatedAt).getTime()}`;
+}
+
+export function ogImage(type: OgType, id: number, updatedAt: Date | string, alt: string) {
+  return { url: ogImagePath(type, id, updatedAt), ...OG_SIZE, alt };
+}
+
+const FONT_DIR = join(process.cwd(), "node_modules", "@fontsource");
+
+type OgFont = { name: string; data: Buffer; weight: 400 | 500; style: "normal" | "italic" };
+
+let fontsPromise: Promise<OgFont[]> | null = null;
+
+// Bundled woff files (satori can't read woff2); loaded once per server, retried after a failed read
+export function loadOgFonts(): Promise<OgFont[]> {
+  fontsPromise ??= Promise.all([
+    readFile(join(FONT_DIR, "eb-garamond/files/eb-garamond-latin-400-normal.woff")),
+    readFile(join(FONT_DIR, "eb-garamond/files/eb-garamond-latin-400-italic.woff")),
+    readFile(join(FONT_DIR, "jetbrains-mono/files/jetbrains-mono-latin-400-normal.woff")),
+  ]).then(([serif, serifItalic, mono]): OgFont[] => [
+    { name: "EB Garamond", data: serif, weight: 400, style: "normal" },
+    { name: "EB Garamond", data: serifItalic, weight: 400, style: "italic" },
+    { name: "JetBrains Mono", data: mono, weight: 400, style: "normal" },
+  ]).catch((error) => {
+    fontsPromise = null;
+    throw error;
+  });
+  return fontsPromise;
+}
+
+export interface OgCardProps {
+  type: OgType;
+  title: string;
+  quote?: { text: string; author?: string } | null;
+  subtitle?: string | null;
+  meta: string[];
+  site: string;
+}
+
+function clamp(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text;
+}
+
+export function OgCard({ type, title, quote, subtitle, meta, site }: OgCardProps) {
+  const isQuestion = type === "contemplation";
+  const titleSize = title.length > 90 ? 52 : title.length > 50 ? 64 : 76;
+
+  return (
+    <div
+      style={{
+        width: "100%",
+        height: "100%",
+        display: "flex",
+        flexDirection: "column",
+        justifyContent: "space-between",
+        padding: "64px 72px",
+        backgroundColor: PALETTE.bg,
+        border: `1px solid ${PALETTE.border}`,
+        fontFamily: "EB Garamond",
+        color: PALETTE.text,
+      }}
+    >
+      {/* Label row */}
+      <div style={{ display: "flex", justifyContent: "space-between", fontFamily: "JetBrains Mono", fontSize: 22 }}>
+        <div style={{ display: "flex", alignItems: "center", color: PALETTE.gold }}>
+          <div style={{ width: 10, height: 10, marginRight: 16, backgroundColor: PALETTE.gold, transform: "rotate(45deg)" }} />
+          {LABELS[type]}
+        </div>
+        <div style={{ color: PALETTE.muted }}>{site}</div>
+      </div>
+
+      {/* Body */}
+      <div style={{ display: "flex", flexDirection: "column" }}>
+        <div
+          style={{
+            fontSize: titleSize,
+            lineHeight: 1.15,
+            fontStyle: isQuestion ? "italic" : "normal",
+            color: PALETTE.text,
+          }}
+        >
+          {isQuestion ? `“${clamp(title, 140)}”` : clamp(title, 120)}
+        </div>
+        {subtitle && (
+          <div style={{ marginTop: 28, fontSize: 32, lineHeight: 1.35, color: PALETTE.secondary }}>
+            {clamp(subtitle, 140)}
+          </div>
+        )}
+        {quote && (
+          <div
+            style={{
+              display: "flex",
+              flexDirection: "column",
+              marginTop: 36,
+              paddingLeft: 28,
+              borderLeft: `3px solid ${PALETTE.gold}`,
+            }}
+          >
+            <div style={{ fontSize: 30, fontStyle: "italic", color: PALETTE.secondary }}>
+              “{clamp(quote.text, 160)}”
+            </div>
+            {quote.author && (
+              <div style={{ marginTop: 12, fontSize: 24, color: PALETTE.muted }}>— {quote.author}</div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Meta row */}
+      <div style={{ display: "flex", flexWrap: "wrap", fontFamily: "JetBrains Mono", fontSize: 20 }}>
+        {meta.slice(0, 6).map((item) => (
+          <div
+            key={item}
+            style={{
+              marginRight: 12,
+              padding: "6px 14px",
+              borderRadius: 999,
+              backgroundColor: PALETTE.goldDim,
+              color: PALETTE.gold,
+            }}
+          >
+            {item}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
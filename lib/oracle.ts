@@ -0,0 +1,171 @@
+// ═══════════════════════════════════════════════════════════════════
+// STOIC ORACLE - Shapes of the Voices conversation and how replies read
+// "We have two ears and one mouth so that we can listen twice as much as we speak." - Zeno
+// Client-safe: retrieval and history live in lib/oracleCorpus.ts,
+// generation in lib/oracleReply.ts
+// ═══════════════════════════════════════════════════════════════════
+
+export const ORACLE_MESSAGE_MAX = 500;
+export const ORACLE_HISTORY_LIMIT = 50;
+
+export interface OracleQuote {
+  id: number;
+  text: string;
+  author: string;
+  source: string;
+}
+
+export interface OracleArticle {
+  slug: string;
+  title: string;
+}
+
+export interface OracleQuestion {
+  id: number;
+  question: string;
+}
+
+// What an oracle reply drew on, rendered as links under it
+export interface OracleCitations {
+  quote: OracleQuote | null;
+  articles: OracleArticle[];
+  contemplation: OracleQuestion | null;
+}
+
+export interface OracleMessage {
+  id: number;
+  role: "visitor" | "oracle";
+  text: string;
+  citations: OracleCitations | null;
+  createdAt: string;
+}
+
+/**
+ * What POST /api/oracle streams, one Server-Sent Event each:
+ * - message  the visitor's message as stored
+ * - token    the next piece of a generated reply
+ * - reset    generation failed part-way; drop the tokens, the retrieval reply follows
+ * - reply    the oracle's reply as stored, with its citations
+ */
+export type OracleEvent =
+  | { type: "message"; message: OracleMessage }
+  | { type: "token"; text: string }
+  | { type: "reset" }
+  | { type: "reply"; message: OracleMessage };
+
+/**
+ * The events of a POST /api/oracle response body, in order
+ */
+export async function* readOracleEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<OracleEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const frames = buffer.split("\n\n");
+      buffer = frames.pop() ?? "";
+      for (const frame of frames) {
+        const data = frame.split("\n").find((line) => line.startsWith("data:"));
+        if (data) yield JSON.parse(data.slice(5)) as OracleEvent;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Edited under Sanctum → Oracle; only used when a language model is configured
+export interface OracleSettings {
+  persona: string;
+  systemPrompt: string;
+  useModel: boolean;
+  temperature: number;
+  maxTokens: number;
+}
+
+export const ORACLE_SETTING_LIMITS = {
+  text: 4000,
+  temperature: { min: 0, max: 2 },
+  maxTokens: { min: 32, max: 2000 },
+};
+
+export const DEFAULT_ORACLE_SETTINGS: OracleSettings = {
+  persona:
+    "You are the Stoic Oracle: calm, brief and kind. You speak like a teacher in the tradition of Seneca, Epictetus and Marcus Aurelius.",
+  systemPrompt:
+    "Answer in at most three short paragraphs. Draw on the passages provided and name their author and source when you use them. " +
+    "Never invent quotations. If the passages don't help, say so plainly and answer from Stoic principles. End with one question for the seeker.",
+  useModel: true,
+  temperature: 0.7,
+  maxTokens: 400,
+};
+
+export const ORACLE_GREETING =
+  "Welcome, seeker. I am the Stoic Oracle. Ask me anything, and I shall respond with the wisdom of the ancients.";
+
+// Closing questions; also the whole reply when nothing in the library matches
+const PROMPTS = [
+  "What is within your control in this situation?",
+  "Consider: is this preference or need?",
+  "The obstacle reveals the path forward.",
+  "What would the best version of yourself do?",
+  "Remember, you are mortal. Does this still matter?",
+  "Focus on your character, not circumstances.",
+  "Is this judgment necessary?",
+  "What virtue can you practice here?",
+  "The past is gone. The future unknowable. What of now?",
+  "Does this serve your flourishing?",
+  "Nature provides exactly what we need.",
+  "Your response is what you control.",
+  "See the opportunity in this difficulty.",
+  "What is the wise action?",
+  "Prefer what happens to what you wish.",
+  "This too shall pass. Will you grow from it?",
+  "The universe is change. Are you resisting?",
+  "What truth are you avoiding?",
+  "Virtue needs no audience.",
+  "You have time for what matters. Do you use it?",
+];
+
+const QUOTE_LEADS = [
+  ({ author, source }: OracleQuote) => `${author} spoke to this${source ? ` in ${source}` : ""}:`,
+  ({ author, source }: OracleQuote) => `Consider the words of ${author}${source ? `, from ${source}` : ""}:`,
+  ({ author, source }: OracleQuote) => `You are not the first to ask. ${author} wrote${source ? ` in ${source}` : ""}:`,
+];
+
+// Same message, same wording: replies don't reshuffle on a retry
+function seedOf(text: string): number {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) hash = (hash * 31 + text.charCodeAt(i)) | 0;
+  return Math.abs(hash);
+}
+
+export function citeQuote(quote: Pick<OracleQuote, "author" | "source">): string {
+  return quote.source ? `${quote.author}, ${quote.source}` : quote.author;
+}
+
+/**
+ * The oracle's reply in prose, built from whatever retrieval found
+ */
+export function composeReply(message: string, citations: OracleCitations): string {
+  const seed = seedOf(message.trim().toLowerCase());
+  const prompt = PROMPTS[seed % PROMPTS.length];
+  const { quote, articles, contemplation } = citations;
+  if (!quote && articles.length === 0 && !contemplation) return prompt;
+
+  const parts: string[] = [];
+  if (quote) {
+    parts.push(`${QUOTE_LEADS[seed % QUOTE_LEADS.length](quote)} “${quote.text}”`);
+  }
+  if (contemplation) {
+    parts.push(`Others have sat with a question close to yours: “${contemplation.question}”`);
+  }
+  if (articles.length > 0) {
+    parts.push(`There is more on this in ${articles.map((a) => `“${a.title}”`).join(" and ")}.`);
+  }
+  parts.push(prompt);
+  return parts.join("\n\n");
+}
@@ -0,0 +1,164 @@
+import prisma from "@/lib/prisma";
+import { listedWhere } from "@/lib/publishing";
+import { buildIndex, search, type Bm25Index } from "@/lib/bm25";
+import { articleText } from "@/lib/articles";
+import {
+  ORACLE_HISTORY_LIMIT,
+  type OracleArticle,
+  type OracleCitations,
+  type OracleMessage,
+  type OracleQuestion,
+  type OracleQuote,
+} from "@/lib/oracle";
+
+// ═══════════════════════════════════════════════════════════════════
+// ORACLE CORPUS - BM25 over quotes, published articles and questions,
+// and each visitor's conversation history
+// ═══════════════════════════════════════════════════════════════════
+
+// Rebuilt at most this often, and right after CMS writes; a scheduled
+// publish shows up within the window
+const CORPUS_TTL_MS = 5 * 60 * 1000;
+
+// Recent replies whose quotes the oracle avoids repeating
+const RECENT_QUOTES = 5;
+
+type ArticleEntry = OracleArticle & { excerpt: string };
+
+interface Corpus {
+  builtAt: number;
+  // Separate indexes so long articles don't drown out one-line quotes
+  quotes: Bm25Index<OracleQuote>;
+  articles: Bm25Index<ArticleEntry>;
+  contemplations: Bm25Index<OracleQuestion>;
+}
+
+// Retrieval results: the citations shown with a reply, plus the wider set
+// of passages a language model is grounded on
+export interface OracleGrounding {
+  citations: OracleCitations;
+  quotes: OracleQuote[];
+  articles: ArticleEntry[];
+}
+
+const globalForOracle = globalThis as unknown as { oracleCorpus?: Promise<Corpus> };
+
+async function buildCorpus(): Promise<Corpus> {
+  const [quotes, articles, contemplations] = await Promise.all([
+    prisma.quote.findMany({ orderBy: { id: "asc" } }),
+    prisma.article.findMany({ where: listedWhere(), orderBy: { date: "desc" } }),
+    prisma.contemplation.findMany({ where: { active: true }, orderBy: { id: "asc" } }),
+  ]);
+
+  return {
+    builtAt: Date.now(),
+    quotes: buildIndex(
+      quotes.map((q) => ({
+        item: { id: q.id, text: q.text, author: q.author, source: q.source },
+        fields: [
+          { text: q.text, weight: 2 },
+          { text: `${q.author} ${q.source} ${q.category ?? ""}`, weight: 1 },
+        ],
+      }))
+    ),
+    articles: buildIndex(
+      articles.map((a) => ({
+        item: { slug: a.slug, title: a.title, excerpt: a.excerpt },
+        fields: [
+          { text: a.title, weight: 3 },
+          { text: `${a.excerpt} ${a.tags}`, weight: 2 },
+          { text: articleText(a.content), weight: 1 },
+        ],
+      }))
+    ),
+    contemplations: buildIndex(
+      contemplations.map((c) => ({ item: { id: c.id, question: c.question }, fields: [{ text: c.question, weight: 1 }] }))
+    ),
+  };
+}
+
+/**
+ * Drop the cached corpus after a write that changes what the oracle may cite;
+ * the next question rebuilds it
+ */
+export function invalidateOracleCorpus() {
+  globalForOracle.oracleCorpus = undefined;
+}
+
+async function getCorpus(): Promise<Corpus> {
+  const cached = globalForOracle.oracleCorpus && (await globalForOracle.oracleCorpus.catch(() => null));
+  if (cached && Date.now() - cached.builtAt < CORPUS_TTL_MS) return cached;
+  globalForOracle.oracleCorpus = buildCorpus();
+  return globalForOracle.oracleCorpus;
+}
+
+/**
+ * What the library holds on a message. `avoidQuoteIds` steers away from quotes
+ * the visitor was just given, as long as another one matches.
+ */
+export async function retrieve(message: string, avoidQuoteIds: number[] = []): Promise<OracleGrounding> {
+  const corpus = await getCorpus();
+  const quotes = search(corpus.quotes, message, RECENT_QUOTES + 1).map((hit) => hit.item);
+  const fresh = quotes.filter((q) => !avoidQuoteIds.includes(q.id));
+  const ranked = [...fresh, ...quotes.filter((q) => avoidQuoteIds.includes(q.id))];
+  const articles = search(corpus.articles, message, 2).map((hit) => hit.item);
+
+  return {
+    citations: {
+      quote: ranked[0] ?? null,
+      articles: articles.map(({ slug, title }) => ({ slug, title })),
+      contemplation: search(corpus.contemplations, message, 1)[0]?.item ?? null,
+    },
+    quotes: ranked.slice(0, 3),
+    articles,
+  };
+}
+
+function toMessage(row: { id: number; role: string; text: string; citations: string | null; createdAt: Date }): OracleMessage {
+  return {
+    id: row.id,
+    role: row.role === "oracle" ? "oracle" : "visitor",
+    text: row.text,
+    citations: row.citations ? JSON.parse(row.citations) : null,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+/**
+ * A visitor's latest messages, oldest first
+ */
+export async function getOracleHistory(visitorId: string): Promise<OracleMessage[]> {
+  const rows = await prisma.oracleMessage.findMany({
+    where: { visitorId },
+    orderBy: { id: "desc" },
+    take: ORACLE_HISTORY_LIMIT,
+  });
+  return rows.reverse().map(toMessage);
+}
+
+/**
+ * Ids of the quotes in a visitor's latest replies
+ */
+export async function recentQuoteIds(visitorId: string): Promise<number[]> {
+  const recent = await prisma.oracleMessage.findMany({
+    where: { visitorId, role: "oracle" },
+    orderBy: { id: "desc" },
+    take: RECENT_QUOTES,
+    select: { citations: true },
+  });
+  return recent
+    .map((row) => (row.citations ? (JSON.parse(row.citations) as OracleCitations).quote?.id : undefined))
+    .filter((id): id is number => typeof id === "number");
+}
+
+export async function saveOracleMessage(
+  visitorId: string,
+  role: OracleMessage["role"],
+  text: string,
+  citations: OracleCitations | null = null
+): Promise<OracleMessage> {
+  const row = await prisma.oracleMessage.create({
+    data: { visitorId, role, text, citations: citations ? JSON.stringify(citations) : null },
+  });
+  return toMessage(row);
+}
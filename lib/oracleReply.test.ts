@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { OracleEvent } from "@/lib/oracle";
+
+// The oracle end to end with the stub model: real BM25 retrieval over a
+// small library, with Prisma replaced by an in-memory one
+
+interface MessageRow {
+  id: number;
+  visitorId: string;
+  role: string;
+  text: string;
+  citations: string | null;
+  createdAt: Date;
+}
+
+const db = vi.hoisted(() => ({ messages: [] as MessageRow[] }));
+
+vi.mock("@/lib/prisma", () => {
+  const quotes = [
+    { id: 1, text: "We suffer more often in imagination than in reality.", author: "Seneca", source: "Letters 13", category: "anxiety" },
+    { id: 2, text: "He who fears death will never do anything worthy of a living man.", author: "Seneca", source: "Letters 82", category: "death" },
+    { id: 3, text: "It is not things that disturb us, but our judgments about things.", author: "Epictetus", source: "Enchiridion 5", category: "perception" },
+  ];
+  const articles = [
+    { slug: "on-fear", title: "On Fear", excerpt: "Naming what frightens us.", tags: "[]", content: JSON.stringify("Fear lives in the future.") },
+  ];
+  const contemplations = [{ id: 7, question: "What would you do if you were not afraid?" }];
+
+  const prisma = {
+    quote: { findMany: async () => quotes },
+    article: { findMany: async () => articles },
+    contemplation: { findMany: async () => contemplations },
+    oracleSettings: { findFirst: async () => null },
+    oracleMessage: {
+      findMany: async ({ where, take }: { where: { visitorId: string; role?: string }; take: number }) =>
+        db.messages
+          .filter((m) => m.visitorId === where.visitorId && (!where.role || m.role === where.role))
+          .reverse()
+          .slice(0, take),
+      create: async ({ data }: { data: Omit<MessageRow, "id" | "createdAt"> }) => {
+        const row = { ...data, id: db.messages.length + 1, createdAt: new Date() };
+        db.messages.push(row);
+        return row;
+      },
+    },
+  };
+  return { default: prisma, prisma };
+});
+
+const { answerOracle, buildPrompt } = await import("@/lib/oracleReply");
+const { DEFAULT_ORACLE_SETTINGS } = await import("@/lib/oracle");
+
+async function collect(events: AsyncIterable<OracleEvent>): Promise<OracleEvent[]> {
+  const all: OracleEvent[] = [];
+  for await (const event of events) all.push(event);
+  return all;
+}
+
+function tokens(events: OracleEvent[]): string {
+  return events.map((event) => (event.type === "token" ? event.text : "")).join("");
+}
+
+beforeEach(() => {
+  db.messages = [];
+  vi.stubEnv("ORACLE_LLM_PROVIDER", "stub");
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+describe("answerOracle", () => {
+  it("streams the stub model's reply and stores it with the retrieved citations", async () => {
+    const events = await collect(answerOracle("v1", "How do I stop my fear of death?", { allowModel: true }));
+
+    expect(events[0]).toMatchObject({ type: "message", message: { role: "visitor", text: "How do I stop my fear of death?" } });
+    expect(tokens(events)).toBe('You ask: "How do I stop my fear of death?". Look first to what is within your power.');
+
+    const reply = events[events.length - 1];
+    expect(reply.type).toBe("reply");
+    if (reply.type !== "reply") return;
+    expect(reply.message.text).toBe(tokens(events));
+    expect(reply.message.citations?.quote?.id).toBe(2);
+    expect(reply.message.citations?.articles).toEqual([{ slug: "on-fear", title: "On Fear" }]);
+    expect(db.messages.map((m) => m.role)).toEqual(["visitor", "oracle"]);
+  });
+
+  it("answers from retrieval alone when the visitor is out of generations", async () => {
+    const events = await collect(answerOracle("v1", "fear of death", { allowModel: false }));
+
+    expect(events.some((event) => event.type === "token")).toBe(false);
+    const reply = events[events.length - 1];
+    expect(reply.type === "reply" && reply.message.text).toContain("He who fears death");
+  });
+
+  it("falls back to the retrieval reply when the model fails", async () => {
+    vi.stubEnv("ORACLE_LLM_PROVIDER", "llamacpp");
+    vi.stubGlobal("fetch", async () => new Response("down", { status: 503 }));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const events = await collect(answerOracle("v1", "fear of death", { allowModel: true }));
+
+    expect(events.map((event) => event.type)).toEqual(["message", "reply"]);
+    const reply = events[1];
+    expect(reply.type === "reply" && reply.message.text).toContain("He who fears death");
+  });
+
+  it("steers away from the quote it gave last time", async () => {
+    const question = "Fear of death lives in my imagination";
+    const first = await collect(answerOracle("v1", question, { allowModel: false }));
+    const second = await collect(answerOracle("v1", question, { allowModel: false }));
+
+    const quoteOf = (events: OracleEvent[]) => {
+      const reply = events[events.length - 1];
+      return reply.type === "reply" ? reply.message.citations?.quote?.id : undefined;
+    };
+    expect(quoteOf(first)).toBe(2);
+    expect(quoteOf(second)).toBe(1);
+  });
+});
+
+describe("buildPrompt", () => {
+  it("grounds the model on the passages, then the recent conversation", () => {
+    const grounding = {
+      citations: { quote: null, articles: [], contemplation: { id: 7, question: "What would you do if you were not afraid?" } },
+      quotes: [{ id: 1, text: "We suffer more often in imagination than in reality.", author: "Seneca", source: "Letters 13" }],
+      articles: [{ slug: "on-fear", title: "On Fear", excerpt: "Naming what frightens us." }],
+    };
+    const history = [
+      { id: 1, role: "visitor" as const, text: "Hello", citations: null, createdAt: "" },
+      { id: 2, role: "oracle" as const, text: "Welcome", citations: null, createdAt: "" },
+    ];
+
+    const messages = buildPrompt(DEFAULT_ORACLE_SETTINGS, grounding, history, "Why am I afraid?");
+
+    expect(messages.map((m) => m.role)).toEqual(["system", "user", "assistant", "user"]);
+    expect(messages[0].content).toContain("“We suffer more often in imagination than in reality.” — Seneca, Letters 13");
+    expect(messages[0].content).toContain("Article “On Fear”: Naming what frightens us.");
+    expect(messages[0].content).toContain("“What would you do if you were not afraid?”");
+    expect(messages[3].content).toBe("Why am I afraid?");
+  });
+});
@@ -0,0 +1,130 @@
+import prisma from "@/lib/prisma";
+import { configuredModel, generationTimeout, type ChatMessage } from "@/lib/llm";
+import { getOracleHistory, recentQuoteIds, retrieve, saveOracleMessage, type OracleGrounding } from "@/lib/oracleCorpus";
+import {
+  DEFAULT_ORACLE_SETTINGS,
+  ORACLE_SETTING_LIMITS,
+  citeQuote,
+  composeReply,
+  type OracleEvent,
+  type OracleMessage,
+  type OracleSettings,
+} from "@/lib/oracle";
+
+// ═══════════════════════════════════════════════════════════════════
+// ORACLE REPLY - Grounded generation with a retrieval-only fallback
+// ═══════════════════════════════════════════════════════════════════
+
+// Earlier turns sent to the model as conversation context
+const CONTEXT_TURNS = 6;
+
+export async function getOracleSettings(): Promise<OracleSettings> {
+  const row = await prisma.oracleSettings.findFirst();
+  if (!row) return DEFAULT_ORACLE_SETTINGS;
+  const { persona, systemPrompt, useModel, temperature, maxTokens } = row;
+  return { persona, systemPrompt, useModel, temperature, maxTokens };
+}
+
+function clamp(value: unknown, { min, max }: { min: number; max: number }, fallback: number): number {
+  const number = Number(value);
+  return Number.isFinite(number) ? Math.min(Math.max(number, min), max) : fallback;
+}
+
+/**
+ * Validate and store the settings; missing fields keep their current value
+ */
+export async function saveOracleSettings(input: Partial<Record<keyof OracleSettings, unknown>>): Promise<OracleSettings> {
+  const current = await getOracleSettings();
+  const text = (value: unknown, fallback: string) =>
+    typeof value === "string" && value.trim() ? value.trim().slice(0, ORACLE_SETTING_LIMITS.text) : fallback;
+
+  const data: OracleSettings = {
+    persona: text(input.persona, current.persona),
+    systemPrompt: text(input.systemPrompt, current.systemPrompt),
+    useModel: typeof input.useModel === "boolean" ? input.useModel : current.useModel,
+    temperature: clamp(input.temperature ?? current.temperature, ORACLE_SETTING_LIMITS.temperature, current.temperature),
+    maxTokens: Math.round(clamp(input.maxTokens ?? current.maxTokens, ORACLE_SETTING_LIMITS.maxTokens, current.maxTokens)),
+  };
+
+  const existing = await prisma.oracleSettings.findFirst({ select: { id: true } });
+  if (existing) {
+    await prisma.oracleSettings.update({ where: { id: existing.id }, data });
+  } else {
+    await prisma.oracleSettings.create({ data });
+  }
+  return data;
+}
+
+/**
+ * Persona, instructions and the retrieved passages, then the recent conversation
+ */
+export function buildPrompt(
+  settings: OracleSettings,
+  grounding: OracleGrounding,
+  history: OracleMessage[],
+  message: string
+): ChatMessage[] {
+  const passages = [
+    ...grounding.quotes.map((q) => `- “${q.text}” — ${citeQuote(q)}`),
+    ...grounding.articles.map((a) => `- Article “${a.title}”: ${a.excerpt}`),
+    ...(grounding.citations.contemplation ? [`- A question visitors reflect on: “${grounding.citations.contemplation.question}”`] : []),
+  ];
+  const system = [
+    settings.persona,
+    settings.systemPrompt,
+    passages.length > 0 ? `Passages from the library:\n${passages.join("\n")}` : "No passage in the library matches this message.",
+  ].join("\n\n");
+
+  return [
+    { role: "system", content: system },
+    ...history.slice(-CONTEXT_TURNS).map((m): ChatMessage => ({
+      role: m.role === "visitor" ? "user" : "assistant",
+      content: m.text,
+    })),
+    { role: "user", content: message },
+  ];
+}
+
+/**
+ * Answer a visitor's message, streaming as it goes. With a model configured, enabled
+ * and `allowModel` (the visitor's generation budget), the reply is generated and
+ * streamed token by token; any failure or timeout falls back to the retrieval reply.
+ */
+export async function* answerOracle(
+  visitorId: string,
+  message: string,
+  { allowModel, signal }: { allowModel: boolean; signal?: AbortSignal }
+): AsyncGenerator<OracleEvent> {
+  const [history, avoid, settings] = await Promise.all([
+    getOracleHistory(visitorId),
+    recentQuoteIds(visitorId),
+    getOracleSettings(),
+  ]);
+  const grounding = await retrieve(message, avoid);
+
+  yield { type: "message", message: await saveOracleMessage(visitorId, "visitor", message) };
+
+  const model = allowModel && settings.useModel ? configuredModel() : null;
+  let generated = "";
+  if (model) {
+    const timeout = AbortSignal.timeout(generationTimeout());
+    try {
+      const tokens = model.stream(buildPrompt(settings, grounding, history, message), {
+        temperature: settings.temperature,
+        maxTokens: settings.maxTokens,
+        signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+      });
+      for await (const text of tokens) {
+        generated += text;
+        yield { type: "token", text };
+      }
+    } catch (error) {
+      console.error(`Oracle model ${model.name} failed, answering from retrieval:`, error);
+      if (generated) yield { type: "reset" };
+      generated = "";
+    }
+  }
+
+  const text = generated.trim() || composeReply(message, grounding.citations);
+  yield { type: "reply", message: await saveOracleMessage(visitorId, "oracle", text, grounding.citations) };
+}
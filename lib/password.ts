@@ -0,0 +1,73 @@
+// ═══════════════════════════════════════════════════════════════════
+// PASSWORD HASHING - PBKDF2 via Web Crypto (works in Node and Edge)
+// "No man is free who is not master of himself." - Epictetus
+// ═══════════════════════════════════════════════════════════════════
+
+const ALGORITHM = "pbkdf2_sha256";
+const ITERATIONS = 310000;
+const KEY_LENGTH = 32; // bytes
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary);
+}
+
+function fromBase64(value: string) {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+async function derive(password: string, salt: BufferSource, iterations: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(password),
+    "PBKDF2",
+    false,
+    ["deriveBits"]
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    key,
+    KEY_LENGTH * 8
+  );
+  return new Uint8Array(bits);
+}
+
+/**
+ * Constant-time comparison of two byte arrays
+ */
+export function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+}
+
+/**
+ * Hash a password into `pbkdf2_sha256:<iterations>:<salt>:<hash>` format
+ * (same format as `scripts/hash-password.mjs` produces)
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await derive(password, salt, ITERATIONS);
+  return `${ALGORITHM}:${ITERATIONS}:${toBase64(salt)}:${toBase64(hash)}`;
+}
+
+/**
+ * Verify a password against a stored hash
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [algorithm, iterations, salt, hash] = stored.split(":");
+  if (algorithm !== ALGORITHM || !iterations || !salt || !hash) return false;
+
+  try {
+    const expected = fromBase64(hash);
+    const actual = await derive(password, fromBase64(salt), parseInt(iterations));
+    return timingSafeEqual(actual, expected);
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,61 @@
+import type { NextRequest } from "next/server";
+import { cookies } from "next/headers";
+import { SESSION_COOKIE, getRequestSession, signToken, verifySessionToken, verifyToken, type SessionPayload } from "@/lib/session";
+import { can, type Permission } from "@/lib/roles";
+
+// ═══════════════════════════════════════════════════════════════════
+// PREVIEW TOKENS - Shareable links to unpublished articles & projects
+// ═══════════════════════════════════════════════════════════════════
+
+export const PREVIEW_DURATION = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+export type PreviewType = "article" | "project";
+
+// Signed-in roles see drafts of the content they may edit
+const PREVIEW_PERMISSIONS: Record<PreviewType, Permission> = {
+  article: "articles",
+  project: "projects",
+};
+
+interface PreviewPayload {
+  kind: "preview";
+  type: PreviewType;
+  id: number;
+  expiresAt: number;
+}
+
+export async function createPreviewToken(type: PreviewType, id: number): Promise<{ token: string; expiresAt: number }> {
+  const expiresAt = Date.now() + PREVIEW_DURATION;
+  const token = await signToken({ kind: "preview", type, id, expiresAt });
+  return { token, expiresAt };
+}
+
+/**
+ * Whether `token` was minted for this exact item and has not expired
+ */
+export async function verifyPreviewToken(token: string | null | undefined, type: PreviewType, id: number): Promise<boolean> {
+  const payload = await verifyToken<PreviewPayload>(token);
+  return payload?.kind === "preview" && payload.type === type && payload.id === id;
+}
+
+function mayEdit(session: SessionPayload | null, type: PreviewType): boolean {
+  return can(session?.role, PREVIEW_PERMISSIONS[type]);
+}
+
+/**
+ * Whether the request may see an unpublished item: either a signed-in role
+ * that may edit its type, or a `?preview=` token minted for this exact item
+ */
+export async function canPreview(request: NextRequest, type: PreviewType, id: number): Promise<boolean> {
+  if (mayEdit(await getRequestSession(request), type)) return true;
+  return verifyPreviewToken(request.nextUrl.searchParams.get("preview"), type, id);
+}
+
+/**
+ * Same check for server-rendered preview pages, which read the session from cookies()
+ */
+export async function canPreviewPage(token: string | undefined, type: PreviewType, id: number): Promise<boolean> {
+  const cookieStore = await cookies();
+  if (mayEdit(await verifySessionToken(cookieStore.get(SESSION_COOKIE)?.value), type)) return true;
+  return verifyPreviewToken(token, type, id);
+}
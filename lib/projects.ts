@@ -0,0 +1,106 @@
+import { revalidatePath } from "next/cache";
+import prisma from "@/lib/prisma";
+import { publishLiveEvent } from "@/lib/events";
+import { isListed, isViewable, listedWhere } from "@/lib/publishing";
+import type { Project as ProjectRow } from "@prisma/client";
+
+// ═══════════════════════════════════════════════════════════════════
+// PROJECTS - Server-side loading for the public /work pages
+// ═══════════════════════════════════════════════════════════════════
+
+export interface ProjectSection {
+  title: string;
+  content: string;
+}
+
+export interface ProjectGallery {
+  type: string;
+  label: string;
+}
+
+export interface ProjectDetail {
+  id: number;
+  slug: string;
+  title: string;
+  tagline: string;
+  description: string;
+  year: string;
+  status: string;
+  role: string;
+  tech: string[];
+  featured: boolean;
+  links: { live: string | null; github: string | null };
+  philosophy: { quote: string; author: string } | null;
+  sections: ProjectSection[];
+  gallery: ProjectGallery[];
+  publishStatus: string;
+  updatedAt: string;
+}
+
+export function parseProject(project: ProjectRow): ProjectDetail {
+  const links = project.links ? JSON.parse(project.links) : {};
+
+  return {
+    id: project.id,
+    slug: project.slug,
+    title: project.title,
+    tagline: project.tagline || "",
+    description: project.description,
+    year: project.year,
+    status: project.status,
+    role: project.role || "",
+    tech: JSON.parse(project.tech || "[]"),
+    featured: project.featured,
+    links: { live: links.live || null, github: links.github || null },
+    philosophy: project.philosophy ? JSON.parse(project.philosophy) : null,
+    sections: project.sections ? JSON.parse(project.sections) : [],
+    gallery: project.gallery ? JSON.parse(project.gallery) : [],
+    publishStatus: project.publishStatus,
+    updatedAt: project.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Find a project by slug. Drafts are only returned with `includeUnpublished`.
+ */
+export async function getProjectBySlug(slug: string, includeUnpublished = false): Promise<ProjectDetail | null> {
+  const project = await prisma.project.findUnique({ where: { slug } });
+  if (!project || (!includeUnpublished && !isViewable(project))) return null;
+  return parseProject(project);
+}
+
+export async function getListedProjectSlugs(): Promise<string[]> {
+  const projects = await prisma.project.findMany({
+    where: listedWhere(),
+    select: { slug: true },
+  });
+  return projects.map((p) => p.slug);
+}
+
+/**
+ * Drop the cached pages one write touched: the /work listing and the project's
+ * page, as it was and as it is, so renamed and deleted slugs are covered too
+ */
+export function revalidateProject(...versions: Array<Pick<ProjectRow, "slug"> | null | undefined>) {
+  const paths = new Set<string>(["/work"]);
+  for (const version of versions) {
+    if (version) paths.add(`/work/${version.slug}`);
+  }
+  paths.forEach((path) => revalidatePath(path));
+}
+
+type ProjectListing = Pick<ProjectRow, "id" | "slug" | "publishStatus" | "publishAt">;
+
+/**
+ * Push a live event when a write changed whether /work lists the project,
+ * as announceArticle does for /writing. `project` is null after a delete;
+ * `previous` is the row before the write. Returns whether the listing changed.
+ */
+export function announceProject(project: ProjectListing | null, previous: ProjectListing | null): boolean {
+  const listed = !!project && isListed(project);
+  const wasListed = !!previous && isListed(previous);
+  const current = project ?? previous;
+  if (!current || listed === wasListed) return false;
+  publishLiveEvent({ type: "project.published", id: current.id, slug: current.slug, listed });
+  return true;
+}
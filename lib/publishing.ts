@@ -0,0 +1,80 @@
+// ═══════════════════════════════════════════════════════════════════
+// PUBLISHING WORKFLOW - draft → scheduled → published (or unlisted)
+// "Well-being is realized by small steps, but is truly no small thing." - Zeno
+// Shared by API routes and admin UI; preview tokens live in lib/preview.ts
+// ═══════════════════════════════════════════════════════════════════
+
+export const PUBLISH_STATUSES = ["draft", "scheduled", "published", "unlisted"] as const;
+export type PublishStatus = (typeof PUBLISH_STATUSES)[number];
+
+export const PUBLISH_STATUS_LABELS: Record<PublishStatus, string> = {
+  draft: "Draft",
+  scheduled: "Scheduled",
+  published: "Published",
+  unlisted: "Unlisted",
+};
+
+export interface Publishable {
+  publishStatus: string;
+  publishAt: Date | string | null;
+}
+
+export function isPublishStatus(value: unknown): value is PublishStatus {
+  return typeof value === "string" && (PUBLISH_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Shown in public lists, feeds and sitemaps
+ */
+export function isListed(item: Publishable, now: Date = new Date()): boolean {
+  if (item.publishStatus === "published") return true;
+  if (item.publishStatus === "scheduled" && item.publishAt) {
+    return new Date(item.publishAt) <= now;
+  }
+  return false;
+}
+
+/**
+ * Reachable by direct link (listed items plus unlisted ones)
+ */
+export function isViewable(item: Publishable, now: Date = new Date()): boolean {
+  return item.publishStatus === "unlisted" || isListed(item, now);
+}
+
+/**
+ * Prisma `where` clause matching isListed()
+ */
+export function listedWhere(now: Date = new Date()) {
+  return {
+    OR: [
+      { publishStatus: "published" },
+      { publishStatus: "scheduled", publishAt: { lte: now } },
+    ],
+  };
+}
+
+/**
+ * Normalize status fields from a request body.
+ * Scheduling requires a publishAt; other statuses keep it only as a record.
+ */
+export function parsePublishFields(body: { publishStatus?: unknown; publishAt?: unknown }, fallback: PublishStatus) {
+  const publishStatus = isPublishStatus(body.publishStatus) ? body.publishStatus : fallback;
+  const publishAt = body.publishAt ? new Date(String(body.publishAt)) : null;
+  const validPublishAt = publishAt && !isNaN(publishAt.getTime()) ? publishAt : null;
+
+  if (publishStatus === "scheduled" && !validPublishAt) {
+    return { error: "Scheduled items need a publishAt date" } as const;
+  }
+  return { publishStatus, publishAt: validPublishAt } as const;
+}
+
+/**
+ * Format a date for <input type="datetime-local"> in the browser's timezone
+ */
+export function toDateTimeLocal(value: Date | string | null | undefined): string {
+  if (!value) return "";
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return "";
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { consumeTokens, type RateLimitRule } from "@/lib/rateLimit";
+
+vi.mock("@/lib/visitor", () => ({ getVisitorId: async () => null }));
+
+const SLOW: RateLimitRule = { capacity: 3, refillMs: 10 * 60 * 1000 };
+const FAST: RateLimitRule = { capacity: 20, refillMs: 3000 };
+
+const buckets = () => (globalThis as unknown as { rateLimitBuckets: Map<string, unknown> }).rateLimitBuckets;
+
+describe("consumeTokens", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    buckets()?.clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("takes a token from every key or from none", () => {
+    expect(consumeTokens(["a", "b"], SLOW).allowed).toBe(true);
+    consumeTokens(["a"], SLOW);
+    consumeTokens(["a"], SLOW);
+
+    const denied = consumeTokens(["a", "b"], SLOW);
+    expect(denied).toEqual({ allowed: false, retryAfter: 600 });
+    // "b" kept its two tokens
+    expect(consumeTokens(["b"], SLOW).allowed).toBe(true);
+    expect(consumeTokens(["b"], SLOW).allowed).toBe(true);
+    expect(consumeTokens(["b"], SLOW).allowed).toBe(false);
+  });
+
+  it("does not store buckets for denied requests", () => {
+    consumeTokens(["ip"], { capacity: 1, refillMs: 60 * 1000 });
+    for (let i = 0; i < 50; i++) consumeTokens(["ip", `visitor:${i}`], { capacity: 1, refillMs: 60 * 1000 });
+    expect(buckets().size).toBe(1);
+  });
+
+  it("refills each bucket with its own rule when another rule prunes past the cap", () => {
+    for (let i = 0; i < 3; i++) consumeTokens(["answers:ip"], SLOW);
+    expect(consumeTokens(["answers:ip"], SLOW).allowed).toBe(false);
+
+    for (let i = 0; i < 10000; i++) consumeTokens([`reactions:${i}`], FAST);
+    vi.advanceTimersByTime(60 * 1000);
+    consumeTokens(["reactions:trigger"], FAST);
+
+    // The fast buckets refilled and were dropped; the drained slow one stays
+    expect(buckets().size).toBe(2);
+    expect(consumeTokens(["answers:ip"], SLOW).allowed).toBe(false);
+
+    vi.advanceTimersByTime(9 * 60 * 1000);
+    expect(consumeTokens(["answers:ip"], SLOW).allowed).toBe(true);
+  });
+});
+
+describe("clientIp", () => {
+  const request = (headers: Record<string, string>) => new NextRequest("http://localhost/api/answers", { headers });
+
+  // TRUSTED_PROXY_COUNT is read when the module loads
+  async function withProxies(count: string) {
+    vi.stubEnv("TRUSTED_PROXY_COUNT", count);
+    vi.resetModules();
+    return (await import("@/lib/rateLimit")).clientIp;
+  }
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("takes the hop added by the outermost trusted proxy", async () => {
+    const clientIp = await withProxies("1");
+    expect(clientIp(request({ "x-forwarded-for": "6.6.6.6, 1.2.3.4" }))).toBe("1.2.3.4");
+    expect(clientIp(request({ "x-forwarded-for": "6.6.6.6, 1.2.3.4, 10.0.0.1" }))).toBe("10.0.0.1");
+  });
+
+  it("ignores forwarding headers without a proxy", async () => {
+    const clientIp = await withProxies("0");
+    const spoofed = [
+      request({ "x-forwarded-for": "1.1.1.1" }),
+      request({ "x-forwarded-for": "2.2.2.2", "x-real-ip": "3.3.3.3" }),
+      request({}),
+    ].map(clientIp);
+    expect(new Set(spoofed).size).toBe(1);
+  });
+});
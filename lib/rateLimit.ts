@@ -0,0 +1,112 @@
+import type { NextRequest } from "next/server";
+import { getVisitorId } from "@/lib/visitor";
+
+// ═══════════════════════════════════════════════════════════════════
+// RATE LIMITING - In-memory token buckets for anonymous writes
+// "Nothing in excess." - Delphi
+// Per server instance; a restart refills every bucket
+// ═══════════════════════════════════════════════════════════════════
+
+export interface RateLimitRule {
+  capacity: number; // Burst size
+  refillMs: number; // Time to earn back one token
+}
+
+interface Bucket extends RateLimitRule {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfter: number; // Seconds until the next token
+}
+
+const MAX_BUCKETS = 10000;
+
+// Reverse proxies in front of the app that append to X-Forwarded-For;
+// 0 means clients connect directly and every forwarding header is theirs
+const proxyCount = parseInt(process.env.TRUSTED_PROXY_COUNT ?? "");
+const TRUSTED_PROXIES = Number.isInteger(proxyCount) && proxyCount >= 0 ? proxyCount : 1;
+
+// Without a proxy there is no trustworthy address, so all clients share one key
+const DIRECT_CLIENT = "direct";
+
+const globalForRateLimit = globalThis as unknown as { rateLimitBuckets?: Map<string, Bucket> };
+const buckets = (globalForRateLimit.rateLimitBuckets ??= new Map());
+
+// Each bucket refills with the rule it was created under, whichever route prunes
+function refill(bucket: Bucket, now: number) {
+  const earned = (now - bucket.updatedAt) / bucket.refillMs;
+  bucket.tokens = Math.min(bucket.capacity, bucket.tokens + earned);
+  bucket.updatedAt = now;
+}
+
+// Full buckets carry no information; drop them when the map grows
+function prune(now: number) {
+  if (buckets.size < MAX_BUCKETS) return;
+  for (const [key, bucket] of buckets) {
+    refill(bucket, now);
+    if (bucket.tokens >= bucket.capacity) buckets.delete(key);
+  }
+}
+
+/**
+ * Take one token for every key, or none at all if any bucket is empty.
+ * A bucket is only stored once a token has been taken from it, so denied
+ * requests cannot grow the map.
+ */
+export function consumeTokens(keys: string[], rule: RateLimitRule): RateLimitResult {
+  const now = Date.now();
+  prune(now);
+
+  const current = keys.map((key) => {
+    const bucket: Bucket = buckets.get(key) ?? { ...rule, tokens: rule.capacity, updatedAt: now };
+    refill(bucket, now);
+    return [key, bucket] as const;
+  });
+
+  const empty = current.filter(([, bucket]) => bucket.tokens < 1);
+  if (empty.length > 0) {
+    const wait = Math.max(...empty.map(([, bucket]) => (1 - bucket.tokens) * bucket.refillMs));
+    return { allowed: false, retryAfter: Math.ceil(wait / 1000) };
+  }
+
+  for (const [key, bucket] of current) {
+    bucket.tokens--;
+    buckets.set(key, bucket);
+  }
+  return { allowed: true, retryAfter: 0 };
+}
+
+/**
+ * Client IP as seen by the outermost trusted proxy. Hops to the left of it
+ * are whatever the client sent, so they are never used.
+ */
+export function clientIp(request: NextRequest): string {
+  if (TRUSTED_PROXIES === 0) return DIRECT_CLIENT;
+  const hops = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  if (hops.length >= TRUSTED_PROXIES) return hops[hops.length - TRUSTED_PROXIES];
+  return request.headers.get("x-real-ip") || "unknown";
+}
+
+/**
+ * Per-browser key: the visitor cookie when present, otherwise a hash of
+ * the IP and the headers a cookie-less client still sends
+ */
+export async function clientFingerprint(request: NextRequest): Promise<string> {
+  const id = await getVisitorId(request);
+  if (id) return `visitor:${id}`;
+
+  const source = [
+    clientIp(request),
+    request.headers.get("user-agent") ?? "",
+    request.headers.get("accept-language") ?? "",
+  ].join("|");
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(source));
+  const hex = Array.from(new Uint8Array(digest).slice(0, 12), (b) => b.toString(16).padStart(2, "0")).join("");
+  return `headers:${hex}`;
+}
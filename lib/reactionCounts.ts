@@ -0,0 +1,43 @@
+import prisma from "@/lib/prisma";
+import { emptyReactionCounts, isReactionKind, type ReactionSummary } from "@/lib/reactions";
+
+// ═══════════════════════════════════════════════════════════════════
+// REACTION COUNTS - Per-note tallies plus what this visitor gave
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Reaction counts for each note, and the kinds the visitor has given
+ */
+export async function summarizeReactions(
+  noteIds: number[],
+  visitorId: string | null
+): Promise<Map<number, ReactionSummary>> {
+  const summaries = new Map<number, ReactionSummary>(
+    noteIds.map((id) => [id, { reactions: emptyReactionCounts(), reacted: [] }])
+  );
+  if (noteIds.length === 0) return summaries;
+
+  const [counts, mine] = await Promise.all([
+    prisma.noteReaction.groupBy({
+      by: ["noteId", "kind"],
+      where: { noteId: { in: noteIds } },
+      _count: { _all: true },
+    }),
+    visitorId
+      ? prisma.noteReaction.findMany({
+          where: { noteId: { in: noteIds }, visitorId },
+          select: { noteId: true, kind: true },
+        })
+      : Promise.resolve([]),
+  ]);
+
+  for (const row of counts) {
+    const summary = summaries.get(row.noteId);
+    if (summary && isReactionKind(row.kind)) summary.reactions[row.kind] = row._count._all;
+  }
+  for (const row of mine) {
+    const summary = summaries.get(row.noteId);
+    if (summary && isReactionKind(row.kind)) summary.reacted.push(row.kind);
+  }
+  return summaries;
+}
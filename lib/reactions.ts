@@ -0,0 +1,38 @@
+// ═══════════════════════════════════════════════════════════════════
+// NOTE REACTIONS - Quiet responses to answers on the Board of Collective
+// "We suffer more often in imagination than in reality." - Seneca
+// Client-safe: kinds and sorting are shared by the board and /api/answers
+// ═══════════════════════════════════════════════════════════════════
+
+export const REACTIONS = [
+  { kind: "resonates", label: "Resonates with me", symbol: "✦" },
+  { kind: "challenged", label: "Challenged me", symbol: "⚡" },
+  { kind: "comforted", label: "Comforted me", symbol: "☾" },
+] as const;
+
+export type ReactionKind = (typeof REACTIONS)[number]["kind"];
+export type ReactionCounts = Record<ReactionKind, number>;
+
+export interface ReactionSummary {
+  reactions: ReactionCounts;
+  // Kinds this visitor has given
+  reacted: ReactionKind[];
+}
+
+export function isReactionKind(value: unknown): value is ReactionKind {
+  return typeof value === "string" && REACTIONS.some((r) => r.kind === value);
+}
+
+export function emptyReactionCounts(): ReactionCounts {
+  return { resonates: 0, challenged: 0, comforted: 0 };
+}
+
+/**
+ * "Most resonant" order: resonates first, then all reactions, then newest
+ */
+export function byResonance<T extends { id: number; reactions?: ReactionCounts }>(a: T, b: T): number {
+  const ra = a.reactions ?? emptyReactionCounts();
+  const rb = b.reactions ?? emptyReactionCounts();
+  const total = (r: ReactionCounts) => r.resonates + r.challenged + r.comforted;
+  return rb.resonates - ra.resonates || total(rb) - total(ra) || b.id - a.id;
+}
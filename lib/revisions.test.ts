@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Article } from "@prisma/client";
+
+interface Row {
+  id: number;
+  articleId: number;
+  title: string;
+  content: string;
+  tags: string;
+  epigraph: string | null;
+  editedById: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const db = vi.hoisted(() => ({ revisions: [] as Row[] }));
+
+vi.mock("@/lib/prisma", () => {
+  const prisma = {
+    articleRevision: {
+      findFirst: async ({ where }: { where: { articleId: number } }) =>
+        db.revisions.filter((r) => r.articleId === where.articleId).at(-1) ?? null,
+      update: async ({ where, data }: { where: { id: number }; data: Partial<Row> }) => {
+        const row = db.revisions.find((r) => r.id === where.id)!;
+        Object.assign(row, data, { updatedAt: new Date() });
+        return row;
+      },
+      create: async ({ data }: { data: Omit<Row, "id" | "createdAt" | "updatedAt"> }) => {
+        const row = { ...data, id: db.revisions.length + 1, createdAt: new Date(), updatedAt: new Date() };
+        db.revisions.push(row);
+        return row;
+      },
+    },
+  };
+  return { default: prisma, prisma };
+});
+
+const { REVISION_PAUSE, REVISION_WINDOW, recordRevision } = await import("@/lib/revisions");
+
+const EDITOR = 1;
+
+function article(content: string): Article {
+  return { id: 7, title: "On Anger", content: JSON.stringify(content), tags: "[]", epigraph: null } as Article;
+}
+
+const contents = () => db.revisions.map((r) => JSON.parse(r.content));
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  db.revisions = [];
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("recordRevision", () => {
+  it("collapses a burst of autosaves into one revision", async () => {
+    await recordRevision(article("a"), EDITOR);
+    vi.advanceTimersByTime(5000);
+    await recordRevision(article("ab"), EDITOR);
+    vi.advanceTimersByTime(5000);
+    await recordRevision(article("abc"), EDITOR);
+    expect(contents()).toEqual(["abc"]);
+  });
+
+  it("keeps the earlier snapshot restorable when a bad save lands inside the window", async () => {
+    await recordRevision(article("the good draft"), EDITOR);
+    vi.advanceTimersByTime(REVISION_PAUSE + 1000);
+    await recordRevision(article("a mistaken paste"), EDITOR);
+    expect(contents()).toEqual(["the good draft", "a mistaken paste"]);
+  });
+
+  it("starts a new revision once a burst has run for the whole window", async () => {
+    await recordRevision(article("0"), EDITOR);
+    for (let i = 1; i * 5000 <= REVISION_WINDOW; i++) {
+      vi.advanceTimersByTime(5000);
+      await recordRevision(article(String(i)), EDITOR);
+    }
+    expect(db.revisions).toHaveLength(2);
+  });
+
+  it("never merges another editor's save or a restore", async () => {
+    await recordRevision(article("a"), EDITOR);
+    await recordRevision(article("b"), 2);
+    await recordRevision(article("c"), 2, { merge: false });
+    expect(contents()).toEqual(["a", "b", "c"]);
+  });
+});
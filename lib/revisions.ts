@@ -0,0 +1,71 @@
+import type { Article } from "@prisma/client";
+import prisma from "@/lib/prisma";
+
+// ═══════════════════════════════════════════════════════════════════
+// ARTICLE REVISIONS - Snapshot history for the writer
+// "Nothing is permanent except change." - Heraclitus
+// ═══════════════════════════════════════════════════════════════════
+
+// Saves by the same editor this soon after the latest revision was last
+// written update it instead of creating a new one (the writer autosaves
+// 5 seconds after typing stops). The first save after a longer pause starts
+// a new revision, so the state from before a burst of edits stays restorable.
+export const REVISION_PAUSE = 30 * 1000; // 30 seconds
+
+// A merged revision stops absorbing saves once its first snapshot is this old
+export const REVISION_WINDOW = 10 * 60 * 1000; // 10 minutes
+
+interface RecordOptions {
+  // Fold into the latest revision while the same editor's burst of saves lasts
+  merge?: boolean;
+}
+
+/**
+ * Snapshot an article after it has been saved.
+ * Identical snapshots are skipped; a burst of autosaves collapses into one
+ * revision unless `merge` is false.
+ */
+export async function recordRevision(
+  article: Article,
+  editedById: number | null,
+  { merge = true }: RecordOptions = {}
+): Promise<void> {
+  const latest = await prisma.articleRevision.findFirst({
+    where: { articleId: article.id },
+    orderBy: { createdAt: "desc" },
+  });
+
+  const snapshot = {
+    title: article.title,
+    content: article.content,
+    tags: article.tags,
+    epigraph: article.epigraph,
+  };
+
+  if (
+    latest &&
+    latest.title === snapshot.title &&
+    latest.content === snapshot.content &&
+    latest.tags === snapshot.tags &&
+    latest.epigraph === snapshot.epigraph
+  ) {
+    return;
+  }
+
+  const now = Date.now();
+  const inBurst =
+    latest &&
+    now - latest.updatedAt.getTime() < REVISION_PAUSE &&
+    now - latest.createdAt.getTime() < REVISION_WINDOW;
+  if (merge && latest && inBurst && latest.editedById === editedById) {
+    await prisma.articleRevision.update({
+      where: { id: latest.id },
+      data: snapshot,
+    });
+    return;
+  }
+
+  await prisma.articleRevision.create({
+    data: { ...snapshot, articleId: article.id, editedById },
+  });
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { can, permissionForPath } from "@/lib/roles";
+
+describe("permissionForPath", () => {
+  it("maps the first segment of API and admin paths", () => {
+    expect(permissionForPath("/api/articles/12")).toBe("articles");
+    expect(permissionForPath("/admin/articles/write")).toBe("articles");
+    expect(permissionForPath("/api/notes/3")).toBe("collective");
+    expect(permissionForPath("/api/banned-words")).toBe("answers");
+    expect(permissionForPath("/api/seed")).toBe("system");
+  });
+
+  it("leaves the dashboard open to every role", () => {
+    expect(permissionForPath("/admin")).toBeNull();
+    expect(permissionForPath("/writing/on-fear")).toBeNull();
+  });
+
+  it("makes unknown sections owner-only", () => {
+    expect(permissionForPath("/api/something-new")).toBe("system");
+    expect(can("editor", "system")).toBe(false);
+    expect(can("owner", "system")).toBe(true);
+  });
+});
+
+describe("can", () => {
+  it("limits editors and moderators to their sections", () => {
+    expect(can("editor", "articles")).toBe(true);
+    expect(can("editor", "answers")).toBe(false);
+    expect(can("moderator", "answers")).toBe(true);
+    expect(can("moderator", "users")).toBe(false);
+    expect(can(null, "articles")).toBe(false);
+  });
+});
@@ -0,0 +1,73 @@
+// ═══════════════════════════════════════════════════════════════════
+// ROLES & PERMISSIONS - Who may touch which part of the Sanctum
+// "Each of us has a role to play." - Epictetus
+// Shared by middleware, API routes and admin UI
+// ═══════════════════════════════════════════════════════════════════
+
+export const ROLES = ["owner", "editor", "moderator"] as const;
+export type Role = (typeof ROLES)[number];
+
+export type Permission =
+  | "articles"
+  | "projects"
+  | "quotes"
+  | "glossary"
+  | "answers"
+  | "collective"
+  | "contemplations"
+  | "intentions"
+  | "oracle"
+  | "profile"
+  | "users"
+  | "system";
+
+const ROLE_PERMISSIONS: Record<Role, Permission[] | "all"> = {
+  owner: "all",
+  editor: ["articles", "projects", "quotes", "glossary"],
+  moderator: ["answers"],
+};
+
+export const ROLE_LABELS: Record<Role, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  moderator: "Moderator",
+};
+
+// First path segment after /api/ or /admin/ → permission required to use it
+const SEGMENT_PERMISSIONS: Record<string, Permission> = {
+  articles: "articles",
+  projects: "projects",
+  quotes: "quotes",
+  glossary: "glossary",
+  answers: "answers",
+  "banned-words": "answers",
+  collective: "collective",
+  notes: "collective",
+  contemplations: "contemplations",
+  intentions: "intentions",
+  oracle: "oracle",
+  profile: "profile",
+  users: "users",
+  seed: "system",
+};
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && (ROLES as readonly string[]).includes(value);
+}
+
+export function can(role: Role | null | undefined, permission: Permission): boolean {
+  if (!role) return false;
+  const allowed = ROLE_PERMISSIONS[role];
+  return allowed === "all" || allowed.includes(permission);
+}
+
+/**
+ * Resolve the permission guarding an /api/* or /admin/* path.
+ * Returns null for paths every signed-in role may use (e.g. the dashboard).
+ * Unknown sections fall back to "system" so new routes are owner-only by default.
+ */
+export function permissionForPath(pathname: string): Permission | null {
+  const match = pathname.match(/^\/(?:api|admin)\/([^/?]+)/);
+  if (!match) return null;
+  return SEGMENT_PERMISSIONS[match[1]] ?? "system";
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import {
+  addDays,
+  addMonths,
+  dateKeyInZone,
+  isDateKey,
+  monthRange,
+  nextDayStart,
+  resolveDay,
+  rotationPick,
+  weekdayIndex,
+} from "@/lib/schedule";
+
+describe("date keys", () => {
+  it("names the calendar day in the site timezone", () => {
+    const instant = new Date("2026-03-01T20:30:00Z");
+    expect(dateKeyInZone(instant, "UTC")).toBe("2026-03-01");
+    expect(dateKeyInZone(instant, "Asia/Jakarta")).toBe("2026-03-02");
+    expect(dateKeyInZone(instant, "America/Los_Angeles")).toBe("2026-03-01");
+  });
+
+  it("rejects days that don't exist", () => {
+    expect(isDateKey("2028-02-29")).toBe(true);
+    expect(isDateKey("2026-02-29")).toBe(false);
+    expect(isDateKey("2026-13-01")).toBe(false);
+    expect(isDateKey("2026-1-01")).toBe(false);
+  });
+
+  it("adds days and months across boundaries", () => {
+    expect(addDays("2026-12-31", 1)).toBe("2027-01-01");
+    expect(addDays("2026-03-01", -1)).toBe("2026-02-28");
+    expect(addMonths("2026-11", 3)).toBe("2027-02");
+    expect(monthRange("2028-02")).toEqual({ first: "2028-02-01", last: "2028-02-29" });
+  });
+
+  it("counts weekdays from Monday", () => {
+    expect(weekdayIndex("2026-10-19")).toBe(0);
+    expect(weekdayIndex("2026-10-18")).toBe(6);
+  });
+});
+
+describe("nextDayStart", () => {
+  it("is the coming midnight in the timezone", () => {
+    const next = nextDayStart(new Date("2026-10-18T16:00:00Z"), "Asia/Jakarta");
+    expect(next.toISOString()).toBe("2026-10-18T17:00:00.000Z");
+  });
+
+  it("follows daylight saving changes", () => {
+    // New York springs forward on 2026-03-08 and falls back on 2026-11-01
+    expect(nextDayStart(new Date("2026-03-08T12:00:00Z"), "America/New_York").toISOString()).toBe("2026-03-09T04:00:00.000Z");
+    expect(nextDayStart(new Date("2026-11-01T12:00:00Z"), "America/New_York").toISOString()).toBe("2026-11-02T05:00:00.000Z");
+  });
+});
+
+describe("resolveDay", () => {
+  it("takes turns through the rotation, one item per day", () => {
+    const picks = [0, 1, 2, 3].map((offset) => rotationPick(["a", "b", "c"], addDays("2026-10-18", offset)));
+    expect(new Set(picks.slice(0, 3)).size).toBe(3);
+    expect(picks[3]).toBe(picks[0]);
+    expect(rotationPick([], "2026-10-18")).toBeNull();
+  });
+
+  it("prefers a pinned item to the rotation", () => {
+    const scheduled = new Map([["2026-10-18", 9]]);
+    expect(resolveDay("2026-10-18", scheduled, [1, 2])).toEqual({ date: "2026-10-18", itemId: 9, source: "scheduled" });
+    expect(resolveDay("2026-10-19", scheduled, [1, 2]).source).toBe("rotation");
+    expect(resolveDay("2026-10-19", scheduled, [])).toEqual({ date: "2026-10-19", itemId: null, source: null });
+  });
+});
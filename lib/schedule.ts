@@ -0,0 +1,124 @@
+// ═══════════════════════════════════════════════════════════════════
+// SCHEDULE - Which question and intention belong to which day
+// "Begin at once to live, and count each separate day as a separate life." - Seneca
+// Client-safe: calendar maths shared by lib/today.ts, the admin calendars and NowView
+// ═══════════════════════════════════════════════════════════════════
+
+export const SCHEDULE_KINDS = ["contemplation", "intention"] as const;
+export type ScheduleKind = (typeof SCHEDULE_KINDS)[number];
+
+// A calendar day in the site timezone, e.g. "2026-10-18"
+export type DateKey = string;
+
+// Where a day's item came from: pinned to that date, or its turn in the rotation
+export type ScheduleSource = "scheduled" | "rotation";
+
+export interface ScheduleDay {
+  date: DateKey;
+  itemId: number | null;
+  source: ScheduleSource | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_KEY = /^(\d{4})-(\d{2})-(\d{2})$/;
+const MONTH_KEY = /^(\d{4})-(\d{2})$/;
+
+export function isScheduleKind(value: unknown): value is ScheduleKind {
+  return typeof value === "string" && (SCHEDULE_KINDS as readonly string[]).includes(value);
+}
+
+export function isDateKey(value: unknown): value is DateKey {
+  if (typeof value !== "string") return false;
+  const match = value.match(DATE_KEY);
+  if (!match) return false;
+  const date = new Date(Date.UTC(+match[1], +match[2] - 1, +match[3]));
+  return date.getUTCDate() === +match[3] && date.getUTCMonth() === +match[2] - 1;
+}
+
+/**
+ * Calendar day of an instant in an IANA timezone
+ */
+export function dateKeyInZone(instant: Date, timeZone: string): DateKey {
+  // en-CA formats as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }).format(instant);
+}
+
+/**
+ * Days since 1970-01-01; the same day number everywhere, whatever the timezone
+ */
+export function dayNumber(date: DateKey): number {
+  const [year, month, day] = date.split("-").map(Number);
+  return Math.floor(Date.UTC(year, month - 1, day) / DAY_MS);
+}
+
+export function addDays(date: DateKey, days: number): DateKey {
+  return new Date((dayNumber(date) + days) * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * First instant after `now` that falls on a later calendar day in `timeZone`.
+ * Starts from the wall-clock time left today, then corrects for DST shifts.
+ */
+export function nextDayStart(now: Date, timeZone: string): Date {
+  const today = dateKeyInZone(now, timeZone);
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone,
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  const elapsed = ((part("hour") * 60 + part("minute")) * 60 + part("second")) * 1000 + now.getMilliseconds();
+
+  const HOUR_MS = 60 * 60 * 1000;
+  let next = new Date(now.getTime() - elapsed + DAY_MS);
+  while (dateKeyInZone(next, timeZone) === today) next = new Date(next.getTime() + HOUR_MS);
+  while (dateKeyInZone(new Date(next.getTime() - HOUR_MS), timeZone) !== today) next = new Date(next.getTime() - HOUR_MS);
+  return next;
+}
+
+/**
+ * The rotation's item for a day: items take turns in order, one per day
+ */
+export function rotationPick<T>(items: T[], date: DateKey): T | null {
+  if (items.length === 0) return null;
+  return items[dayNumber(date) % items.length];
+}
+
+/**
+ * A day's item: the one pinned to that date, otherwise its turn in the rotation
+ */
+export function resolveDay(date: DateKey, scheduled: Map<DateKey, number>, rotation: number[]): ScheduleDay {
+  const pinned = scheduled.get(date);
+  if (pinned !== undefined) return { date, itemId: pinned, source: "scheduled" };
+  const turn = rotationPick(rotation, date);
+  return { date, itemId: turn, source: turn === null ? null : "rotation" };
+}
+
+/**
+ * "YYYY-MM" of a day, and the first and last day of such a month
+ */
+export function monthOf(date: DateKey): string {
+  return date.slice(0, 7);
+}
+
+export function isMonthKey(value: unknown): value is string {
+  return typeof value === "string" && MONTH_KEY.test(value) && +value.slice(5) >= 1 && +value.slice(5) <= 12;
+}
+
+export function monthRange(month: string): { first: DateKey; last: DateKey } {
+  const [year, m] = month.split("-").map(Number);
+  const days = new Date(Date.UTC(year, m, 0)).getUTCDate();
+  return { first: `${month}-01`, last: `${month}-${String(days).padStart(2, "0")}` };
+}
+
+export function addMonths(month: string, months: number): string {
+  const [year, m] = month.split("-").map(Number);
+  return new Date(Date.UTC(year, m - 1 + months, 1)).toISOString().slice(0, 7);
+}
+
+// 0 = Monday … 6 = Sunday
+export function weekdayIndex(date: DateKey): number {
+  return (dayNumber(date) + 3) % 7;
+}
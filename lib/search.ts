@@ -0,0 +1,29 @@
+import type { SnippetPart } from "@/lib/bm25";
+
+// ═══════════════════════════════════════════════════════════════════
+// SEARCH - What /api/search returns and the ⌘K palette renders
+// "If you do not expect the unexpected, you will not find it." - Heraclitus
+// Client-safe: the index itself lives in lib/searchIndex.ts
+// ═══════════════════════════════════════════════════════════════════
+
+export const SEARCH_QUERY_MAX = 200;
+export const SEARCH_LIMIT = 12;
+
+export type SearchKind = "article" | "project" | "quote" | "answer";
+
+export interface SearchResult {
+  kind: SearchKind;
+  id: number;
+  title: string;
+  // Quotes have no page of their own; the palette copies them instead
+  href: string | null;
+  snippet: SnippetPart[];
+  score: number;
+}
+
+export const SEARCH_KIND_LABELS: Record<SearchKind, string> = {
+  article: "writing",
+  project: "work",
+  quote: "quote",
+  answer: "collective",
+};
@@ -0,0 +1,149 @@
+import prisma from "@/lib/prisma";
+import { listedWhere } from "@/lib/publishing";
+import { buildIndex, search, snippet, type Bm25Index, type SnippetPart } from "@/lib/bm25";
+import { articleText } from "@/lib/articles";
+import { answerPermalink } from "@/lib/contemplations";
+import type { ProjectSection } from "@/lib/projects";
+import type { SearchKind, SearchResult } from "@/lib/search";
+
+// ═══════════════════════════════════════════════════════════════════
+// SEARCH INDEX - One BM25 inverted index over published articles and
+// projects, quotes and approved answers, for /api/search
+// ═══════════════════════════════════════════════════════════════════
+
+// Rebuilt at most this often, and right after CMS writes; a scheduled
+// publish shows up within the window
+const INDEX_TTL_MS = 5 * 60 * 1000;
+
+// Characters of a document's opening shown when only its title matched
+const LEAD_LENGTH = 160;
+
+interface SearchDocument {
+  kind: SearchKind;
+  id: number;
+  title: string;
+  href: string | null;
+  // Where snippets come from, best first
+  passages: string[];
+}
+
+interface SearchCorpus {
+  builtAt: number;
+  // A single index, so scores compare across kinds
+  index: Bm25Index<SearchDocument>;
+}
+
+const globalForSearch = globalThis as unknown as { searchCorpus?: Promise<SearchCorpus> };
+
+// Markdown links and emphasis read badly in a snippet
+function plainText(markdown: string): string {
+  return markdown.replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1").replace(/[#*_`>~|]+/g, "");
+}
+
+async function buildCorpus(): Promise<SearchCorpus> {
+  const [articles, projects, quotes, answers] = await Promise.all([
+    prisma.article.findMany({ where: listedWhere(), orderBy: { date: "desc" } }),
+    prisma.project.findMany({ where: listedWhere(), orderBy: { year: "desc" } }),
+    prisma.quote.findMany({ orderBy: { id: "asc" } }),
+    prisma.stickyNote.findMany({
+      where: { approved: true },
+      orderBy: { id: "asc" },
+      select: { id: true, question: true, answer: true, author: true, contemplationId: true },
+    }),
+  ]);
+
+  const documents = [
+    ...articles.map((a) => {
+      const body = plainText(articleText(a.content));
+      return {
+        item: { kind: "article" as const, id: a.id, title: a.title, href: `/writing/${a.slug}`, passages: [a.excerpt, body] },
+        fields: [
+          { text: a.title, weight: 3 },
+          { text: `${a.excerpt} ${JSON.parse(a.tags || "[]").join(" ")}`, weight: 2 },
+          { text: body, weight: 1 },
+        ],
+      };
+    }),
+    ...projects.map((p) => {
+      const sections: ProjectSection[] = p.sections ? JSON.parse(p.sections) : [];
+      return {
+        item: {
+          kind: "project" as const,
+          id: p.id,
+          title: p.title,
+          href: `/work/${p.slug}`,
+          passages: [p.description, ...sections.map((s) => s.content)],
+        },
+        fields: [
+          { text: p.title, weight: 3 },
+          { text: `${p.tagline ?? ""} ${p.description}`, weight: 2 },
+          { text: sections.map((s) => [s.title, s.content].filter(Boolean).join(" ")).join(" "), weight: 1 },
+        ],
+      };
+    }),
+    ...quotes.map((q) => ({
+      item: { kind: "quote" as const, id: q.id, title: `${q.author}, ${q.source}`, href: null, passages: [q.text] },
+      fields: [
+        { text: q.text, weight: 2 },
+        { text: q.author, weight: 2 },
+      ],
+    })),
+    ...answers.map((a) => ({
+      item: {
+        kind: "answer" as const,
+        id: a.id,
+        title: a.question,
+        href: a.contemplationId ? answerPermalink(a.contemplationId, a.id) : "/collective",
+        passages: [a.answer],
+      },
+      fields: [
+        { text: a.answer, weight: 2 },
+        { text: `${a.question} ${a.author}`, weight: 1 },
+      ],
+    })),
+  ];
+
+  return { builtAt: Date.now(), index: buildIndex<SearchDocument>(documents) };
+}
+
+/**
+ * Drop the cached index after a write that changes what search may return;
+ * the next search rebuilds it
+ */
+export function invalidateSearchIndex() {
+  globalForSearch.searchCorpus = undefined;
+}
+
+async function getCorpus(): Promise<SearchCorpus> {
+  const cached = globalForSearch.searchCorpus && (await globalForSearch.searchCorpus.catch(() => null));
+  if (cached && Date.now() - cached.builtAt < INDEX_TTL_MS) return cached;
+  globalForSearch.searchCorpus = buildCorpus();
+  return globalForSearch.searchCorpus;
+}
+
+// The first passage with a query term in it, else the document's opening
+function snippetFor(document: SearchDocument, terms: string[]): SnippetPart[] {
+  for (const passage of document.passages) {
+    const parts = passage && snippet(passage, terms, LEAD_LENGTH);
+    if (parts) return parts;
+  }
+  const lead = (document.passages.find(Boolean) ?? "").replace(/\s+/g, " ").trim();
+  if (lead.length <= LEAD_LENGTH) return [{ text: lead, match: false }];
+  const cut = lead.lastIndexOf(" ", LEAD_LENGTH);
+  return [{ text: `${lead.slice(0, cut > 0 ? cut : LEAD_LENGTH)}…`, match: false }];
+}
+
+/**
+ * Published writing and work, quotes and approved answers matching a query, best first
+ */
+export async function searchSite(query: string, limit: number): Promise<SearchResult[]> {
+  const { index } = await getCorpus();
+  return search(index, query, limit).map(({ item, score, matched }) => ({
+    kind: item.kind,
+    id: item.id,
+    title: item.title,
+    href: item.href,
+    snippet: snippetFor(item, matched),
+    score,
+  }));
+}
@@ -0,0 +1,115 @@
+import type { Metadata } from "next";
+import type { ArticleDetail } from "@/lib/articles";
+import type { ProjectDetail } from "@/lib/projects";
+import { ogImage } from "@/lib/og";
+import { SITE_NAME, siteUrl } from "@/lib/site";
+
+// ═══════════════════════════════════════════════════════════════════
+// SEO - Metadata and JSON-LD for server-rendered articles & projects
+// ═══════════════════════════════════════════════════════════════════
+
+const AUTHOR = "Juan Rizky Maulana";
+
+// "YYYY-MM-DD" article dates become ISO timestamps where possible
+function isoDate(value: string | null | undefined): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+export function articleMetadata(article: ArticleDetail): Metadata {
+  const url = `/writing/${article.slug}`;
+  const publishedTime = isoDate(article.publishAt) ?? isoDate(article.date);
+  const image = ogImage("article", article.id, article.updatedAt, article.title);
+
+  return {
+    title: `${article.title} | ${SITE_NAME}`,
+    description: article.excerpt,
+    keywords: article.tags,
+    authors: [{ name: AUTHOR }],
+    alternates: { canonical: url },
+    openGraph: {
+      type: "article",
+      url,
+      title: article.title,
+      description: article.excerpt,
+      siteName: SITE_NAME,
+      publishedTime,
+      modifiedTime: article.updatedAt,
+      authors: [AUTHOR],
+      tags: article.tags,
+      images: [image],
+    },
+    twitter: {
+      card: "summary_large_image",
+      title: article.title,
+      description: article.excerpt,
+      images: [image],
+    },
+    // Unlisted articles are reachable by link but stay out of search
+    robots: article.publishStatus === "unlisted" ? { index: false, follow: true } : undefined,
+  };
+}
+
+export function articleJsonLd(article: ArticleDetail) {
+  const url = `${siteUrl()}/writing/${article.slug}`;
+  return {
+    "@context": "https://schema.org",
+    "@type": "BlogPosting",
+    headline: article.title,
+    description: article.excerpt,
+    url,
+    mainEntityOfPage: url,
+    datePublished: isoDate(article.publishAt) ?? isoDate(article.date),
+    dateModified: article.updatedAt,
+    keywords: article.tags.join(", "),
+    author: { "@type": "Person", name: AUTHOR, url: siteUrl() },
+    publisher: { "@type": "Person", name: AUTHOR },
+  };
+}
+
+export function projectMetadata(project: ProjectDetail): Metadata {
+  const url = `/work/${project.slug}`;
+  const description = project.tagline || project.description;
+  const image = ogImage("project", project.id, project.updatedAt, project.title);
+
+  return {
+    title: `${project.title} | ${SITE_NAME}`,
+    description,
+    keywords: project.tech,
+    authors: [{ name: AUTHOR }],
+    alternates: { canonical: url },
+    openGraph: {
+      type: "website",
+      url,
+      title: project.title,
+      description,
+      siteName: SITE_NAME,
+      images: [image],
+    },
+    twitter: {
+      card: "summary_large_image",
+      title: project.title,
+      description,
+      images: [image],
+    },
+    robots: project.publishStatus === "unlisted" ? { index: false, follow: true } : undefined,
+  };
+}
+
+export function projectJsonLd(project: ProjectDetail) {
+  const url = `${siteUrl()}/work/${project.slug}`;
+  return {
+    "@context": "https://schema.org",
+    "@type": "CreativeWork",
+    name: project.title,
+    headline: project.tagline || project.title,
+    description: project.description,
+    url,
+    dateCreated: project.year,
+    dateModified: project.updatedAt,
+    keywords: project.tech.join(", "),
+    creator: { "@type": "Person", name: AUTHOR, url: siteUrl() },
+    sameAs: [project.links.live, project.links.github].filter(Boolean),
+  };
+}
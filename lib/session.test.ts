@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const db = vi.hoisted(() => ({ users: [] as Array<{ id: number; name: string; role: string }> }));
+
+vi.mock("@/lib/prisma", () => {
+  const prisma = {
+    user: {
+      count: async () => db.users.length,
+      findUnique: async ({ where }: { where: { id: number } }) => db.users.find((u) => u.id === where.id) ?? null,
+    },
+  };
+  return { default: prisma, prisma };
+});
+
+const { BOOTSTRAP_SUBJECT, signToken, verifySessionToken, verifyToken } = await import("@/lib/session");
+
+const inAnHour = () => Date.now() + 60 * 60 * 1000;
+
+beforeEach(() => {
+  db.users = [];
+});
+
+describe("signToken / verifyToken", () => {
+  it("round-trips a payload", async () => {
+    const payload = { sub: "1", expiresAt: inAnHour() };
+    expect(await verifyToken(await signToken(payload))).toEqual(payload);
+  });
+
+  it("rejects a tampered payload or signature", async () => {
+    const token = await signToken({ sub: "1", expiresAt: inAnHour() });
+    const [body, signature] = token.split(".");
+    const forged = Buffer.from(JSON.stringify({ sub: "2", expiresAt: inAnHour() })).toString("base64url");
+
+    expect(await verifyToken(`${forged}.${signature}`)).toBeNull();
+    expect(await verifyToken(`${body}.${signature.slice(0, -2)}AA`)).toBeNull();
+    expect(await verifyToken(body)).toBeNull();
+    expect(await verifyToken(null)).toBeNull();
+  });
+
+  it("rejects an expired token", async () => {
+    expect(await verifyToken(await signToken({ sub: "1", expiresAt: Date.now() - 1 }))).toBeNull();
+  });
+});
+
+describe("verifySessionToken", () => {
+  it("takes the name and role from the User row", async () => {
+    db.users = [{ id: 1, name: "Marcus", role: "moderator" }];
+    const token = await signToken({ sub: "1", name: "Old name", role: "owner", expiresAt: inAnHour() });
+
+    expect(await verifySessionToken(token)).toMatchObject({ sub: "1", name: "Marcus", role: "moderator" });
+  });
+
+  it("rejects sessions of deleted accounts", async () => {
+    db.users = [{ id: 2, name: "Seneca", role: "owner" }];
+    const token = await signToken({ sub: "1", name: "Marcus", role: "owner", expiresAt: inAnHour() });
+
+    expect(await verifySessionToken(token)).toBeNull();
+  });
+
+  it("accepts a bootstrap session only while no User exists", async () => {
+    const token = await signToken({ sub: BOOTSTRAP_SUBJECT, name: "Owner", role: "owner", expiresAt: inAnHour() });
+    expect(await verifySessionToken(token)).toMatchObject({ sub: BOOTSTRAP_SUBJECT, role: "owner" });
+
+    db.users = [{ id: 1, name: "Marcus", role: "owner" }];
+    expect(await verifySessionToken(token)).toBeNull();
+  });
+});
@@ -0,0 +1,142 @@
+import type { NextRequest } from "next/server";
+import prisma from "@/lib/prisma";
+import { timingSafeEqual } from "@/lib/password";
+import { isRole, type Role } from "@/lib/roles";
+
+// ═══════════════════════════════════════════════════════════════════
+// SERVER SESSIONS - Signed, HTTP-only admin cookies
+// The cookie proves who signed in; the User row says what they may do now,
+// so role changes and deleted accounts take effect on the next request.
+// Middleware runs on the Node.js runtime to make that lookup.
+// ═══════════════════════════════════════════════════════════════════
+
+export const SESSION_COOKIE = "stoic_admin_session";
+export const SESSION_DURATION = 24 * 60 * 60 * 1000; // 24 hours
+
+const DEV_SECRET = "dev-only-session-secret-change-me";
+
+// Bootstrap sessions (env password, before any User exists) use this subject
+export const BOOTSTRAP_SUBJECT = "owner";
+
+export interface SessionPayload {
+  sub: string; // User id, or BOOTSTRAP_SUBJECT
+  name: string; // As of the last lookup, not as of sign-in
+  role: Role;
+  expiresAt: number;
+}
+
+function getSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  return DEV_SECRET;
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+  const padded = value.replace(/-/g, "+").replace(/_/g, "/") + "===".slice((value.length + 3) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+async function sign(data: string): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(getSecret()),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(data));
+  return new Uint8Array(signature);
+}
+
+/**
+ * Create a signed token: `<base64url payload>.<base64url HMAC>`
+ */
+export async function signToken<T extends { expiresAt: number }>(payload: T): Promise<string> {
+  const body = base64UrlEncode(new TextEncoder().encode(JSON.stringify(payload)));
+  const signature = base64UrlEncode(await sign(body));
+  return `${body}.${signature}`;
+}
+
+/**
+ * Verify a token's signature and expiry, returning its (unvalidated) payload
+ */
+export async function verifyToken<T extends { expiresAt: number }>(token: string | undefined | null): Promise<T | null> {
+  if (!token) return null;
+  const [body, signature] = token.split(".");
+  if (!body || !signature) return null;
+
+  try {
+    const expected = await sign(body);
+    if (!timingSafeEqual(base64UrlDecode(signature), expected)) return null;
+
+    const payload: T = JSON.parse(new TextDecoder().decode(base64UrlDecode(body)));
+    if (!payload.expiresAt || payload.expiresAt <= Date.now()) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+export async function createSessionToken(payload: SessionPayload): Promise<string> {
+  return signToken(payload);
+}
+
+/**
+ * Verify a session token and refresh its name and role from the User row.
+ * Sessions of deleted accounts are rejected, and so are bootstrap sessions
+ * once the first User exists.
+ */
+export async function verifySessionToken(token: string | undefined): Promise<SessionPayload | null> {
+  const payload = await verifyToken<SessionPayload>(token);
+  if (!payload || !isRole(payload.role)) return null;
+  if (payload.sub === BOOTSTRAP_SUBJECT) {
+    return (await prisma.user.count()) > 0 ? null : payload;
+  }
+
+  const id = parseInt(payload.sub);
+  if (isNaN(id)) return null;
+  const user = await prisma.user.findUnique({ where: { id }, select: { name: true, role: true } });
+  if (!user || !isRole(user.role)) return null;
+  return { ...payload, name: user.name, role: user.role };
+}
+
+/**
+ * Read and verify the session cookie from an incoming request
+ */
+export async function getRequestSession(request: NextRequest): Promise<SessionPayload | null> {
+  return verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+}
+
+/**
+ * Database id of the session's user (null for the bootstrap owner)
+ */
+export function sessionUserId(session: SessionPayload | null): number | null {
+  if (!session || session.sub === BOOTSTRAP_SUBJECT) return null;
+  const id = parseInt(session.sub);
+  return isNaN(id) ? null : id;
+}
+
+/**
+ * Cookie attributes shared by login and logout
+ */
+export function sessionCookieOptions(expiresAt: number) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax" as const,
+    path: "/",
+    expires: new Date(expiresAt),
+  };
+}
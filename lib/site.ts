@@ -0,0 +1,29 @@
+// ═══════════════════════════════════════════════════════════════════
+// SITE - Name, description and canonical origin shared by metadata & feeds
+// ═══════════════════════════════════════════════════════════════════
+
+export const SITE_NAME = "Juan Rizky Maulana | The Semantic IDE";
+export const SITE_DESCRIPTION = "Integrated Destiny Environment - Where code meets stories";
+
+/**
+ * Absolute origin without a trailing slash.
+ * NEXT_PUBLIC_SITE_URL wins; otherwise the request's own origin, then localhost.
+ */
+export function siteUrl(requestOrigin?: string): string {
+  return (process.env.NEXT_PUBLIC_SITE_URL || requestOrigin || "http://localhost:3000").replace(/\/+$/, "");
+}
+
+/**
+ * IANA timezone whose midnight starts a new day for the daily question and intention.
+ * SITE_TIMEZONE wins; unset or unknown zones fall back to UTC.
+ */
+export function siteTimeZone(): string {
+  const zone = process.env.SITE_TIMEZONE || "UTC";
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: zone });
+    return zone;
+  } catch {
+    console.error(`Unknown SITE_TIMEZONE "${zone}", using UTC`);
+    return "UTC";
+  }
+}
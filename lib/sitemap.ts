@@ -0,0 +1,98 @@
+import prisma from "@/lib/prisma";
+import { getListedTags } from "@/lib/articles";
+import { getContemplationArchive } from "@/lib/contemplations";
+import { escapeXml } from "@/lib/feed";
+import { listedWhere } from "@/lib/publishing";
+import { siteUrl } from "@/lib/site";
+import { VIEWS } from "@/lib/views";
+
+// ═══════════════════════════════════════════════════════════════════
+// SITEMAP - Every public URL, as one sitemap or an index of chunks
+// ═══════════════════════════════════════════════════════════════════
+
+// The protocol allows 50,000 URLs per file; smaller chunks stay quick to build
+export const SITEMAP_CHUNK = 5000;
+
+export interface SitemapEntry {
+  url: string;
+  lastmod?: Date;
+}
+
+export async function getSitemapEntries(requestOrigin: string): Promise<SitemapEntry[]> {
+  const origin = siteUrl(requestOrigin);
+  const [articles, projects, tags, contemplations] = await Promise.all([
+    prisma.article.findMany({
+      where: listedWhere(),
+      select: { slug: true, updatedAt: true },
+      orderBy: { date: "desc" },
+    }),
+    prisma.project.findMany({
+      where: listedWhere(),
+      select: { slug: true, updatedAt: true },
+      orderBy: { year: "desc" },
+    }),
+    getListedTags(),
+    getContemplationArchive(),
+  ]);
+
+  return [
+    ...VIEWS.map((view) => ({ url: `${origin}${view.href}` })),
+    ...articles.map((a) => ({ url: `${origin}/writing/${a.slug}`, lastmod: a.updatedAt })),
+    ...projects.map((p) => ({ url: `${origin}/work/${p.slug}`, lastmod: p.updatedAt })),
+    ...tags.map((t) => ({ url: `${origin}/tags/${encodeURIComponent(t.tag)}`, lastmod: t.updatedAt })),
+    { url: `${origin}/glossary` },
+    { url: `${origin}/collective/archive` },
+    ...contemplations.map((c) => ({ url: `${origin}/collective/${c.id}` })),
+  ];
+}
+
+export function sitemapChunks(entries: SitemapEntry[]): SitemapEntry[][] {
+  const chunks: SitemapEntry[][] = [];
+  for (let i = 0; i < entries.length; i += SITEMAP_CHUNK) {
+    chunks.push(entries.slice(i, i + SITEMAP_CHUNK));
+  }
+  return chunks;
+}
+
+function latest(entries: SitemapEntry[]): Date | undefined {
+  return entries.reduce<Date | undefined>(
+    (max, entry) => (entry.lastmod && (!max || entry.lastmod > max) ? entry.lastmod : max),
+    undefined
+  );
+}
+
+function lastmodTag(date: Date | undefined, indent: string): string {
+  return date ? `\n${indent}<lastmod>${date.toISOString()}</lastmod>` : "";
+}
+
+export function renderUrlset(entries: SitemapEntry[]): string {
+  const urls = entries.map((entry) => `  <url>
+    <loc>${escapeXml(entry.url)}</loc>${lastmodTag(entry.lastmod, "    ")}
+  </url>`).join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${urls}
+</urlset>
+`;
+}
+
+/**
+ * Index pointing at /sitemap/<n>.xml, one per chunk
+ */
+export function renderSitemapIndex(chunks: SitemapEntry[][], origin: string): string {
+  const sitemaps = chunks.map((chunk, i) => `  <sitemap>
+    <loc>${escapeXml(`${origin}/sitemap/${i + 1}.xml`)}</loc>${lastmodTag(latest(chunk), "    ")}
+  </sitemap>`).join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${sitemaps}
+</sitemapindex>
+`;
+}
+
+export const SITEMAP_HEADERS = {
+  "Content-Type": "application/xml; charset=utf-8",
+  "Cache-Control": "public, s-maxage=3600, stale-while-revalidate=86400",
+};
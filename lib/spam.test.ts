@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { SPAM_FLAG_SCORE, SPAM_REJECT_SCORE, scoreAnswer } from "@/lib/spam";
+
+describe("scoreAnswer", () => {
+  it("lets an ordinary answer through", () => {
+    const verdict = scoreAnswer({ answer: "I remember that the obstacle is the way.", author: "Anonymous Stoic" }, []);
+    expect(verdict).toEqual({ score: 0, reasons: [] });
+  });
+
+  it("flags an answer that is mostly a link", () => {
+    const verdict = scoreAnswer({ answer: "see https://cheap-pills.example.com/now", author: "Bob" }, []);
+    expect(verdict.reasons).toEqual(["1 link", "mostly links"]);
+    expect(verdict.score).toBeGreaterThanOrEqual(SPAM_FLAG_SCORE);
+  });
+
+  it("matches banned words as whole words only", () => {
+    const banned = ["casino"];
+    expect(scoreAnswer({ answer: "Visit my Casino tonight", author: "x" }, banned).reasons).toEqual(['banned word "casino"']);
+    expect(scoreAnswer({ answer: "casinos are fine", author: "x" }, banned).score).toBe(0);
+  });
+
+  it("rejects repeated, shouted duplicates outright", () => {
+    const verdict = scoreAnswer({ answer: "BUY NOW BUY NOW BUY NOW BUY NOW BUY NOW", author: "x" }, [], 2);
+    expect(verdict.reasons).toEqual(["repeated words", "duplicate of a recent answer", "mostly capitals"]);
+    expect(verdict.score).toBeGreaterThanOrEqual(SPAM_REJECT_SCORE);
+  });
+});
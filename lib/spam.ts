@@ -0,0 +1,79 @@
+// ═══════════════════════════════════════════════════════════════════
+// SPAM HEURISTICS - Local scoring for public answer submissions
+// "Waste no more time arguing what a good man should be. Be one." - Marcus Aurelius
+// No external services: links, repetition, shouting and a banned-word list
+// ═══════════════════════════════════════════════════════════════════
+
+export const ANSWER_LIMITS = {
+  answer: { min: 3, max: 2000 },
+  author: { max: 60 },
+  question: { max: 300 },
+};
+
+// Hidden form field: people never see it, naive bots fill it in
+export const HONEYPOT_FIELD = "website";
+
+// Flagged answers wait in the queue marked as likely spam; rejected ones skip it (restorable)
+export const SPAM_FLAG_SCORE = 50;
+export const SPAM_REJECT_SCORE = 100;
+
+export interface SpamVerdict {
+  score: number;
+  reasons: string[];
+}
+
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(?:com|net|org|io|ru|xyz|top|info|biz|co)\b(?:\/\S*)?/gi;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Score an answer; higher is spammier.
+ * `duplicates` is how many identical answers were submitted recently.
+ */
+export function scoreAnswer(
+  input: { answer: string; author: string },
+  bannedWords: string[],
+  duplicates = 0
+): SpamVerdict {
+  const reasons: string[] = [];
+  let score = 0;
+  const add = (points: number, reason: string) => {
+    score += points;
+    reasons.push(reason);
+  };
+
+  const { answer, author } = input;
+
+  // Links
+  const links = answer.match(LINK_PATTERN) ?? [];
+  if (links.length > 0) {
+    add(30 * Math.min(links.length, 3), `${links.length} link${links.length === 1 ? "" : "s"}`);
+    const linkChars = links.reduce((sum, link) => sum + link.length, 0);
+    if (linkChars / answer.length > 0.3) add(30, "mostly links");
+  }
+  if ((author.match(LINK_PATTERN) ?? []).length > 0) add(40, "link in name");
+
+  // Repetition
+  if (/(.)\1{7,}/.test(answer)) add(20, "repeated characters");
+  const words = answer.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? [];
+  if (words.length >= 8 && new Set(words).size / words.length < 0.4) add(30, "repeated words");
+  if (duplicates > 0) add(60, "duplicate of a recent answer");
+
+  // Shouting
+  const letters = answer.replace(/[^\p{L}]/gu, "");
+  if (letters.length >= 20 && letters.replace(/[^\p{Lu}]/gu, "").length / letters.length > 0.7) {
+    add(15, "mostly capitals");
+  }
+
+  // Banned words (whole words, case-insensitive)
+  const text = `${author} ${answer}`;
+  for (const word of bannedWords) {
+    if (new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(word)}($|[^\\p{L}\\p{N}])`, "iu").test(text)) {
+      add(50, `banned word "${word}"`);
+    }
+  }
+
+  return { score, reasons };
+}
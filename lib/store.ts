@@ -0,0 +1,105 @@
+import { useEffect } from "react";
+import { create } from "zustand";
+import type { GlossaryEntry } from "@/lib/glossary";
+
+// ═══════════════════════════════════════════════════════════════════
+// IDE STORE - Shared state of the editor layer around the prose
+// "Confine yourself to the present." - Marcus Aurelius
+// Render/source mode, the section in view, the console's log, the glossary
+// and Zen mode
+// ═══════════════════════════════════════════════════════════════════
+
+export type ViewMode = "render" | "source";
+
+// One line of the Narrative Console: "You <verb> “<object>”."
+export interface ConsoleEntry {
+  id: number;
+  at: number;
+  verb: string;
+  object?: string;
+}
+
+// Older lines scroll out of the console
+const CONSOLE_LIMIT = 50;
+
+interface IdeState {
+  viewMode: ViewMode;
+  setViewMode: (mode: ViewMode) => void;
+  toggleViewMode: () => void;
+
+  // data-section id of the part being read, for the Living Margin
+  activeSection: string | null;
+  setActiveSection: (id: string | null) => void;
+
+  consoleOpen: boolean;
+  setConsoleOpen: (open: boolean) => void;
+  entries: ConsoleEntry[];
+  log: (verb: string, object?: string) => void;
+  clearConsole: () => void;
+
+  // null until loaded; server pages hand it over, others fetch /api/glossary once
+  glossary: GlossaryEntry[] | null;
+  setGlossary: (glossary: GlossaryEntry[]) => void;
+  loadGlossary: () => void;
+
+  // The Now view's overlay; the command palette can open it from any view
+  zenMode: boolean;
+  setZenMode: (zenMode: boolean) => void;
+}
+
+let nextEntryId = 1;
+let glossaryRequest: Promise<void> | null = null;
+// Stable, so selectors and effects don't see a new array each render
+const EMPTY_GLOSSARY: GlossaryEntry[] = [];
+
+export const useIdeStore = create<IdeState>()((set, get) => ({
+  viewMode: "render",
+  setViewMode: (viewMode) => set({ viewMode }),
+  toggleViewMode: () => set((state) => ({ viewMode: state.viewMode === "render" ? "source" : "render" })),
+
+  activeSection: null,
+  setActiveSection: (activeSection) => set({ activeSection }),
+
+  consoleOpen: false,
+  setConsoleOpen: (consoleOpen) => set({ consoleOpen }),
+  entries: [],
+  log: (verb, object) =>
+    set((state) => {
+      // Scrolling back and forth over one heading is one event, not ten
+      const last = state.entries[state.entries.length - 1];
+      if (last && last.verb === verb && last.object === object) return state;
+      const entry = { id: nextEntryId++, at: Date.now(), verb, object };
+      return { entries: [...state.entries, entry].slice(-CONSOLE_LIMIT) };
+    }),
+  clearConsole: () => set({ entries: [] }),
+
+  glossary: null,
+  setGlossary: (glossary) => set({ glossary }),
+  loadGlossary: () => {
+    if (get().glossary || glossaryRequest) return;
+    glossaryRequest = fetch("/api/glossary")
+      .then((res) => {
+        if (!res.ok) throw new Error(`Glossary request failed: ${res.status}`);
+        return res.json();
+      })
+      .then((glossary: GlossaryEntry[]) => set({ glossary }))
+      .catch((error) => {
+        console.error("Failed to load glossary:", error);
+        // Let the next component that needs it try again
+        glossaryRequest = null;
+      });
+  },
+
+  zenMode: false,
+  setZenMode: (zenMode) => set({ zenMode }),
+}));
+
+/**
+ * The glossary for hover cards and margin notes; empty until it arrives
+ */
+export function useGlossary(): GlossaryEntry[] {
+  const glossary = useIdeStore((state) => state.glossary);
+  const loadGlossary = useIdeStore((state) => state.loadGlossary);
+  useEffect(() => loadGlossary(), [loadGlossary]);
+  return glossary ?? EMPTY_GLOSSARY;
+}
@@ -0,0 +1,207 @@
+import prisma from "@/lib/prisma";
+import { publishLiveEvent } from "@/lib/events";
+import { recordFeaturing, revalidateCollectivePages } from "@/lib/contemplations";
+import { siteTimeZone } from "@/lib/site";
+import {
+  DateKey,
+  ScheduleDay,
+  ScheduleKind,
+  ScheduleSource,
+  addDays,
+  dateKeyInZone,
+  monthRange,
+  nextDayStart,
+  resolveDay,
+} from "@/lib/schedule";
+
+// ═══════════════════════════════════════════════════════════════════
+// TODAY - The server's word on today's question and intention
+// "Confine yourself to the present." - Marcus Aurelius
+// ═══════════════════════════════════════════════════════════════════
+
+export interface Today {
+  date: DateKey;
+  timeZone: string;
+  nextChangeAt: string;
+  contemplation: { id: number; question: string; source: ScheduleSource } | null;
+  intention: { id: number; text: string; source: ScheduleSource } | null;
+}
+
+const rotationOrder = [{ order: "asc" as const }, { id: "asc" as const }];
+
+/**
+ * Active items taking turns on unscheduled days, in admin order
+ */
+async function rotationIds(kind: ScheduleKind): Promise<number[]> {
+  const where = { active: true, inRotation: true };
+  const rows =
+    kind === "contemplation"
+      ? await prisma.contemplation.findMany({ where, orderBy: rotationOrder, select: { id: true } })
+      : await prisma.dailyIntention.findMany({ where, orderBy: rotationOrder, select: { id: true } });
+  return rows.map((row) => row.id);
+}
+
+/**
+ * Items pinned to days between `from` and `to`; pins to inactive items are ignored
+ */
+async function scheduledIds(kind: ScheduleKind, from: DateKey, to: DateKey): Promise<Map<DateKey, number>> {
+  const entries = await prisma.scheduleEntry.findMany({
+    where: {
+      kind,
+      date: { gte: from, lte: to },
+      ...(kind === "contemplation" ? { contemplation: { active: true } } : { intention: { active: true } }),
+    },
+  });
+  const pinned = new Map<DateKey, number>();
+  for (const entry of entries) {
+    const itemId = kind === "contemplation" ? entry.contemplationId : entry.intentionId;
+    if (itemId !== null) pinned.set(entry.date, itemId);
+  }
+  return pinned;
+}
+
+/**
+ * Each day's item from `from` to `to` inclusive
+ */
+export async function getScheduleDays(kind: ScheduleKind, from: DateKey, to: DateKey): Promise<ScheduleDay[]> {
+  const [scheduled, rotation] = await Promise.all([scheduledIds(kind, from, to), rotationIds(kind)]);
+  const days: ScheduleDay[] = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    days.push(resolveDay(date, scheduled, rotation));
+  }
+  return days;
+}
+
+export function todayKey(now = new Date()): DateKey {
+  return dateKeyInZone(now, siteTimeZone());
+}
+
+/**
+ * Pin an item to a day, or clear the day (itemId null) so the rotation fills it
+ */
+export async function setScheduleEntry(kind: ScheduleKind, date: DateKey, itemId: number | null) {
+  if (itemId === null) {
+    await prisma.scheduleEntry.deleteMany({ where: { kind, date } });
+  } else {
+    const item = kind === "contemplation" ? { contemplationId: itemId } : { intentionId: itemId };
+    await prisma.scheduleEntry.upsert({
+      where: { kind_date: { kind, date } },
+      create: { kind, date, ...item },
+      update: item,
+    });
+  }
+
+  if (date !== todayKey()) return;
+  if (kind === "contemplation") {
+    await syncFeaturedContemplation();
+  } else {
+    publishLiveEvent({ type: "intention.updated", id: itemId });
+  }
+}
+
+let syncing: Promise<unknown> = Promise.resolve();
+
+/**
+ * Keep Contemplation.featured, and with it the feature history behind the archive,
+ * on today's scheduled question. Runs whenever today is asked for or the schedule
+ * changes, so the switch lands with the first request after midnight. Calls are
+ * queued so two requests at midnight can't both open a feature period.
+ */
+export function syncFeaturedContemplation(): Promise<ScheduleDay> {
+  const run = syncing.then(applyFeaturedContemplation, applyFeaturedContemplation);
+  syncing = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Questions starred before there were feature periods and a schedule have no open
+ * period (the build's `db push` never ran the migrations' backfills). Open one from
+ * their last edit, the best date there is, and keep the first on the hero today
+ * unless something else is pinned, so the rotation takes over from tomorrow.
+ */
+async function adoptHandPicked(date: DateKey) {
+  const unrecorded = await prisma.contemplation.findMany({
+    where: { featured: true, features: { none: { endedAt: null } } },
+    orderBy: rotationOrder,
+    select: { id: true, active: true, updatedAt: true },
+  });
+  if (unrecorded.length === 0) return;
+
+  await prisma.contemplationFeature.createMany({
+    data: unrecorded.map((c) => ({ contemplationId: c.id, startedAt: c.updatedAt })),
+  });
+  const picked = unrecorded.find((c) => c.active);
+  if (picked) {
+    await prisma.scheduleEntry.createMany({
+      data: [{ kind: "contemplation", date, contemplationId: picked.id }],
+      skipDuplicates: true,
+    });
+  }
+  revalidateCollectivePages();
+}
+
+async function applyFeaturedContemplation(): Promise<ScheduleDay> {
+  const date = todayKey();
+  await adoptHandPicked(date);
+  const [today] = await getScheduleDays("contemplation", date, date);
+  const todayId = today.itemId;
+
+  const featured = await prisma.contemplation.findMany({ where: { featured: true }, select: { id: true } });
+  const stale = featured.filter((c) => c.id !== todayId);
+  const missing = todayId !== null && !featured.some((c) => c.id === todayId);
+  if (stale.length === 0 && !missing) return today;
+
+  for (const { id } of stale) {
+    await prisma.contemplation.update({ where: { id }, data: { featured: false } });
+    await recordFeaturing(id, false);
+  }
+  if (missing) {
+    await prisma.contemplation.update({ where: { id: todayId }, data: { featured: true } });
+    await recordFeaturing(todayId, true);
+  }
+  publishLiveEvent({ type: "contemplation.featured", id: todayId, featured: todayId !== null });
+  return today;
+}
+
+/**
+ * Today's question and intention in the site timezone, and when they next change
+ */
+export async function getToday(): Promise<Today> {
+  const now = new Date();
+  const timeZone = siteTimeZone();
+  const date = dateKeyInZone(now, timeZone);
+
+  const [questionDay, [intentionDay]] = await Promise.all([
+    syncFeaturedContemplation(),
+    getScheduleDays("intention", date, date),
+  ]);
+  const [contemplation, intention] = await Promise.all([
+    questionDay.itemId === null
+      ? null
+      : prisma.contemplation.findUnique({ where: { id: questionDay.itemId }, select: { id: true, question: true } }),
+    intentionDay.itemId === null
+      ? null
+      : prisma.dailyIntention.findUnique({ where: { id: intentionDay.itemId }, select: { id: true, text: true } }),
+  ]);
+
+  return {
+    date,
+    timeZone,
+    nextChangeAt: nextDayStart(now, timeZone).toISOString(),
+    contemplation: contemplation && { ...contemplation, source: questionDay.source ?? "rotation" },
+    intention: intention && { ...intention, source: intentionDay.source ?? "rotation" },
+  };
+}
+
+/**
+ * A month of days for the admin calendar, plus which of them are pinned
+ */
+export async function getScheduleMonth(kind: ScheduleKind, month: string) {
+  const { first, last } = monthRange(month);
+  return {
+    month,
+    today: todayKey(),
+    timeZone: siteTimeZone(),
+    days: await getScheduleDays(kind, first, last),
+  };
+}
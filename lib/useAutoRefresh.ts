@@ -1,8 +1,11 @@
 import { useEffect, useRef, useCallback } from 'react';
+import type { LiveEventType } from '@/lib/events';
+import { useLiveEvents } from '@/lib/useLiveEvents';
 
 /**
  * Custom hook for auto-refreshing data from CMS
- * Uses polling with smart interval - faster when window is focused, slower when hidden
+ * With `events`, refetches when /api/events pushes one of them (polling only while the stream is down).
+ * Otherwise uses polling with smart interval - faster when window is focused, slower when hidden
  * 
  * @param fetchFn - Async function to fetch data
  * @param options - Configuration options
@@ -11,6 +14,7 @@ export function useAutoRefresh<T>(
   fetchFn: () => Promise<T>,
   options: {
     enabled?: boolean;
+    events?: LiveEventType[];
     interval?: number; // Default 10 seconds
     backgroundInterval?: number; // Default 60 seconds when tab not focused
     onSuccess?: (data: T) => void;
@@ -19,6 +23,7 @@ export function useAutoRefresh<T>(
 ) {
   const {
     enabled = true,
+    events,
     interval = 10000, // 10 seconds default
     backgroundInterval = 60000, // 1 minute when backgrounded
     onSuccess,
@@ -39,9 +44,17 @@ export function useAutoRefresh<T>(
     }
   }, [fetchFn, onSuccess, onError]);
 
+  // Push-driven refresh
+  const pushed = !!events;
+  useLiveEvents(events ?? [], doFetch, { enabled: enabled && pushed });
+
+  useEffect(() => {
+    if (enabled && pushed) doFetch();
+  }, [enabled, pushed, doFetch]);
+
   // Setup polling
   useEffect(() => {
-    if (!enabled) return;
+    if (!enabled || pushed) return;
 
     const startPolling = () => {
       const currentInterval = isFocusedRef.current ? interval : backgroundInterval;
@@ -76,7 +89,7 @@ export function useAutoRefresh<T>(
       }
       document.removeEventListener('visibilitychange', handleVisibilityChange);
     };
-  }, [enabled, interval, backgroundInterval, doFetch]);
+  }, [enabled, pushed, interval, backgroundInterval, doFetch]);
 
   // Return function to manually trigger refresh
   return { refresh: doFetch };
@@ -0,0 +1,137 @@
+import { useEffect, useRef } from 'react';
+import type { LiveEvent, LiveEventType } from '@/lib/events';
+
+/**
+ * Client side of /api/events.
+ * One shared EventSource per tab; while it is down, subscribers fall back to
+ * polling and the stream reconnects with exponential backoff.
+ */
+
+// `null` means "resync": fired on each fallback poll and after reconnecting,
+// since events may have been missed in between
+export type LiveEventCallback = (event: LiveEvent | null) => void;
+
+interface Subscriber {
+  types: Set<LiveEventType>;
+  callback: LiveEventCallback;
+}
+
+const POLL_INTERVAL = 10000; // While disconnected
+const MIN_BACKOFF = 1000;
+const MAX_BACKOFF = 30000;
+
+const subscribers = new Set<Subscriber>();
+let source: EventSource | null = null;
+let attempts = 0;
+let wasDisconnected = false;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+
+function notify(type: LiveEventType | null, event: LiveEvent | null) {
+  subscribers.forEach((subscriber) => {
+    if (type === null || subscriber.types.has(type)) subscriber.callback(event);
+  });
+}
+
+function startPolling() {
+  if (pollTimer) return;
+  pollTimer = setInterval(() => notify(null, null), POLL_INTERVAL);
+}
+
+function stopPolling() {
+  if (pollTimer) clearInterval(pollTimer);
+  pollTimer = null;
+}
+
+function connect() {
+  if (source || subscribers.size === 0) return;
+  if (typeof EventSource === 'undefined') {
+    startPolling();
+    return;
+  }
+
+  source = new EventSource('/api/events');
+
+  source.onopen = () => {
+    attempts = 0;
+    stopPolling();
+    if (wasDisconnected) notify(null, null);
+    wasDisconnected = false;
+  };
+
+  // Listen per type: the stream sends named events
+  for (const type of new Set([...subscribers].flatMap((s) => [...s.types]))) {
+    source.addEventListener(type, (message) => {
+      try {
+        notify(type, JSON.parse((message as MessageEvent).data));
+      } catch (error) {
+        console.error('Bad live event:', error);
+      }
+    });
+  }
+
+  source.onerror = () => {
+    // Take over reconnecting so the delay can back off
+    source?.close();
+    source = null;
+    wasDisconnected = true;
+    startPolling();
+
+    const delay = Math.min(MIN_BACKOFF * 2 ** attempts, MAX_BACKOFF) * (0.5 + Math.random() / 2);
+    attempts++;
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      connect();
+    }, delay);
+  };
+}
+
+function disconnect() {
+  source?.close();
+  source = null;
+  if (reconnectTimer) clearTimeout(reconnectTimer);
+  reconnectTimer = null;
+  stopPolling();
+  attempts = 0;
+  wasDisconnected = false;
+}
+
+/**
+ * Call `callback` whenever one of `types` is pushed (or on fallback polls).
+ * Returns the unsubscribe function, so it can be returned from a useEffect.
+ */
+export function subscribeLiveEvents(types: LiveEventType[], callback: LiveEventCallback): () => void {
+  const subscriber: Subscriber = { types: new Set(types), callback };
+  subscribers.add(subscriber);
+
+  // A new type needs a listener on the stream; reopening is the simplest way to add one
+  if (source && types.some((type) => ![...subscribers].some((s) => s !== subscriber && s.types.has(type)))) {
+    source.close();
+    source = null;
+  }
+  connect();
+
+  return () => {
+    subscribers.delete(subscriber);
+    if (subscribers.size === 0) disconnect();
+  };
+}
+
+/**
+ * Hook form of subscribeLiveEvents; the latest callback is always used
+ */
+export function useLiveEvents(
+  types: LiveEventType[],
+  callback: LiveEventCallback,
+  options: { enabled?: boolean } = {}
+) {
+  const { enabled = true } = options;
+  const callbackRef = useRef(callback);
+  callbackRef.current = callback;
+  const typesKey = types.join(',');
+
+  useEffect(() => {
+    if (!enabled) return;
+    return subscribeLiveEvents(typesKey.split(',') as LiveEventType[], (event) => callbackRef.current(event));
+  }, [enabled, typesKey]);
+}
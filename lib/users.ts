@@ -0,0 +1,24 @@
+import prisma from "@/lib/prisma";
+
+// ═══════════════════════════════════════════════════════════════════
+// ADMIN ACCOUNT HELPERS - Shared by the /api/users routes
+// ═══════════════════════════════════════════════════════════════════
+
+// Never send password hashes to the client
+export const USER_SELECT = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+/**
+ * At least one owner must always remain, or nobody could manage accounts
+ */
+export async function isLastOwner(id: number): Promise<boolean> {
+  const user = await prisma.user.findUnique({ where: { id } });
+  if (user?.role !== "owner") return false;
+  return (await prisma.user.count({ where: { role: "owner" } })) <= 1;
+}
@@ -0,0 +1,29 @@
+// ═══════════════════════════════════════════════════════════════════
+// VIEWS - The six top-level routes Nav switches between
+// Keys 1–6 follow this order; each view is a route under app/(views)
+// ═══════════════════════════════════════════════════════════════════
+
+export type ViewId = "now" | "writing" | "work" | "collective" | "about" | "voices";
+
+export interface ViewRoute {
+  id: ViewId;
+  href: string;
+}
+
+export const VIEWS: ViewRoute[] = [
+  { id: "now", href: "/" },
+  { id: "writing", href: "/writing" },
+  { id: "work", href: "/work" },
+  { id: "collective", href: "/collective" },
+  { id: "about", href: "/about" },
+  { id: "voices", href: "/voices" },
+];
+
+/**
+ * The view a path belongs to; detail pages such as /writing/<slug> count as their list's view
+ */
+export function viewForPath(pathname: string): ViewId | null {
+  if (pathname === "/") return "now";
+  const segment = pathname.split("/")[1];
+  return VIEWS.find((view) => view.id === segment)?.id ?? null;
+}
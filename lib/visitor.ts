@@ -0,0 +1,57 @@
+import type { NextRequest, NextResponse } from "next/server";
+import { signToken, verifyToken } from "@/lib/session";
+
+// ═══════════════════════════════════════════════════════════════════
+// ANONYMOUS VISITORS - A random id in a signed cookie, no accounts
+// Lets public features (votes) count each browser once
+// ═══════════════════════════════════════════════════════════════════
+
+export const VISITOR_COOKIE = "stoic_visitor";
+export const VISITOR_DURATION = 365 * 24 * 60 * 60 * 1000; // 1 year
+
+interface VisitorPayload {
+  kind: "visitor";
+  id: string;
+  expiresAt: number;
+}
+
+export interface Visitor {
+  id: string;
+  // Set when the visitor is new and the cookie still has to be sent
+  token: string | null;
+  expiresAt: number;
+}
+
+/**
+ * The visitor id from the request's cookie, or null when missing or forged
+ */
+export async function getVisitorId(request: NextRequest): Promise<string | null> {
+  const payload = await verifyToken<VisitorPayload>(request.cookies.get(VISITOR_COOKIE)?.value);
+  return payload?.kind === "visitor" ? payload.id : null;
+}
+
+/**
+ * The request's visitor, minting a fresh id when it has none
+ */
+export async function getOrCreateVisitor(request: NextRequest): Promise<Visitor> {
+  const id = await getVisitorId(request);
+  if (id) return { id, token: null, expiresAt: 0 };
+
+  const expiresAt = Date.now() + VISITOR_DURATION;
+  const visitor = { kind: "visitor" as const, id: crypto.randomUUID(), expiresAt };
+  return { id: visitor.id, token: await signToken(visitor), expiresAt };
+}
+
+/**
+ * Attach the cookie for a newly minted visitor (no-op for known ones)
+ */
+export function setVisitorCookie(response: NextResponse, visitor: Visitor) {
+  if (!visitor.token) return;
+  response.cookies.set(VISITOR_COOKIE, visitor.token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    expires: new Date(visitor.expiresAt),
+  });
+}
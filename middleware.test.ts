@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import type { SessionPayload } from "@/lib/session";
+
+const auth = vi.hoisted(() => ({ session: null as SessionPayload | null }));
+
+vi.mock("@/lib/session", () => ({ getRequestSession: async () => auth.session }));
+
+const { middleware } = await import("./middleware");
+
+function request(method: string, path: string) {
+  return middleware(new NextRequest(`http://localhost${path}`, { method }));
+}
+
+const editor: SessionPayload = { sub: "1", name: "Editor", role: "editor", expiresAt: Date.now() + 60_000 };
+
+beforeEach(() => {
+  auth.session = null;
+});
+
+describe("middleware", () => {
+  it("lets visitors make the public writes", async () => {
+    for (const [method, path] of [
+      ["POST", "/api/auth/login"],
+      ["POST", "/api/answers"],
+      ["POST", "/api/contemplations/4/vote"],
+      ["POST", "/api/answers/9/reactions"],
+      ["POST", "/api/oracle"],
+      ["DELETE", "/api/oracle"],
+    ]) {
+      expect((await request(method, path)).status, `${method} ${path}`).toBe(200);
+    }
+  });
+
+  it("turns away every other anonymous write", async () => {
+    for (const [method, path] of [
+      ["POST", "/api/articles"],
+      ["PUT", "/api/answers/9"],
+      ["DELETE", "/api/answers/9/reactions"],
+      ["POST", "/api/contemplations/4/vote/extra"],
+      ["DELETE", "/api/notes/3"],
+    ]) {
+      expect((await request(method, path)).status, `${method} ${path}`).toBe(401);
+    }
+  });
+
+  it("keeps private reads behind a session", async () => {
+    for (const path of ["/api/users", "/api/notes", "/api/notes/3", "/api/articles/5/revisions", "/api/answers/log", "/api/oracle/settings"]) {
+      expect((await request("GET", path)).status, path).toBe(401);
+    }
+    expect((await request("GET", "/api/articles")).status).toBe(200);
+    expect((await request("GET", "/api/answers")).status).toBe(200);
+  });
+
+  it("checks the role's permission for the section", async () => {
+    auth.session = editor;
+    expect((await request("PUT", "/api/articles/5")).status).toBe(200);
+    expect((await request("POST", "/api/answers/bulk")).status).toBe(403);
+    expect((await request("GET", "/api/users")).status).toBe(403);
+  });
+
+  it("keeps the moderation queues to roles that moderate answers", async () => {
+    for (const query of ["pending=true", "rejected=true", "all=true"]) {
+      auth.session = null;
+      expect((await request("GET", `/api/answers?${query}`)).status, query).toBe(401);
+      auth.session = editor;
+      expect((await request("GET", `/api/answers?${query}`)).status, query).toBe(403);
+      auth.session = { ...editor, role: "moderator" };
+      expect((await request("GET", `/api/answers?${query}`)).status, query).toBe(200);
+    }
+    auth.session = editor;
+    expect((await request("GET", "/api/answers?pending=false")).status).toBe(200);
+  });
+
+  it("sends signed-out admin pages to the login", async () => {
+    const response = await request("GET", "/admin/articles");
+    expect(response.status).toBe(307);
+    expect(response.headers.get("location")).toBe("http://localhost/admin/login");
+  });
+});
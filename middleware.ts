@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRequestSession } from "@/lib/session";
+import { can, permissionForPath } from "@/lib/roles";
+
+// ═══════════════════════════════════════════════════════════════════
+// AUTH GUARD - Protects /admin pages and every mutating /api route
+// "Guard your inner citadel." - Marcus Aurelius
+// ═══════════════════════════════════════════════════════════════════
+
+const MUTATING_METHODS = ["POST", "PUT", "PATCH", "DELETE"];
+
+// Writes that anonymous visitors are allowed to make
+const PUBLIC_WRITES: Array<{ method: string; path: RegExp }> = [
+  { method: "POST", path: /^\/api\/auth\/(login|logout)$/ },
+  { method: "POST", path: /^\/api\/answers$/ },
+  { method: "POST", path: /^\/api\/contemplations\/\d+\/vote$/ },
+  { method: "POST", path: /^\/api\/answers\/\d+\/reactions$/ },
+  { method: "POST", path: /^\/api\/oracle$/ },
+  { method: "DELETE", path: /^\/api\/oracle$/ },
+];
+
+// Reads that expose private data and therefore need a session too
+const PRIVATE_READS: RegExp[] = [
+  /^\/api\/users(\/|$)/,
+  /^\/api\/notes(\/|$)/,
+  /^\/api\/articles\/[^/]+\/revisions(\/|$)/,
+  /^\/api\/banned-words(\/|$)/,
+  /^\/api\/answers\/log$/,
+  /^\/api\/(contemplations|intentions)\/schedule$/,
+  /^\/api\/oracle\/settings$/,
+];
+
+// The moderation queues share the public answers path and differ by query
+const QUEUE_PARAMS = ["pending", "rejected", "all"];
+
+function isQueueRead(request: NextRequest): boolean {
+  const { pathname, searchParams } = request.nextUrl;
+  return pathname === "/api/answers" && QUEUE_PARAMS.some((param) => searchParams.get(param) === "true");
+}
+
+function isPublicWrite(method: string, pathname: string): boolean {
+  return PUBLIC_WRITES.some((rule) => rule.method === method && rule.path.test(pathname));
+}
+
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  const session = await getRequestSession(request);
+
+  if (pathname.startsWith("/api/")) {
+    const isWrite = MUTATING_METHODS.includes(request.method);
+    const isPrivateRead = PRIVATE_READS.some((path) => path.test(pathname)) || isQueueRead(request);
+
+    if (!isWrite && !isPrivateRead) return NextResponse.next();
+    if (isWrite && isPublicWrite(request.method, pathname)) return NextResponse.next();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const permission = permissionForPath(pathname);
+    if (permission && !can(session.role, permission)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    return NextResponse.next();
+  }
+
+  // Admin pages
+  if (pathname === "/admin/login") {
+    return session ? NextResponse.redirect(new URL("/admin", request.url)) : NextResponse.next();
+  }
+  if (!session) {
+    return NextResponse.redirect(new URL("/admin/login", request.url));
+  }
+  const permission = permissionForPath(pathname);
+  if (permission && !can(session.role, permission)) {
+    return NextResponse.redirect(new URL("/admin", request.url));
+  }
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ["/admin/:path*", "/api/:path*"],
+  // Sessions are checked against the User row (lib/session.ts)
+  runtime: "nodejs",
+};
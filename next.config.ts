@@ -1,7 +1,24 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // OG images read their fonts from node_modules at runtime
+  outputFileTracingIncludes: {
+    "/og/[type]/[id]": [
+      "./node_modules/@fontsource/eb-garamond/files/*.woff",
+      "./node_modules/@fontsource/jetbrains-mono/files/*.woff",
+    ],
+  },
+  // Views used to live at /?view=<id>; keep the old links working
+  async redirects() {
+    return [
+      {
+        source: "/",
+        has: [{ type: "query", key: "view", value: "(?<view>writing|work|collective|about|voices)" }],
+        destination: "/:view",
+        permanent: true,
+      },
+    ];
+  },
 };
 
 export default nextConfig;
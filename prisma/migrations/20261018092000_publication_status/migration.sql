@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "Article" ADD COLUMN     "publishStatus" TEXT NOT NULL DEFAULT 'published',
+ADD COLUMN     "publishAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "publishStatus" TEXT NOT NULL DEFAULT 'published',
+ADD COLUMN     "publishAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Article_publishStatus_publishAt_idx" ON "Article"("publishStatus", "publishAt");
+
+-- CreateIndex
+CREATE INDEX "Project_publishStatus_publishAt_idx" ON "Project"("publishStatus", "publishAt");
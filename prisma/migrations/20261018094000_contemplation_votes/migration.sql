@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "ContemplationVote" (
+    "id" SERIAL NOT NULL,
+    "contemplationId" INTEGER NOT NULL,
+    "visitorId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ContemplationVote_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ContemplationVote_contemplationId_visitorId_key" ON "ContemplationVote"("contemplationId", "visitorId");
+
+-- AddForeignKey
+ALTER TABLE "ContemplationVote" ADD CONSTRAINT "ContemplationVote_contemplationId_fkey" FOREIGN KEY ("contemplationId") REFERENCES "Contemplation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "StickyNote" ADD COLUMN "spamScore" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "spamReasons" TEXT,
+ADD COLUMN "flagged" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "BannedWord" (
+    "id" SERIAL NOT NULL,
+    "word" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BannedWord_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BannedWord_word_key" ON "BannedWord"("word");
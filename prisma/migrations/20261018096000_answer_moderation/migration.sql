@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "StickyNote" ADD COLUMN "rejectedAt" TIMESTAMP(3),
+ADD COLUMN "rejectionReason" TEXT;
+
+-- CreateTable
+CREATE TABLE "ModerationLog" (
+    "id" SERIAL NOT NULL,
+    "action" TEXT NOT NULL,
+    "noteId" INTEGER NOT NULL,
+    "excerpt" TEXT NOT NULL,
+    "reason" TEXT,
+    "moderatorId" INTEGER,
+    "moderatorName" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ModerationLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ModerationLog_createdAt_idx" ON "ModerationLog"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ModerationLog" ADD CONSTRAINT "ModerationLog_moderatorId_fkey" FOREIGN KEY ("moderatorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
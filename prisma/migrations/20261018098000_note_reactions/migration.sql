@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "NoteReaction" (
+    "id" SERIAL NOT NULL,
+    "noteId" INTEGER NOT NULL,
+    "visitorId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "NoteReaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NoteReaction_noteId_visitorId_kind_key" ON "NoteReaction"("noteId", "visitorId", "kind");
+
+-- CreateIndex
+CREATE INDEX "NoteReaction_noteId_kind_idx" ON "NoteReaction"("noteId", "kind");
+
+-- AddForeignKey
+ALTER TABLE "NoteReaction" ADD CONSTRAINT "NoteReaction_noteId_fkey" FOREIGN KEY ("noteId") REFERENCES "StickyNote"("id") ON DELETE CASCADE ON UPDATE CASCADE;
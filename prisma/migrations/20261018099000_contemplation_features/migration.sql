@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "ContemplationFeature" (
+    "id" SERIAL NOT NULL,
+    "contemplationId" INTEGER NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "endedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ContemplationFeature_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ContemplationFeature_contemplationId_startedAt_idx" ON "ContemplationFeature"("contemplationId", "startedAt");
+
+-- AddForeignKey
+ALTER TABLE "ContemplationFeature" ADD CONSTRAINT "ContemplationFeature_contemplationId_fkey" FOREIGN KEY ("contemplationId") REFERENCES "Contemplation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "Contemplation" ADD COLUMN "inRotation" BOOLEAN NOT NULL DEFAULT true;
+
+-- AlterTable
+ALTER TABLE "DailyIntention" ADD COLUMN "inRotation" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateTable
+CREATE TABLE "ScheduleEntry" (
+    "id" SERIAL NOT NULL,
+    "kind" TEXT NOT NULL,
+    "date" TEXT NOT NULL,
+    "contemplationId" INTEGER,
+    "intentionId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ScheduleEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ScheduleEntry_kind_date_key" ON "ScheduleEntry"("kind", "date");
+
+-- AddForeignKey
+ALTER TABLE "ScheduleEntry" ADD CONSTRAINT "ScheduleEntry_contemplationId_fkey" FOREIGN KEY ("contemplationId") REFERENCES "Contemplation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScheduleEntry" ADD CONSTRAINT "ScheduleEntry_intentionId_fkey" FOREIGN KEY ("intentionId") REFERENCES "DailyIntention"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "OracleMessage" (
+    "id" SERIAL NOT NULL,
+    "visitorId" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "citations" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OracleMessage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OracleMessage_visitorId_createdAt_idx" ON "OracleMessage"("visitorId", "createdAt");
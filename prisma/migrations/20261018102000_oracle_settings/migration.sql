@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "OracleSettings" (
+    "id" SERIAL NOT NULL,
+    "persona" TEXT NOT NULL,
+    "systemPrompt" TEXT NOT NULL,
+    "useModel" BOOLEAN NOT NULL DEFAULT true,
+    "temperature" DOUBLE PRECISION NOT NULL DEFAULT 0.7,
+    "maxTokens" INTEGER NOT NULL DEFAULT 400,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OracleSettings_pkey" PRIMARY KEY ("id")
+);
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "GlossaryTerm" (
+    "id" SERIAL NOT NULL,
+    "term" TEXT NOT NULL,
+    "aliases" TEXT NOT NULL DEFAULT '[]',
+    "origin" TEXT,
+    "definition" TEXT NOT NULL,
+    "quoteId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "GlossaryTerm_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GlossaryTerm_term_key" ON "GlossaryTerm"("term");
+
+-- AddForeignKey
+ALTER TABLE "GlossaryTerm" ADD CONSTRAINT "GlossaryTerm_quoteId_fkey" FOREIGN KEY ("quoteId") REFERENCES "Quote"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -1,5 +1,6 @@
 import "dotenv/config";
 import { PrismaClient } from "@prisma/client";
+import { glossarySeedRows } from "../lib/glossarySeed";
 
 const prisma = new PrismaClient();
 
@@ -7,6 +8,7 @@ async function main() {
   console.log("🌱 Seeding database...");
 
   // Clear existing data
+  await prisma.glossaryTerm.deleteMany();
   await prisma.stickyNote.deleteMany();
   await prisma.quote.deleteMany();
   await prisma.project.deleteMany();
@@ -206,6 +208,11 @@ async function main() {
   }
   console.log(`✓ ${notes.length} sticky notes created`);
 
+  // Seed Glossary
+  const terms = glossarySeedRows();
+  await prisma.glossaryTerm.createMany({ data: terms });
+  console.log(`✓ ${terms.length} glossary terms created`);
+
   console.log("✅ Database seeded successfully!");
 }
 
@@ -0,0 +1,17 @@
+// Generate an ADMIN_PASSWORD_HASH value for .env
+// Usage: npm run hash-password -- "your password"
+// Output format matches hashPassword() in lib/password.ts
+
+import { pbkdf2Sync, randomBytes } from "node:crypto";
+
+const password = process.argv[2];
+if (!password) {
+  console.error('Usage: npm run hash-password -- "your password"');
+  process.exit(1);
+}
+
+const iterations = 310000;
+const salt = randomBytes(16);
+const hash = pbkdf2Sync(password, salt, iterations, 32, "sha256");
+
+console.log(`pbkdf2_sha256:${iterations}:${salt.toString("base64")}:${hash.toString("base64")}`);